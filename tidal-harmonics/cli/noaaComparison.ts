@@ -0,0 +1,90 @@
+// Comparison with NOAA's published predictions
+// Fetches the high and low waters CO-OPS publishes for a station and pairs
+// them with the app's, so the times, heights and higher/lower labels can
+// be checked against the official tables rather than against the engine.
+
+import type { TideStation } from '@/types/harmonics';
+import { classifyExtremes, splitTidalDays } from '@/lib/harmonics';
+import type { TideExtreme } from '@/lib/harmonics';
+
+const DATAGETTER_URL = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
+
+// A published tide further than this from any of ours of the same type is unmatched
+const MATCH_WINDOW_MS = 90 * 60000;
+
+export interface ExtremeComparison {
+  published: TideExtreme;
+  predicted: TideExtreme | null;
+  minutes: number | null; // predicted minus published
+  height: number | null; // m, predicted minus published
+  labelMatches: boolean | null; // null on the partial tidal days at either end
+}
+
+interface DatagetterPredictions {
+  predictions?: { t: string; v: string; type: 'H' | 'L' }[];
+  error?: { message: string };
+}
+
+const datagetterTime = (date: Date) => {
+  const iso = date.toISOString();
+  return `${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)} ${iso.slice(11, 16)}`;
+};
+
+/**
+ * NOAA's published high and low waters in [start, end], above MLLW in meters
+ * Labelled with the same tidal-day rule as the app's, from NOAA's heights.
+ */
+export async function fetchPublishedExtremes(station: TideStation, start: Date, end: Date): Promise<TideExtreme[]> {
+  const params = new URLSearchParams({
+    product: 'predictions',
+    application: 'tidal-harmonics',
+    station: station.id,
+    begin_date: datagetterTime(start),
+    end_date: datagetterTime(end),
+    datum: 'MLLW',
+    time_zone: 'gmt',
+    units: 'metric',
+    interval: 'hilo',
+    format: 'json',
+  });
+  const response = await fetch(`${DATAGETTER_URL}?${params}`);
+  if (!response.ok) throw new Error(`NOAA CO-OPS answered ${response.status} ${response.statusText}`);
+  const body = (await response.json()) as DatagetterPredictions;
+  if (!body.predictions) throw new Error(`NOAA CO-OPS: ${body.error?.message ?? 'no predictions returned'}`);
+
+  const extremes = body.predictions.map(
+    (p): TideExtreme => ({
+      time: new Date(`${p.t.replace(' ', 'T')}:00Z`),
+      height: Number(p.v),
+      type: p.type === 'H' ? 'high' : 'low',
+    })
+  );
+  return classifyExtremes(station, extremes);
+}
+
+/**
+ * Pair each published tide with the nearest predicted one of the same type
+ * Labels match when both are unlabelled (a station without a diurnal
+ * inequality) or carry the same higher/lower label. The first and last
+ * tidal days may be cut short by the span, so their labels aren't compared.
+ */
+export function compareExtremes(published: TideExtreme[], predicted: TideExtreme[]): ExtremeComparison[] {
+  const days = splitTidalDays(published);
+  const partial = new Set([...(days[0] ?? []), ...(days.length > 1 ? days[days.length - 1]! : [])]);
+  return published.map((p) => {
+    let match: TideExtreme | null = null;
+    for (const e of predicted) {
+      const gap = Math.abs(e.time.getTime() - p.time.getTime());
+      if (e.type === p.type && gap <= MATCH_WINDOW_MS) {
+        if (!match || gap < Math.abs(match.time.getTime() - p.time.getTime())) match = e;
+      }
+    }
+    return {
+      published: p,
+      predicted: match,
+      minutes: match ? (match.time.getTime() - p.time.getTime()) / 60000 : null,
+      height: match ? match.height - p.height : null,
+      labelMatches: partial.has(p) ? null : match !== null && match.classification === p.classification,
+    };
+  });
+}
@@ -0,0 +1,49 @@
+// Output formats for the command line
+// Each command builds a table of rows; CSV and plain tables print the rows,
+// JSON prints the command's own document.
+
+export type OutputFormat = 'table' | 'csv' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'csv', 'json'];
+
+export interface Table {
+  columns: string[];
+  rows: (string | number)[][];
+  // Columns right-aligned in plain tables
+  numeric?: boolean[];
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: Table): string {
+  return [table.columns, ...table.rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Columns padded to their widest cell, with a rule under the header
+ */
+export function toPlainTable(table: Table): string {
+  const cells = [table.columns, ...table.rows].map((row) => row.map(String));
+  const widths = table.columns.map((_, i) => Math.max(...cells.map((row) => row[i]?.length ?? 0)));
+  const line = (row: string[]) =>
+    row
+      .map((cell, i) => (table.numeric?.[i] ? cell.padStart(widths[i]!) : cell.padEnd(widths[i]!)))
+      .join('  ')
+      .trimEnd();
+  const [header, ...body] = cells;
+  return [line(header!), widths.map((w) => '-'.repeat(w)).join('  '), ...body.map(line)].join('\n') + '\n';
+}
+
+export function render(format: OutputFormat, table: Table, document: unknown): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(table);
+    case 'json':
+      return JSON.stringify(document, null, 2) + '\n';
+    case 'table':
+      return toPlainTable(table);
+  }
+}
@@ -0,0 +1,114 @@
+// Station lookup for the command line and the local API server
+// Stations come from the same catalog regions and harmonics importers as
+// the app, and are referenced to a tidal datum the same way the app's store
+// does, so heights match what the app shows.
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { TideStation, TidalDatumCode } from '@/types/harmonics';
+import { STATION_INDEX } from '@/data/stationIndex';
+import type { StationSummary } from '@/data/stationIndex';
+import { subordinateStationsFor } from '@/data/subordinateStations';
+import { catalogRegionOf, loadRegionStations } from '@/lib/stationCatalog';
+import { isImportComplete, parseStationFile, toTideStation } from '@/lib/stationImport';
+import type { StationImportFormat } from '@/lib/stationImport';
+import { defaultDatumFor, referenceStation, NTDE_START_YEAR, NTDE_END_YEAR } from '@/lib/datums';
+import { runPredictionJob } from '@/lib/predictionJobs';
+import type { EphemerisMode } from '@/lib/astronomical';
+
+export class StationLookupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StationLookupError';
+  }
+}
+
+export interface StationFileOptions {
+  format?: StationImportFormat;
+  units?: 'meters' | 'feet';
+  // For files that don't give one (NOAA CSV), as the app's import form asks
+  position?: { lat: number; lon: number };
+}
+
+/**
+ * A catalog station by id, with its region loaded
+ * Subordinate stations are built from their reference station.
+ */
+export async function loadCatalogStation(id: string): Promise<TideStation> {
+  const region = catalogRegionOf(id);
+  if (!region) throw new StationLookupError(`Unknown station "${id}"; run "tides stations" for the list`);
+  const loaded = await loadRegionStations(region);
+  const station = [...loaded, ...subordinateStationsFor(loaded)].find((s) => s.id === id);
+  if (!station) throw new StationLookupError(`Station "${id}" is missing from its region`);
+  return station;
+}
+
+/**
+ * Every complete station in a harmonic constants file
+ * Stations still missing a position or constituents are skipped, as the
+ * app's importer won't save them either.
+ */
+export async function loadStationFile(path: string, options: StationFileOptions = {}): Promise<TideStation[]> {
+  const text = await readFile(path, 'utf8');
+  const { position, ...parseOptions } = options;
+  const { stations } = parseStationFile(text, basename(path), parseOptions);
+  const complete = stations
+    .map((s) => (position && (s.lat === null || s.lon === null) ? { ...s, ...position } : s))
+    .filter(isImportComplete);
+  if (complete.length === 0) throw new StationLookupError(`No complete stations in ${path}; give --lat and --lon if it has no position`);
+  return complete.map(toTideStation);
+}
+
+/**
+ * Pick one station from a file by id or name
+ * A file holding a single station needs no query.
+ */
+export function pickFileStation(stations: TideStation[], query: string | undefined): TideStation {
+  if (!query) {
+    if (stations.length === 1) return stations[0]!;
+    throw new StationLookupError(
+      `The file holds ${stations.length} stations; name one of: ${stations.map((s) => s.name).join(', ')}`
+    );
+  }
+  const needle = query.toLowerCase();
+  const station =
+    stations.find((s) => s.id.toLowerCase() === needle) ?? stations.find((s) => s.name.toLowerCase() === needle);
+  if (!station) throw new StationLookupError(`No station "${query}" in the file`);
+  return station;
+}
+
+/**
+ * Catalog summaries, optionally limited to one region
+ */
+export function listCatalogStations(region?: string): StationSummary[] {
+  return region ? STATION_INDEX.filter((s) => s.region === region) : STATION_INDEX;
+}
+
+/**
+ * A station with its tidal datums derived over the NTDE, as the app does
+ * for every station it shows (about a second of work)
+ */
+export async function deriveDatums(station: TideStation, ephemeris?: EphemerisMode): Promise<TideStation> {
+  const result = await runPredictionJob({
+    kind: 'datums',
+    station,
+    startYear: NTDE_START_YEAR,
+    endYear: NTDE_END_YEAR,
+    ...(ephemeris && { ephemeris }),
+  });
+  if (result.kind !== 'datums') throw new Error(`Unexpected ${result.kind} result`);
+  return { ...station, datums: result.datums };
+}
+
+/**
+ * A station re-expressed relative to one of its tidal datums, by default
+ * the one the app would show
+ */
+export async function withDatum(
+  station: TideStation,
+  datum: TidalDatumCode | undefined,
+  ephemeris?: EphemerisMode
+): Promise<TideStation> {
+  const derived = await deriveDatums(station, ephemeris);
+  return referenceStation(derived, datum ?? defaultDatumFor(derived));
+}
@@ -0,0 +1,437 @@
+// Headless tide predictor
+// Runs the app's own prediction jobs (lib/predictionJobs) on catalog
+// stations or imported harmonics files, for cron jobs and data pipelines
+// that need the same numbers the app shows.
+
+import { parseArgs } from 'node:util';
+import type { TideStation, TidalDatumCode } from '@/types/harmonics';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { STATION_REGIONS } from '@/data/stationIndex';
+import { getTidalTypeLabel } from '@/data/stations';
+import { runPredictionJob } from '@/lib/predictionJobs';
+import type { PredictionJob, PredictionJobResults } from '@/lib/predictionJobs';
+import { isTidalDatumCode, TIDAL_DATUMS, NTDE_START_YEAR, NTDE_END_YEAR } from '@/lib/datums';
+import type { EphemerisMode } from '@/lib/astronomical';
+import { isValidTimeZone, resolveTimeZone, zonedTime } from '@/lib/timeZones';
+import type { ZonedTime } from '@/lib/timeZones';
+import { summarizeStation } from '@/lib/stationCatalog';
+import { STATION_IMPORT_FORMATS } from '@/lib/stationImport';
+import type { StationImportFormat } from '@/lib/stationImport';
+import type { TideExtreme } from '@/lib/harmonics';
+import { convertHeight, getHeightUnit } from '@/lib/units';
+import { compareExtremes, fetchPublishedExtremes } from './noaaComparison';
+import { OUTPUT_FORMATS, render } from './output';
+import type { Table } from './output';
+import {
+  listCatalogStations,
+  loadCatalogStation,
+  loadStationFile,
+  pickFileStation,
+  withDatum,
+} from './stations';
+
+const DEFAULT_INTERVAL_MINUTES = 6;
+
+const USAGE = `Usage: tides <command> [station] [options]
+
+Commands:
+  predict <station>     Heights at a regular interval
+  extremes <station>    High and low waters
+  datums <station>      Tidal datums over the NTDE (${NTDE_START_YEAR}-${NTDE_END_YEAR})
+  stations              Catalog stations, or the stations in --file
+  compare <station>     Check high and low waters and their higher/lower
+                        labels against NOAA's published predictions (fetched
+                        from CO-OPS, on MLLW) over whole tidal days, so give
+                        at least 3 days; exits 1 if a label differs
+
+<station> is a catalog id (e.g. 9414290), or with --file an id or name
+from the file (optional when it holds one station).
+
+Options:
+  -f, --file <path>         Harmonic constants file instead of the catalog
+      --import-format <f>   ${STATION_IMPORT_FORMATS.map((f) => f.format).join(' | ')} (default: detected)
+      --import-units <u>    meters | feet, where the file doesn't say (default: meters)
+      --lat <deg>           Latitude for file stations without a position
+      --lon <deg>           Longitude for them, e.g. --lon=-122.47
+  -s, --start <date>        First day or time, YYYY-MM-DD[THH:mm] in the time zone (default: today)
+  -e, --end <date>          Last day (inclusive) or end time (default: start + --days)
+  -d, --days <n>            Days to cover without --end (default: 1)
+  -i, --interval <min>      Minutes between heights (default: ${DEFAULT_INTERVAL_MINUTES})
+  -z, --tz <zone>           station | utc | local | an IANA zone (default: station)
+  -u, --units <system>      metric | imperial (default: metric)
+      --datum <code>        ${TIDAL_DATUMS.map((d) => d.code).join(' | ')} (default: the station's chart datum)
+      --ephemeris <mode>    polynomial | precise (default: polynomial)
+      --region <region>     stations: only ${STATION_REGIONS.map((r) => r.region).join(' | ')}
+  -o, --format <format>     ${OUTPUT_FORMATS.join(' | ')} (default: table)
+  -h, --help                Show this help
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function oneOf<T extends string>(value: string | undefined, allowed: readonly T[], option: string): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${option} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function positiveNumber(value: string | undefined, option: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!(n > 0)) throw new UsageError(`--${option} must be a positive number`);
+  return n;
+}
+
+function exitWithUsage(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+const { values, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        file: { type: 'string', short: 'f' },
+        'import-format': { type: 'string' },
+        'import-units': { type: 'string' },
+        lat: { type: 'string' },
+        lon: { type: 'string' },
+        start: { type: 'string', short: 's' },
+        end: { type: 'string', short: 'e' },
+        days: { type: 'string', short: 'd' },
+        interval: { type: 'string', short: 'i' },
+        tz: { type: 'string', short: 'z' },
+        units: { type: 'string', short: 'u' },
+        datum: { type: 'string' },
+        ephemeris: { type: 'string' },
+        region: { type: 'string' },
+        format: { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    return exitWithUsage(error instanceof Error ? error.message : String(error));
+  }
+})();
+
+const [command, stationQuery] = positionals;
+
+const { format, units, ephemeris } = (() => {
+  try {
+    return {
+      format: oneOf(values.format, OUTPUT_FORMATS, 'format') ?? 'table',
+      units: oneOf<UnitSystem>(values.units, ['metric', 'imperial'], 'units') ?? 'metric',
+      ephemeris: oneOf<EphemerisMode>(values.ephemeris, ['polynomial', 'precise'], 'ephemeris'),
+    };
+  } catch (error) {
+    return exitWithUsage(error instanceof Error ? error.message : String(error));
+  }
+})();
+
+function requestedDatum(): TidalDatumCode | undefined {
+  if (values.datum === undefined) return undefined;
+  const code = values.datum.toUpperCase();
+  if (!isTidalDatumCode(code)) throw new UsageError(`--datum must be one of ${TIDAL_DATUMS.map((d) => d.code).join(', ')}`);
+  return code;
+}
+
+function fileOptions() {
+  const importFormat = oneOf(
+    values['import-format'],
+    STATION_IMPORT_FORMATS.map((f) => f.format) as StationImportFormat[],
+    'import-format'
+  );
+  const importUnits = oneOf(values['import-units'], ['meters', 'feet'] as const, 'import-units');
+  const position = values.lat !== undefined && values.lon !== undefined ? { lat: Number(values.lat), lon: Number(values.lon) } : null;
+  if (position && !(Math.abs(position.lat) <= 90 && Math.abs(position.lon) <= 180)) {
+    throw new UsageError('--lat and --lon must be degrees of latitude and longitude');
+  }
+  return {
+    ...(importFormat && { format: importFormat }),
+    ...(importUnits && { units: importUnits }),
+    ...(position && { position }),
+  };
+}
+
+async function resolveStation(): Promise<TideStation> {
+  if (values.file) return pickFileStation(await loadStationFile(values.file, fileOptions()), stationQuery);
+  if (!stationQuery) throw new UsageError(`${command} needs a station id`);
+  return loadCatalogStation(stationQuery);
+}
+
+function timeZoneFor(station: TideStation): ZonedTime {
+  const zone = values.tz ?? 'station';
+  if (zone === 'station' || zone === 'utc') return zonedTime(resolveTimeZone(zone, station.timezone));
+  if (zone === 'local') return zonedTime(resolveTimeZone('browser', null));
+  if (!isValidTimeZone(zone)) throw new UsageError(`Unknown time zone "${zone}"`);
+  return zonedTime(zone);
+}
+
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * The span to predict, as [start, end)
+ * Dates alone mean whole days in the time zone; an end date is included.
+ */
+function predictionSpan(tz: ZonedTime): { start: Date; end: Date } {
+  const parse = (value: string, option: string) => {
+    const date = tz.parse(value);
+    if (Number.isNaN(date.getTime())) throw new UsageError(`--${option} "${value}" is not a date`);
+    return date;
+  };
+
+  const start = values.start ? parse(values.start, 'start') : tz.startOfDay(new Date());
+  let end: Date;
+  if (values.end) {
+    end = parse(values.end, 'end');
+    if (isDateOnly(values.end)) end = tz.addDays(end, 1);
+  } else {
+    end = tz.addDays(start, positiveNumber(values.days, 'days', 1));
+  }
+  if (end <= start) throw new UsageError('--end must be after --start');
+  return { start, end };
+}
+
+async function runJob<K extends PredictionJob['kind']>(
+  job: Extract<PredictionJob, { kind: K }>
+): Promise<PredictionJobResults[K]> {
+  const result = await runPredictionJob({ ...job, ...(ephemeris && { ephemeris }) });
+  return result as PredictionJobResults[K];
+}
+
+// Machine formats carry heights to the millimeter (or thousandth of a foot)
+const height = (meters: number) => Number(convertHeight(meters, units).toFixed(3));
+const tableHeight = (meters: number) => convertHeight(meters, units).toFixed(2);
+const heightColumn = () => `height_${getHeightUnit(units)}`;
+
+function describeStation(station: TideStation, tz: ZonedTime) {
+  return {
+    id: station.id,
+    name: station.name,
+    lat: station.lat,
+    lon: station.lon,
+    datum: station.datum,
+    timeZone: tz.zone,
+    units: getHeightUnit(units),
+  };
+}
+
+async function predict(): Promise<string> {
+  const station = await withDatum(await resolveStation(), requestedDatum(), ephemeris);
+  const tz = timeZoneFor(station);
+  const { start, end } = predictionSpan(tz);
+  const intervalMinutes = positiveNumber(values.interval, 'interval', DEFAULT_INTERVAL_MINUTES);
+
+  // The series job includes its end; stop short of it to keep the span half-open
+  const { times, heights } = await runJob({
+    kind: 'series',
+    station,
+    start: start.getTime(),
+    end: end.getTime() - 1,
+    intervalMinutes,
+  });
+
+  const points = Array.from(times, (t, i) => ({ time: new Date(t), height: heights[i]! }));
+  const table: Table =
+    format === 'table'
+      ? {
+          columns: ['Date', 'Time', 'Zone', `Height (${getHeightUnit(units)})`],
+          rows: points.map((p) => [
+            tz.dayKey(p.time),
+            tz.format(p.time, 'HH:mm'),
+            tz.abbreviation(p.time),
+            tableHeight(p.height),
+          ]),
+          numeric: [false, false, false, true],
+        }
+      : { columns: ['time', heightColumn()], rows: points.map((p) => [tz.iso(p.time), height(p.height)]) };
+
+  return render(format, table, {
+    station: describeStation(station, tz),
+    intervalMinutes,
+    predictions: points.map((p) => ({ time: tz.iso(p.time), height: height(p.height) })),
+  });
+}
+
+async function extremes(): Promise<string> {
+  const station = await withDatum(await resolveStation(), requestedDatum(), ephemeris);
+  const tz = timeZoneFor(station);
+  const { start, end } = predictionSpan(tz);
+
+  const result = await runJob({ kind: 'extremes', station, start: start.getTime(), end: end.getTime() });
+  // The job covers (start, end]; keep to [start, end) like the series
+  const found = result.extremes.filter((e) => e.time >= start.getTime() && e.time < end.getTime());
+
+  const table: Table =
+    format === 'table'
+      ? {
+          columns: ['Date', 'Time', 'Zone', 'Tide', `Height (${getHeightUnit(units)})`],
+          rows: found.map((e) => [
+            tz.dayKey(new Date(e.time)),
+            tz.format(new Date(e.time), 'HH:mm'),
+            tz.abbreviation(new Date(e.time)),
+            e.classification ?? (e.type === 'high' ? 'High' : 'Low'),
+            tableHeight(e.height),
+          ]),
+          numeric: [false, false, false, false, true],
+        }
+      : {
+          columns: ['time', 'type', 'class', heightColumn()],
+          rows: found.map((e) => [tz.iso(new Date(e.time)), e.type, e.classification ?? '', height(e.height)]),
+        };
+
+  return render(format, table, {
+    station: describeStation(station, tz),
+    extremes: found.map((e) => ({
+      time: tz.iso(new Date(e.time)),
+      type: e.type,
+      ...(e.classification && { class: e.classification }),
+      height: height(e.height),
+    })),
+  });
+}
+
+async function datums(): Promise<string> {
+  const station = await withDatum(await resolveStation(), requestedDatum(), ephemeris);
+  const tz = timeZoneFor(station);
+  const levels = station.datums!.levels;
+
+  const table: Table =
+    format === 'table'
+      ? {
+          columns: ['Datum', 'Name', `Height (${getHeightUnit(units)})`],
+          rows: TIDAL_DATUMS.map((d) => [d.code, d.fullName, tableHeight(levels[d.code])]),
+          numeric: [false, false, true],
+        }
+      : {
+          columns: ['datum', 'name', heightColumn()],
+          rows: TIDAL_DATUMS.map((d) => [d.code, d.fullName, height(levels[d.code])]),
+        };
+
+  return render(format, table, {
+    station: describeStation(station, tz),
+    epoch: station.datums!.epoch,
+    datums: Object.fromEntries(TIDAL_DATUMS.map((d) => [d.code, height(levels[d.code])])),
+  });
+}
+
+async function stations(): Promise<string> {
+  const region = oneOf(
+    values.region,
+    STATION_REGIONS.map((r) => r.region),
+    'region'
+  );
+  const list = values.file
+    ? (await loadStationFile(values.file, fileOptions())).map(summarizeStation)
+    : listCatalogStations(region);
+
+  const table: Table = {
+    columns: ['id', 'name', 'state', 'country', 'lat', 'lon', 'region', 'type'],
+    rows: list.map((s) => [
+      s.id,
+      s.name,
+      s.state ?? '',
+      s.country,
+      s.lat,
+      s.lon,
+      s.region ?? '',
+      s.subordinate ? 'subordinate' : getTidalTypeLabel(s.tidalType),
+    ]),
+    numeric: [false, false, false, false, true, true, false, false],
+  };
+  return render(format, table, list);
+}
+
+async function compare(): Promise<string> {
+  if (values.file) throw new UsageError('compare needs a catalog station; NOAA publishes predictions by station id');
+  const station = await withDatum(await resolveStation(), 'MLLW', ephemeris);
+  const tz = timeZoneFor(station);
+  const { start, end } = predictionSpan(tz);
+
+  const [published, result] = await Promise.all([
+    fetchPublishedExtremes(station, start, end),
+    runJob({ kind: 'extremes', station, start: start.getTime(), end: end.getTime() }),
+  ]);
+  const predicted = result.extremes.map((e): TideExtreme => ({ ...e, time: new Date(e.time) }));
+  const comparisons = compareExtremes(published, predicted);
+
+  const differing = comparisons.filter((c) => c.labelMatches === false).length;
+  const checked = comparisons.filter((c) => c.labelMatches !== null).length;
+  process.stderr.write(`${differing} of ${checked} labels differ from NOAA's\n`);
+  if (differing > 0) process.exitCode = 1;
+
+  const label = (e: TideExtreme | null) => (e ? (e.classification ?? (e.type === 'high' ? 'High' : 'Low')) : '-');
+  const minutes = (c: (typeof comparisons)[number]) => (c.minutes === null ? '' : Math.round(c.minutes));
+  const heightDiff = (c: (typeof comparisons)[number]) => (c.height === null ? '' : height(c.height));
+  const status = (c: (typeof comparisons)[number]) =>
+    c.labelMatches === null ? 'partial day' : c.labelMatches ? 'ok' : 'differs';
+
+  const table: Table =
+    format === 'table'
+      ? {
+          columns: ['Date', 'Time', 'Zone', 'NOAA', 'Predicted', 'Δ min', `Δ height (${getHeightUnit(units)})`, 'Label'],
+          rows: comparisons.map((c) => [
+            tz.dayKey(c.published.time),
+            tz.format(c.published.time, 'HH:mm'),
+            tz.abbreviation(c.published.time),
+            label(c.published),
+            label(c.predicted),
+            minutes(c),
+            c.height === null ? '' : tableHeight(c.height),
+            status(c),
+          ]),
+          numeric: [false, false, false, false, false, true, true, false],
+        }
+      : {
+          columns: ['time', 'type', 'noaa_class', 'class', 'minutes', `${heightColumn()}_diff`, 'label'],
+          rows: comparisons.map((c) => [
+            tz.iso(c.published.time),
+            c.published.type,
+            c.published.classification ?? '',
+            c.predicted?.classification ?? '',
+            minutes(c),
+            heightDiff(c),
+            status(c),
+          ]),
+        };
+
+  return render(format, table, {
+    station: describeStation(station, tz),
+    labelsChecked: checked,
+    labelsDiffering: differing,
+    comparisons: comparisons.map((c) => ({
+      time: tz.iso(c.published.time),
+      type: c.published.type,
+      ...(c.published.classification && { noaaClass: c.published.classification }),
+      ...(c.predicted?.classification && { class: c.predicted.classification }),
+      minutes: c.minutes,
+      heightDifference: c.height === null ? null : height(c.height),
+      labelMatches: c.labelMatches,
+    })),
+  });
+}
+
+const COMMANDS: Record<string, () => Promise<string>> = { predict, extremes, datums, stations, compare };
+
+async function main() {
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}"`);
+  process.stdout.write(await run());
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof UsageError) exitWithUsage(error.message);
+  process.stderr.write(`tides: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
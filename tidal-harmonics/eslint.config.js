@@ -6,7 +6,7 @@ import tseslint from 'typescript-eslint'
 import { defineConfig, globalIgnores } from 'eslint/config'
 
 export default defineConfig([
-  globalIgnores(['dist']),
+  globalIgnores(['dist', 'dist-cli']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
@@ -24,4 +24,11 @@ export default defineConfig([
       'react-hooks/immutability': 'off',
     },
   },
+  {
+    // The command-line predictor and API server run in Node
+    files: ['cli/**/*.ts', 'server/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
@@ -0,0 +1,76 @@
+// Tide alert handlers, imported into the generated service worker
+// Reads the schedule src/lib/alertStorage.ts keeps in IndexedDB; keep the
+// database name, version and store names in step with it.
+
+const ALERT_DB_NAME = 'tidal-harmonics-alerts';
+const ALERT_DB_VERSION = 1;
+const ALERT_SYNC_TAG = 'tide-alerts';
+const ALERT_TAG_PREFIX = 'tide-alert:';
+
+function openAlertDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(ALERT_DB_NAME, ALERT_DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const name of ['rules', 'schedule']) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Show the alerts that are due and mark them delivered, so the app doesn't repeat them
+async function showDueAlerts() {
+  const db = await openAlertDatabase();
+  const schedule = await new Promise((resolve, reject) => {
+    const request = db.transaction('schedule', 'readonly').objectStore('schedule').getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const now = Date.now();
+  const due = schedule.filter((a) => !a.delivered && a.triggerAt <= now && a.eventAt > now);
+  for (const alert of due) {
+    await self.registration.showNotification(alert.title, {
+      body: alert.body,
+      icon: new URL('icons/icon.svg', self.registration.scope).href,
+      tag: ALERT_TAG_PREFIX + alert.id,
+      data: { alertId: alert.id, stationId: alert.stationId },
+    });
+  }
+
+  if (due.length > 0) {
+    await new Promise((resolve, reject) => {
+      const tx = db.transaction('schedule', 'readwrite');
+      const store = tx.objectStore('schedule');
+      for (const alert of due) store.put({ ...alert, delivered: true });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === ALERT_SYNC_TAG) event.waitUntil(showDueAlerts());
+});
+
+// Open the app on the alert's station, reusing an open window
+self.addEventListener('notificationclick', (event) => {
+  if (!event.notification.tag.startsWith(ALERT_TAG_PREFIX)) return;
+  event.notification.close();
+
+  const stationId = event.notification.data && event.notification.data.stationId;
+  const url = new URL(self.registration.scope);
+  if (stationId) url.hash = 'station=' + encodeURIComponent(stationId);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) return client.focus().then((focused) => (focused && stationId ? focused.navigate(url.href) : focused));
+      return self.clients.openWindow(url.href);
+    })
+  );
+});
@@ -0,0 +1,253 @@
+// CO-OPS data getter, answered locally
+// Speaks the query format of NOAA's /api/prod/datagetter for the
+// predictions product, and answers with the same JSON and CSV shapes from
+// the app's prediction jobs and station catalog, so existing clients can
+// be pointed at a self-hosted, offline stand-in.
+
+import { DateTime } from 'luxon';
+import type { TideStation, TidalDatumCode } from '@/types/harmonics';
+import { isTidalDatumCode, referenceStation } from '@/lib/datums';
+import { runPredictionJob } from '@/lib/predictionJobs';
+import type { PredictionJob, PredictionJobResults } from '@/lib/predictionJobs';
+import { convertHeight } from '@/lib/units';
+import { deriveDatums, loadCatalogStation, StationLookupError } from '../cli/stations';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+
+// CO-OPS limits on a single request
+const MAX_SERIES_DAYS = 366;
+const MAX_HILO_DAYS = 3653;
+
+// Minutes between heights for each interval the data getter accepts
+const INTERVAL_MINUTES: Record<string, number> = {
+  '1': 1,
+  '5': 5,
+  '6': 6,
+  '10': 10,
+  '15': 15,
+  '30': 30,
+  '60': 60,
+  h: 60,
+};
+
+const DATE_FORMATS = ['yyyyMMdd HH:mm', 'yyyyMMdd', 'MM/dd/yyyy HH:mm', 'MM/dd/yyyy'];
+
+export type DatagetterTimeZone = 'gmt' | 'lst' | 'lst_ldt';
+
+export interface DatagetterRequest {
+  station: string;
+  datum: TidalDatumCode;
+  units: 'metric' | 'english';
+  timeZone: DatagetterTimeZone;
+  interval: number | 'hilo';
+  format: 'json' | 'csv';
+  // Unresolved until the station's zone is known
+  span: (zone: string) => { start: Date; end: Date };
+}
+
+export interface DatagetterResponse {
+  contentType: string;
+  body: string;
+}
+
+// Reported in the body with a 200, as CO-OPS does
+export class DatagetterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatagetterError';
+  }
+}
+
+/**
+ * The zone times are given and returned in
+ * lst is the station's standard time all year, as a fixed offset;
+ * lst_ldt follows daylight saving.
+ */
+export function datagetterZone(timeZone: DatagetterTimeZone, stationZone: string): string {
+  if (timeZone === 'gmt') return 'UTC';
+  if (timeZone === 'lst_ldt') return stationZone;
+  const year = DateTime.now().setZone(stationZone).year;
+  // Daylight saving only ever adds, so standard time is the smaller offset
+  const offset = Math.min(
+    DateTime.fromObject({ year, month: 1, day: 1 }, { zone: stationZone }).offset,
+    DateTime.fromObject({ year, month: 7, day: 1 }, { zone: stationZone }).offset
+  );
+  const hours = Math.trunc(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `UTC${offset < 0 ? '-' : '+'}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+function parseDate(value: string, zone: string): { date: DateTime; dateOnly: boolean } {
+  for (const format of DATE_FORMATS) {
+    const date = DateTime.fromFormat(value.trim(), format, { zone });
+    if (date.isValid) return { date, dateOnly: !format.includes('HH') };
+  }
+  throw new DatagetterError(`Invalid date "${value}": use yyyyMMdd, yyyyMMdd HH:mm, MM/dd/yyyy or MM/dd/yyyy HH:mm`);
+}
+
+/**
+ * Read a data getter query string
+ * The span is kept as a function of the zone, since lst and lst_ldt depend
+ * on the station, which hasn't been looked up yet.
+ */
+export function parseDatagetterQuery(params: URLSearchParams, now: Date = new Date()): DatagetterRequest {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+
+  const product = get('product');
+  if (product !== 'predictions') {
+    throw new DatagetterError(
+      product ? `Product "${product}" is not served here; only product=predictions` : 'Product cannot be null or empty'
+    );
+  }
+
+  const station = get('station');
+  if (!station) throw new DatagetterError('Station ID cannot be null or empty');
+
+  const datumParam = get('datum')?.toUpperCase();
+  if (!datumParam) throw new DatagetterError('Wrong Datum: Datum cannot be null or empty');
+  if (!isTidalDatumCode(datumParam)) throw new DatagetterError(`Wrong Datum: ${datumParam} is not available here`);
+
+  const units = get('units') ?? 'metric';
+  if (units !== 'metric' && units !== 'english') throw new DatagetterError('Wrong Units: use metric or english');
+
+  const timeZone = get('time_zone') ?? 'gmt';
+  if (timeZone !== 'gmt' && timeZone !== 'lst' && timeZone !== 'lst_ldt') {
+    throw new DatagetterError('Wrong Time Zone: use gmt, lst or lst_ldt');
+  }
+
+  const intervalParam = get('interval') ?? '6';
+  const interval = intervalParam === 'hilo' ? 'hilo' : INTERVAL_MINUTES[intervalParam];
+  if (interval === undefined) {
+    throw new DatagetterError(`Wrong Interval: use hilo, h or ${Object.keys(INTERVAL_MINUTES).filter((k) => k !== 'h').join(', ')}`);
+  }
+
+  const format = get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') throw new DatagetterError('Wrong Format: use json or csv');
+
+  const begin = get('begin_date');
+  const end = get('end_date');
+  const date = get('date')?.toLowerCase();
+  const range = get('range');
+  const rangeHours = range === undefined ? undefined : Number(range);
+  if (rangeHours !== undefined && !(rangeHours > 0)) throw new DatagetterError('Wrong Range: give a number of hours');
+
+  const span = (zone: string) => {
+    // A date alone runs to the end of its day
+    const endOf = (value: string) => {
+      const parsed = parseDate(value, zone);
+      return (parsed.dateOnly ? parsed.date.plus({ days: 1 }).minus({ minutes: 1 }) : parsed.date).toJSDate();
+    };
+    const startOf = (value: string) => parseDate(value, zone).date.toJSDate();
+    const hours = (rangeHours ?? 0) * MS_PER_HOUR;
+
+    if (begin && end) return { start: startOf(begin), end: endOf(end) };
+    if (begin && rangeHours) {
+      const start = startOf(begin);
+      return { start, end: new Date(start.getTime() + hours) };
+    }
+    if (end && rangeHours) {
+      const last = parseDate(end, zone).date.toJSDate();
+      return { start: new Date(last.getTime() - hours), end: last };
+    }
+    if (date === 'today') {
+      const start = DateTime.fromJSDate(now, { zone }).startOf('day');
+      return { start: start.toJSDate(), end: start.plus({ days: 1 }).minus({ minutes: 1 }).toJSDate() };
+    }
+    // Predictions look ahead, so a range alone runs forward from now
+    if (rangeHours && !begin && !end && !date) {
+      return { start: now, end: new Date(now.getTime() + hours) };
+    }
+    throw new DatagetterError(
+      'Wrong date range: give begin_date and end_date, begin_date or end_date with range, range, or date=today'
+    );
+  };
+
+  return { station, datum: datumParam, units, timeZone, interval, format, span };
+}
+
+async function runJob<K extends PredictionJob['kind']>(
+  job: Extract<PredictionJob, { kind: K }>
+): Promise<PredictionJobResults[K]> {
+  return (await runPredictionJob(job)) as PredictionJobResults[K];
+}
+
+// Stations with their datums, derived once per station
+const stationsWithDatums = new Map<string, Promise<TideStation>>();
+
+function catalogStationWithDatums(id: string): Promise<TideStation> {
+  let load = stationsWithDatums.get(id);
+  if (!load) {
+    load = loadCatalogStation(id).then((station) => deriveDatums(station));
+    stationsWithDatums.set(id, load);
+    load.catch(() => stationsWithDatums.delete(id));
+  }
+  return load;
+}
+
+/**
+ * Answer a parsed query, in the shapes CO-OPS returns:
+ * {"predictions":[{"t":"2026-10-19 04:05","v":"2.407","type":"L"}]} or
+ * "Date Time, Prediction, Type" CSV, values to three decimals
+ */
+export async function answerDatagetter(request: DatagetterRequest): Promise<DatagetterResponse> {
+  let station: TideStation;
+  try {
+    station = referenceStation(await catalogStationWithDatums(request.station), request.datum);
+  } catch (error) {
+    if (error instanceof StationLookupError) {
+      throw new DatagetterError('No Predictions data was found. Please make sure the Station ID is valid.');
+    }
+    throw error;
+  }
+
+  const zone = datagetterZone(request.timeZone, station.timezone);
+  const { start, end } = request.span(zone);
+  if (end < start) throw new DatagetterError('The end date must be after the begin date');
+  const days = (end.getTime() - start.getTime()) / MS_PER_DAY;
+  const maxDays = request.interval === 'hilo' ? MAX_HILO_DAYS : MAX_SERIES_DAYS;
+  if (days > maxDays) {
+    throw new DatagetterError(
+      `The ${request.interval === 'hilo' ? 'hilo' : 'interval'} predictions are limited to ${Math.round(maxDays / 365.25)} year(s) per request`
+    );
+  }
+
+  const height = (meters: number) => convertHeight(meters, request.units === 'english' ? 'imperial' : 'metric').toFixed(3);
+  const time = (t: number) =>
+    DateTime.fromMillis(Math.round(t / MS_PER_MINUTE) * MS_PER_MINUTE, { zone }).toFormat('yyyy-MM-dd HH:mm');
+
+  let rows: { t: string; v: string; type?: 'H' | 'L' }[];
+  if (request.interval === 'hilo') {
+    // The job covers (start, end]; widen by a minute to include a tide at the begin time
+    const result = await runJob({ kind: 'extremes', station, start: start.getTime() - MS_PER_MINUTE, end: end.getTime() });
+    rows = result.extremes.map((e) => ({ t: time(e.time), v: height(e.height), type: e.type === 'high' ? 'H' : 'L' }));
+  } else {
+    const result = await runJob({
+      kind: 'series',
+      station,
+      start: start.getTime(),
+      end: end.getTime(),
+      intervalMinutes: request.interval,
+    });
+    rows = Array.from(result.times, (t, i) => ({ t: time(t), v: height(result.heights[i]!) }));
+  }
+
+  if (request.format === 'csv') {
+    const hilo = request.interval === 'hilo';
+    const lines = [
+      hilo ? 'Date Time, Prediction, Type' : 'Date Time, Prediction',
+      ...rows.map((r) => (r.type ? `${r.t},${r.v},${r.type}` : `${r.t},${r.v}`)),
+    ];
+    return { contentType: 'text/csv; charset=utf-8', body: lines.join('\n') + '\n' };
+  }
+  return { contentType: 'application/json; charset=utf-8', body: JSON.stringify({ predictions: rows }) };
+}
+
+/**
+ * An error in the requested format, as CO-OPS reports them
+ */
+export function datagetterError(message: string, format: string | null): DatagetterResponse {
+  if (format === 'csv') return { contentType: 'text/csv; charset=utf-8', body: `Error: ${message}\n` };
+  return { contentType: 'application/json; charset=utf-8', body: JSON.stringify({ error: { message } }) };
+}
@@ -0,0 +1,51 @@
+// Local CO-OPS API server
+// Answers GET /api/prod/datagetter like api.tidesandcurrents.noaa.gov, so a
+// client only needs its host changed. PORT and HOST set where it listens.
+
+import { createServer } from 'node:http';
+import type { ServerResponse } from 'node:http';
+import { answerDatagetter, datagetterError, parseDatagetterQuery, DatagetterError } from './datagetter';
+import type { DatagetterResponse } from './datagetter';
+
+const DATAGETTER_PATH = '/api/prod/datagetter';
+const PORT = Number(process.env.PORT) || 8080;
+const HOST = process.env.HOST || '0.0.0.0';
+
+function send(res: ServerResponse, status: number, { contentType, body }: DatagetterResponse) {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    // CO-OPS allows browser clients from any origin
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(body);
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const format = url.searchParams.get('format');
+
+  if (url.pathname !== DATAGETTER_PATH) {
+    send(res, 404, datagetterError(`Not found; queries go to ${DATAGETTER_PATH}`, format));
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    send(res, 405, datagetterError('Only GET is supported', format));
+    return;
+  }
+
+  Promise.resolve()
+    .then(() => answerDatagetter(parseDatagetterQuery(url.searchParams)))
+    .then((response) => send(res, 200, response))
+    .catch((error: unknown) => {
+      if (error instanceof DatagetterError) {
+        send(res, 200, datagetterError(error.message, format));
+        return;
+      }
+      console.error(error);
+      send(res, 500, datagetterError('Internal error', format));
+    });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`CO-OPS data getter listening on http://${HOST}:${PORT}${DATAGETTER_PATH}`);
+});
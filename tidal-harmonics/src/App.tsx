@@ -13,6 +13,8 @@ import { ChapterNavigation } from '@/components/tutorial/ChapterNavigation';
 import { TutorialController } from '@/components/tutorial/TutorialController';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useUrlSync } from '@/hooks/useUrlSync';
+import { useStationDatums } from '@/hooks/useStationDatums';
+import { useAlertScheduler } from '@/hooks/useAlertScheduler';
 
 function App() {
   // Enable global keyboard shortcuts
@@ -21,6 +23,12 @@ function App() {
   // Sync selected station with URL for deep linking
   useUrlSync();
 
+  // Derive tidal datums for the selected station in the background
+  useStationDatums();
+
+  // Schedule tide alerts and hand them to the service worker
+  useAlertScheduler();
+
   return (
     <div className="w-full h-full relative">
       {/* Skip link for screen readers and keyboard users */}
@@ -9,10 +9,10 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { format } from 'date-fns';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide, predictTideFromConstituents } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface ComparisonLevel {
   key: string;
@@ -68,6 +68,7 @@ const COMPARISON_LEVELS: ComparisonLevel[] = [
  * are needed for accurate predictions.
  */
 export function AccuracyComparison() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
   const [selectedLevels, setSelectedLevels] = useState<string[]>(['level1', 'full']);
@@ -95,7 +96,7 @@ export function AccuracyComparison() {
       const date = new Date(t);
       const point: Record<string, unknown> = {
         time: t,
-        label: format(date, 'HH:mm'),
+        label: tz.format(date, 'HH:mm'),
       };
 
       // Full prediction (reference)
@@ -133,7 +134,7 @@ export function AccuracyComparison() {
     }
 
     return { data: chartData, stats: levelStats };
-  }, [epoch, station]);
+  }, [epoch, station, tz]);
 
   const toggleLevel = (key: string) => {
     setSelectedLevels((prev) =>
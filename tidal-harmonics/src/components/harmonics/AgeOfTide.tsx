@@ -3,7 +3,8 @@ import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
-import { addDays, differenceInHours, format } from 'date-fns';
+import { addDays, differenceInHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose: () => void;
@@ -94,6 +95,7 @@ function findNearestSyzygy(date: Date, direction: 'forward' | 'backward'): { dat
 }
 
 export function AgeOfTide({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -272,7 +274,7 @@ export function AgeOfTide({ onClose }: Props) {
             {analysis.lastSyzygy.type === 'new' ? '🌑 New Moon' : '🌕 Full Moon'}
           </div>
           <div className="text-slate-400 text-xs">
-            {format(analysis.lastSyzygy.date, 'MMM d, HH:mm')}
+            {tz.format(analysis.lastSyzygy.date, 'MMM d, HH:mm')}
           </div>
           <div className="text-cyan-400 text-xs mt-1">
             {formatHours(analysis.hoursSinceLastSyzygy)} ago
@@ -284,7 +286,7 @@ export function AgeOfTide({ onClose }: Props) {
             {analysis.nextSyzygy.type === 'new' ? '🌑 New Moon' : '🌕 Full Moon'}
           </div>
           <div className="text-slate-400 text-xs">
-            {format(analysis.nextSyzygy.date, 'MMM d, HH:mm')}
+            {tz.format(analysis.nextSyzygy.date, 'MMM d, HH:mm')}
           </div>
           <div className="text-cyan-400 text-xs mt-1">
             in {formatHours(analysis.hoursUntilNextSyzygy)}
@@ -309,7 +311,7 @@ export function AgeOfTide({ onClose }: Props) {
           <div className="flex justify-between items-center">
             <span className="text-slate-300 text-xs">Next spring peak:</span>
             <span className="text-amber-400 text-sm">
-              ~{format(analysis.nextSpringPeak, 'MMM d')}
+              ~{tz.format(analysis.nextSpringPeak, 'MMM d')}
             </span>
           </div>
         )}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import type { AlertRuleInput } from '@/stores/alertStore';
+import { CONDITION_TYPES, DEFAULT_SPRING_DAYS, describeAlertRule, findAlertWindows } from '@/lib/alertRules';
+import type { AlertCondition, AlertConditionType, AlertMatch, AlertRule } from '@/lib/alertRules';
+import { LEAD_OPTIONS, leadLabel } from '@/lib/alertSchedule';
+import { defaultDatumFor } from '@/lib/datums';
+import { convertHeight, formatHeight, getHeightUnit, toMeters } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import type { TideStation } from '@/types/harmonics';
+
+interface AlertRuleBuilderProps {
+  station: TideStation;
+  rule?: AlertRule; // edit this rule rather than start a new one
+  onSave: (rule: AlertRuleInput) => void;
+  onCancel: () => void;
+}
+
+interface ConditionDraft {
+  key: string;
+  type: AlertConditionType;
+  value: string;
+  negate: boolean;
+}
+
+const PREVIEW_COUNT = 5;
+const PREVIEW_DAYS = 14;
+
+let nextKey = 0;
+const newKey = () => `condition-${nextKey++}`;
+
+function needsValue(type: AlertConditionType) {
+  return CONDITION_TYPES.find((c) => c.type === type)?.needsValue;
+}
+
+function defaultValue(type: AlertConditionType): string {
+  if (type === 'spring') return String(DEFAULT_SPRING_DAYS);
+  return needsValue(type) === 'height' ? '0' : '';
+}
+
+/**
+ * AlertRuleBuilder
+ *
+ * Combines tide, daylight, spring/neap, trend and weekday conditions into
+ * one alert rule, with the rule's next windows at the station as a preview.
+ */
+export function AlertRuleBuilder({ station, rule, onSave, onCancel }: AlertRuleBuilderProps) {
+  const tz = useZonedTime();
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const heightDatum = useHarmonicsStore((s) => s.heightDatum);
+
+  const datum = rule?.datum ?? heightDatum ?? defaultDatumFor(station);
+  const [name, setName] = useState(rule?.name ?? '');
+  const [match, setMatch] = useState<AlertMatch>(rule?.match ?? 'all');
+  const [leadMinutes, setLeadMinutes] = useState(rule?.leadMinutes ?? 30);
+  // Previews run from when the builder opened
+  const [openedAt] = useState(() => Date.now());
+  const [drafts, setDrafts] = useState<ConditionDraft[]>(() =>
+    rule
+      ? rule.conditions.map((c) => ({
+          key: newKey(),
+          type: c.type,
+          value:
+            needsValue(c.type) === 'height'
+              ? convertHeight(c.value ?? 0, unitSystem).toFixed(2)
+              : c.value !== undefined
+                ? String(c.value)
+                : defaultValue(c.type),
+          negate: !!c.negate,
+        }))
+      : [{ key: newKey(), type: 'low', value: '', negate: false }]
+  );
+
+  const updateDraft = (key: string, updates: Partial<ConditionDraft>) => {
+    setDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, ...updates } : d)));
+  };
+
+  // Conditions as stored, or null while a value doesn't parse
+  const conditions = useMemo((): AlertCondition[] | null => {
+    const parsed: AlertCondition[] = [];
+    for (const draft of drafts) {
+      const kind = needsValue(draft.type);
+      const value = parseFloat(draft.value);
+      if (kind && !Number.isFinite(value)) return null;
+      if (kind === 'days' && value < 0) return null;
+      parsed.push({
+        type: draft.type,
+        ...(kind === 'height' && { value: toMeters(value, unitSystem) }),
+        ...(kind === 'days' && { value }),
+        ...(draft.negate && { negate: true }),
+      });
+    }
+    return parsed;
+  }, [drafts, unitSystem]);
+
+  const preview = useMemo(() => {
+    if (!conditions || conditions.length === 0) return [];
+    return findAlertWindows(
+      { match, conditions, datum },
+      station,
+      openedAt,
+      openedAt + PREVIEW_DAYS * 86400000,
+      PREVIEW_COUNT
+    );
+  }, [conditions, match, datum, station, openedAt]);
+
+  const save = () => {
+    if (!conditions || conditions.length === 0) return;
+    onSave({
+      stationId: station.id,
+      stationName: station.name,
+      ...(name.trim() && { name: name.trim() }),
+      match,
+      conditions,
+      datum,
+      leadMinutes,
+      enabled: rule?.enabled ?? true,
+    });
+  };
+
+  const summary = conditions ? describeAlertRule({ match, conditions, datum }, unitSystem) : null;
+
+  return (
+    <div className="space-y-2">
+      {/* Conditions */}
+      <div className="flex items-center gap-2 text-slate-400">
+        <span>Alert when</span>
+        <select
+          value={match}
+          onChange={(e) => setMatch(e.target.value as AlertMatch)}
+          className="bg-slate-800 text-slate-300 text-xs rounded px-1 py-0.5 border border-slate-600"
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these hold:</span>
+      </div>
+      {drafts.map((draft) => {
+        const kind = needsValue(draft.type);
+        return (
+          <div key={draft.key} className="flex items-center gap-1.5">
+            <button
+              onClick={() => updateDraft(draft.key, { negate: !draft.negate })}
+              className={`px-1.5 py-1 rounded text-[10px] border ${
+                draft.negate ? 'bg-red-900/40 border-red-700 text-red-300' : 'bg-slate-800 border-slate-600 text-slate-500'
+              }`}
+              title="The condition must not hold"
+              aria-pressed={draft.negate}
+            >
+              not
+            </button>
+            <select
+              value={draft.type}
+              onChange={(e) => {
+                const type = e.target.value as AlertConditionType;
+                updateDraft(draft.key, { type, value: defaultValue(type) });
+              }}
+              className="flex-1 bg-slate-800 text-slate-300 text-xs rounded px-2 py-1 border border-slate-600"
+            >
+              {CONDITION_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {kind && (
+              <label className="flex items-center gap-1 text-slate-500">
+                {kind === 'days' && <span>±</span>}
+                <input
+                  type="number"
+                  value={draft.value}
+                  onChange={(e) => updateDraft(draft.key, { value: e.target.value })}
+                  step={kind === 'days' ? 1 : unitSystem === 'metric' ? 0.1 : 0.5}
+                  min={kind === 'days' ? 0 : undefined}
+                  className="w-16 bg-slate-800 text-slate-300 text-xs rounded px-2 py-1 border border-slate-600 focus:border-blue-500 focus:outline-none"
+                />
+                <span>{kind === 'days' ? 'd' : getHeightUnit(unitSystem)}</span>
+              </label>
+            )}
+            <button
+              onClick={() => setDrafts((prev) => prev.filter((d) => d.key !== draft.key))}
+              className="text-red-400 hover:text-red-300 px-1"
+              aria-label="Remove condition"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => setDrafts((prev) => [...prev, { key: newKey(), type: 'daylight', value: '', negate: false }])}
+        className="text-blue-400 hover:text-blue-300"
+      >
+        + Add condition
+      </button>
+      {drafts.some((d) => needsValue(d.type) === 'height') && (
+        <p className="text-slate-500 text-[10px]">Heights above {datum}; negative for a minus tide.</p>
+      )}
+
+      {/* Name and lead time */}
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={summary ?? 'Name (optional)'}
+          className="flex-1 min-w-0 bg-slate-800 text-slate-300 text-xs rounded px-2 py-1.5 border border-slate-600 focus:border-blue-500 focus:outline-none"
+        />
+        <select
+          value={leadMinutes}
+          onChange={(e) => setLeadMinutes(parseInt(e.target.value))}
+          className="bg-slate-800 text-slate-300 text-xs rounded px-2 py-1.5 border border-slate-600"
+        >
+          {LEAD_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {leadLabel(minutes)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-slate-800/50 rounded p-2">
+        <div className="text-slate-400 mb-1">Next windows</div>
+        {!conditions && <p className="text-red-400">Enter a value for each condition</p>}
+        {conditions && conditions.length === 0 && <p className="text-slate-500">Add a condition</p>}
+        {conditions && conditions.length > 0 && preview.length === 0 && (
+          <p className="text-slate-500">None in the next {PREVIEW_DAYS} days</p>
+        )}
+        {preview.map((w) => (
+          <div key={w.start} className="flex justify-between gap-2 text-slate-300">
+            <span>
+              {w.inProgress ? 'Now' : tz.dateTime(new Date(w.start))}
+              {w.end - w.start > 60000 && ` – ${tz.time(new Date(w.end))}`}
+            </span>
+            <span className="text-slate-500 font-mono">
+              {w.minHeight === w.maxHeight
+                ? formatHeight(w.minHeight, unitSystem)
+                : `${formatHeight(w.minHeight, unitSystem, { showUnit: false })}–${formatHeight(w.maxHeight, unitSystem)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          disabled={!conditions || conditions.length === 0}
+          className="flex-1 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {rule ? 'Save alert' : 'Add alert'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
+import type { RodeType } from '@/lib/vessel';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
 
 interface AnchorScopeCalculatorProps {
   onClose: () => void;
@@ -12,11 +15,15 @@ export function AnchorScopeCalculator({ onClose }: AnchorScopeCalculatorProps) {
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
   const [chartDepth, setChartDepth] = useState(5); // meters at chart datum
-  const [freeboard, setFreeboard] = useState(1.5); // bow height above water
   const [desiredScope, setDesiredScope] = useState(7); // scope ratio
-  const [rodeType, setRodeType] = useState<'chain' | 'mixed' | 'rope'>('chain');
   const [expectedWindKnots, setExpectedWindKnots] = useState(15);
 
+  // Bow height above water and the rode aboard come from the vessel profile
+  const { vessel, updateVessel } = useVessel();
+  const { freeboard, rodeType } = vessel;
+  const setFreeboard = (value: number) => updateVessel({ freeboard: value });
+  const setRodeType = (value: RodeType) => updateVessel({ rodeType: value });
+
   // Calculate current tide height
   const currentTide = useMemo(() => {
     if (!selectedStation) return 0;
@@ -140,6 +147,8 @@ export function AnchorScopeCalculator({ onClose }: AnchorScopeCalculatorProps) {
             </div>
           </div>
 
+          <VesselPicker />
+
           {/* Input Parameters */}
           <div className="space-y-3">
             <div>
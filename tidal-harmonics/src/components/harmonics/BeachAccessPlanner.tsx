@@ -1,6 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { useZonedTime } from '@/hooks/useZonedTime';
 import { predictTide } from '@/lib/harmonics';
+import { findTidalWindows } from '@/lib/tidalWindows';
 
 interface AccessWindow {
   start: Date;
@@ -50,12 +52,14 @@ interface Props {
 }
 
 export function BeachAccessPlanner({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [selectedPreset, setSelectedPreset] = useState(0);
   const [customThreshold, setCustomThreshold] = useState(1.5);
   const [useCustom, setUseCustom] = useState(false);
   const [lookAheadDays, setLookAheadDays] = useState(2);
+  const [daylightOnly, setDaylightOnly] = useState(false);
 
   const useMetric = unitSystem === 'metric';
 
@@ -67,65 +71,24 @@ export function BeachAccessPlanner({ onClose }: Props) {
   const accessWindows = useMemo((): AccessWindow[] => {
     if (!station) return [];
 
-    const windows: AccessWindow[] = [];
     const now = new Date();
     const end = new Date(now.getTime() + lookAheadDays * 24 * 60 * 60 * 1000);
 
-    // Sample at 10-minute intervals
-    const intervalMs = 10 * 60 * 1000;
-    let windowStart: Date | null = null;
-    let windowMinHeight = Infinity;
-    let windowMaxHeight = -Infinity;
-
-    for (let t = now.getTime(); t <= end.getTime(); t += intervalMs) {
-      const time = new Date(t);
-      const height = predictTide(station, time);
-      const isAccessible = height < activeThreshold;
-
-      if (isAccessible) {
-        if (!windowStart) {
-          windowStart = time;
-          windowMinHeight = height;
-          windowMaxHeight = height;
-        } else {
-          windowMinHeight = Math.min(windowMinHeight, height);
-          windowMaxHeight = Math.max(windowMaxHeight, height);
-        }
-      } else if (windowStart) {
-        // Window ended
-        const duration = (t - windowStart.getTime()) / 60000;
-        if (duration >= 30) {
-          // Only show windows >= 30 minutes
-          windows.push({
-            start: windowStart,
-            end: time,
-            duration,
-            minHeight: windowMinHeight,
-            maxHeight: windowMaxHeight,
-          });
-        }
-        windowStart = null;
-        windowMinHeight = Infinity;
-        windowMaxHeight = -Infinity;
-      }
-    }
-
-    // Handle window that extends to end
-    if (windowStart) {
-      const duration = (end.getTime() - windowStart.getTime()) / 60000;
-      if (duration >= 30) {
-        windows.push({
-          start: windowStart,
-          end,
-          duration,
-          minHeight: windowMinHeight,
-          maxHeight: windowMaxHeight,
-        });
-      }
-    }
-
-    return windows;
-  }, [station, activeThreshold, lookAheadDays]);
+    // Only show windows >= 30 minutes, cut to sunrise and sunset if daylight only
+    return findTidalWindows(
+      station,
+      { maxHeight: activeThreshold, minDurationMinutes: 30, ...(daylightOnly && { daylight: true }) },
+      { start: now, end }
+    ).map(
+      (w): AccessWindow => ({
+        start: w.start,
+        end: w.end,
+        duration: Math.round(w.durationMinutes),
+        minHeight: w.minHeight,
+        maxHeight: w.maxHeight,
+      })
+    );
+  }, [station, activeThreshold, lookAheadDays, daylightOnly]);
 
   // Current status
   const currentStatus = useMemo(() => {
@@ -141,30 +104,19 @@ export function BeachAccessPlanner({ onClose }: Props) {
     };
   }, [station, activeThreshold]);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatDate = (date: Date) => {
     const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
+    const tomorrow = tz.addDays(today, 1);
 
-    if (date.toDateString() === today.toDateString()) {
+    if (tz.dayKey(date) === tz.dayKey(today)) {
       return 'Today';
     }
-    if (date.toDateString() === tomorrow.toDateString()) {
+    if (tz.dayKey(date) === tz.dayKey(tomorrow)) {
       return 'Tomorrow';
     }
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-    });
+    return tz.date(date);
   };
 
   const formatDuration = (minutes: number) => {
@@ -200,7 +152,7 @@ export function BeachAccessPlanner({ onClose }: Props) {
     const groups: Map<string, AccessWindow[]> = new Map();
 
     for (const window of accessWindows) {
-      const dateKey = window.start.toDateString();
+      const dateKey = tz.dayKey(window.start);
       if (!groups.has(dateKey)) {
         groups.set(dateKey, []);
       }
@@ -208,7 +160,7 @@ export function BeachAccessPlanner({ onClose }: Props) {
     }
 
     return Array.from(groups.entries());
-  }, [accessWindows]);
+  }, [accessWindows, tz]);
 
   if (!station) return null;
 
@@ -336,6 +288,15 @@ export function BeachAccessPlanner({ onClose }: Props) {
               <option value={3}>3 days</option>
               <option value={7}>1 week</option>
             </select>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={daylightOnly}
+                onChange={(e) => setDaylightOnly(e.target.checked)}
+                className="rounded border-slate-500"
+              />
+              ☀️ Daylight only
+            </label>
           </div>
 
           {/* Access Windows */}
@@ -2,7 +2,10 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
 
 interface BridgeClearanceCalculatorProps {
   onClose: () => void;
@@ -17,12 +20,15 @@ interface ClearanceWindow {
 }
 
 export function BridgeClearanceCalculator({ onClose }: BridgeClearanceCalculatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
   // Bridge and vessel parameters
   const [bridgeHeight, setBridgeHeight] = useState(20); // meters above chart datum
-  const [vesselAirDraft, setVesselAirDraft] = useState(15); // height above waterline
+  const { vessel, updateVessel } = useVessel();
+  const vesselAirDraft = vessel.airDraft; // height above waterline
+  const setVesselAirDraft = (airDraft: number) => updateVessel({ airDraft });
   const [safetyMargin, setSafetyMargin] = useState(1.0); // extra clearance needed
 
   // Time range
@@ -189,11 +195,11 @@ export function BridgeClearanceCalculator({ onClose }: BridgeClearanceCalculator
               <div className="text-sm">
                 {timeStatus.status === 'clear' && timeStatus.minutes !== null ? (
                   <span className="text-green-300">
-                    Window closes in {formatDuration(timeStatus.minutes)} ({format(timeStatus.until!, 'HH:mm')})
+                    Window closes in {formatDuration(timeStatus.minutes)} ({tz.format(timeStatus.until!, 'HH:mm')})
                   </span>
                 ) : timeStatus.status === 'blocked' && timeStatus.minutes !== null ? (
                   <span className="text-amber-300">
-                    Next window in {formatDuration(timeStatus.minutes)} ({format(timeStatus.until!, 'HH:mm')})
+                    Next window in {formatDuration(timeStatus.minutes)} ({tz.format(timeStatus.until!, 'HH:mm')})
                   </span>
                 ) : (
                   <span className="text-red-300">No passage windows in planning period</span>
@@ -202,6 +208,8 @@ export function BridgeClearanceCalculator({ onClose }: BridgeClearanceCalculator
             )}
           </div>
 
+          <VesselPicker />
+
           {/* Parameters */}
           <div className="space-y-3">
             <h3 className="text-sm font-medium text-slate-300">Bridge & Vessel</h3>
@@ -366,7 +374,7 @@ export function BridgeClearanceCalculator({ onClose }: BridgeClearanceCalculator
                           {isNow && <span className="text-green-400 text-xs">● NOW</span>}
                           {isBest && !isNow && <span className="text-blue-400 text-xs">★ BEST</span>}
                           <span className="text-white font-medium">
-                            {format(window.start, 'HH:mm')} - {format(window.end, 'HH:mm')}
+                            {tz.format(window.start, 'HH:mm')} - {tz.format(window.end, 'HH:mm')}
                           </span>
                         </div>
                         <span className="text-cyan-400 text-sm">
@@ -374,7 +382,7 @@ export function BridgeClearanceCalculator({ onClose }: BridgeClearanceCalculator
                         </span>
                       </div>
                       <div className="text-xs text-slate-400 mt-1">
-                        {format(window.start, 'EEE, MMM d')} •
+                        {tz.format(window.start, 'EEE, MMM d')} •
                         Clearance: {formatHeight(window.minClearance, unitSystem, { precision: 1 })} - {formatHeight(window.maxClearance, unitSystem, { precision: 1 })}
                       </div>
                     </div>
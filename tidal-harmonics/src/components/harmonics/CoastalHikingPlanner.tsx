@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { findTidalWindows } from '@/lib/tidalWindows';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface CoastalHikingPlannerProps {
   onClose: () => void;
@@ -56,15 +57,11 @@ const HIKE_TYPES = [
   },
 ];
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
 export function CoastalHikingPlanner({ onClose }: CoastalHikingPlannerProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
+  const formatDate = (date: Date) => tz.date(date);
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [daysAhead, setDaysAhead] = useState(7);
@@ -81,62 +78,29 @@ export function CoastalHikingPlanner({ onClose }: CoastalHikingPlannerProps) {
     const now = new Date();
 
     for (let day = 0; day < daysAhead; day++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() + day);
-      date.setHours(0, 0, 0, 0);
+      const date = stationTime.addDays(stationTime.startOfDay(now), day);
 
-      // Check each hour from 5am to 5pm as potential departure times
+      // Check each hour from 5am to 5pm station time as potential departure times
       for (let hour = 5; hour <= 17; hour++) {
-        const departureTime = new Date(date);
-        departureTime.setHours(hour, 0, 0, 0);
+        const departureTime = stationTime.atTime(date, hour);
 
         if (departureTime < now) continue;
 
         // Find crossing windows within the hike duration
-        const windows: CrossingWindow[] = [];
-        const searchInterval = 10 * 60000; // 10 minutes
         const hikeEnd = new Date(departureTime.getTime() + hikeDuration * 3600000);
-
-        let inWindow = false;
-        let windowStart: Date | null = null;
-        let windowMinTide = Infinity;
-
-        for (let t = departureTime.getTime(); t <= hikeEnd.getTime(); t += searchInterval) {
-          const time = new Date(t);
-          const tide = predictTide(selectedStation, time);
-
-          if (tide <= maxTide) {
-            if (!inWindow) {
-              inWindow = true;
-              windowStart = time;
-              windowMinTide = tide;
-            } else {
-              windowMinTide = Math.min(windowMinTide, tide);
-            }
-          } else if (inWindow && windowStart) {
-            windows.push({
-              startTime: windowStart,
-              endTime: time,
-              duration: (t - windowStart.getTime()) / 60000,
-              minTide: windowMinTide,
-              safety: windowMinTide < maxTide - 0.5 ? 'safe' : windowMinTide < maxTide - 0.2 ? 'caution' : 'dangerous',
-            });
-            inWindow = false;
-            windowStart = null;
-            windowMinTide = Infinity;
-          }
-        }
-
-        // Close any open window at hike end
-        if (inWindow && windowStart) {
-          windows.push({
-            startTime: windowStart,
-            endTime: hikeEnd,
-            duration: (hikeEnd.getTime() - windowStart.getTime()) / 60000,
-            minTide: windowMinTide,
-            safety: windowMinTide < maxTide - 0.5 ? 'safe' : windowMinTide < maxTide - 0.2 ? 'caution' : 'dangerous',
-          });
-        }
+        const windows = findTidalWindows(
+          selectedStation,
+          { maxHeight: maxTide },
+          { start: departureTime, end: hikeEnd }
+        ).map(
+          (w): CrossingWindow => ({
+            startTime: w.start,
+            endTime: w.end,
+            duration: w.durationMinutes,
+            minTide: w.minHeight,
+            safety: w.minHeight < maxTide - 0.5 ? 'safe' : w.minHeight < maxTide - 0.2 ? 'caution' : 'dangerous',
+          })
+        );
 
         // If return trip needed, check there's a window at start AND end of hike
         const hasOutbound = windows.some(w =>
@@ -175,7 +139,7 @@ export function CoastalHikingPlanner({ onClose }: CoastalHikingPlannerProps) {
             recommendation = 'Good crossing conditions throughout';
           } else if (windows.length > 0) {
             quality = 'good';
-            recommendation = `Crossing window: ${safestWindow ? formatTime(safestWindow.startTime) + '-' + formatTime(safestWindow.endTime) : 'limited'}`;
+            recommendation = `Crossing window: ${safestWindow ? tz.time(safestWindow.startTime) + '-' + tz.time(safestWindow.endTime) : 'limited'}`;
           } else {
             quality = 'poor';
             recommendation = 'Tide too high for safe passage';
@@ -201,7 +165,7 @@ export function CoastalHikingPlanner({ onClose }: CoastalHikingPlannerProps) {
       qualityOrder[a.quality] - qualityOrder[b.quality] ||
       a.departureTime.getTime() - b.departureTime.getTime()
     );
-  }, [selectedStation, daysAhead, selectedHikeType, customMaxTide, hikeDuration, returnTrip]);
+  }, [selectedStation, daysAhead, selectedHikeType, customMaxTide, hikeDuration, returnTrip, tz, stationTime]);
 
   const formatHeight = (m: number) => {
     if (unitSystem === 'metric') return `${m.toFixed(2)} m`;
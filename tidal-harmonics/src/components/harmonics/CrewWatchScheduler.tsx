@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface CrewWatchSchedulerProps {
   onClose: () => void;
@@ -26,6 +27,7 @@ const DEFAULT_CREW = ['Captain', 'First Mate', 'Crew A', 'Crew B'];
 const WATCH_COLORS = ['bg-blue-600', 'bg-green-600', 'bg-amber-600', 'bg-purple-600'];
 
 export function CrewWatchScheduler({ onClose }: CrewWatchSchedulerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
   // Watch parameters
@@ -234,8 +236,8 @@ export function CrewWatchScheduler({ onClose }: CrewWatchSchedulerProps) {
                 <label className="block text-xs text-slate-400 mb-1">Start Time</label>
                 <input
                   type="datetime-local"
-                  value={format(startTime, "yyyy-MM-dd'T'HH:mm")}
-                  onChange={(e) => setStartTime(new Date(e.target.value))}
+                  value={tz.format(startTime, "yyyy-MM-dd'T'HH:mm")}
+                  onChange={(e) => setStartTime(tz.parse(e.target.value))}
                   className="w-full px-3 py-2 bg-slate-700 rounded text-white text-sm"
                 />
               </div>
@@ -292,7 +294,7 @@ export function CrewWatchScheduler({ onClose }: CrewWatchSchedulerProps) {
                       <span className="text-white font-medium">{watch.crewMember}</span>
                     </div>
                     <div className="text-sm text-slate-300">
-                      {format(watch.start, 'HH:mm')} - {format(watch.end, 'HH:mm')}
+                      {tz.format(watch.start, 'HH:mm')} - {tz.format(watch.end, 'HH:mm')}
                     </div>
                   </div>
 
@@ -301,7 +303,7 @@ export function CrewWatchScheduler({ onClose }: CrewWatchSchedulerProps) {
                       {watch.events.map((event, j) => (
                         <div key={j} className="flex items-center gap-2 text-sm">
                           <span>{getImportanceIcon(event.importance)}</span>
-                          <span className="text-slate-400">{format(event.time, 'HH:mm')}</span>
+                          <span className="text-slate-400">{tz.format(event.time, 'HH:mm')}</span>
                           <span className="text-slate-300">{event.description}</span>
                         </div>
                       ))}
@@ -1,7 +1,9 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { CONSTITUENTS } from '@/data/constituents';
-import { predictTideSeries, findExtremes, getConstituentContributions } from '@/lib/harmonics';
+import { getConstituentContributions } from '@/lib/harmonics';
+import { requestTideSeries, requestTideExtremes, PredictionCancelledError } from '@/lib/predictionService';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 /**
  * Data Export Panel
@@ -14,7 +16,7 @@ import { predictTideSeries, findExtremes, getConstituentContributions } from '@/
  */
 
 type ExportFormat = 'predictions' | 'extremes' | 'calendar' | 'constituents' | 'json';
-type DateRange = '24h' | '48h' | '7d' | '30d' | 'custom';
+type DateRange = '24h' | '48h' | '7d' | '30d' | '1y' | 'custom';
 
 // Generate ICS-formatted date (UTC)
 function formatICSDate(date: Date): string {
@@ -33,6 +35,7 @@ interface DataExportProps {
 export function DataExport({ onClose }: DataExportProps) {
   const station = useHarmonicsStore((s) => s.selectedStation);
   const visibleConstituents = useHarmonicsStore((s) => s.visibleConstituents);
+  const tz = useZonedTime();
 
   const [exportFormat, setExportFormat] = useState<ExportFormat>('predictions');
   const [dateRange, setDateRange] = useState<DateRange>('48h');
@@ -40,6 +43,11 @@ export function DataExport({ onClose }: DataExportProps) {
   const [customEnd, setCustomEnd] = useState('');
   const [interval, setInterval] = useState(10); // minutes
   const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const exportController = useRef<AbortController | null>(null);
+
+  // Abandon a running export when the panel closes
+  useEffect(() => () => exportController.current?.abort(), []);
 
   // Calculate date range
   const { startDate, endDate } = useMemo(() => {
@@ -60,16 +68,19 @@ export function DataExport({ onClose }: DataExportProps) {
       case '30d':
         end = new Date(now.getTime() + 30 * 24 * 3600000);
         break;
+      case '1y':
+        end = new Date(now.getTime() + 365 * 24 * 3600000);
+        break;
       case 'custom':
         if (customStart && customEnd) {
-          start = new Date(customStart);
-          end = new Date(customEnd);
+          start = tz.parse(customStart);
+          end = tz.parse(customEnd);
         }
         break;
     }
 
     return { startDate: start, endDate: end };
-  }, [dateRange, customStart, customEnd]);
+  }, [dateRange, customStart, customEnd, tz]);
 
   // Preview row count
   const previewRowCount = useMemo(() => {
@@ -90,8 +101,13 @@ export function DataExport({ onClose }: DataExportProps) {
     URL.revokeObjectURL(url);
   };
 
-  const handleExport = () => {
+  const handleExport = async () => {
     if (!station) return;
+    exportController.current?.abort();
+    const controller = new AbortController();
+    exportController.current = controller;
+    const options = { signal: controller.signal, onProgress: setProgress };
+    setProgress(0);
     setIsExporting(true);
 
     try {
@@ -100,15 +116,15 @@ export function DataExport({ onClose }: DataExportProps) {
 
       switch (exportFormat) {
         case 'predictions': {
-          const series = predictTideSeries(station, startDate, endDate, interval);
+          const series = await requestTideSeries(station, startDate, endDate, interval, options);
           const csv = [
-            'datetime_utc,datetime_local,height_meters,height_feet',
+            'datetime_utc,datetime_local,zone,height_meters,height_feet',
             ...series.map((p) => {
               const utc = p.time.toISOString();
-              const local = p.time.toLocaleString();
+              const local = tz.iso(p.time);
               const heightM = p.height.toFixed(3);
               const heightFt = (p.height * 3.28084).toFixed(3);
-              return `${utc},"${local}",${heightM},${heightFt}`;
+              return `${utc},${local},${tz.abbreviation(p.time)},${heightM},${heightFt}`;
             }),
           ].join('\n');
 
@@ -121,16 +137,15 @@ export function DataExport({ onClose }: DataExportProps) {
         }
 
         case 'extremes': {
-          const series = predictTideSeries(station, startDate, endDate, 6); // 6-minute interval for better extremes
-          const extremes = findExtremes(series);
+          const extremes = await requestTideExtremes(station, startDate, endDate, options);
           const csv = [
-            'datetime_utc,datetime_local,type,height_meters,height_feet',
+            'datetime_utc,datetime_local,zone,type,class,height_meters,height_feet',
             ...extremes.map((e) => {
               const utc = e.time.toISOString();
-              const local = e.time.toLocaleString();
+              const local = tz.iso(e.time);
               const heightM = e.height.toFixed(3);
               const heightFt = (e.height * 3.28084).toFixed(3);
-              return `${utc},"${local}",${e.type},${heightM},${heightFt}`;
+              return `${utc},${local},${tz.abbreviation(e.time)},${e.type},${e.classification ?? ''},${heightM},${heightFt}`;
             }),
           ].join('\n');
 
@@ -143,8 +158,7 @@ export function DataExport({ onClose }: DataExportProps) {
         }
 
         case 'calendar': {
-          const series = predictTideSeries(station, startDate, endDate, 6);
-          const extremes = findExtremes(series);
+          const extremes = await requestTideExtremes(station, startDate, endDate, options);
 
           const icsEvents = extremes.map((e) => {
             const eventStart = formatICSDate(e.time);
@@ -152,7 +166,7 @@ export function DataExport({ onClose }: DataExportProps) {
             const eventEnd = formatICSDate(new Date(e.time.getTime() + 30 * 60000));
             const heightM = e.height.toFixed(2);
             const heightFt = (e.height * 3.28084).toFixed(2);
-            const typeLabel = e.type === 'high' ? 'High Tide' : 'Low Tide';
+            const typeLabel = `${e.type === 'high' ? 'High Tide' : 'Low Tide'}${e.classification ? ` (${e.classification})` : ''}`;
             const emoji = e.type === 'high' ? '🌊' : '🏖️';
 
             return [
@@ -176,7 +190,7 @@ export function DataExport({ onClose }: DataExportProps) {
             'CALSCALE:GREGORIAN',
             'METHOD:PUBLISH',
             `X-WR-CALNAME:Tides - ${station.name}`,
-            'X-WR-TIMEZONE:UTC',
+            `X-WR-TIMEZONE:${tz.zone}`,
             ...icsEvents,
             'END:VCALENDAR',
           ].join('\r\n');
@@ -218,8 +232,10 @@ export function DataExport({ onClose }: DataExportProps) {
         }
 
         case 'json': {
+          const series = await requestTideSeries(station, startDate, endDate, interval, options);
           const data = {
             exportDate: new Date().toISOString(),
+            timeZone: tz.zone,
             station: {
               id: station.id,
               name: station.name,
@@ -229,6 +245,7 @@ export function DataExport({ onClose }: DataExportProps) {
               timezone: station.timezone,
               datum: station.datum,
               harmonicEpoch: station.harmonicEpoch,
+              ...(station.subordinate && { subordinate: station.subordinate }),
             },
             constituents: station.constituents.map((c) => {
               const constituent = CONSTITUENTS[c.symbol];
@@ -250,7 +267,7 @@ export function DataExport({ onClose }: DataExportProps) {
                 end: endDate.toISOString(),
                 intervalMinutes: interval,
               },
-              series: predictTideSeries(station, startDate, endDate, interval).map((p) => ({
+              series: series.map((p) => ({
                 time: p.time.toISOString(),
                 height: p.height,
               })),
@@ -265,8 +282,13 @@ export function DataExport({ onClose }: DataExportProps) {
           break;
         }
       }
+    } catch (e) {
+      if (!(e instanceof PredictionCancelledError)) throw e;
     } finally {
-      setIsExporting(false);
+      if (exportController.current === controller) {
+        exportController.current = null;
+        setIsExporting(false);
+      }
     }
   };
 
@@ -343,6 +365,7 @@ export function DataExport({ onClose }: DataExportProps) {
                   { value: '48h', label: '48 hours' },
                   { value: '7d', label: '7 days' },
                   { value: '30d', label: '30 days' },
+                  { value: '1y', label: '1 year' },
                   { value: 'custom', label: 'Custom' },
                 ].map((opt) => (
                   <button
@@ -414,30 +437,33 @@ export function DataExport({ onClose }: DataExportProps) {
               {exportFormat === 'predictions' && (
                 <>
                   <p>Rows: ~{previewRowCount.toLocaleString()}</p>
-                  <p>From: {startDate.toLocaleString()}</p>
-                  <p>To: {endDate.toLocaleString()}</p>
-                  <p>Format: CSV (datetime, height in m and ft)</p>
+                  <p>From: {tz.dateTime(startDate)} {tz.abbreviation(startDate)}</p>
+                  <p>To: {tz.dateTime(endDate)} {tz.abbreviation(endDate)}</p>
+                  <p>Format: CSV (UTC and local datetime, height in m and ft)</p>
                 </>
               )}
               {exportFormat === 'extremes' && (
                 <>
                   <p>Estimated high/lows: ~{Math.ceil((endDate.getTime() - startDate.getTime()) / (6 * 3600000))}</p>
-                  <p>From: {startDate.toLocaleString()}</p>
-                  <p>To: {endDate.toLocaleString()}</p>
-                  <p>Format: CSV (datetime, type, height)</p>
+                  <p>From: {tz.dateTime(startDate)} {tz.abbreviation(startDate)}</p>
+                  <p>To: {tz.dateTime(endDate)} {tz.abbreviation(endDate)}</p>
+                  <p>Format: CSV (datetime, type, HHW/LHW/HLW/LLW class, height)</p>
                 </>
               )}
               {exportFormat === 'calendar' && (
                 <>
                   <p>Events: ~{Math.ceil((endDate.getTime() - startDate.getTime()) / (6 * 3600000))} high/low tides</p>
-                  <p>From: {startDate.toLocaleString()}</p>
-                  <p>To: {endDate.toLocaleString()}</p>
+                  <p>From: {tz.dateTime(startDate)} {tz.abbreviation(startDate)}</p>
+                  <p>To: {tz.dateTime(endDate)} {tz.abbreviation(endDate)}</p>
                   <p>Format: ICS (Apple Calendar, Google Calendar, Outlook)</p>
                 </>
               )}
               {exportFormat === 'constituents' && (
                 <>
                   <p>Constituents: {station.constituents.length}</p>
+                  {station.subordinate && (
+                    <p>Constants of the reference station, {station.subordinate.referenceName}</p>
+                  )}
                   <p>Includes: symbol, name, amplitude, phase, speed, period</p>
                   <p>Format: CSV</p>
                 </>
@@ -454,7 +480,7 @@ export function DataExport({ onClose }: DataExportProps) {
 
           {/* Export Button */}
           <button
-            onClick={handleExport}
+            onClick={() => void handleExport()}
             disabled={isExporting}
             className={`w-full py-3 rounded-lg font-medium transition-colors ${
               isExporting
@@ -462,7 +488,7 @@ export function DataExport({ onClose }: DataExportProps) {
                 : 'bg-green-600 text-white hover:bg-green-700'
             }`}
           >
-            {isExporting ? 'Generating...' : 'Download'}
+            {isExporting ? `Generating... ${Math.round(progress * 100)}%` : 'Download'}
           </button>
 
           {/* Attribution */}
@@ -0,0 +1,470 @@
+import { useState, useMemo } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import type { TideStation } from '@/types/harmonics';
+import { optimizeDepartures, GATE_KIND_LABELS, RANKING_LABELS } from '@/lib/departureOptimizer';
+import type {
+  DepartureRanking,
+  DepartureResult,
+  GateCheck,
+  GateKind,
+  PassageGate,
+  PassageWaypoint,
+} from '@/lib/departureOptimizer';
+import { convertHeight, formatHeight, getHeightUnit, toMeters } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
+
+interface DepartureOptimizerProps {
+  onClose: () => void;
+}
+
+interface Waypoint extends PassageWaypoint {
+  id: string;
+}
+
+// Consecutive rejected departures stopped by the same thing
+interface RejectedRun {
+  first: DepartureResult;
+  last: DepartureResult;
+  count: number;
+  worstShortfall: number; // in the check's own unit; 0 for a stream rejection
+}
+
+const STEP_OPTIONS = [15, 30, 60];
+const DAY_OPTIONS = [1, 2, 3, 5, 7];
+
+const DEFAULT_GATES: Record<GateKind, PassageGate> = {
+  depth: { kind: 'depth', chartedDepth: 1.5, underKeelClearance: 0.5 },
+  slack: { kind: 'slack', maxStream: 1 },
+  clearance: { kind: 'clearance', bridgeHeight: 18, margin: 1 },
+};
+
+// A starter passage heading west from the station, one gate of each kind
+function defaultWaypoints(station: TideStation | null): Waypoint[] {
+  const lat = station?.lat ?? 50;
+  const lon = station?.lon ?? -1;
+  const west = (nm: number) => Number((lon - nm / (60 * Math.cos((lat * Math.PI) / 180))).toFixed(4));
+  return [
+    { id: '1', name: 'Departure', lat, lon, gate: null },
+    { id: '2', name: 'Bridge', lat, lon: west(2), gate: DEFAULT_GATES.clearance },
+    { id: '3', name: 'Narrows', lat, lon: west(6), gate: DEFAULT_GATES.slack },
+    { id: '4', name: 'Bar', lat, lon: west(10), gate: DEFAULT_GATES.depth },
+    { id: '5', name: 'Arrival', lat, lon: west(16), gate: null },
+  ];
+}
+
+function rejectionKey(result: DepartureResult): string {
+  const rejection = result.rejection;
+  if (!rejection) return '';
+  return rejection.kind === 'stream' ? `stream-${rejection.legIndex}` : `gate-${rejection.check.waypointIndex}`;
+}
+
+function shortfall(check: GateCheck): number {
+  return check.gate.kind === 'slack' ? check.value - check.required : check.required - check.value;
+}
+
+function groupRejections(rejected: DepartureResult[], stepMinutes: number): RejectedRun[] {
+  const runs: RejectedRun[] = [];
+  for (const result of rejected) {
+    const last = runs[runs.length - 1];
+    const rejection = result.rejection;
+    const amount = rejection?.kind === 'gate' ? shortfall(rejection.check) : 0;
+    const adjacent =
+      last && result.departure.getTime() - last.last.departure.getTime() === stepMinutes * 60000;
+    if (last && adjacent && rejectionKey(last.last) === rejectionKey(result)) {
+      last.last = result;
+      last.count++;
+      last.worstShortfall = Math.max(last.worstShortfall, amount);
+    } else {
+      runs.push({ first: result, last: result, count: 1, worstShortfall: amount });
+    }
+  }
+  return runs;
+}
+
+function formatCheckValue(value: number, unit: GateCheck['unit'], unitSystem: UnitSystem): string {
+  if (unit === 'm') return formatHeight(value, unitSystem, { precision: 1 });
+  if (unit === 'kts') return `${value.toFixed(1)} kts`;
+  return `${value.toFixed(2)} m/h`;
+}
+
+/**
+ * What stopped a departure, in words
+ */
+function explainRun(run: RejectedRun, waypoints: Waypoint[], unitSystem: UnitSystem): string {
+  const rejection = run.first.rejection;
+  if (!rejection) return '';
+  if (rejection.kind === 'stream') {
+    const from = waypoints[rejection.legIndex]?.name ?? '';
+    const to = waypoints[rejection.legIndex + 1]?.name ?? '';
+    return `Stream too strong to hold the track from ${from} to ${to}`;
+  }
+
+  const { check } = rejection;
+  const name = waypoints[check.waypointIndex]?.name ?? '';
+  const worst = formatCheckValue(run.worstShortfall, check.unit, unitSystem);
+  switch (check.gate.kind) {
+    case 'depth':
+      return `${name}: too shallow, up to ${worst} short of ${formatCheckValue(check.required, 'm', unitSystem)} needed`;
+    case 'clearance':
+      return `${name}: not enough room under the bridge, up to ${worst} short`;
+    case 'slack':
+      return check.unit === 'kts'
+        ? `${name}: stream over the ${formatCheckValue(check.required, 'kts', unitSystem)} limit by up to ${worst}`
+        : `${name}: not slack (no current station nearby, so the tide must be turning)`;
+  }
+}
+
+/**
+ * DepartureOptimizer
+ *
+ * Sweeps departure times over a few days and sails the passage from each,
+ * leg by leg through the tidal stream, checking minimum-depth, slack-water
+ * and bridge-clearance gates on the way. Ranks the departures that get
+ * through, and says which gate ruled out each of the others.
+ */
+export function DepartureOptimizer({ onClose }: DepartureOptimizerProps) {
+  const tz = useZonedTime();
+  const station = useHarmonicsStore((s) => s.selectedStation);
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const { vessel } = useVessel();
+
+  const [waypoints, setWaypoints] = useState<Waypoint[]>(() => defaultWaypoints(station));
+  const [fromDate, setFromDate] = useState(() => tz.format(new Date(), 'yyyy-MM-dd'));
+  const [days, setDays] = useState(2);
+  const [stepMinutes, setStepMinutes] = useState(30);
+  const [ranking, setRanking] = useState<DepartureRanking>('time');
+
+  const heightUnit = getHeightUnit(unitSystem);
+
+  const sweep = useMemo(() => {
+    if (!station || !fromDate) return null;
+    const start = tz.parse(fromDate);
+    const end = new Date(tz.addDays(start, days).getTime() - stepMinutes * 60000);
+    const passageVessel = {
+      speed: vessel.cruiseSpeed,
+      draft: vessel.draft,
+      airDraft: vessel.airDraft,
+      fuelBurn: vessel.fuelBurn,
+    };
+    return optimizeDepartures(station, waypoints, passageVessel, { start, end, stepMinutes }, ranking);
+  }, [station, tz, fromDate, days, stepMinutes, ranking, waypoints, vessel]);
+
+  const rejectedRuns = useMemo(() => (sweep ? groupRejections(sweep.rejected, stepMinutes) : []), [sweep, stepMinutes]);
+
+  const updateWaypoint = (id: string, updates: Partial<Waypoint>) => {
+    setWaypoints(waypoints.map((wp) => (wp.id === id ? { ...wp, ...updates } : wp)));
+  };
+
+  const updateGate = (wp: Waypoint, updates: Partial<Record<string, number>>) => {
+    if (!wp.gate) return;
+    updateWaypoint(wp.id, { gate: { ...wp.gate, ...updates } as PassageGate });
+  };
+
+  const addWaypoint = () => {
+    const last = waypoints[waypoints.length - 1];
+    const previous = waypoints[waypoints.length - 2];
+    if (!last || !previous) return;
+    // Halfway along the final leg, ready to be moved
+    const waypoint: Waypoint = {
+      id: Date.now().toString(),
+      name: `Waypoint ${waypoints.length}`,
+      lat: Number(((previous.lat + last.lat) / 2).toFixed(4)),
+      lon: Number(((previous.lon + last.lon) / 2).toFixed(4)),
+      gate: null,
+    };
+    setWaypoints([...waypoints.slice(0, -1), waypoint, last]);
+  };
+
+  const removeWaypoint = (id: string) => {
+    if (waypoints.length <= 2) return;
+    setWaypoints(waypoints.filter((wp) => wp.id !== id));
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  };
+
+  const inputClass = 'px-2 py-1 bg-slate-600 rounded text-white text-sm';
+
+  if (!station) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center sticky top-0 bg-slate-900">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Departure Optimizer</h2>
+            <p className="text-slate-400 text-sm">Best departure times through every tidal gate on a passage</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl" aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <VesselPicker />
+
+          {/* Search */}
+          <div className="bg-slate-800 rounded-lg p-4 grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <label className="block text-xs text-slate-400">
+              From
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 rounded text-white text-sm"
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Days
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 rounded text-white text-sm"
+              >
+                {DAY_OPTIONS.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Every
+              <select
+                value={stepMinutes}
+                onChange={(e) => setStepMinutes(Number(e.target.value))}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 rounded text-white text-sm"
+              >
+                {STEP_OPTIONS.map((m) => (
+                  <option key={m} value={m}>
+                    {m} min
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Rank by
+              <select
+                value={ranking}
+                onChange={(e) => setRanking(e.target.value as DepartureRanking)}
+                className="w-full mt-1 px-2 py-1 bg-slate-700 rounded text-white text-sm"
+              >
+                {(Object.keys(RANKING_LABELS) as DepartureRanking[]).map((r) => (
+                  <option key={r} value={r}>
+                    {RANKING_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Waypoints and gates */}
+          <div className="bg-slate-800 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-sm font-medium text-slate-300">Passage</h3>
+              <button
+                onClick={addWaypoint}
+                className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 rounded text-xs text-white"
+              >
+                + Add Waypoint
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {waypoints.map((wp, i) => (
+                <div key={wp.id} className="p-3 bg-slate-700 rounded-lg space-y-2">
+                  <div className="flex gap-2 items-center">
+                    <span className="text-slate-500 text-sm font-mono w-6">{i + 1}.</span>
+                    <input
+                      type="text"
+                      value={wp.name}
+                      onChange={(e) => updateWaypoint(wp.id, { name: e.target.value })}
+                      className={`flex-1 ${inputClass}`}
+                      aria-label="Waypoint name"
+                    />
+                    <input
+                      type="number"
+                      value={wp.lat}
+                      onChange={(e) => updateWaypoint(wp.id, { lat: Number(e.target.value) })}
+                      className={`w-24 text-right ${inputClass}`}
+                      aria-label="Latitude"
+                      step={0.001}
+                    />
+                    <input
+                      type="number"
+                      value={wp.lon}
+                      onChange={(e) => updateWaypoint(wp.id, { lon: Number(e.target.value) })}
+                      className={`w-24 text-right ${inputClass}`}
+                      aria-label="Longitude"
+                      step={0.001}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 items-center ml-8 text-xs text-slate-300">
+                    <select
+                      value={wp.gate?.kind ?? ''}
+                      onChange={(e) =>
+                        updateWaypoint(wp.id, {
+                          gate: e.target.value ? DEFAULT_GATES[e.target.value as GateKind] : null,
+                        })
+                      }
+                      className="px-2 py-1 bg-slate-600 rounded text-white text-xs"
+                      aria-label="Gate"
+                    >
+                      <option value="">No gate</option>
+                      {(Object.keys(GATE_KIND_LABELS) as GateKind[]).map((kind) => (
+                        <option key={kind} value={kind}>
+                          {GATE_KIND_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+
+                    {wp.gate?.kind === 'depth' && (
+                      <>
+                        <span>Charted depth ({heightUnit})</span>
+                        <input
+                          type="number"
+                          value={Number(convertHeight(wp.gate.chartedDepth, unitSystem).toFixed(1))}
+                          onChange={(e) => updateGate(wp, { chartedDepth: toMeters(Number(e.target.value), unitSystem) })}
+                          className={`w-16 ${inputClass}`}
+                          step={0.1}
+                        />
+                        <span>UKC ({heightUnit})</span>
+                        <input
+                          type="number"
+                          value={Number(convertHeight(wp.gate.underKeelClearance, unitSystem).toFixed(1))}
+                          onChange={(e) =>
+                            updateGate(wp, { underKeelClearance: toMeters(Number(e.target.value), unitSystem) })
+                          }
+                          className={`w-16 ${inputClass}`}
+                          step={0.1}
+                          min={0}
+                        />
+                      </>
+                    )}
+                    {wp.gate?.kind === 'slack' && (
+                      <>
+                        <span>Max stream (kts)</span>
+                        <input
+                          type="number"
+                          value={wp.gate.maxStream}
+                          onChange={(e) => updateGate(wp, { maxStream: Number(e.target.value) })}
+                          className={`w-16 ${inputClass}`}
+                          step={0.1}
+                          min={0}
+                        />
+                      </>
+                    )}
+                    {wp.gate?.kind === 'clearance' && (
+                      <>
+                        <span>Bridge above datum ({heightUnit})</span>
+                        <input
+                          type="number"
+                          value={Number(convertHeight(wp.gate.bridgeHeight, unitSystem).toFixed(1))}
+                          onChange={(e) => updateGate(wp, { bridgeHeight: toMeters(Number(e.target.value), unitSystem) })}
+                          className={`w-16 ${inputClass}`}
+                          step={0.1}
+                        />
+                        <span>Margin ({heightUnit})</span>
+                        <input
+                          type="number"
+                          value={Number(convertHeight(wp.gate.margin, unitSystem).toFixed(1))}
+                          onChange={(e) => updateGate(wp, { margin: toMeters(Number(e.target.value), unitSystem) })}
+                          className={`w-16 ${inputClass}`}
+                          step={0.1}
+                          min={0}
+                        />
+                      </>
+                    )}
+
+                    {i > 0 && i < waypoints.length - 1 && (
+                      <button onClick={() => removeWaypoint(wp.id)} className="ml-auto text-red-400 hover:text-red-300">
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Ranked departures */}
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-2">
+              Departures that clear every gate ({sweep?.ranked.length ?? 0})
+            </h3>
+            {!sweep || sweep.ranked.length === 0 ? (
+              <div className="text-center text-slate-500 py-4">No departure in this range gets through every gate.</div>
+            ) : (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {sweep.ranked.slice(0, 10).map((result, i) => (
+                  <div
+                    key={result.departure.getTime()}
+                    className={`p-3 rounded-lg text-sm ${i === 0 ? 'bg-emerald-900/30 ring-1 ring-emerald-500' : 'bg-slate-800'}`}
+                  >
+                    <div className="flex flex-wrap justify-between gap-2">
+                      <span className="text-white font-medium">
+                        {tz.format(result.departure, 'EEE d MMM HH:mm')}
+                        {result.arrival && (
+                          <span className="text-slate-400 font-normal"> → {tz.format(result.arrival, 'HH:mm')}</span>
+                        )}
+                      </span>
+                      <span className="text-slate-300">
+                        {formatDuration(result.minutes)} · {result.fuelLiters.toFixed(0)} L ·{' '}
+                        {result.adverseMiles.toFixed(1)} nm foul stream
+                      </span>
+                    </div>
+                    {result.gates.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                        {result.gates.map((check) => (
+                          <span key={check.waypointIndex} className="px-2 py-0.5 rounded bg-slate-700 text-cyan-300">
+                            {waypoints[check.waypointIndex]?.name} {tz.format(check.time, 'HH:mm')} ·{' '}
+                            {check.gate.kind === 'slack'
+                              ? formatCheckValue(check.value, check.unit, unitSystem)
+                              : `+${formatCheckValue(check.value - check.required, check.unit, unitSystem)}`}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Rejected departures */}
+          {rejectedRuns.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">
+                Ruled out ({sweep?.rejected.length ?? 0} departures)
+              </h3>
+              <div className="space-y-1 max-h-56 overflow-y-auto text-xs">
+                {rejectedRuns.map((run) => (
+                  <div key={run.first.departure.getTime()} className="flex gap-3 p-2 bg-slate-800 rounded">
+                    <span className="text-slate-300 whitespace-nowrap">
+                      {tz.format(run.first.departure, 'EEE HH:mm')}
+                      {run.count > 1 && `–${tz.format(run.last.departure, 'HH:mm')}`}
+                    </span>
+                    <span className="text-amber-300">{explainRun(run, waypoints, unitSystem)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-slate-800 rounded-lg p-3 text-xs text-slate-400">
+            Depths and bridge heights are above {station.datum ?? 'chart datum'}. Legs are sailed at the vessel's
+            cruising speed through the stream from the nearest current station; a slack gate with no current station
+            within 50 km waits for the tide to turn instead. Each departure is listed under the first gate it fails.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
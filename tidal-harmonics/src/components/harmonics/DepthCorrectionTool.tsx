@@ -3,13 +3,15 @@ import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTide, predictTideSeries } from '@/lib/harmonics';
 import { formatHeight, toMeters } from '@/lib/units';
-import { addHours, format } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose: () => void;
 }
 
 export function DepthCorrectionTool({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -126,7 +128,7 @@ export function DepthCorrectionTool({ onClose }: Props) {
           </span>
         </div>
         <div className="text-slate-500 text-xs mt-1">
-          Above chart datum (MLLW)
+          Above chart datum ({station?.datum})
         </div>
       </div>
 
@@ -245,7 +247,7 @@ export function DepthCorrectionTool({ onClose }: Props) {
             <div className="text-orange-400 text-sm font-mono">
               {calculation.minTide >= 0 ? '+' : ''}{formatHeight(calculation.minTide, unitSystem)}
             </div>
-            <div className="text-slate-600 text-xs">{format(calculation.minTideTime, 'HH:mm')}</div>
+            <div className="text-slate-600 text-xs">{tz.format(calculation.minTideTime, 'HH:mm')}</div>
           </div>
           <div>
             <div className="text-slate-500 text-xs">Min UKC at Low</div>
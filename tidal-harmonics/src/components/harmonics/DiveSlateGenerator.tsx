@@ -1,6 +1,8 @@
 import { useMemo, useState, useRef } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { compilePredictionKernel } from '@/lib/predictionKernel';
+import { findTidalWindows, stageOfRate } from '@/lib/tidalWindows';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DiveSlateGeneratorProps {
   onClose: () => void;
@@ -15,24 +17,20 @@ interface DiveWindow {
   notes: string[];
 }
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
-}
-
+// Below this rate (m/hour) the water is slack
+const SLACK_RATE = 0.05;
 
 export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
+  // The slate covers one day at the station
+  const formatDate = (date: Date) => stationTime.format(date, 'EEEE, MMMM d, yyyy');
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const slateRef = useRef<HTMLDivElement>(null);
 
-  const [diveDate, setDiveDate] = useState(() => {
-    const d = new Date();
-    return d.toISOString().split('T')[0];
-  });
+  const [diveDate, setDiveDate] = useState(() => stationTime.dayKey(new Date()));
   const [siteName, setSiteName] = useState('');
   const [maxDepth, setMaxDepth] = useState(18);
   const [bottomTime, setBottomTime] = useState(45);
@@ -42,31 +40,30 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
   const slateData = useMemo(() => {
     if (!selectedStation || !diveDate) return null;
 
-    const date = new Date(diveDate);
-    date.setHours(0, 0, 0, 0);
+    const date = stationTime.parse(diveDate);
     const diveWindows: DiveWindow[] = [];
+    const range = { start: stationTime.atTime(date, 5), end: stationTime.atTime(date, 20, 30) };
+    const kernel = compilePredictionKernel(selectedStation, range.start, range.end);
 
-    // Generate tide data for every 30 minutes from 5am to 8pm
+    // Generate tide data for every 30 minutes from 5am to 8pm station time
     for (let hour = 5; hour <= 20; hour++) {
       for (let min = 0; min < 60; min += 30) {
-        const time = new Date(date);
-        time.setHours(hour, min, 0, 0);
+        const time = stationTime.atTime(date, hour, min);
 
-        const tide = predictTide(selectedStation, time);
+        const tide = kernel.heightAt(time);
 
         // Calculate current rate
-        const before = predictTide(selectedStation, new Date(time.getTime() - 30 * 60000));
-        const after = predictTide(selectedStation, new Date(time.getTime() + 30 * 60000));
-        const rate = Math.abs(after - before); // m per hour (approximately)
+        const signedRate = kernel.rateAt(time); // m per hour
+        const rate = Math.abs(signedRate);
 
         let currentStrength: 'slack' | 'light' | 'moderate' | 'strong';
-        if (rate < 0.05) currentStrength = 'slack';
+        if (stageOfRate(signedRate, SLACK_RATE) === 'slack') currentStrength = 'slack';
         else if (rate < 0.15) currentStrength = 'light';
         else if (rate < 0.3) currentStrength = 'moderate';
         else currentStrength = 'strong';
 
         const currentDirection: 'ebb' | 'flood' | 'slack' =
-          rate < 0.03 ? 'slack' : (after > before ? 'flood' : 'ebb');
+          rate < 0.03 ? 'slack' : (signedRate > 0 ? 'flood' : 'ebb');
 
         // Visibility generally better at slack water and high tide
         let visibility: 'best' | 'good' | 'fair' | 'poor';
@@ -92,15 +89,12 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
     }
 
     // Find high and low tides
-    let highTide = diveWindows[0];
-    let lowTide = diveWindows[0];
-    for (const w of diveWindows) {
-      if (w.tide > highTide!.tide) highTide = w;
-      if (w.tide < lowTide!.tide) lowTide = w;
-    }
+    const day = findTidalWindows(selectedStation, {}, range)[0];
+    const highTide = day && { time: day.maxHeightTime, tide: day.maxHeight };
+    const lowTide = day && { time: day.minHeightTime, tide: day.minHeight };
 
     // Find best dive windows (slack water)
-    const slackWindows = diveWindows.filter(w => w.current === 'slack');
+    const slackWindows = findTidalWindows(selectedStation, { stage: 'slack', slackRate: SLACK_RATE }, range);
 
     return {
       diveWindows,
@@ -108,7 +102,7 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
       lowTide,
       slackWindows,
     };
-  }, [selectedStation, diveDate]);
+  }, [selectedStation, diveDate, stationTime]);
 
   const handlePrint = () => {
     const printWindow = window.open('', '_blank');
@@ -252,7 +246,7 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
         <div className="flex-1 overflow-y-auto bg-white text-black rounded-lg p-4" ref={slateRef}>
           <h1 style={{ margin: '0 0 5px 0' }}>Dive Slate</h1>
           <p style={{ margin: 0, color: '#666' }}>
-            {diveDate ? formatDate(new Date(diveDate)) : 'Select a date'}
+            {diveDate ? formatDate(stationTime.parse(diveDate)) : 'Select a date'}
           </p>
 
           <div className="info-grid" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', margin: '15px 0' }}>
@@ -304,7 +298,7 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
               <div style={{ fontWeight: 'bold', fontSize: '12px' }}>Best Visibility</div>
               <div style={{ fontSize: '14px' }}>
                 {slateData?.slackWindows && slateData.slackWindows.length > 0
-                  ? slateData.slackWindows.map(w => formatTime(w.time)).join(', ')
+                  ? slateData.slackWindows.map(w => `${formatTime(w.start)}–${formatTime(w.end)}`).join(', ')
                   : 'Check table'}
               </div>
             </div>
@@ -358,7 +352,7 @@ export function DiveSlateGenerator({ onClose }: DiveSlateGeneratorProps) {
           </div>
 
           <p style={{ fontSize: '10px', color: '#999', marginTop: '15px', textAlign: 'center' }}>
-            Generated by Tidal Harmonics • {new Date().toLocaleDateString()}
+            Generated by Tidal Harmonics • {tz.date(new Date())} • Times in {tz.abbreviation()}
           </p>
         </div>
       </div>
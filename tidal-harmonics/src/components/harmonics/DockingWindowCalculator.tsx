@@ -1,7 +1,9 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTideSeries } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { predictTide, predictTideSeries } from '@/lib/harmonics';
+import { findTidalWindows } from '@/lib/tidalWindows';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DockingWindowCalculatorProps {
   onClose: () => void;
@@ -18,6 +20,7 @@ interface DockingWindow {
 }
 
 export function DockingWindowCalculator({ onClose }: DockingWindowCalculatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
   // Dock and vessel parameters
@@ -125,9 +128,24 @@ export function DockingWindowCalculator({ onClose }: DockingWindowCalculatorProp
     return windows;
   }, [selectedStation, dockHeight, vesselFreeboard, minFreeboard, maxFreeboard, fenderCompression]);
 
-  // Find optimal windows
-  const optimalWindows = dockingWindows.filter((w) => w.condition === 'optimal');
-  const nextOptimal = optimalWindows[0];
+  // Optimal boarding while the deck is within the minimum step of the quay,
+  // fenders included, i.e. while the water is in a band about quay level
+  const nextOptimal = useMemo(() => {
+    if (!selectedStation) return undefined;
+
+    const now = new Date();
+    const level = dockHeight - vesselFreeboard;
+    const band = minFreeboard + fenderCompression;
+    const window = findTidalWindows(
+      selectedStation,
+      { minHeight: level - band, maxHeight: level + band },
+      { start: now, end: addHours(now, 24) }
+    )[0];
+    if (!window) return undefined;
+
+    const waterLevel = predictTide(selectedStation, window.start);
+    return { ...window, waterLevel, freeboardToQuay: level - waterLevel };
+  }, [selectedStation, dockHeight, vesselFreeboard, minFreeboard, fenderCompression]);
 
   // Summary statistics
   const summary = useMemo(() => {
@@ -278,9 +296,11 @@ export function DockingWindowCalculator({ onClose }: DockingWindowCalculatorProp
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-white text-lg font-medium">
-                    {format(nextOptimal.time, 'HH:mm')}
+                    {nextOptimal.startsBefore ? 'Now' : tz.format(nextOptimal.start, 'HH:mm')}
+                    {' – '}
+                    {tz.format(nextOptimal.end, 'HH:mm')}
                   </p>
-                  <p className="text-slate-400 text-sm">{format(nextOptimal.time, 'EEE, MMM d')}</p>
+                  <p className="text-slate-400 text-sm">{tz.format(nextOptimal.start, 'EEE, MMM d')}</p>
                 </div>
                 <div className="text-right">
                   <p className="text-orange-400 font-medium">
@@ -326,7 +346,7 @@ export function DockingWindowCalculator({ onClose }: DockingWindowCalculatorProp
                   className={`flex items-center gap-3 p-2 rounded border ${getConditionBg(window.condition)}`}
                 >
                   <div className="w-16 text-white font-mono text-sm">
-                    {format(window.time, 'HH:mm')}
+                    {tz.format(window.time, 'HH:mm')}
                   </div>
                   <div className={`w-2 h-2 rounded-full ${getConditionColor(window.condition)}`} />
                   <div className="flex-1 min-w-0">
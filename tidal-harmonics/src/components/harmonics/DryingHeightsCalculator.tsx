@@ -2,7 +2,8 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DryingHeightsCalculatorProps {
   onClose: () => void;
@@ -17,6 +18,7 @@ interface DryingWindow {
 }
 
 export function DryingHeightsCalculator({ onClose }: DryingHeightsCalculatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const epoch = useTimeStore((s) => s.epoch);
@@ -199,7 +201,7 @@ export function DryingHeightsCalculator({ onClose }: DryingHeightsCalculatorProp
               {analysis.nextChange && (
                 <p className="text-xs text-slate-400 mt-2">
                   {analysis.nextChange.type === 'exposes' ? 'Will expose' : 'Will cover'} at{' '}
-                  {format(analysis.nextChange.time, 'HH:mm')}
+                  {tz.format(analysis.nextChange.time, 'HH:mm')}
                 </p>
               )}
             </div>
@@ -222,7 +224,7 @@ export function DryingHeightsCalculator({ onClose }: DryingHeightsCalculatorProp
                     >
                       <div>
                         <p className="text-sm text-slate-300">
-                          {format(window.start, 'EEE HH:mm')} - {format(window.end, 'HH:mm')}
+                          {tz.format(window.start, 'EEE HH:mm')} - {tz.format(window.end, 'HH:mm')}
                         </p>
                         <p className="text-xs text-slate-500">
                           Max exposure: {formatHeight(window.maxExposure)} above water
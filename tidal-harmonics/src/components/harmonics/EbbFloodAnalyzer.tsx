@@ -4,7 +4,8 @@ import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
 import type { TideExtreme } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
-import { addDays, differenceInMinutes, format } from 'date-fns';
+import { addDays, differenceInMinutes } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose: () => void;
@@ -20,6 +21,7 @@ interface TidalCycle {
 }
 
 export function EbbFloodAnalyzer({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -287,7 +289,7 @@ export function EbbFloodAnalyzer({ onClose }: Props) {
                   {cycle.type === 'flood' ? '▲' : '▼'}
                 </span>
                 <span className="text-slate-500 flex-1">
-                  {format(cycle.start.time, 'HH:mm')} → {format(cycle.end.time, 'HH:mm')}
+                  {tz.format(cycle.start.time, 'HH:mm')} → {tz.format(cycle.end.time, 'HH:mm')}
                 </span>
                 <span className="text-white font-mono w-12 text-right">
                   {formatDuration(cycle.duration)}
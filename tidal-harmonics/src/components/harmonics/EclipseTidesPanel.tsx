@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
-import { format, differenceInDays } from 'date-fns';
+import { differenceInDays } from 'date-fns';
 import { useTimeStore } from '@/stores/timeStore';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface EclipseTidesPanelProps {
   onClose: () => void;
@@ -137,6 +138,7 @@ function calculateEclipseEffect(eclipseType: 'solar' | 'lunar', subtype: string)
 }
 
 export function EclipseTidesPanel({ onClose }: EclipseTidesPanelProps) {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const currentTime = useMemo(() => new Date(epoch), [epoch]);
 
@@ -186,7 +188,7 @@ export function EclipseTidesPanel({ onClose }: EclipseTidesPanelProps) {
                     Next: {nextEclipse.subtype.charAt(0).toUpperCase() + nextEclipse.subtype.slice(1)} {nextEclipse.type.charAt(0).toUpperCase() + nextEclipse.type.slice(1)} Eclipse
                   </p>
                   <p className="text-sm text-slate-400">
-                    {format(nextEclipse.date, 'MMMM d, yyyy')}
+                    {tz.format(nextEclipse.date, 'MMMM d, yyyy')}
                   </p>
                 </div>
               </div>
@@ -241,7 +243,7 @@ export function EclipseTidesPanel({ onClose }: EclipseTidesPanelProps) {
                         {eclipse.subtype.charAt(0).toUpperCase() + eclipse.subtype.slice(1)} {eclipse.type}
                       </p>
                       <p className="text-xs text-slate-500">
-                        {format(eclipse.date, 'MMM d, yyyy')}
+                        {tz.format(eclipse.date, 'MMM d, yyyy')}
                       </p>
                     </div>
                   </div>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide, predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface EmbeddableTideWidgetProps {
   onClose: () => void;
@@ -20,6 +21,7 @@ function generateEmbedCode(stationId: string, theme: string, size: string): stri
 }
 
 export function EmbeddableTideWidget({ onClose }: EmbeddableTideWidgetProps) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -74,13 +76,7 @@ export function EmbeddableTideWidget({ onClose }: EmbeddableTideWidgetProps) {
     return `${(h * 3.281).toFixed(1)}ft`;
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatTimeUntil = (date: Date) => {
     const diff = date.getTime() - liveTime.getTime();
@@ -146,7 +142,7 @@ export function EmbeddableTideWidget({ onClose }: EmbeddableTideWidgetProps) {
                   </div>
                   {size !== 'compact' && (
                     <div className={`text-xs ${theme === 'light' ? 'text-slate-500' : 'text-slate-400'}`}>
-                      {liveTime.toLocaleTimeString()}
+                      {tz.format(liveTime, 'h:mm:ss a')} {tz.abbreviation(liveTime)}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend,
+} from 'recharts';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import type { EphemerisMode } from '@/lib/astronomical';
+import { compareEphemerides, DIAGNOSTIC_CONSTITUENTS } from '@/lib/ephemerisComparison';
+import type { EphemerisComparison } from '@/lib/ephemerisComparison';
+
+interface EphemerisDiagnosticsProps {
+  onClose: () => void;
+}
+
+const MODES: { mode: EphemerisMode; label: string; description: string }[] = [
+  {
+    mode: 'polynomial',
+    label: 'Fast polynomial',
+    description: 'Truncated series in UT. Good near 2000; lags the Moon by its motion over ΔT elsewhere.',
+  },
+  {
+    mode: 'precise',
+    label: 'High precision',
+    description: 'Full mean-element series in Terrestrial Time, with ΔT from astronomy-engine.',
+  },
+];
+
+const CENTURIES = [
+  { label: '1900–2000', start: 1900, end: 2000 },
+  { label: '2000–2100', start: 2000, end: 2100 },
+  { label: '2100–2200', start: 2100, end: 2200 },
+];
+
+const CONSTITUENT_COLORS: Record<(typeof DIAGNOSTIC_CONSTITUENTS)[number], string> = {
+  M2: '#3b82f6',
+  S2: '#f59e0b',
+  N2: '#a855f7',
+  K1: '#22c55e',
+  O1: '#ef4444',
+  M4: '#06b6d4',
+};
+
+const formatArcsec = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}″`;
+const formatSeconds = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)} s`;
+
+/**
+ * Ephemeris Diagnostics
+ *
+ * Chooses how the harmonic engine evaluates the astronomical arguments
+ * (s, h, p, N, p′) and compares the two modes over a century: argument
+ * differences, the tide time shifts they cause, and each mode's residual
+ * against astronomy-engine's true Moon and Sun.
+ */
+export function EphemerisDiagnostics({ onClose }: EphemerisDiagnosticsProps) {
+  const station = useHarmonicsStore((s) => s.selectedStation);
+  const ephemerisMode = useHarmonicsStore((s) => s.ephemerisMode);
+  const setEphemerisMode = useHarmonicsStore((s) => s.setEphemerisMode);
+  const [century, setCentury] = useState(CENTURIES[0]!);
+  const [includeHeights, setIncludeHeights] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<EphemerisComparison | null>(null);
+
+  const runComparison = () => {
+    setRunning(true);
+    // Let the button show its running state before the main thread is busy
+    setTimeout(() => {
+      setResult(compareEphemerides(century.start, century.end, includeHeights ? station : null));
+      setRunning(false);
+    }, 0);
+  };
+
+  const chartData = result?.years.map((y) => ({
+    year: y.year,
+    deltaT: y.deltaT,
+    ...Object.fromEntries(y.constituents.map((c) => [c.symbol, c.timingShift])),
+  }));
+  const decadeRows = result?.years.filter((y) => y.year % 10 === 0 || y.year === result.endYear);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl border border-slate-700 max-w-4xl w-full mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white">Ephemeris Precision</h2>
+            <p className="text-slate-400 text-sm">
+              How the astronomical arguments behind every prediction are computed
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-white transition-colors p-1"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Mode selector */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-300 mb-2">Ephemeris used for predictions</h3>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {MODES.map(({ mode, label, description }) => (
+                <button
+                  key={mode}
+                  onClick={() => setEphemerisMode(mode)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    ephemerisMode === mode
+                      ? 'border-cyan-500 bg-cyan-900/30'
+                      : 'border-slate-700 bg-slate-800/50 hover:border-slate-500'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-white">{label}</div>
+                  <div className="text-xs text-slate-400 mt-1">{description}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              The choice applies to all charts, tables and exports, and is remembered on this device.
+            </p>
+          </div>
+
+          {/* Comparison controls */}
+          <div className="p-4 bg-slate-800/50 rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-slate-300">Compare over</span>
+              {CENTURIES.map((c) => (
+                <button
+                  key={c.label}
+                  onClick={() => setCentury(c)}
+                  className={`px-2 py-1 rounded text-xs ${
+                    century.label === c.label ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={includeHeights}
+                onChange={(e) => setIncludeHeights(e.target.checked)}
+                disabled={!station}
+              />
+              Compare predicted heights at {station?.name ?? 'the selected station'}
+            </label>
+            <button
+              onClick={runComparison}
+              disabled={running}
+              className="px-3 py-1.5 rounded bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 text-white text-sm"
+            >
+              {running ? 'Comparing…' : 'Run comparison'}
+            </button>
+          </div>
+
+          {result && chartData && decadeRows && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-center">
+                <div className="p-3 bg-slate-800 rounded-lg">
+                  <div className="text-xs text-slate-400">Largest tide time shift</div>
+                  <div className="text-lg font-mono text-white">{result.maxTimingShift.toFixed(1)} s</div>
+                </div>
+                <div className="p-3 bg-slate-800 rounded-lg">
+                  <div className="text-xs text-slate-400">Largest height difference</div>
+                  <div className="text-lg font-mono text-white">
+                    {result.maxHeightDiff === null ? '—' : `${(result.maxHeightDiff * 1000).toFixed(1)} mm`}
+                  </div>
+                </div>
+                <div className="p-3 bg-slate-800 rounded-lg">
+                  <div className="text-xs text-slate-400">ΔT over the span</div>
+                  <div className="text-lg font-mono text-white">
+                    {result.years[0]!.deltaT.toFixed(0)} → {result.years[result.years.length - 1]!.deltaT.toFixed(0)} s
+                  </div>
+                </div>
+              </div>
+
+              {/* Timing shift chart */}
+              <div>
+                <h3 className="text-sm font-semibold text-slate-300 mb-1">Tide time shift, precise − polynomial</h3>
+                <p className="text-xs text-slate-500 mb-2">
+                  Positive when the precise ephemeris puts the constituent's peak later.
+                </p>
+                <div className="h-56">
+                  <ResponsiveContainer>
+                    <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                      <XAxis dataKey="year" stroke="#64748b" tick={{ fontSize: 9 }} interval={9} />
+                      <YAxis
+                        stroke="#64748b"
+                        tick={{ fontSize: 9 }}
+                        tickFormatter={(v: number) => `${v.toFixed(0)}s`}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          background: '#1e293b',
+                          border: '1px solid #334155',
+                          borderRadius: '4px',
+                          fontSize: '10px',
+                        }}
+                        formatter={(value, name) => [formatSeconds(Number(value)), name]}
+                      />
+                      <Legend wrapperStyle={{ fontSize: '10px' }} />
+                      <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
+                      {DIAGNOSTIC_CONSTITUENTS.map((symbol) => (
+                        <Line
+                          key={symbol}
+                          type="monotone"
+                          dataKey={symbol}
+                          stroke={CONSTITUENT_COLORS[symbol]}
+                          strokeWidth={symbol === 'M2' ? 2 : 1}
+                          dot={false}
+                          name={symbol}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Argument differences */}
+              <div>
+                <h3 className="text-sm font-semibold text-slate-300 mb-2">Argument differences by decade</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-slate-400 border-b border-slate-700">
+                        <th className="text-left py-1">Year</th>
+                        <th className="text-right">ΔT</th>
+                        <th className="text-right">s</th>
+                        <th className="text-right">h</th>
+                        <th className="text-right">p</th>
+                        <th className="text-right">N</th>
+                        <th className="text-right">p′</th>
+                        <th className="text-right">M2 shift</th>
+                        {result.maxHeightDiff !== null && <th className="text-right">Height</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {decadeRows.map((y) => (
+                        <tr key={y.year} className="text-slate-300 border-b border-slate-800">
+                          <td className="py-1">{y.year}</td>
+                          <td className="text-right">{y.deltaT.toFixed(1)} s</td>
+                          <td className="text-right">{formatArcsec(y.argumentDiff.s)}</td>
+                          <td className="text-right">{formatArcsec(y.argumentDiff.h)}</td>
+                          <td className="text-right">{formatArcsec(y.argumentDiff.p)}</td>
+                          <td className="text-right">{formatArcsec(y.argumentDiff.N)}</td>
+                          <td className="text-right">{formatArcsec(y.argumentDiff.pp)}</td>
+                          <td className="text-right">
+                            {formatSeconds(y.constituents.find((c) => c.symbol === 'M2')?.timingShift ?? 0)}
+                          </td>
+                          {result.maxHeightDiff !== null && (
+                            <td className="text-right">{((y.heightDiff ?? 0) * 1000).toFixed(2)} mm</td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Residuals against the true ephemeris */}
+              <div>
+                <h3 className="text-sm font-semibold text-slate-300 mb-1">Residuals against the true Moon and Sun</h3>
+                <p className="text-xs text-slate-500 mb-2">
+                  Mean of true − modelled longitude over each decade, after removing nutation, aberration and the
+                  main periodic terms. Leftover short-period terms leave some scatter; what matters is whether a
+                  mode trends away from zero over the century.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-slate-400 border-b border-slate-700">
+                        <th className="text-left py-1">Decade</th>
+                        <th className="text-right">Moon, polynomial</th>
+                        <th className="text-right">Moon, precise</th>
+                        <th className="text-right">Sun, polynomial</th>
+                        <th className="text-right">Sun, precise</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.residuals.map((r) => (
+                        <tr key={r.decade} className="text-slate-300 border-b border-slate-800">
+                          <td className="py-1">{r.decade}s</td>
+                          <td className="text-right">{formatArcsec(r.moon.polynomial)}</td>
+                          <td className="text-right">{formatArcsec(r.moon.precise)}</td>
+                          <td className="text-right">{formatArcsec(r.sun.polynomial)}</td>
+                          <td className="text-right">{formatArcsec(r.sun.precise)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="p-4 bg-slate-800/50 rounded-lg text-xs text-slate-400 leading-relaxed">
+            <p>
+              The Moon's mean longitude advances about 0.55″ every second. The polynomial mode evaluates it at
+              Universal Time, so it trails the Moon by ΔT (the gap between Terrestrial Time and UT): about a
+              minute today, a few seconds around 1900, and several minutes by 2100 as Earth's rotation slows.
+              For M2 each 15″ of lunar longitude is about one second of tide time, so the difference stays small
+              for navigation but grows steadily for historical reconstructions and far-future predictions.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface FerryTimingOptimizerProps {
   onClose: () => void;
@@ -105,6 +106,8 @@ function calculateOptimalDepartures(
 }
 
 export function FerryTimingOptimizer({ onClose }: FerryTimingOptimizerProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const [selectedRoute, setSelectedRoute] = useState(0);
   const [vesselSpeed, setVesselSpeed] = useState(15);
@@ -129,9 +132,9 @@ export function FerryTimingOptimizer({ onClose }: FerryTimingOptimizerProps) {
     // Analyze next 24 hours in 1-hour increments
     for (let h = 0; h < 24; h++) {
       const time = new Date(now.getTime() + h * 3600000);
-      const hour = time.getHours();
+      const hour = Math.floor(stationTime.hoursSinceMidnight(time));
 
-      // Skip hours outside departure window
+      // Skip hours outside departure window (station time)
       if (hour < departureWindow[0] || hour > departureWindow[1]) continue;
 
       const height = predictTide(selectedStation, time);
@@ -178,7 +181,7 @@ export function FerryTimingOptimizer({ onClose }: FerryTimingOptimizerProps) {
 
     // Sort by score
     return results.sort((a, b) => b.score - a.score);
-  }, [selectedStation, departureWindow]);
+  }, [selectedStation, departureWindow, stationTime]);
 
   // Simplified optimal times based on route
   const optimalTimes = useMemo(() => {
@@ -346,7 +349,7 @@ export function FerryTimingOptimizer({ onClose }: FerryTimingOptimizerProps) {
                 >
                   <div>
                     <p className="text-sm text-slate-200">
-                      {t.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {tz.time(t.time)}
                       {i === 0 && <span className="ml-2 text-xs text-green-400">RECOMMENDED</span>}
                     </p>
                     <p className="text-xs text-slate-400">{t.recommendation}</p>
@@ -1,7 +1,11 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { fuelBurnAt, withFuelBurnAt, LITERS_PER_US_GALLON } from '@/lib/vessel';
+import { VesselPicker } from './VesselPicker';
 
 interface FuelConsumptionEstimatorProps {
   onClose: () => void;
@@ -19,12 +23,17 @@ interface FuelEstimate {
 }
 
 export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
-  // Vessel parameters
+  // Vessel parameters; speed and fuel burn are the vessel profile's
+  const { vessel, updateVessel } = useVessel();
+  const { cruiseSpeed, fuelBurn } = vessel;
+  const setCruiseSpeed = (speed: number) => updateVessel({ cruiseSpeed: speed });
+  const baseFuelRate = fuelBurnAt(fuelBurn, cruiseSpeed) / LITERS_PER_US_GALLON; // gallons/hour at cruise speed
+  const setBaseFuelRate = (gallonsPerHour: number) =>
+    updateVessel({ fuelBurn: withFuelBurnAt(fuelBurn, cruiseSpeed, gallonsPerHour * LITERS_PER_US_GALLON) });
   const [distance, setDistance] = useState(30); // nm
-  const [cruiseSpeed, setCruiseSpeed] = useState(7); // knots
-  const [baseFuelRate, setBaseFuelRate] = useState(4); // gallons/hour at cruise speed
   const [maxStreamRate, setMaxStreamRate] = useState(2); // knots
   const [passageDirection, setPassageDirection] = useState<'with-flood' | 'with-ebb'>('with-flood');
   const [unit, setUnit] = useState<'gallons' | 'liters'>('gallons');
@@ -75,10 +84,10 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
         // To maintain constant SOG, we need to adjust STW
         const speedThroughWater = cruiseSpeed - effectiveStream;
 
-        // Fuel consumption scales approximately with cube of speed ratio
-        // (simplified from propeller law)
-        const speedRatio = speedThroughWater / cruiseSpeed;
-        const fuelMultiplier = Math.max(0.5, Math.min(2.5, Math.pow(speedRatio, 2.5)));
+        // Fuel burn at that speed from the vessel's curve, which follows the
+        // propeller law beyond its ends
+        const burn = fuelBurnAt(fuelBurn, Math.max(0, speedThroughWater)) / LITERS_PER_US_GALLON;
+        const fuelMultiplier = baseFuelRate > 0 ? Math.max(0.5, Math.min(2.5, burn / baseFuelRate)) : 0;
 
         totalFuel += baseFuelRate * fuelMultiplier * 0.25; // 0.25 hour interval
 
@@ -140,7 +149,7 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
     }
 
     return estimates;
-  }, [selectedStation, distance, cruiseSpeed, baseFuelRate, maxStreamRate, passageDirection]);
+  }, [selectedStation, distance, cruiseSpeed, fuelBurn, baseFuelRate, maxStreamRate, passageDirection]);
 
   const bestEstimate = useMemo(
     () => (fuelEstimates.length > 0 ? fuelEstimates.reduce((a, b) => (a.fuelUsed < b.fuelUsed ? a : b)) : null),
@@ -203,6 +212,8 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
             </p>
           </div>
 
+          <VesselPicker />
+
           {/* Vessel Parameters */}
           <div className="bg-slate-800 rounded-lg p-4">
             <h3 className="text-sm font-medium text-slate-300 mb-3">Vessel & Voyage Parameters</h3>
@@ -232,7 +243,7 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
               </div>
               <div>
                 <label className="block text-xs text-slate-400 mb-1">
-                  Base Fuel Rate ({unitLabel}/hr)
+                  Fuel Burn at Cruise ({unitLabel}/hr)
                 </label>
                 <input
                   type="number"
@@ -291,14 +302,14 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <p className="text-slate-400">Best departure:</p>
-                  <p className="text-white font-medium">{format(bestEstimate.departureTime, 'HH:mm')}</p>
+                  <p className="text-white font-medium">{tz.format(bestEstimate.departureTime, 'HH:mm')}</p>
                   <p className="text-green-400">
                     {(bestEstimate.fuelUsed * unitMultiplier).toFixed(1)} {unitLabel}
                   </p>
                 </div>
                 <div>
                   <p className="text-slate-400">Worst departure:</p>
-                  <p className="text-white font-medium">{format(worstEstimate.departureTime, 'HH:mm')}</p>
+                  <p className="text-white font-medium">{tz.format(worstEstimate.departureTime, 'HH:mm')}</p>
                   <p className="text-red-400">
                     {(worstEstimate.fuelUsed * unitMultiplier).toFixed(1)} {unitLabel}
                   </p>
@@ -336,10 +347,10 @@ export function FuelConsumptionEstimator({ onClose }: FuelConsumptionEstimatorPr
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className="text-white font-medium">
-                        {format(estimate.departureTime, 'HH:mm')}
+                        {tz.format(estimate.departureTime, 'HH:mm')}
                       </span>
                       <span className="text-slate-500">→</span>
-                      <span className="text-slate-400">{format(estimate.arrivalTime, 'HH:mm')}</span>
+                      <span className="text-slate-400">{tz.format(estimate.arrivalTime, 'HH:mm')}</span>
                       <span className="text-xs text-slate-500">
                         ({estimate.duration.toFixed(1)}h)
                       </span>
@@ -1,7 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { addHours, format } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
 
 interface GroundingRiskAnalyzerProps {
   onClose: () => void;
@@ -23,11 +26,14 @@ interface ShallowPoint {
 }
 
 export function GroundingRiskAnalyzer({ onClose }: GroundingRiskAnalyzerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
-  // Vessel parameters
-  const [draft, setDraft] = useState(2.5); // meters
+  // Vessel parameters; the draft is the vessel profile's
+  const { vessel, updateVessel } = useVessel();
+  const draft = vessel.draft; // meters
+  const setDraft = (value: number) => updateVessel({ draft: value });
   const [safetyMargin, setSafetyMargin] = useState(0.5); // minimum UKC
   const [cautionMargin, setCautionMargin] = useState(1.0); // caution threshold
 
@@ -216,6 +222,10 @@ export function GroundingRiskAnalyzer({ onClose }: GroundingRiskAnalyzerProps) {
           </div>
         )}
 
+        <div className="mb-4">
+          <VesselPicker />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
           {/* Vessel Parameters */}
           <div className="bg-slate-800 rounded-lg p-3">
@@ -391,7 +401,7 @@ export function GroundingRiskAnalyzer({ onClose }: GroundingRiskAnalyzerProps) {
                   <div
                     key={i}
                     className={`flex-1 ${getRiskColor(point.riskLevel)} transition-colors`}
-                    title={`${format(point.time, 'HH:mm')}: UKC ${formatLength(point.ukc)}`}
+                    title={`${tz.format(point.time, 'HH:mm')}: UKC ${formatLength(point.ukc)}`}
                   />
                 ))}
               </div>
@@ -445,7 +455,7 @@ export function GroundingRiskAnalyzer({ onClose }: GroundingRiskAnalyzerProps) {
                   {riskAnalysis.safeWindows.slice(0, 6).map((window, i) => (
                     <div key={i} className="flex justify-between bg-green-900/30 rounded px-3 py-2">
                       <span className="text-green-400 font-medium">
-                        {format(window.start, 'MMM d HH:mm')} - {format(window.end, 'HH:mm')}
+                        {tz.format(window.start, 'MMM d HH:mm')} - {tz.format(window.end, 'HH:mm')}
                       </span>
                       <span className="text-slate-400 text-sm">
                         Min UKC: {formatLength(window.minUKC)}
@@ -483,7 +493,7 @@ export function GroundingRiskAnalyzer({ onClose }: GroundingRiskAnalyzerProps) {
                             {isSafe ? '✓' : '⚠'}
                           </span>
                         </div>
-                        <p className="text-sm font-mono">{format(extreme.time, 'HH:mm')}</p>
+                        <p className="text-sm font-mono">{tz.format(extreme.time, 'HH:mm')}</p>
                         <p className="text-xs text-slate-500">{formatLength(extreme.height)}</p>
                       </div>
                     );
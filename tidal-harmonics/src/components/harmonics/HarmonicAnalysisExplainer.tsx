@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { ObservationAnalysis } from './ObservationAnalysis';
 
 interface Step {
   title: string;
@@ -140,6 +141,7 @@ function VisualDemo({ type }: { type: Step['visual'] }) {
 
 export function HarmonicAnalysisExplainer({ onClose }: { onClose: () => void }) {
   const [currentStep, setCurrentStep] = useState(0);
+  const [mode, setMode] = useState<'learn' | 'analyze'>('learn');
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
@@ -151,7 +153,7 @@ export function HarmonicAnalysisExplainer({ onClose }: { onClose: () => void })
             <div>
               <h2 className="text-lg font-semibold text-white">Harmonic Analysis</h2>
               <p className="text-sm text-slate-400">
-                How constituent data is extracted
+                {mode === 'learn' ? 'How constituent data is extracted' : 'Fit constants to your own observations'}
               </p>
             </div>
           </div>
@@ -164,90 +166,113 @@ export function HarmonicAnalysisExplainer({ onClose }: { onClose: () => void })
           </button>
         </div>
 
-        <div className="p-4 space-y-4">
-          {/* Introduction */}
-          <div className="bg-slate-700/50 rounded-lg p-3">
-            <p className="text-sm text-slate-300">
-              <strong className="text-white">Harmonic analysis</strong> is the mathematical process that
-              transforms raw water level observations into the amplitude and phase values for each tidal
-              constituent. This is how we obtain the data that powers tide predictions.
-            </p>
-          </div>
-
-          {/* Step navigation */}
-          <div className="flex gap-1">
-            {ANALYSIS_STEPS.map((_, idx) => (
-              <button
-                key={idx}
-                onClick={() => setCurrentStep(idx)}
-                className={`flex-1 h-2 rounded-full transition-colors ${
-                  idx === currentStep ? 'bg-blue-500' : 'bg-slate-600 hover:bg-slate-500'
-                }`}
-                aria-label={`Step ${idx + 1}`}
-              />
-            ))}
-          </div>
-
-          {/* Current step */}
-          <div className="bg-slate-700/30 rounded-lg p-4">
-            <h3 className="text-white font-medium mb-2">
-              {ANALYSIS_STEPS[currentStep]!.title}
-            </h3>
-            <p className="text-sm text-slate-300 mb-4">
-              {ANALYSIS_STEPS[currentStep]!.description}
-            </p>
-            <VisualDemo type={ANALYSIS_STEPS[currentStep]!.visual} />
-          </div>
-
-          {/* Navigation buttons */}
-          <div className="flex justify-between">
+        {/* Mode switch */}
+        <div className="flex gap-1 px-4 pt-4">
+          {(['learn', 'analyze'] as const).map((m) => (
             <button
-              onClick={() => setCurrentStep(Math.max(0, currentStep - 1))}
-              disabled={currentStep === 0}
-              className="px-4 py-2 rounded bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                mode === m ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
             >
-              ← Previous
-            </button>
-            <span className="text-slate-400 self-center text-sm">
-              {currentStep + 1} / {ANALYSIS_STEPS.length}
-            </span>
-            <button
-              onClick={() => setCurrentStep(Math.min(ANALYSIS_STEPS.length - 1, currentStep + 1))}
-              disabled={currentStep === ANALYSIS_STEPS.length - 1}
-              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              Next →
+              {m === 'learn' ? 'How it works' : 'Analyze data'}
             </button>
+          ))}
+        </div>
+
+        {mode === 'analyze' && (
+          <div className="p-4">
+            <ObservationAnalysis onSaved={onClose} />
           </div>
+        )}
+
+        {mode === 'learn' && (
+          <div className="p-4 space-y-4">
+            {/* Introduction */}
+            <div className="bg-slate-700/50 rounded-lg p-3">
+              <p className="text-sm text-slate-300">
+                <strong className="text-white">Harmonic analysis</strong> is the mathematical process that
+                transforms raw water level observations into the amplitude and phase values for each tidal
+                constituent. This is how we obtain the data that powers tide predictions.
+              </p>
+            </div>
+
+            {/* Step navigation */}
+            <div className="flex gap-1">
+              {ANALYSIS_STEPS.map((_, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => setCurrentStep(idx)}
+                  className={`flex-1 h-2 rounded-full transition-colors ${
+                    idx === currentStep ? 'bg-blue-500' : 'bg-slate-600 hover:bg-slate-500'
+                  }`}
+                  aria-label={`Step ${idx + 1}`}
+                />
+              ))}
+            </div>
+
+            {/* Current step */}
+            <div className="bg-slate-700/30 rounded-lg p-4">
+              <h3 className="text-white font-medium mb-2">
+                {ANALYSIS_STEPS[currentStep]!.title}
+              </h3>
+              <p className="text-sm text-slate-300 mb-4">
+                {ANALYSIS_STEPS[currentStep]!.description}
+              </p>
+              <VisualDemo type={ANALYSIS_STEPS[currentStep]!.visual} />
+            </div>
 
-          {/* Historical context */}
-          <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg p-3">
-            <div className="flex items-start gap-2">
-              <span className="text-amber-400">📜</span>
-              <div className="text-sm">
-                <p className="text-amber-200 font-medium">Historical Note</p>
-                <p className="text-slate-300 mt-1">
-                  The method of harmonic analysis was developed by Lord Kelvin and Sir George Darwin
-                  in the 1860s-1870s. Kelvin also invented mechanical tide prediction machines that
-                  used gears and pulleys to sum the constituent waves—analog computers that
-                  remained in use until the 1960s.
-                </p>
+            {/* Navigation buttons */}
+            <div className="flex justify-between">
+              <button
+                onClick={() => setCurrentStep(Math.max(0, currentStep - 1))}
+                disabled={currentStep === 0}
+                className="px-4 py-2 rounded bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                ← Previous
+              </button>
+              <span className="text-slate-400 self-center text-sm">
+                {currentStep + 1} / {ANALYSIS_STEPS.length}
+              </span>
+              <button
+                onClick={() => setCurrentStep(Math.min(ANALYSIS_STEPS.length - 1, currentStep + 1))}
+                disabled={currentStep === ANALYSIS_STEPS.length - 1}
+                className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Next →
+              </button>
+            </div>
+
+            {/* Historical context */}
+            <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg p-3">
+              <div className="flex items-start gap-2">
+                <span className="text-amber-400">📜</span>
+                <div className="text-sm">
+                  <p className="text-amber-200 font-medium">Historical Note</p>
+                  <p className="text-slate-300 mt-1">
+                    The method of harmonic analysis was developed by Lord Kelvin and Sir George Darwin
+                    in the 1860s-1870s. Kelvin also invented mechanical tide prediction machines that
+                    used gears and pulleys to sum the constituent waves—analog computers that
+                    remained in use until the 1960s.
+                  </p>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Key formula */}
-          <div className="bg-slate-900 rounded-lg p-3 font-mono text-sm text-center">
-            <p className="text-slate-400 text-xs mb-2">The fundamental equation:</p>
-            <p className="text-cyan-300">
-              h(t) = Z₀ + Σ [fₙ·Aₙ·cos(ωₙt + Vₙ + uₙ - φₙ)]
-            </p>
-            <p className="text-slate-500 text-xs mt-2">
-              where Z₀ is mean sea level, f is nodal factor, A is amplitude,
-              ω is angular speed, V is astronomical argument, u is nodal angle, φ is phase
-            </p>
+            {/* Key formula */}
+            <div className="bg-slate-900 rounded-lg p-3 font-mono text-sm text-center">
+              <p className="text-slate-400 text-xs mb-2">The fundamental equation:</p>
+              <p className="text-cyan-300">
+                h(t) = Z₀ + Σ [fₙ·Aₙ·cos(ωₙt + Vₙ + uₙ - φₙ)]
+              </p>
+              <p className="text-slate-500 text-xs mt-2">
+                where Z₀ is mean sea level, f is nodal factor, A is amplitude,
+                ω is angular speed, V is astronomical argument, u is nodal angle, φ is phase
+              </p>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -18,6 +18,10 @@ import { ConstituentInfoPanel } from './ConstituentInfoPanel';
 
 // Lazy load modal/panel components that aren't immediately visible
 const DoodsonExplorer = lazy(() => import('./DoodsonExplorer').then(m => ({ default: m.DoodsonExplorer })));
+const StationImporter = lazy(() => import('./StationImporter').then(m => ({ default: m.StationImporter })));
+const StationEditor = lazy(() => import('./StationEditor').then(m => ({ default: m.StationEditor })));
+const VirtualStationPanel = lazy(() => import('./VirtualStationPanel').then(m => ({ default: m.VirtualStationPanel })));
+const EphemerisDiagnostics = lazy(() => import('./EphemerisDiagnostics').then(m => ({ default: m.EphemerisDiagnostics })));
 const AccuracyComparison = lazy(() => import('./AccuracyComparison').then(m => ({ default: m.AccuracyComparison })));
 const KingTidePredictor = lazy(() => import('./KingTidePredictor').then(m => ({ default: m.KingTidePredictor })));
 const StationComparison = lazy(() => import('./StationComparison').then(m => ({ default: m.StationComparison })));
@@ -85,6 +89,8 @@ const PassagePlannerTide = lazy(() => import('./PassagePlannerTide').then(m => (
 const FuelConsumptionEstimator = lazy(() => import('./FuelConsumptionEstimator').then(m => ({ default: m.FuelConsumptionEstimator })));
 const CrewWatchScheduler = lazy(() => import('./CrewWatchScheduler').then(m => ({ default: m.CrewWatchScheduler })));
 const WaypointRoutePlanner = lazy(() => import('./WaypointRoutePlanner').then(m => ({ default: m.WaypointRoutePlanner })));
+const DepartureOptimizer = lazy(() => import('./DepartureOptimizer').then(m => ({ default: m.DepartureOptimizer })));
+const SecondaryPortCalculator = lazy(() => import('./SecondaryPortCalculator').then(m => ({ default: m.SecondaryPortCalculator })));
 const SeasonalTideComparison = lazy(() => import('./SeasonalTideComparison').then(m => ({ default: m.SeasonalTideComparison })));
 const PortApproachAdvisor = lazy(() => import('./PortApproachAdvisor').then(m => ({ default: m.PortApproachAdvisor })));
 const DockingWindowCalculator = lazy(() => import('./DockingWindowCalculator').then(m => ({ default: m.DockingWindowCalculator })));
@@ -178,13 +184,17 @@ const TOOLS: ToolDef[] = [
   { id: 'type', label: 'Type', tooltip: 'Classify tide type (diurnal/semidiurnal)', tab: 'predict', keywords: ['diurnal', 'semidiurnal', 'mixed', 'classification'] },
   { id: 'ebbFlood', label: 'Ebb/Flood', tooltip: 'Analyze ebb and flood patterns', tab: 'predict', keywords: ['ebb', 'flood', 'current', 'flow'] },
   { id: 'export', label: '↓ Export', tooltip: 'Export tide data (CSV, JSON)', tab: 'predict', keywords: ['download', 'csv', 'json', 'data'] },
+  { id: 'import', label: '↑ Import', tooltip: 'Import harmonic constants (NOAA, XTide, TICON) into your station library', tab: 'predict', keywords: ['import', 'upload', 'noaa', 'xtide', 'ticon', 'harcon', 'library', 'station'] },
+  { id: 'editor', label: '✎ Editor', tooltip: 'Create, copy or correct a station’s harmonic constants', tab: 'predict', keywords: ['edit', 'editor', 'create', 'clone', 'copy', 'station', 'constituents', 'custom'] },
+  { id: 'virtual', label: '📍 Any Point', tooltip: 'Tides at any position, interpolated from nearby stations', tab: 'predict', keywords: ['virtual', 'interpolate', 'point', 'position', 'coordinates', 'location', 'between', 'idw'] },
   { id: 'print', label: '🖨️ Print', tooltip: 'Print-friendly tide table', tab: 'predict', keywords: ['print', 'table', 'paper'] },
   { id: 'share', label: '🔗 Share', tooltip: 'Share link to this view', tab: 'predict', keywords: ['link', 'url', 'share'] },
   { id: 'embed', label: 'Embed', tooltip: 'Embeddable widget for websites', tab: 'predict', keywords: ['widget', 'iframe', 'website'] },
   // Learn
   { id: 'doodson', label: 'Doodson #', tooltip: 'Interactive Doodson number breakdown', tab: 'learn', keywords: ['doodson', 'number', 'code'] },
+  { id: 'ephemeris', label: 'Ephemeris', tooltip: 'Fast or high-precision astronomical arguments, compared over a century', tab: 'learn', keywords: ['ephemeris', 'precision', 'delta t', 'astronomy', 'drift', 'historical'] },
   { id: 'datums', label: 'Datums', tooltip: 'Tidal datum reference levels explained', tab: 'learn', keywords: ['datum', 'reference', 'mllw', 'mhhw'] },
-  { id: 'analysis', label: 'Analysis', tooltip: 'How harmonic analysis works', tab: 'learn', keywords: ['harmonic', 'fourier', 'math'] },
+  { id: 'analysis', label: 'Analysis', tooltip: 'How harmonic analysis works, or analyze your own observations', tab: 'learn', keywords: ['harmonic', 'fourier', 'math', 'least squares', 'observations', 'csv'] },
   { id: 'bores', label: 'Bores', tooltip: 'Tidal bores around the world', tab: 'learn', keywords: ['bore', 'wave', 'river'] },
   { id: 'amphidromic', label: 'Amphidromic', tooltip: 'Amphidromic points and cotidal lines', tab: 'learn', keywords: ['amphidrome', 'cotidal', 'rotation'] },
   { id: 'loading', label: 'Loading', tooltip: 'Earth deformation from tidal loading', tab: 'learn', keywords: ['earth', 'deformation', 'crustal'] },
@@ -222,6 +232,8 @@ const TOOLS: ToolDef[] = [
   { id: 'fuel', label: '⛽ Fuel', tooltip: 'Tide-adjusted fuel consumption', tab: 'nav', keywords: ['fuel', 'consumption', 'economy'] },
   { id: 'watch', label: 'Watch', tooltip: 'Crew watch scheduler', tab: 'nav', keywords: ['watch', 'crew', 'schedule'] },
   { id: 'route', label: '📍 Route', tooltip: 'Waypoint route planner', tab: 'nav', keywords: ['waypoint', 'route', 'navigation'] },
+  { id: 'departure', label: '⏱ Departure', tooltip: 'Best departure times through every tidal gate on a passage', tab: 'nav', keywords: ['departure', 'optimize', 'gate', 'passage', 'bridge', 'depth', 'slack', 'when to leave'] },
+  { id: 'secondary', label: '⚓ Secondary Port', tooltip: 'Admiralty secondary-port method: standard port plus tabulated differences', tab: 'nav', keywords: ['admiralty', 'secondary', 'standard port', 'differences', 'np 159', 'curve', 'mhws', 'uk'] },
   { id: 'log', label: '📋 Log', tooltip: 'Generate voyage log', tab: 'nav', keywords: ['voyage', 'log', 'record'] },
   // Plan
   { id: 'beach', label: '🏖️ Beach', tooltip: 'Beach access planner', tab: 'plan', keywords: ['beach', 'access', 'sand'] },
@@ -457,6 +469,9 @@ export function HarmonicsPanel() {
   const [showCalendar, setShowCalendar] = useState(false);
   const [showNodal, setShowNodal] = useState(false);
   const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showVirtual, setShowVirtual] = useState(false);
   const [showShare, setShowShare] = useState(false);
   const [showPrintTable, setShowPrintTable] = useState(false);
   const [showDateComparison, setShowDateComparison] = useState(false);
@@ -467,6 +482,7 @@ export function HarmonicsPanel() {
   const [showEmbedWidget, setShowEmbedWidget] = useState(false);
   const [showSeasonalTide, setShowSeasonalTide] = useState(false);
   const [showDoodsonExplorer, setShowDoodsonExplorer] = useState(false);
+  const [showEphemeris, setShowEphemeris] = useState(false);
   const [showDatumExplainer, setShowDatumExplainer] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [showBoreInfo, setShowBoreInfo] = useState(false);
@@ -516,6 +532,8 @@ export function HarmonicsPanel() {
   const [showFuelEstimator, setShowFuelEstimator] = useState(false);
   const [showCrewWatch, setShowCrewWatch] = useState(false);
   const [showWaypointRoute, setShowWaypointRoute] = useState(false);
+  const [showDepartureOptimizer, setShowDepartureOptimizer] = useState(false);
+  const [showSecondaryPort, setShowSecondaryPort] = useState(false);
   const [showVoyageLog, setShowVoyageLog] = useState(false);
   const [showBarometric, setShowBarometric] = useState(false);
   const [showSeaLevelRise, setShowSeaLevelRise] = useState(false);
@@ -647,11 +665,15 @@ export function HarmonicsPanel() {
       type: () => setShowTideType(true),
       ebbFlood: () => setShowEbbFlood(true),
       export: () => setShowExport(true),
+      import: () => setShowImport(true),
+      editor: () => setShowEditor(true),
+      virtual: () => setShowVirtual(true),
       print: () => setShowPrintTable(true),
       share: () => setShowShare(true),
       embed: () => setShowEmbedWidget(true),
       // Learn
       doodson: () => setShowDoodsonExplorer(true),
+      ephemeris: () => setShowEphemeris(true),
       datums: () => setShowDatumExplainer(true),
       analysis: () => setShowAnalysis(true),
       bores: () => setShowBoreInfo(true),
@@ -691,6 +713,8 @@ export function HarmonicsPanel() {
       fuel: () => setShowFuelEstimator(true),
       watch: () => setShowCrewWatch(true),
       route: () => setShowWaypointRoute(true),
+      departure: () => setShowDepartureOptimizer(true),
+      secondary: () => setShowSecondaryPort(true),
       log: () => setShowVoyageLog(true),
       // Plan
       beach: () => setShowBeachAccess(true),
@@ -767,6 +791,9 @@ export function HarmonicsPanel() {
             <Btn onClick={() => setShowTideType(true)} title="Classify tide type (diurnal/semidiurnal)">Type</Btn>
             <Btn onClick={() => setShowEbbFlood(true)} title="Analyze ebb and flood patterns">Ebb/Flood</Btn>
             <Btn onClick={() => setShowExport(true)} title="Export tide data (CSV, JSON)">↓ Export</Btn>
+            <Btn onClick={() => setShowImport(true)} title="Import harmonic constants (NOAA, XTide, TICON) into your station library">↑ Import</Btn>
+            <Btn onClick={() => setShowEditor(true)} title="Create, copy or correct a station’s harmonic constants">✎ Editor</Btn>
+            <Btn onClick={() => setShowVirtual(true)} title="Tides at any position, interpolated from nearby stations">📍 Any Point</Btn>
             <Btn onClick={() => setShowPrintTable(true)} title="Print-friendly tide table">🖨️ Print</Btn>
             <Btn onClick={() => setShowShare(true)} title="Share link to this view">🔗 Share</Btn>
             <Btn onClick={() => setShowEmbedWidget(true)} title="Embeddable widget for websites">Embed</Btn>
@@ -777,8 +804,9 @@ export function HarmonicsPanel() {
         return (
           <div className="flex flex-wrap gap-1.5">
             <Btn onClick={() => setShowDoodsonExplorer(true)} title="Interactive Doodson number breakdown">Doodson #</Btn>
+            <Btn onClick={() => setShowEphemeris(true)} title="Fast or high-precision astronomical arguments, compared over a century">Ephemeris</Btn>
             <Btn onClick={() => setShowDatumExplainer(true)} title="Tidal datum reference levels explained">Datums</Btn>
-            <Btn onClick={() => setShowAnalysis(true)} title="How harmonic analysis works">Analysis</Btn>
+            <Btn onClick={() => setShowAnalysis(true)} title="How harmonic analysis works, or analyze your own observations">Analysis</Btn>
             <Btn onClick={() => setShowBoreInfo(true)} title="Tidal bores around the world">Bores</Btn>
             <Btn onClick={() => setShowAmphidromic(true)} title="Amphidromic points and cotidal lines">Amphidromic</Btn>
             <Btn onClick={() => setShowTidalLoading(true)} title="Earth deformation from tidal loading">Loading</Btn>
@@ -821,6 +849,8 @@ export function HarmonicsPanel() {
             <Btn onClick={() => setShowFuelEstimator(true)} title="Tide-adjusted fuel consumption">⛽ Fuel</Btn>
             <Btn onClick={() => setShowCrewWatch(true)} title="Crew watch scheduler">Watch</Btn>
             <Btn onClick={() => setShowWaypointRoute(true)} title="Waypoint route planner">📍 Route</Btn>
+            <Btn onClick={() => setShowDepartureOptimizer(true)} title="Best departure times through every tidal gate on a passage">⏱ Departure</Btn>
+            <Btn onClick={() => setShowSecondaryPort(true)} title="Admiralty secondary-port method: standard port plus tabulated differences">⚓ Secondary Port</Btn>
             <Btn onClick={() => setShowVoyageLog(true)} title="Generate voyage log">📋 Log</Btn>
           </div>
         );
@@ -1218,8 +1248,12 @@ export function HarmonicsPanel() {
       {/* Lazy-loaded modals */}
       <Suspense fallback={null}>
         {showDoodsonExplorer && <DoodsonExplorer onClose={() => setShowDoodsonExplorer(false)} />}
+        {showEphemeris && <EphemerisDiagnostics onClose={() => setShowEphemeris(false)} />}
         {showPhaseAnimation && <PhaseAnimation onClose={() => setShowPhaseAnimation(false)} />}
         {showExport && <DataExport onClose={() => setShowExport(false)} />}
+        {showImport && <StationImporter onClose={() => setShowImport(false)} />}
+        {showEditor && <StationEditor onClose={() => setShowEditor(false)} />}
+        {showVirtual && <VirtualStationPanel onClose={() => setShowVirtual(false)} />}
         {showDatumExplainer && <TidalDatumExplainer onClose={() => setShowDatumExplainer(false)} />}
         {showComparison && <ConstituentComparison onClose={() => setShowComparison(false)} />}
         {showShare && <SharePanel onClose={() => setShowShare(false)} />}
@@ -1260,6 +1294,8 @@ export function HarmonicsPanel() {
         {showFuelEstimator && <FuelConsumptionEstimator onClose={() => setShowFuelEstimator(false)} />}
         {showCrewWatch && <CrewWatchScheduler onClose={() => setShowCrewWatch(false)} />}
         {showWaypointRoute && <WaypointRoutePlanner onClose={() => setShowWaypointRoute(false)} />}
+        {showDepartureOptimizer && <DepartureOptimizer onClose={() => setShowDepartureOptimizer(false)} />}
+        {showSecondaryPort && <SecondaryPortCalculator onClose={() => setShowSecondaryPort(false)} />}
         {showSeasonalTide && <SeasonalTideComparison onClose={() => setShowSeasonalTide(false)} />}
         {showPortApproach && <PortApproachAdvisor onClose={() => setShowPortApproach(false)} />}
         {showDockingWindow && <DockingWindowCalculator onClose={() => setShowDockingWindow(false)} />}
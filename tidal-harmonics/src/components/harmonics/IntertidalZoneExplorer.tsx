@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface IntertidalZone {
   name: string;
@@ -66,6 +67,7 @@ interface Props {
 }
 
 export function IntertidalZoneExplorer({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [selectedZone, setSelectedZone] = useState<IntertidalZone | null>(null);
@@ -83,9 +85,8 @@ export function IntertidalZoneExplorer({ onClose }: Props) {
   const zoneTimeline = useMemo(() => {
     if (!station) return [];
 
-    const now = new Date();
-    const startOfDay = new Date(now);
-    startOfDay.setHours(0, 0, 0, 0);
+    const startOfDay = tz.startOfDay(new Date());
+    const endOfDay = tz.addDays(startOfDay, 1);
 
     const timeline: { zone: IntertidalZone; exposedRanges: { start: Date; end: Date }[] }[] = [];
 
@@ -95,8 +96,8 @@ export function IntertidalZoneExplorer({ onClose }: Props) {
       let exposureStart: Date | null = null;
 
       // Sample every 15 minutes
-      for (let minute = 0; minute <= 24 * 60; minute += 15) {
-        const time = new Date(startOfDay.getTime() + minute * 60 * 1000);
+      for (let t = startOfDay.getTime(); t <= endOfDay.getTime(); t += 15 * 60 * 1000) {
+        const time = new Date(t);
         const height = predictTide(station, time);
 
         // Zone is "exposed" when water level is BELOW the zone's maximum
@@ -115,7 +116,7 @@ export function IntertidalZoneExplorer({ onClose }: Props) {
       if (currentlyExposed && exposureStart) {
         exposedRanges.push({
           start: exposureStart,
-          end: new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000)
+          end: endOfDay
         });
       }
 
@@ -123,7 +124,7 @@ export function IntertidalZoneExplorer({ onClose }: Props) {
     }
 
     return timeline;
-  }, [station]);
+  }, [station, tz]);
 
   // Determine which zone the current water level is at
   const currentZone = useMemo((): IntertidalZone => {
@@ -153,9 +154,7 @@ export function IntertidalZoneExplorer({ onClose }: Props) {
     });
   }, [zoneTimeline]);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatZoneHeight = (meters: number) => {
     if (useMetric) {
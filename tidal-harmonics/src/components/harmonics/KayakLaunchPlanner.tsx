@@ -1,6 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { compilePredictionKernel } from '@/lib/predictionKernel';
+import { findTidalWindows, inTidalWindow, stageOfRate } from '@/lib/tidalWindows';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface KayakLaunchPlannerProps {
   onClose: () => void;
@@ -66,20 +68,16 @@ const TRIP_DURATIONS = [
   { label: 'Full day (8h)', hours: 8 },
 ];
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
 function getCurrentState(rate: number): 'ebb' | 'flood' | 'slack' {
-  if (Math.abs(rate) < 0.05) return 'slack';
-  return rate > 0 ? 'flood' : 'ebb';
+  const stage = stageOfRate(rate, 0.05);
+  if (stage === 'slack') return 'slack';
+  return stage === 'rising' ? 'flood' : 'ebb';
 }
 
 export function KayakLaunchPlanner({ onClose }: KayakLaunchPlannerProps) {
+  const tz = useZonedTime();
+  const formatDate = (date: Date) => tz.date(date);
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [daysAhead, setDaysAhead] = useState(7);
@@ -95,37 +93,38 @@ export function KayakLaunchPlanner({ onClose }: KayakLaunchPlannerProps) {
     const now = new Date();
     const searchInterval = 60 * 60000; // 1 hour intervals
     const endTime = new Date(now.getTime() + daysAhead * 24 * 3600000);
+    const range = { start: now, end: new Date(endTime.getTime() + tripDuration * 3600000) };
+
+    // Enough water at launch and return, launching 6am–6pm and back by 8pm
+    // station time if daytime only
+    const { minTide, maxTide } = selectedLaunchType;
+    const tideBounds = {
+      ...(minTide !== null && { minHeight: minTide }),
+      ...(maxTide !== null && { maxHeight: maxTide }),
+    };
+    const launchOk = findTidalWindows(
+      selectedStation,
+      { ...tideBounds, ...(daytimeOnly && { timeOfDay: { from: 6, to: 18 } }) },
+      range
+    );
+    const returnOk = findTidalWindows(
+      selectedStation,
+      { ...tideBounds, ...(daytimeOnly && { timeOfDay: { from: 6, to: 20 } }) },
+      range
+    );
+    const kernel = compilePredictionKernel(selectedStation, range.start, range.end);
 
     for (let time = now.getTime(); time < endTime.getTime(); time += searchInterval) {
       const launchTime = new Date(time);
       const returnTime = new Date(time + tripDuration * 3600000);
+      if (!inTidalWindow(launchOk, launchTime) || !inTidalWindow(returnOk, returnTime)) continue;
 
-      // Skip night hours if daytime only
-      const launchHour = launchTime.getHours();
-      const returnHour = returnTime.getHours();
-      if (daytimeOnly && (launchHour < 6 || launchHour > 18 || returnHour < 6 || returnHour > 20)) {
-        continue;
-      }
+      const launchTide = kernel.heightAt(launchTime);
+      const returnTide = kernel.heightAt(returnTime);
 
-      const launchTide = predictTide(selectedStation, launchTime);
-      const returnTide = predictTide(selectedStation, returnTime);
-
-      // Check tide requirements
-      if (selectedLaunchType.minTide !== null && launchTide < selectedLaunchType.minTide) continue;
-      if (selectedLaunchType.minTide !== null && returnTide < selectedLaunchType.minTide) continue;
-      if (selectedLaunchType.maxTide !== null && launchTide > selectedLaunchType.maxTide) continue;
-      if (selectedLaunchType.maxTide !== null && returnTide > selectedLaunchType.maxTide) continue;
-
-      // Calculate current state at launch and return
-      const launchBefore = predictTide(selectedStation, new Date(time - 30 * 60000));
-      const launchAfter = predictTide(selectedStation, new Date(time + 30 * 60000));
-      const launchRate = launchAfter - launchBefore;
-      const launchCurrent = getCurrentState(launchRate);
-
-      const returnBefore = predictTide(selectedStation, new Date(returnTime.getTime() - 30 * 60000));
-      const returnAfter = predictTide(selectedStation, new Date(returnTime.getTime() + 30 * 60000));
-      const returnRate = returnAfter - returnBefore;
-      const returnCurrent = getCurrentState(returnRate);
+      // Current state at launch and return
+      const launchCurrent = getCurrentState(kernel.rateAt(launchTime));
+      const returnCurrent = getCurrentState(kernel.rateAt(returnTime));
 
       // Calculate quality score
       let score = 50;
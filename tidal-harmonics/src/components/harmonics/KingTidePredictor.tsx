@@ -3,7 +3,8 @@ import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { findNextMoonPhases, findNextLunarApsis } from '@/lib/ephemeris';
 import { getTidalRange } from '@/lib/harmonics';
-import { format, differenceInHours } from 'date-fns';
+import { differenceInHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface KingTideEvent {
   type: 'king_tide' | 'high_spring' | 'normal_spring';
@@ -26,6 +27,7 @@ interface KingTideEvent {
  * The term "king tide" is informal but commonly used in coastal communities.
  */
 export function KingTidePredictor() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
 
@@ -113,7 +115,7 @@ export function KingTidePredictor() {
             <span className="text-lg">👑</span>
             <span className="text-amber-400 font-medium text-sm">Next King Tide</span>
           </div>
-          <div className="text-white text-sm">{format(nextKingTide.date, 'MMMM d, yyyy')}</div>
+          <div className="text-white text-sm">{tz.format(nextKingTide.date, 'MMMM d, yyyy')}</div>
           <div className="text-slate-400 text-xs mt-1">
             {nextKingTide.phase} • Perigee within {nextKingTide.daysBetween.toFixed(1)} days
           </div>
@@ -148,7 +150,7 @@ export function KingTidePredictor() {
                 <div>
                   <div className="text-white text-sm">{event.phase}</div>
                   <div className="text-slate-500 text-xs">
-                    {format(event.date, 'MMM d')} • Perigee: {event.daysBetween.toFixed(1)}d away
+                    {tz.format(event.date, 'MMM d')} • Perigee: {event.daysBetween.toFixed(1)}d away
                   </div>
                 </div>
               </div>
@@ -1,15 +1,12 @@
 import { useMemo, useState, useEffect } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface LiveTideDisplayProps {
   onClose: () => void;
 }
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
 function formatTimeUntil(ms: number): string {
   const hours = Math.floor(ms / 3600000);
   const minutes = Math.floor((ms % 3600000) / 60000);
@@ -20,6 +17,8 @@ function formatTimeUntil(ms: number): string {
 }
 
 export function LiveTideDisplay({ onClose }: LiveTideDisplayProps) {
+  const tz = useZonedTime();
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [now, setNow] = useState(new Date());
@@ -1,7 +1,8 @@
 import { useMemo } from 'react';
-import { addDays, format, differenceInDays } from 'date-fns';
+import { addDays, differenceInDays } from 'date-fns';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface LunarDistancePanelProps {
   onClose: () => void;
@@ -98,6 +99,7 @@ function findLunarEvents(startDate: Date, count: number = 6): Array<{
 }
 
 export function LunarDistancePanel({ onClose }: LunarDistancePanelProps) {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const currentTime = useMemo(() => new Date(epoch), [epoch]);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -238,7 +240,7 @@ export function LunarDistancePanel({ onClose }: LunarDistancePanelProps) {
                         {event.type === 'perigee' ? 'Perigee' : 'Apogee'}
                       </p>
                       <p className="text-xs text-slate-500">
-                        {format(event.date, 'MMM d, yyyy')}
+                        {tz.format(event.date, 'MMM d, yyyy')}
                       </p>
                     </div>
                   </div>
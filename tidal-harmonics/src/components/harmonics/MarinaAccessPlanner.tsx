@@ -1,8 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { findTidalWindows } from '@/lib/tidalWindows';
 import { formatHeight } from '@/lib/units';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface MarinaAccessPlannerProps {
   onClose: () => void;
@@ -17,6 +19,7 @@ interface AccessWindow {
 }
 
 export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -45,44 +48,20 @@ export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
     // Minimum controlling depth is the shallower of marina and channel
     const controllingDepth = Math.min(marinaDepth, channelDepth);
 
-    // Find windows where we have access
-    const windows: AccessWindow[] = [];
-    let currentWindow: AccessWindow | null = null;
-
-    for (const point of series) {
-      const actualDepth = controllingDepth + point.height;
-      const hasAccess = actualDepth >= requiredDepth;
-
-      if (hasAccess) {
-        if (!currentWindow) {
-          // Start new window
-          currentWindow = {
-            start: point.time,
-            end: point.time,
-            minDepth: actualDepth,
-            maxDepth: actualDepth,
-            duration: 0,
-          };
-        } else {
-          // Extend current window
-          currentWindow.end = point.time;
-          currentWindow.minDepth = Math.min(currentWindow.minDepth, actualDepth);
-          currentWindow.maxDepth = Math.max(currentWindow.maxDepth, actualDepth);
-          currentWindow.duration = (currentWindow.end.getTime() - currentWindow.start.getTime()) / 60000;
-        }
-      } else {
-        if (currentWindow && currentWindow.duration >= 10) {
-          // Close window if it was at least 10 minutes
-          windows.push(currentWindow);
-        }
-        currentWindow = null;
-      }
-    }
-
-    // Close final window
-    if (currentWindow && currentWindow.duration >= 10) {
-      windows.push(currentWindow);
-    }
+    // Access while the tide makes up the difference, for at least 10 minutes
+    const windows = findTidalWindows(
+      selectedStation,
+      { minHeight: requiredDepth - controllingDepth, minDurationMinutes: 10 },
+      { start: now, end }
+    ).map(
+      (w): AccessWindow => ({
+        start: w.start,
+        end: w.end,
+        minDepth: controllingDepth + w.minHeight,
+        maxDepth: controllingDepth + w.maxHeight,
+        duration: Math.round(w.durationMinutes),
+      })
+    );
 
     // Get extremes for context
     const extremes = findExtremes(series);
@@ -184,11 +163,11 @@ export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
               <div className="text-sm">
                 {timeStatus.status === 'open' && timeStatus.minutes !== null ? (
                   <span className="text-green-300">
-                    Window closes in {formatDuration(timeStatus.minutes)} ({format(timeStatus.until!, 'HH:mm')})
+                    Window closes in {formatDuration(timeStatus.minutes)} ({tz.format(timeStatus.until!, 'HH:mm')})
                   </span>
                 ) : timeStatus.status === 'closed' && timeStatus.minutes !== null ? (
                   <span className="text-amber-300">
-                    Next window opens in {formatDuration(timeStatus.minutes)} ({format(timeStatus.until!, 'HH:mm')})
+                    Next window opens in {formatDuration(timeStatus.minutes)} ({tz.format(timeStatus.until!, 'HH:mm')})
                   </span>
                 ) : (
                   <span className="text-red-300">No access windows in planning period</span>
@@ -344,7 +323,7 @@ export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
                         <div className="flex items-center gap-2">
                           {isNow && <span className="text-green-400 text-xs">● NOW</span>}
                           <span className="text-white font-medium">
-                            {format(window.start, 'HH:mm')} - {format(window.end, 'HH:mm')}
+                            {tz.format(window.start, 'HH:mm')} - {tz.format(window.end, 'HH:mm')}
                           </span>
                         </div>
                         <span className="text-cyan-400 text-sm">
@@ -352,7 +331,7 @@ export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
                         </span>
                       </div>
                       <div className="text-xs text-slate-400 mt-1">
-                        {format(window.start, 'EEE, MMM d')} • Depth: {formatHeight(window.minDepth, unitSystem)} - {formatHeight(window.maxDepth, unitSystem)}
+                        {tz.format(window.start, 'EEE, MMM d')} • Depth: {formatHeight(window.minDepth, unitSystem)} - {formatHeight(window.maxDepth, unitSystem)}
                       </div>
                     </div>
                   );
@@ -373,7 +352,7 @@ export function MarinaAccessPlanner({ onClose }: MarinaAccessPlannerProps) {
                       extreme.type === 'high' ? 'bg-green-900/50 text-green-300' : 'bg-amber-900/50 text-amber-300'
                     }`}
                   >
-                    {extreme.type === 'high' ? '▲' : '▼'} {format(extreme.time, 'HH:mm')} ({formatHeight(extreme.height, unitSystem, { precision: 1 })})
+                    {extreme.type === 'high' ? '▲' : '▼'} {tz.format(extreme.time, 'HH:mm')} ({formatHeight(extreme.height, unitSystem, { precision: 1 })})
                   </div>
                 ))}
               </div>
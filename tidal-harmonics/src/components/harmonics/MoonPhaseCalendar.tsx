@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DayInfo {
   date: Date;
@@ -56,22 +57,25 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
   const [monthOffset, setMonthOffset] = useState(0);
+  const tz = useZonedTime();
 
   const calendarData = useMemo(() => {
+    // Calendar months in the display zone
     const now = new Date();
-    const targetMonth = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
-    const year = targetMonth.getFullYear();
-    const month = targetMonth.getMonth();
+    const monthIndex = Number(tz.format(now, 'yyyy')) * 12 + Number(tz.format(now, 'M')) - 1 + monthOffset;
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex - year * 12;
 
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startDayOfWeek = firstDay.getDay();
+    const firstDay = tz.parse(`${year}-${String(month + 1).padStart(2, '0')}-01`);
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const startDayOfWeek = Number(tz.format(firstDay, 'c')) % 7; // Sunday first
 
     const days: DayInfo[] = [];
 
     for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month, day, 12, 0, 0); // Noon local
+      const dayStart = tz.addDays(firstDay, day - 1);
+      const dayEnd = tz.addDays(firstDay, day);
+      const date = tz.atTime(dayStart, 12); // Noon local
       const moonPhase = getMoonPhase(date);
 
       // Calculate high and low tides for this day
@@ -79,8 +83,8 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
       let minTide = Infinity;
 
       if (station) {
-        for (let hour = 0; hour < 24; hour++) {
-          const checkTime = new Date(year, month, day, hour, 0, 0);
+        for (let t = dayStart.getTime(); t < dayEnd.getTime(); t += 3600000) {
+          const checkTime = new Date(t);
           const height = predictTide(station, checkTime);
           maxTide = Math.max(maxTide, height);
           minTide = Math.min(minTide, height);
@@ -109,11 +113,11 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
     return {
       year,
       month,
-      monthName: targetMonth.toLocaleString('default', { month: 'long' }),
+      monthName: tz.format(firstDay, 'MMMM'),
       startDayOfWeek,
       days
     };
-  }, [monthOffset, station]);
+  }, [monthOffset, station, tz]);
 
   const maxRange = Math.max(...calendarData.days.map(d => d.tideRange));
   const minRange = Math.min(...calendarData.days.map(d => d.tideRange));
@@ -134,11 +138,8 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
     return `${(h * 3.281).toFixed(1)}ft`;
   };
 
-  const today = new Date();
-  const isToday = (date: Date) =>
-    date.getDate() === today.getDate() &&
-    date.getMonth() === today.getMonth() &&
-    date.getFullYear() === today.getFullYear();
+  const today = tz.dayKey(new Date());
+  const isToday = (date: Date) => tz.dayKey(date) === today;
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
@@ -222,7 +223,7 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
 
                 return (
                   <div
-                    key={day.date.getDate()}
+                    key={tz.dayKey(day.date)}
                     className={`aspect-square rounded-lg p-1 flex flex-col items-center justify-center text-center relative transition-colors
                       ${isToday(day.date) ? 'ring-2 ring-blue-500' : ''}
                     `}
@@ -232,7 +233,7 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
                       {getMoonEmoji(day.moonPhase)}
                     </span>
                     <span className={`text-sm font-medium ${isToday(day.date) ? 'text-blue-400' : 'text-white'}`}>
-                      {day.date.getDate()}
+                      {tz.format(day.date, 'd')}
                     </span>
                     <span className={`text-[10px] ${day.isSpring ? 'text-amber-300' : 'text-cyan-300'}`}>
                       {formatHeight(day.tideRange)}
@@ -269,7 +270,7 @@ export function MoonPhaseCalendar({ onClose }: MoonPhaseCalendarProps) {
                     <span className="text-2xl">{getMoonEmoji(day.moonPhase)}</span>
                     <div className="text-xs text-slate-400">{getMoonPhaseName(day.moonPhase)}</div>
                     <div className="text-sm text-white font-medium">
-                      {day.date.toLocaleDateString('default', { month: 'short', day: 'numeric' })}
+                      {tz.format(day.date, 'MMM d')}
                     </div>
                     <div className={`text-xs ${day.isSpring ? 'text-amber-400' : 'text-cyan-400'}`}>
                       {day.isSpring ? 'Spring tide' : 'Neap tide'}
@@ -2,6 +2,8 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries } from '@/lib/harmonics';
 import { addHours } from 'date-fns';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
 
 interface MooringLineCalculatorProps {
   onClose: () => void;
@@ -55,14 +57,23 @@ export function MooringLineCalculator({ onClose }: MooringLineCalculatorProps) {
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
-  // Vessel configuration
-  const [vessel, setVessel] = useState<VesselConfig>({
-    displacement: 50,
-    beam: 5,
-    length: 15,
-    windageArea: 30,
-    draftLoaded: 2,
-  });
+  // Vessel configuration; all but the windage area is the vessel profile's
+  const { vessel: profile, updateVessel } = useVessel();
+  const [windageArea, setWindageArea] = useState(30); // m²
+  const vessel = useMemo(
+    (): VesselConfig => ({
+      displacement: profile.displacement,
+      beam: profile.beam,
+      length: profile.loa,
+      windageArea,
+      draftLoaded: profile.draft,
+    }),
+    [profile, windageArea]
+  );
+  const setVessel = (config: VesselConfig) => {
+    setWindageArea(config.windageArea);
+    updateVessel({ displacement: config.displacement, beam: config.beam, loa: config.length, draft: config.draftLoaded });
+  };
 
   // Mooring configuration
   const [mooring, setMooring] = useState<MooringConfig>({
@@ -277,6 +288,10 @@ export function MooringLineCalculator({ onClose }: MooringLineCalculatorProps) {
           </div>
         </div>
 
+        <div className="mb-4">
+          <VesselPicker />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Vessel Configuration */}
           <div className="bg-slate-800 rounded-lg p-3">
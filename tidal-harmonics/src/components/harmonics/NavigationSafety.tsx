@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose?: () => void;
@@ -15,6 +16,7 @@ interface SafeWindow {
 }
 
 export function NavigationSafety({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -106,13 +108,9 @@ export function NavigationSafety({ onClose }: Props) {
     return `${meters.toFixed(2)} m`;
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
-  };
+  const formatDate = (date: Date) => tz.date(date);
 
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
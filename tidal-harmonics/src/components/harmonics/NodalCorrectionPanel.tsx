@@ -12,7 +12,9 @@ import {
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { CONSTITUENTS } from '@/data/constituents';
-import { format, addYears } from 'date-fns';
+import { getAstronomicalParameters, getNodalFactors } from '@/lib/astronomical';
+import { addYears } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface NodalData {
   year: number;
@@ -24,49 +26,6 @@ interface NodalData {
   isCurrentYear: boolean;
 }
 
-/**
- * Calculate approximate nodal correction factor f for a constituent
- * Simplified version based on mean longitude of lunar ascending node
- */
-function calculateNodalF(symbol: string, N: number): number {
-  // N is mean longitude of ascending node in degrees
-  const Nrad = (N * Math.PI) / 180;
-
-  // Common nodal factors (simplified from Schureman)
-  const corrections: Record<string, () => number> = {
-    M2: () => 1.0 - 0.037 * Math.cos(Nrad),
-    S2: () => 1.0, // No nodal correction
-    N2: () => 1.0 - 0.037 * Math.cos(Nrad),
-    K2: () => 1.024 + 0.286 * Math.cos(Nrad),
-    K1: () => 1.006 + 0.115 * Math.cos(Nrad),
-    O1: () => 1.009 + 0.187 * Math.cos(Nrad),
-    P1: () => 1.0, // No nodal correction
-    Q1: () => 1.009 + 0.187 * Math.cos(Nrad),
-    M1: () => 1.009 + 0.187 * Math.cos(Nrad),
-  };
-
-  const corrFn = corrections[symbol];
-  return corrFn ? corrFn() : 1.0;
-}
-
-/**
- * Calculate mean longitude of lunar ascending node
- * N decreases by about 19.3° per year (retrograde motion)
- * Full cycle: 18.61 years
- */
-function calculateN(date: Date): number {
-  // Reference: N = 125.04° - 19.341° * T where T is Julian centuries from J2000.0
-  const J2000 = new Date('2000-01-01T12:00:00Z');
-  const daysSinceJ2000 = (date.getTime() - J2000.getTime()) / 86400000;
-  const T = daysSinceJ2000 / 36525; // Julian centuries
-
-  let N = 125.04 - 1934.136 * T;
-  // Normalize to 0-360
-  N = ((N % 360) + 360) % 360;
-
-  return N;
-}
-
 /**
  * NodalCorrectionPanel
  *
@@ -74,6 +33,7 @@ function calculateN(date: Date): number {
  * showing how it affects tidal constituent amplitudes over time.
  */
 export function NodalCorrectionPanel() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
 
@@ -86,23 +46,24 @@ export function NodalCorrectionPanel() {
     for (let i = -10; i <= 10; i++) {
       const date = addYears(now, i);
       const year = date.getFullYear();
-      const N = calculateN(date);
+      const astro = getAstronomicalParameters(date);
 
       data.push({
         year,
-        label: format(date, 'yyyy'),
-        N,
-        M2_f: calculateNodalF('M2', N),
-        K1_f: calculateNodalF('K1', N),
-        O1_f: calculateNodalF('O1', N),
+        label: tz.format(date, 'yyyy'),
+        N: astro.N,
+        M2_f: getNodalFactors('M2', astro).f,
+        K1_f: getNodalFactors('K1', astro).f,
+        O1_f: getNodalFactors('O1', astro).f,
         isCurrentYear: year === currentYear,
       });
     }
 
     return data;
-  }, [epoch]);
+  }, [epoch, tz]);
 
-  const currentN = useMemo(() => calculateN(new Date(epoch)), [epoch]);
+  const currentAstro = useMemo(() => getAstronomicalParameters(new Date(epoch)), [epoch]);
+  const currentN = currentAstro.N;
 
   // Current nodal factors for selected constituents
   const currentFactors = useMemo(() => {
@@ -113,7 +74,7 @@ export function NodalCorrectionPanel() {
         const constituent = station.constituents.find((c) => c.symbol === symbol);
         if (!constituent) return null;
 
-        const f = calculateNodalF(symbol, currentN);
+        const { f } = getNodalFactors(symbol, currentAstro);
         const info = CONSTITUENTS[symbol];
 
         return {
@@ -126,7 +87,7 @@ export function NodalCorrectionPanel() {
         };
       })
       .filter((c): c is NonNullable<typeof c> => c !== null);
-  }, [station, currentN]);
+  }, [station, currentAstro]);
 
   return (
     <div className="bg-slate-900 rounded-lg p-4">
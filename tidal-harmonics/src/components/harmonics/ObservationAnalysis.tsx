@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import {
+  parseObservationCsv,
+  analyzeHarmonics,
+  createStationFromAnalysis,
+} from '@/lib/harmonicAnalysis';
+import type { ParsedObservations, HarmonicAnalysisResult } from '@/lib/harmonicAnalysis';
+import { formatHeight, getHeightUnit } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * ObservationAnalysis
+ *
+ * Runs a least-squares harmonic analysis on an uploaded CSV of observed
+ * water levels and saves the result as a selectable station.
+ */
+export function ObservationAnalysis({ onSaved }: { onSaved?: () => void }) {
+  const tz = useZonedTime();
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const stations = useHarmonicsStore((s) => s.stations);
+  const saveCustomStation = useHarmonicsStore((s) => s.saveCustomStation);
+  const selectStation = useHarmonicsStore((s) => s.selectStation);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedObservations | null>(null);
+  const [result, setResult] = useState<HarmonicAnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [country, setCountry] = useState('');
+  const [lat, setLat] = useState('');
+  const [lon, setLon] = useState('');
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    setFileName(file.name);
+    const text = await file.text();
+    const data = parseObservationCsv(text, unitSystem);
+    setParsed(data);
+    if (data.observations.length === 0) {
+      setError('No rows with a time and a height were found');
+    }
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const runAnalysis = () => {
+    if (!parsed) return;
+    try {
+      setError(null);
+      setResult(analyzeHarmonics(parsed.observations));
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : 'Analysis failed');
+    }
+  };
+
+  const latNum = parseFloat(lat);
+  const lonNum = parseFloat(lon);
+  const id = `custom-${slugify(name)}`;
+  const canSave =
+    result !== null &&
+    name.trim() !== '' &&
+    isFinite(latNum) && Math.abs(latNum) <= 90 &&
+    isFinite(lonNum) && Math.abs(lonNum) <= 180;
+  const overwrites = stations.some((s) => s.id === id);
+
+  const handleSave = () => {
+    if (!result || !canSave) return;
+    const station = createStationFromAnalysis(result, {
+      id,
+      name: name.trim(),
+      country: country.trim() || 'Custom',
+      lat: latNum,
+      lon: lonNum,
+      timezone,
+    });
+    try {
+      saveCustomStation(station);
+      selectStation(station.id);
+      onSaved?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save station');
+    }
+  };
+
+  const maxAmplitude = result?.constituents[0]?.amplitude ?? 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-700/50 rounded-lg p-3 text-sm text-slate-300">
+        Upload a CSV of observed water levels with one <code className="text-cyan-300">time,height</code> pair
+        per row (heights in {getHeightUnit(unitSystem, 'long')}, times in UTC unless an offset is given).
+        At least 15 days of hourly data separates the main constituents; a full year resolves all of them.
+      </div>
+
+      {/* File input */}
+      <label className="block bg-slate-900 rounded-lg p-4 border border-dashed border-slate-600 text-center cursor-pointer hover:border-cyan-500 transition-colors">
+        <input
+          type="file"
+          accept=".csv,.txt,text/csv"
+          className="sr-only"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleFile(file);
+          }}
+        />
+        <span className="text-sm text-slate-300">{fileName ?? 'Choose observation file…'}</span>
+      </label>
+
+      {parsed && parsed.observations.length > 0 && (
+        <div className="bg-slate-900 rounded-lg p-3 text-xs text-slate-400 space-y-1">
+          <div>
+            <span className="text-white font-mono">{parsed.observations.length.toLocaleString()}</span> observations
+            {parsed.skippedRows > 0 && <span> ({parsed.skippedRows} rows skipped)</span>}
+          </div>
+          <div>
+            {tz.format(parsed.observations[0]!.time, 'yyyy-MM-dd HH:mm')} →{' '}
+            {tz.format(parsed.observations[parsed.observations.length - 1]!.time, 'yyyy-MM-dd HH:mm')}
+          </div>
+          <button
+            onClick={runAnalysis}
+            className="mt-2 w-full px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-500 transition-colors text-sm"
+          >
+            Run least-squares analysis
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-900/30 border border-red-700/50 rounded-lg p-3 text-sm text-red-300">{error}</div>
+      )}
+
+      {result && (
+        <>
+          {/* Fit quality */}
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-slate-900 rounded-lg p-2">
+              <div className="text-[10px] text-slate-500">Mean level (Z₀)</div>
+              <div className="text-sm font-mono text-white">{formatHeight(result.meanLevel, unitSystem, { precision: 3 })}</div>
+            </div>
+            <div className="bg-slate-900 rounded-lg p-2">
+              <div className="text-[10px] text-slate-500">Residual RMS</div>
+              <div className="text-sm font-mono text-white">{formatHeight(result.residualRms, unitSystem, { precision: 3 })}</div>
+            </div>
+            <div className="bg-slate-900 rounded-lg p-2">
+              <div className="text-[10px] text-slate-500">Variance explained</div>
+              <div className="text-sm font-mono text-white">{(result.varianceExplained * 100).toFixed(1)}%</div>
+            </div>
+          </div>
+
+          {/* Constituent table */}
+          <div className="bg-slate-900 rounded-lg p-3 max-h-56 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="text-left font-normal">Constituent</th>
+                  <th className="text-right font-normal">Amplitude</th>
+                  <th className="text-right font-normal">Phase (G)</th>
+                  <th className="w-24" />
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-300">
+                {result.constituents.map((c) => (
+                  <tr key={c.symbol}>
+                    <td className="text-cyan-300">{c.symbol}</td>
+                    <td className="text-right">{formatHeight(c.amplitude, unitSystem, { precision: 3, showUnit: false })}</td>
+                    <td className="text-right">{c.phase.toFixed(1)}°</td>
+                    <td className="pl-2">
+                      <div className="h-1.5 bg-cyan-500/70 rounded" style={{ width: `${(c.amplitude / maxAmplitude) * 100}%` }} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.excluded.length > 0 && (
+              <p className="text-[10px] text-slate-500 mt-2">
+                Not resolvable from this record: {result.excluded.map((e) => e.symbol).join(', ')}
+              </p>
+            )}
+          </div>
+
+          {/* Station details */}
+          <div className="bg-slate-900 rounded-lg p-3 space-y-2">
+            <h3 className="text-sm font-medium text-white">Save as station</h3>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="col-span-2 text-slate-400">
+                Name
+                <input value={name} onChange={(e) => setName(e.target.value)} className="w-full bg-slate-700 rounded px-2 py-1 text-white" />
+              </label>
+              <label className="text-slate-400">
+                Latitude
+                <input value={lat} onChange={(e) => setLat(e.target.value)} placeholder="37.80" className="w-full bg-slate-700 rounded px-2 py-1 text-white font-mono" />
+              </label>
+              <label className="text-slate-400">
+                Longitude
+                <input value={lon} onChange={(e) => setLon(e.target.value)} placeholder="-122.46" className="w-full bg-slate-700 rounded px-2 py-1 text-white font-mono" />
+              </label>
+              <label className="text-slate-400">
+                Country
+                <input value={country} onChange={(e) => setCountry(e.target.value)} placeholder="Custom" className="w-full bg-slate-700 rounded px-2 py-1 text-white" />
+              </label>
+              <label className="text-slate-400">
+                Time zone
+                <input value={timezone} onChange={(e) => setTimezone(e.target.value)} className="w-full bg-slate-700 rounded px-2 py-1 text-white" />
+              </label>
+            </div>
+            <p className="text-[10px] text-slate-500">
+              Predictions are relative to the fitted mean level (MSL).
+              {overwrites && ' A saved station with this name will be replaced.'}
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="w-full px-4 py-2 rounded bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              Save & select station
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { VesselPicker } from './VesselPicker';
 
 interface PassagePlannerTideProps {
   onClose: () => void;
@@ -18,11 +21,14 @@ interface PassageOption {
 }
 
 export function PassagePlannerTide({ onClose }: PassagePlannerTideProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
   // Passage parameters
   const [distance, setDistance] = useState(20); // nm
-  const [boatSpeed, setBoatSpeed] = useState(6); // knots
+  const { vessel, updateVessel } = useVessel();
+  const boatSpeed = vessel.cruiseSpeed; // knots
+  const setBoatSpeed = (speed: number) => updateVessel({ cruiseSpeed: speed });
   const [maxStreamRate, setMaxStreamRate] = useState(2); // knots
   const [passageDirection, setPassageDirection] = useState<'with-flood' | 'with-ebb'>('with-flood');
 
@@ -169,7 +175,7 @@ export function PassagePlannerTide({ onClose }: PassagePlannerTideProps) {
                 <div className="bg-green-900/30 rounded p-3">
                   <div className="text-xs text-green-400 mb-1">Best Departure</div>
                   <div className="text-lg font-bold text-green-300">
-                    {format(bestOption.departureTime, 'HH:mm')}
+                    {tz.format(bestOption.departureTime, 'HH:mm')}
                   </div>
                   <div className="text-sm text-slate-300">
                     {formatDuration(bestOption.duration)}
@@ -178,7 +184,7 @@ export function PassagePlannerTide({ onClose }: PassagePlannerTideProps) {
                 <div className="bg-red-900/30 rounded p-3">
                   <div className="text-xs text-red-400 mb-1">Worst Departure</div>
                   <div className="text-lg font-bold text-red-300">
-                    {format(worstOption.departureTime, 'HH:mm')}
+                    {tz.format(worstOption.departureTime, 'HH:mm')}
                   </div>
                   <div className="text-sm text-slate-300">
                     {formatDuration(worstOption.duration)}
@@ -191,6 +197,8 @@ export function PassagePlannerTide({ onClose }: PassagePlannerTideProps) {
             </div>
           )}
 
+          <VesselPicker />
+
           {/* Parameters */}
           <div className="space-y-3">
             <h3 className="text-sm font-medium text-slate-300">Passage Parameters</h3>
@@ -313,11 +321,11 @@ export function PassagePlannerTide({ onClose }: PassagePlannerTideProps) {
                         {isBest && <span className="text-xs bg-green-600 px-1 rounded">BEST</span>}
                         {isWorst && <span className="text-xs bg-red-600 px-1 rounded">AVOID</span>}
                         <span className="font-medium">
-                          Depart: {format(option.departureTime, 'HH:mm')}
+                          Depart: {tz.format(option.departureTime, 'HH:mm')}
                         </span>
                       </div>
                       <span className="text-sm">
-                        Arrive: {format(option.arrivalTime, 'HH:mm')}
+                        Arrive: {tz.format(option.arrivalTime, 'HH:mm')}
                       </span>
                     </div>
                     <div className="flex justify-between text-xs mt-1">
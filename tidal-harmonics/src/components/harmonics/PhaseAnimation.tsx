@@ -3,6 +3,7 @@ import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { CONSTITUENTS } from '@/data/constituents';
 import { getAstronomicalParameters, calculateV0, getNodalFactors, normalizeAngle } from '@/lib/astronomical';
 import type { ConstituentFamily } from '@/types/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 /**
  * Phase Animation Component
@@ -42,6 +43,7 @@ interface PhaseAnimationProps {
 }
 
 export function PhaseAnimation({ onClose }: PhaseAnimationProps) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const visibleConstituents = useHarmonicsStore((s) => s.visibleConstituents);
 
@@ -70,8 +72,8 @@ export function PhaseAnimation({ onClose }: PhaseAnimationProps) {
         const constituent = CONSTITUENTS[c.symbol];
         if (!constituent) return null;
 
-        const { f, u } = getNodalFactors(c.symbol, astro.N);
-        const V0 = calculateV0(constituent.doodson, astro);
+        const { f, u } = getNodalFactors(c.symbol, astro);
+        const V0 = calculateV0(constituent, astro);
         const startAngle = normalizeAngle(V0 + u - c.phase);
 
         return {
@@ -266,7 +268,7 @@ export function PhaseAnimation({ onClose }: PhaseAnimationProps) {
               T + {formatElapsed(elapsedHours)}
             </div>
             <div className="text-slate-500 text-sm">
-              {new Date(startDate.getTime() + elapsedHours * 3600 * 1000).toLocaleString()}
+              {tz.dateTime(new Date(startDate.getTime() + elapsedHours * 3600 * 1000))}
             </div>
           </div>
 
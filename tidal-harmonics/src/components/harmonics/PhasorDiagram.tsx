@@ -44,8 +44,8 @@ export function PhasorDiagram({ onConstituentClick, highlighted = false }: Phaso
         const constituent = CONSTITUENTS[c.symbol];
         if (!constituent) return null;
 
-        const { f, u } = getNodalFactors(c.symbol, astro.N);
-        const V0 = calculateV0(constituent.doodson, astro);
+        const { f, u } = getNodalFactors(c.symbol, astro);
+        const V0 = calculateV0(constituent, astro);
         const angle = normalizeAngle(V0 + u - c.phase);
 
         const rad = (angle * Math.PI) / 180;
@@ -1,6 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { getSunMoonTimes } from '@/lib/daylight';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface PhotoTimingPlannerProps {
   onClose: () => void;
@@ -19,42 +21,11 @@ interface GoldenWindow {
   score: number;
 }
 
-// Simple sunrise/sunset calculation
-function getSunTimes(date: Date, latitude: number, longitude: number): { sunrise: Date; sunset: Date } {
-  const dayOfYear = Math.floor((date.getTime() - new Date(date.getFullYear(), 0, 0).getTime()) / 86400000);
-  const latRad = latitude * Math.PI / 180;
-
-  // Solar declination
-  const declination = -23.45 * Math.cos(2 * Math.PI * (dayOfYear + 10) / 365) * Math.PI / 180;
-
-  // Hour angle
-  const cosHourAngle = -Math.tan(latRad) * Math.tan(declination);
-  const hourAngle = Math.acos(Math.max(-1, Math.min(1, cosHourAngle))) * 180 / Math.PI;
-
-  // Solar noon (approximate)
-  const solarNoon = 12 - longitude / 15; // Hours UTC
-
-  const sunriseHour = solarNoon - hourAngle / 15;
-  const sunsetHour = solarNoon + hourAngle / 15;
-
-  const sunrise = new Date(date);
-  sunrise.setUTCHours(Math.floor(sunriseHour), Math.round((sunriseHour % 1) * 60), 0, 0);
-
-  const sunset = new Date(date);
-  sunset.setUTCHours(Math.floor(sunsetHour), Math.round((sunsetHour % 1) * 60), 0, 0);
-
-  return { sunrise, sunset };
-}
-
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
 export function PhotoTimingPlanner({ onClose }: PhotoTimingPlannerProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
+  const formatDate = (date: Date) => tz.date(date);
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [daysAhead, setDaysAhead] = useState(14);
@@ -72,30 +43,30 @@ export function PhotoTimingPlanner({ onClose }: PhotoTimingPlannerProps) {
     const now = new Date();
 
     for (let day = 0; day < daysAhead; day++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() + day);
-      date.setHours(0, 0, 0, 0);
+      // Local noon keeps the UTC date on the station's calendar day
+      const date = stationTime.atTime(stationTime.addDays(now, day), 12);
 
-      const { sunrise, sunset } = getSunTimes(date, latitude, longitude);
+      const { sunrise, sunset, civilDawn, civilDusk } = getSunMoonTimes(latitude, longitude, date, stationTime.zone);
 
       // Golden hour is ~1 hour before sunset and after sunrise
-      // Blue hour is ~30 min before sunrise and after sunset
+      // Blue hour is civil twilight, before sunrise and after sunset
+      // (no events on days the sun doesn't rise or set)
       const events = [
-        showSunrise ? {
+        showSunrise && sunrise ? {
           type: 'sunrise' as const,
           sun: sunrise,
           goldenStart: new Date(sunrise.getTime()),
           goldenEnd: new Date(sunrise.getTime() + 60 * 60000),
-          blueStart: new Date(sunrise.getTime() - 30 * 60000),
+          blueStart: civilDawn ?? new Date(sunrise.getTime() - 30 * 60000),
           blueEnd: new Date(sunrise.getTime()),
         } : null,
-        showSunset ? {
+        showSunset && sunset ? {
           type: 'sunset' as const,
           sun: sunset,
           goldenStart: new Date(sunset.getTime() - 60 * 60000),
           goldenEnd: new Date(sunset.getTime()),
           blueStart: new Date(sunset.getTime()),
-          blueEnd: new Date(sunset.getTime() + 30 * 60000),
+          blueEnd: civilDusk ?? new Date(sunset.getTime() + 30 * 60000),
         } : null,
       ].filter(Boolean);
 
@@ -168,7 +139,7 @@ export function PhotoTimingPlanner({ onClose }: PhotoTimingPlannerProps) {
 
     // Sort by score (best first)
     return windows.sort((a, b) => b.score - a.score);
-  }, [selectedStation, daysAhead, preferLowTide, showSunrise, showSunset]);
+  }, [selectedStation, daysAhead, preferLowTide, showSunrise, showSunset, stationTime]);
 
   const formatHeight = (m: number) => {
     if (unitSystem === 'metric') return `${m.toFixed(2)} m`;
@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface PortApproachAdvisorProps {
   onClose: () => void;
@@ -19,6 +20,8 @@ interface ApproachWindow {
 }
 
 export function PortApproachAdvisor({ onClose }: PortApproachAdvisorProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
   // Vessel and channel parameters
@@ -111,9 +114,9 @@ export function PortApproachAdvisor({ onClose }: PortApproachAdvisorProps) {
         }
       }
 
-      // Night check
+      // Night check, by the clock at the station
       if (avoidNight) {
-        const hour = windowStart.getHours();
+        const hour = stationTime.hoursSinceMidnight(windowStart);
         if (hour < 6 || hour > 20) {
           if (recommendation === 'optimal') recommendation = 'acceptable';
           else if (recommendation === 'acceptable') recommendation = 'caution';
@@ -148,6 +151,7 @@ export function PortApproachAdvisor({ onClose }: PortApproachAdvisorProps) {
     approachSpeed,
     preferSlack,
     avoidNight,
+    stationTime,
   ]);
 
   // Find best windows
@@ -312,9 +316,9 @@ export function PortApproachAdvisor({ onClose }: PortApproachAdvisorProps) {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-white text-lg font-medium">
-                    {format(nextOptimal.start, 'HH:mm')} - {format(nextOptimal.end, 'HH:mm')}
+                    {tz.format(nextOptimal.start, 'HH:mm')} - {tz.format(nextOptimal.end, 'HH:mm')}
                   </p>
-                  <p className="text-slate-400 text-sm">{format(nextOptimal.start, 'EEE, MMM d')}</p>
+                  <p className="text-slate-400 text-sm">{tz.format(nextOptimal.start, 'EEE, MMM d')}</p>
                 </div>
                 <div className="text-right">
                   <p className="text-green-400 font-medium">{getTidalStateLabel(nextOptimal.tidalState)}</p>
@@ -338,7 +342,7 @@ export function PortApproachAdvisor({ onClose }: PortApproachAdvisorProps) {
                   <div className="flex items-start justify-between">
                     <div className="flex items-center gap-3">
                       <div className="text-white font-medium">
-                        {format(window.start, 'HH:mm')}
+                        {tz.format(window.start, 'HH:mm')}
                       </div>
                       <span
                         className={`px-2 py-0.5 rounded text-xs font-medium ${getRecommendationBadge(
@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
 import type { TideStation } from '@/types/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose?: () => void;
@@ -50,6 +51,7 @@ interface StationTideInfo {
 }
 
 export function PortTimingComparison({ onClose }: Props) {
+  const tz = useZonedTime();
   const stations = useHarmonicsStore((s) => s.stations);
   const [referenceStationId, setReferenceStationId] = useState<string | null>(null);
 
@@ -119,9 +121,7 @@ export function PortTimingComparison({ onClose }: Props) {
     return diffs;
   }, [stationData, referenceStationId]);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatTimeDiff = (minutes: number) => {
     const sign = minutes >= 0 ? '+' : '';
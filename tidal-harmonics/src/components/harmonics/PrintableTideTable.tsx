@@ -1,12 +1,8 @@
 import { useMemo, useState, useRef } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-
-interface TideExtreme {
-  time: Date;
-  height: number;
-  type: 'high' | 'low';
-}
+import { findPreciseExtremes } from '@/lib/harmonics';
+import type { TideExtreme } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DayData {
   date: Date;
@@ -22,12 +18,9 @@ interface Props {
 export function PrintableTideTable({ onClose }: Props) {
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const tz = useZonedTime();
   const [days, setDays] = useState(7);
-  const [startDate, setStartDate] = useState(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return today.toISOString().split('T')[0] ?? today.toISOString().slice(0, 10);
-  });
+  const [startDate, setStartDate] = useState(() => tz.dayKey(new Date()));
   const printRef = useRef<HTMLDivElement>(null);
 
   const useMetric = unitSystem === 'metric';
@@ -36,48 +29,31 @@ export function PrintableTideTable({ onClose }: Props) {
   const tableData = useMemo((): DayData[] => {
     if (!station) return [];
 
-    const start = new Date(startDate);
-    start.setHours(0, 0, 0, 0);
+    // Days run midnight to midnight in the display zone, 23 or 25 hours
+    // long across a daylight saving change
+    const start = tz.parse(startDate);
+    const end = tz.addDays(start, days);
     const result: DayData[] = [];
 
-    for (let d = 0; d < days; d++) {
-      const dayStart = new Date(start);
-      dayStart.setDate(start.getDate() + d);
-      const dayEnd = new Date(dayStart);
-      dayEnd.setDate(dayStart.getDate() + 1);
+    // One pass over the whole period so higher/lower labels see across midnight
+    const extremes = findPreciseExtremes(station, start, end);
 
-      // Generate tide series for the day at 6-minute intervals
-      const series = predictTideSeries(station, dayStart, dayEnd, 6);
-      const extremes = findExtremes(series);
+    for (let d = 0; d < days; d++) {
+      const dayStart = tz.addDays(start, d);
+      const dayEnd = tz.addDays(start, d + 1);
 
       result.push({
         date: dayStart,
-        extremes: extremes.map(e => ({
-          time: e.time,
-          height: e.height,
-          type: e.type
-        }))
+        extremes: extremes.filter(e => e.time >= dayStart && e.time < dayEnd)
       });
     }
 
     return result;
-  }, [station, startDate, days]);
+  }, [station, startDate, days, tz]);
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric'
-    });
-  };
+  const formatDate = (date: Date) => tz.date(date);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatHeight = (meters: number) => {
     if (useMetric) {
@@ -156,7 +132,7 @@ export function PrintableTideTable({ onClose }: Props) {
               Tide Predictions • {formatDate(new Date(startDate))} - {formatDate(tableData[tableData.length - 1]?.date || new Date())}
             </p>
             <p className="text-center text-sm text-gray-500 mt-1">
-              Heights in {useMetric ? 'meters' : 'feet'} relative to MLLW
+              Heights in {useMetric ? 'meters' : 'feet'} relative to {station.datum}
             </p>
           </div>
 
@@ -215,7 +191,9 @@ export function PrintableTideTable({ onClose }: Props) {
                         }`}
                       >
                         {formatTime(extreme.time)}
-                        <span className="text-xs ml-1">{extreme.type === 'high' ? 'H' : 'L'}</span>
+                        <span className="text-xs ml-1">
+                          {extreme.classification ?? (extreme.type === 'high' ? 'H' : 'L')}
+                        </span>
                       </td>,
                       <td
                         key={`${idx}-${i}-height`}
@@ -237,15 +215,16 @@ export function PrintableTideTable({ onClose }: Props) {
             <p className="font-medium mb-1">Notes:</p>
             <ul className="list-disc list-inside space-y-0.5">
               <li>H = High tide, L = Low tide</li>
+              <li>HHW/LHW = Higher/lower high water, HLW/LLW = Higher/lower low water (mixed tides)</li>
               <li>Times are in local timezone</li>
-              <li>Heights are relative to Mean Lower Low Water (MLLW)</li>
+              <li>Heights are relative to {station.datum}</li>
               <li>Predictions may vary from actual conditions due to weather</li>
             </ul>
           </div>
 
           {/* Print footer */}
           <div className="hidden print:block mt-6 pt-4 border-t border-gray-300 text-center text-xs text-gray-500">
-            <p>Generated by Tidal Harmonics Visualizer • {new Date().toLocaleDateString()}</p>
+            <p>Generated by Tidal Harmonics Visualizer • {tz.date(new Date())} • Times in {tz.zone} ({tz.abbreviation()})</p>
           </div>
         </div>
 
@@ -4,7 +4,8 @@ import { useTimeStore } from '@/stores/timeStore';
 import { predictTide, predictTideSeries, findExtremes } from '@/lib/harmonics';
 import type { TideExtreme } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
-import { addHours, format } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose: () => void;
@@ -14,6 +15,7 @@ const TWELFTHS: readonly [number, number, number, number, number, number] = [1,
 const HOUR_LABELS = ['1st', '2nd', '3rd', '4th', '5th', '6th'];
 
 export function RuleOfTwelfths({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -108,7 +110,7 @@ export function RuleOfTwelfths({ onClose }: Props) {
   }, [station, epoch]);
 
   const formatTime = (date: Date) => {
-    return format(date, 'HH:mm');
+    return tz.format(date, 'HH:mm');
   };
 
   if (!station) {
@@ -1,7 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addDays, setMonth, setDate } from 'date-fns';
+import { usePredictionExtremes } from '@/hooks/usePrediction';
+import { addDays, setMonth, setDate } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface SeasonalTideComparisonProps {
   onClose: () => void;
@@ -28,27 +29,37 @@ const SEASONS = [
 ];
 
 export function SeasonalTideComparison({ onClose }: SeasonalTideComparisonProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const [year, setYear] = useState(new Date().getFullYear());
   const [showDetails, setShowDetails] = useState<string | null>(null);
 
-  // Calculate tidal statistics for each season
-  const seasonalData = useMemo(() => {
-    if (!selectedStation) return [];
-
-    const data: SeasonalData[] = [];
+  // 14-day windows (full spring-neap cycle) around each seasonal date
+  const windows = useMemo(
+    () =>
+      SEASONS.map((season) => {
+        const seasonDate = setDate(setMonth(new Date(year, 0, 1), season.month), season.day);
+        return { season, seasonDate, start: addDays(seasonDate, -7), end: addDays(seasonDate, 7) };
+      }),
+    [year]
+  );
 
-    SEASONS.forEach((season) => {
-      // Get date for this season in the selected year
-      let seasonDate = setMonth(new Date(year, 0, 1), season.month);
-      seasonDate = setDate(seasonDate, season.day);
+  // One worker job covers every window in the year
+  const range = useMemo(
+    () => ({
+      start: new Date(Math.min(...windows.map((w) => w.start.getTime()))),
+      end: new Date(Math.max(...windows.map((w) => w.end.getTime()))),
+    }),
+    [windows]
+  );
+  const { data: yearExtremes, loading, progress } = usePredictionExtremes(selectedStation, range);
 
-      // Analyze a 14-day period (full spring-neap cycle) around the seasonal date
-      const start = addDays(seasonDate, -7);
-      const end = addDays(seasonDate, 7);
+  // Calculate tidal statistics for each season
+  const seasonalData = useMemo(() => {
+    if (!yearExtremes) return [];
 
-      const series = predictTideSeries(selectedStation, start, end, 15);
-      const extremes = findExtremes(series);
+    return windows.map(({ season, seasonDate, start, end }): SeasonalData => {
+      const extremes = yearExtremes.filter((e) => e.time >= start && e.time <= end);
 
       // Calculate statistics
       const highs = extremes.filter((e) => e.type === 'high').map((e) => e.height);
@@ -61,7 +72,7 @@ export function SeasonalTideComparison({ onClose }: SeasonalTideComparisonProps)
 
       const avg = (arr: number[]) => (arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0);
 
-      data.push({
+      return {
         name: season.name,
         date: seasonDate,
         color: season.color,
@@ -71,11 +82,9 @@ export function SeasonalTideComparison({ onClose }: SeasonalTideComparisonProps)
         meanHigh: avg(highs),
         meanLow: avg(lows),
         tidesPerDay: extremes.length / 14, // Average tides per day over 14 days
-      });
+      };
     });
-
-    return data;
-  }, [selectedStation, year]);
+  }, [yearExtremes, windows]);
 
   // Find the season with largest/smallest ranges
   const maxRangeSeason = useMemo(() => {
@@ -132,6 +141,9 @@ export function SeasonalTideComparison({ onClose }: SeasonalTideComparisonProps)
                 );
               })}
             </select>
+            {loading && (
+              <span className="text-xs text-slate-500">Computing… {Math.round(progress * 100)}%</span>
+            )}
           </div>
 
           {/* Seasonal comparison chart */}
@@ -151,7 +163,7 @@ export function SeasonalTideComparison({ onClose }: SeasonalTideComparisonProps)
                       <div className="w-3 h-3 rounded-full" style={{ backgroundColor: season.color }} />
                       <span className="text-white font-medium">{season.name}</span>
                     </div>
-                    <span className="text-sm text-slate-400">{format(season.date, 'MMM d, yyyy')}</span>
+                    <span className="text-sm text-slate-400">{tz.format(season.date, 'MMM d, yyyy')}</span>
                   </div>
 
                   {/* Range bar */}
@@ -0,0 +1,450 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { defaultDatumFor, referenceStation } from '@/lib/datums';
+import {
+  buildCurveDiagram,
+  curveFactor,
+  formNumber,
+  secondaryHeightAt,
+  secondaryPortExtremes,
+  secondaryPortLevels,
+  standardPortLevels,
+  SEMIDIURNAL_FORM_LIMIT,
+} from '@/lib/secondaryPort';
+import type { PortLevels, SecondaryExtreme, SecondaryPortDifferences, TimeDifference } from '@/lib/secondaryPort';
+import { zonedTime } from '@/lib/timeZones';
+import { convertHeight, formatHeight, getHeightUnit, toMeters } from '@/lib/units';
+
+interface SecondaryPortCalculatorProps {
+  onClose: () => void;
+}
+
+// A typical set of differences as printed in the tables, to be replaced with the port's own
+const DEFAULT_DIFFERENCES: SecondaryPortDifferences = {
+  highWater: [
+    { at: 0, minutes: -10 },
+    { at: 6, minutes: 5 },
+  ],
+  lowWater: [
+    { at: 5, minutes: -15 },
+    { at: 11, minutes: 10 },
+  ],
+  mhws: -0.3,
+  mhwn: -0.2,
+  mlwn: -0.1,
+  mlws: 0,
+};
+
+const LEVELS: { key: keyof PortLevels; label: string }[] = [
+  { key: 'mhws', label: 'MHWS' },
+  { key: 'mhwn', label: 'MHWN' },
+  { key: 'mlwn', label: 'MLWN' },
+  { key: 'mlws', label: 'MLWS' },
+];
+
+// Cumulative twelfths of the range at the end of each hour of a six-hour tide
+const TWELFTHS_RISE = [0, 1, 3, 6, 9, 11, 12];
+
+function formatDifference(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const abs = Math.abs(rounded);
+  return `${rounded < 0 ? '−' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+const toClock = (hours: number) =>
+  `${String(Math.floor(hours)).padStart(2, '0')}:${String(Math.round((hours % 1) * 60)).padStart(2, '0')}`;
+
+const fromClock = (value: string) => {
+  const [h, m] = value.split(':').map(Number);
+  return (h ?? 0) + (m ?? 0) / 60;
+};
+
+// Rule of twelfths between two secondary-port extremes
+function twelfthsHeightAt(extremes: SecondaryExtreme[], time: number): number | null {
+  const next = extremes.findIndex((e) => e.time.getTime() >= time);
+  if (next <= 0) return null;
+  const a = extremes[next - 1]!;
+  const b = extremes[next]!;
+  const progress = ((time - a.time.getTime()) / (b.time.getTime() - a.time.getTime())) * 6;
+  const i = Math.min(5, Math.floor(progress));
+  const twelfths = TWELFTHS_RISE[i]! + (TWELFTHS_RISE[i + 1]! - TWELFTHS_RISE[i]!) * (progress - i);
+  return a.height + ((b.height - a.height) * twelfths) / 12;
+}
+
+/**
+ * SecondaryPortCalculator
+ *
+ * The Admiralty secondary-port method (NP 159): a standard port's HW and LW
+ * corrected by tabulated time and height differences, and heights between
+ * them read off the standard port's spring and neap curves. Intermediate
+ * heights are set against a rule-of-twelfths estimate as a cross-check.
+ */
+export function SecondaryPortCalculator({ onClose }: SecondaryPortCalculatorProps) {
+  const stations = useHarmonicsStore((s) => s.stations);
+  const selectedStation = useHarmonicsStore((s) => s.selectedStation);
+  const heightDatum = useHarmonicsStore((s) => s.heightDatum);
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+
+  // Standard ports need their own harmonic constants
+  const standardPorts = useMemo(() => stations.filter((s) => !s.subordinate && !s.virtual), [stations]);
+  const [standardId, setStandardId] = useState(() =>
+    selectedStation && !selectedStation.subordinate && !selectedStation.virtual
+      ? selectedStation.id
+      : (standardPorts[0]?.id ?? '')
+  );
+  const [portName, setPortName] = useState('Secondary port');
+  const [differences, setDifferences] = useState<SecondaryPortDifferences>(DEFAULT_DIFFERENCES);
+  const [date, setDate] = useState(() =>
+    zonedTime(selectedStation?.timezone ?? 'UTC').format(new Date(), 'yyyy-MM-dd')
+  );
+
+  const heightUnit = getHeightUnit(unitSystem);
+
+  const standard = useMemo(() => {
+    const station = standardPorts.find((s) => s.id === standardId) ?? standardPorts[0];
+    return station ? referenceStation(station, heightDatum ?? defaultDatumFor(station)) : null;
+  }, [standardPorts, standardId, heightDatum]);
+
+  // Differences are tabulated in the standard port's zone time
+  const tz = useMemo(() => zonedTime(standard?.timezone ?? 'UTC'), [standard]);
+
+  const analysis = useMemo(() => {
+    if (!standard || !date) return null;
+    const dayStart = tz.parse(date);
+    const dayEnd = tz.addDays(dayStart, 1);
+
+    // A tide either side of the day, for heights up to midnight at each end
+    const extremes = secondaryPortExtremes(
+      standard,
+      differences,
+      new Date(dayStart.getTime() - 14 * 3600000),
+      new Date(dayEnd.getTime() + 14 * 3600000),
+      tz.zone
+    );
+    const today = extremes.filter((e) => e.time >= dayStart && e.time < dayEnd);
+    const diagram = buildCurveDiagram(standard, dayStart);
+    const standardLevels = standardPortLevels(standard);
+
+    const hourly = [];
+    for (let t = dayStart.getTime(); t <= dayEnd.getTime(); t += 3600000) {
+      hourly.push({
+        time: new Date(t),
+        admiralty: secondaryHeightAt(extremes, diagram, new Date(t)),
+        twelfths: twelfthsHeightAt(extremes, t),
+      });
+    }
+
+    // The curve the first HW of the day is worked on, between the neap and spring curves
+    const firstHigh = today.find((e) => e.type === 'high');
+    const chartData = diagram.hours.map((h, i) => ({
+      hours: h,
+      spring: diagram.spring[i]!,
+      neap: diagram.neap[i]!,
+      ...(firstHigh ? { today: curveFactor(diagram, h, firstHigh.springFactor) } : {}),
+    }));
+
+    return {
+      today,
+      hourly,
+      diagram,
+      chartData,
+      firstHigh,
+      standardLevels,
+      secondaryLevels: secondaryPortLevels(standardLevels, differences),
+      form: formNumber(standard),
+    };
+  }, [standard, date, tz, differences]);
+
+  const setTimeDifference = (which: 'highWater' | 'lowWater', index: 0 | 1, updates: Partial<TimeDifference>) => {
+    const pair = [...differences[which]] as [TimeDifference, TimeDifference];
+    pair[index] = { ...pair[index], ...updates };
+    setDifferences({ ...differences, [which]: pair });
+  };
+
+  const inputClass = 'w-full bg-slate-700 text-white text-sm rounded px-2 py-1 border border-slate-600';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center sticky top-0 bg-slate-900">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Secondary Port (Admiralty Method)</h2>
+            <p className="text-slate-400 text-sm">Standard port plus tabulated differences, as in NP 159</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xl" aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Ports and date */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="block text-xs text-slate-400">
+              Standard port
+              <select value={standard?.id ?? ''} onChange={(e) => setStandardId(e.target.value)} className={`mt-1 ${inputClass}`}>
+                {standardPorts.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Secondary port
+              <input value={portName} onChange={(e) => setPortName(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Date
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+
+          {/* Differences, laid out as the tables print them */}
+          <div className="bg-slate-800 rounded-lg p-3 overflow-x-auto">
+            <h3 className="text-sm font-medium text-slate-300 mb-2">Differences ({tz.abbreviation()})</h3>
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="text-left font-normal" colSpan={2}>
+                    High Water
+                  </th>
+                  <th className="text-left font-normal" colSpan={2}>
+                    Low Water
+                  </th>
+                  {LEVELS.map(({ key, label }) => (
+                    <th key={key} className="text-left font-normal">
+                      {label} ({heightUnit})
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {(['highWater', 'lowWater'] as const).flatMap((which) =>
+                    ([0, 1] as const).map((i) => (
+                      <td key={`${which}-${i}`} className="pr-2 pb-1">
+                        <input
+                          type="time"
+                          value={toClock(differences[which][i].at)}
+                          onChange={(e) => setTimeDifference(which, i, { at: fromClock(e.target.value) })}
+                          className={inputClass}
+                          aria-label={`${which === 'highWater' ? 'HW' : 'LW'} standard time ${i + 1}`}
+                        />
+                      </td>
+                    ))
+                  )}
+                  {LEVELS.map(({ key, label }) => (
+                    <td key={key} rowSpan={2} className="pr-2 align-top">
+                      <input
+                        type="number"
+                        value={Number(convertHeight(differences[key], unitSystem).toFixed(2))}
+                        onChange={(e) =>
+                          setDifferences({ ...differences, [key]: toMeters(Number(e.target.value), unitSystem) })
+                        }
+                        step={0.1}
+                        className={inputClass}
+                        aria-label={`${label} difference`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  {(['highWater', 'lowWater'] as const).flatMap((which) =>
+                    ([0, 1] as const).map((i) => (
+                      <td key={`${which}-${i}`} className="pr-2">
+                        <input
+                          type="number"
+                          value={differences[which][i].minutes}
+                          onChange={(e) => setTimeDifference(which, i, { minutes: Number(e.target.value) })}
+                          className={inputClass}
+                          aria-label={`${which === 'highWater' ? 'HW' : 'LW'} difference ${i + 1} (minutes)`}
+                        />
+                      </td>
+                    ))
+                  )}
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-2">
+              Time differences in minutes at the standard-port times above (repeating 12 hours later); heights in{' '}
+              {heightUnit} at each standard-port level.
+            </p>
+          </div>
+
+          {analysis && (
+            <>
+              {analysis.form > SEMIDIURNAL_FORM_LIMIT && (
+                <div className="bg-amber-900/30 border border-amber-700/50 rounded-lg p-3 text-xs text-amber-200">
+                  {standard?.name} has a form number of {analysis.form.toFixed(2)}: its tides are mixed, and the
+                  Admiralty method, which assumes a semidiurnal tide, can be out by a large fraction of the range.
+                </div>
+              )}
+
+              {/* Mean levels */}
+              <div className="grid grid-cols-5 gap-2 text-xs text-center">
+                <div />
+                {LEVELS.map(({ key, label }) => (
+                  <div key={key} className="text-slate-400">
+                    {label}
+                  </div>
+                ))}
+                <div className="text-left text-slate-400">{standard?.name}</div>
+                {LEVELS.map(({ key }) => (
+                  <div key={key} className="text-slate-300">
+                    {formatHeight(analysis.standardLevels[key], unitSystem, { precision: 1 })}
+                  </div>
+                ))}
+                <div className="text-left text-slate-400">{portName}</div>
+                {LEVELS.map(({ key }) => (
+                  <div key={key} className="text-white">
+                    {formatHeight(analysis.secondaryLevels[key], unitSystem, { precision: 1 })}
+                  </div>
+                ))}
+              </div>
+
+              {/* HW and LW */}
+              <div className="bg-slate-800 rounded-lg p-3">
+                <h3 className="text-sm font-medium text-slate-300 mb-2">
+                  {portName}: high and low water, {tz.format(tz.parse(date), 'EEE d MMM')}
+                </h3>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-400 text-left">
+                      <th className="font-normal"></th>
+                      <th className="font-normal">Standard port</th>
+                      <th className="font-normal">Range</th>
+                      <th className="font-normal">Differences</th>
+                      <th className="font-normal">{portName}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysis.today.map((e) => (
+                      <tr key={e.standardTime.getTime()} className="text-slate-300">
+                        <td className={e.type === 'high' ? 'text-cyan-400' : 'text-blue-400'}>
+                          {e.type === 'high' ? 'HW' : 'LW'}
+                        </td>
+                        <td>
+                          {tz.format(e.standardTime, 'HH:mm')} {formatHeight(e.standardHeight, unitSystem, { precision: 1 })}
+                        </td>
+                        <td>
+                          {formatHeight(e.range, unitSystem, { precision: 1 })}{' '}
+                          <span className="text-slate-500">({Math.round(e.springFactor * 100)}% springs)</span>
+                        </td>
+                        <td>
+                          {formatDifference(e.timeDifference)}{' '}
+                          {e.heightDifference >= 0 ? '+' : '−'}
+                          {formatHeight(Math.abs(e.heightDifference), unitSystem, { precision: 1 })}
+                        </td>
+                        <td className="text-white font-medium">
+                          {tz.format(e.time, 'HH:mm')} {formatHeight(e.height, unitSystem, { precision: 1 })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Curve diagram */}
+              <div className="bg-slate-800 rounded-lg p-3">
+                <h3 className="text-sm font-medium text-slate-300 mb-1">{standard?.name} curve diagram</h3>
+                <p className="text-xs text-slate-500 mb-2">
+                  Rise above LW as a fraction of the range, by hours from HW. Springs from the tide of{' '}
+                  {tz.format(analysis.diagram.springHighWater, 'd MMM')}, neaps from{' '}
+                  {tz.format(analysis.diagram.neapHighWater, 'd MMM')}.
+                </p>
+                <ResponsiveContainer width="100%" height={220}>
+                  <LineChart data={analysis.chartData}>
+                    <XAxis
+                      dataKey="hours"
+                      type="number"
+                      domain={[-6, 6]}
+                      ticks={[-6, -5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5, 6]}
+                      tickFormatter={(h: number) => (h === 0 ? 'HW' : `${h > 0 ? '+' : ''}${h}`)}
+                      stroke="#64748b"
+                      tick={{ fill: '#94a3b8', fontSize: 10 }}
+                    />
+                    <YAxis
+                      domain={[0, 1]}
+                      stroke="#64748b"
+                      tick={{ fill: '#94a3b8', fontSize: 10 }}
+                      tickFormatter={(v: number) => v.toFixed(1)}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+                      labelStyle={{ color: '#94a3b8' }}
+                      labelFormatter={(h) => `HW ${Number(h) >= 0 ? '+' : ''}${Number(h).toFixed(2)} h`}
+                      formatter={(value) => (typeof value === 'number' ? value.toFixed(2) : String(value))}
+                    />
+                    <Legend />
+                    <ReferenceLine x={0} stroke="#475569" />
+                    <Line type="monotone" dataKey="spring" name="Springs" stroke="#f87171" strokeWidth={2} dot={false} />
+                    <Line
+                      type="monotone"
+                      dataKey="neap"
+                      name="Neaps"
+                      stroke="#60a5fa"
+                      strokeWidth={2}
+                      strokeDasharray="5 3"
+                      dot={false}
+                    />
+                    {analysis.firstHigh && (
+                      <Line
+                        type="monotone"
+                        dataKey="today"
+                        name={`HW ${tz.format(analysis.firstHigh.time, 'HH:mm')}`}
+                        stroke="#facc15"
+                        strokeWidth={1.5}
+                        dot={false}
+                      />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Intermediate heights */}
+              <div className="bg-slate-800 rounded-lg p-3">
+                <h3 className="text-sm font-medium text-slate-300 mb-2">Heights through the day</h3>
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-slate-800">
+                      <tr className="text-slate-400 text-left">
+                        <th className="font-normal">Time</th>
+                        <th className="font-normal">Admiralty curve</th>
+                        <th className="font-normal">Rule of twelfths</th>
+                        <th className="font-normal">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.hourly.map((row) => (
+                        <tr key={row.time.getTime()} className="text-slate-300">
+                          <td>{tz.format(row.time, 'HH:mm')}</td>
+                          <td className="text-white">
+                            {row.admiralty !== null ? formatHeight(row.admiralty, unitSystem) : '—'}
+                          </td>
+                          <td>{row.twelfths !== null ? formatHeight(row.twelfths, unitSystem) : '—'}</td>
+                          <td className="text-slate-400">
+                            {row.admiralty !== null && row.twelfths !== null
+                              ? formatHeight(row.twelfths - row.admiralty, unitSystem)
+                              : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="bg-slate-800 rounded-lg p-3 text-xs text-slate-400">
+                Heights are above {standard?.datum}. Standard-port levels come from its M2 and S2 constants. Time
+                differences are interpolated by the time of the standard port's HW or LW, height differences by its range
+                between mean neaps and springs (extrapolated beyond them), and the curves by the same range (not
+                extrapolated).
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { findTidalWindows, inTidalWindow } from '@/lib/tidalWindows';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface ShellfishHarvestPlannerProps {
   onClose: () => void;
@@ -33,20 +34,10 @@ const SHELLFISH_TYPES: ShellfishType[] = [
   { name: 'Geoduck', minExposure: -0.5, icon: '💎', description: 'Deep in sand, need extremely low tides' },
 ];
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
-function isDaytime(date: Date): boolean {
-  const hour = date.getHours();
-  return hour >= 6 && hour < 20; // Approximate daylight hours
-}
-
 export function ShellfishHarvestPlanner({ onClose }: ShellfishHarvestPlannerProps) {
+  const tz = useZonedTime();
+  const formatDate = (date: Date) => tz.date(date);
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [daysAhead, setDaysAhead] = useState(14);
@@ -58,65 +49,38 @@ export function ShellfishHarvestPlanner({ onClose }: ShellfishHarvestPlannerProp
     if (!selectedStation) return [];
 
     const threshold = customThreshold ?? selectedShellfish.minExposure;
-    const windows: HarvestWindow[] = [];
     const now = new Date();
-    const searchInterval = 10 * 60000; // 10 minutes
-    const endTime = new Date(now.getTime() + daysAhead * 24 * 3600000);
-
-    let inWindow = false;
-    let windowStart: Date | null = null;
-    let windowMinTide = Infinity;
+    const range = { start: now, end: new Date(now.getTime() + daysAhead * 24 * 3600000) };
 
-    for (let time = now.getTime(); time < endTime.getTime(); time += searchInterval) {
-      const currentTime = new Date(time);
-      const tideHeight = predictTide(selectedStation, currentTime);
-
-      if (tideHeight <= threshold) {
-        if (!inWindow) {
-          inWindow = true;
-          windowStart = currentTime;
-          windowMinTide = tideHeight;
-        } else {
-          windowMinTide = Math.min(windowMinTide, tideHeight);
-        }
-      } else if (inWindow && windowStart) {
-        // Window ended
-        const duration = (time - windowStart.getTime()) / 60000;
-
-        // Only include windows that are at least 30 minutes
-        if (duration >= 30) {
-          const midpoint = new Date(windowStart.getTime() + duration * 30000);
-          const daylight = isDaytime(midpoint);
-
-          if (!daytimeOnly || daylight) {
-            let quality: 'excellent' | 'good' | 'fair';
-            if (duration >= 120 && windowMinTide <= threshold - 0.3) {
-              quality = 'excellent';
-            } else if (duration >= 60) {
-              quality = 'good';
-            } else {
-              quality = 'fair';
-            }
-
-            windows.push({
-              date: windowStart,
-              startTime: windowStart,
-              endTime: new Date(time),
-              duration,
-              minTide: windowMinTide,
-              quality,
-              daylight,
-            });
-          }
-        }
+    // Only include windows that are at least 30 minutes
+    const windows = findTidalWindows(
+      selectedStation,
+      { maxHeight: threshold, minDurationMinutes: 30, ...(daytimeOnly && { daylight: true }) },
+      range
+    );
+    const daylight = daytimeOnly ? windows : findTidalWindows(selectedStation, { daylight: true }, range);
 
-        inWindow = false;
-        windowStart = null;
-        windowMinTide = Infinity;
+    return windows.map((w): HarvestWindow => {
+      const duration = Math.round(w.durationMinutes);
+      let quality: 'excellent' | 'good' | 'fair';
+      if (duration >= 120 && w.minHeight <= threshold - 0.3) {
+        quality = 'excellent';
+      } else if (duration >= 60) {
+        quality = 'good';
+      } else {
+        quality = 'fair';
       }
-    }
 
-    return windows;
+      return {
+        date: w.start,
+        startTime: w.start,
+        endTime: w.end,
+        duration,
+        minTide: w.minHeight,
+        quality,
+        daylight: inTidalWindow(daylight, (w.start.getTime() + w.end.getTime()) / 2),
+      };
+    });
   }, [selectedStation, daysAhead, selectedShellfish, customThreshold, daytimeOnly]);
 
   const formatHeight = (m: number) => {
@@ -1,13 +1,16 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useCurrentStation } from '@/hooks/useCurrentStation';
+import { CURRENT_STATIONS } from '@/data/currentStations';
+import { compileCurrentKernel, findCurrentEvents, weakCurrentWindow } from '@/lib/currents';
 
 interface SlackWindow {
   time: Date;
-  type: 'high-slack' | 'low-slack';
-  duration: number; // minutes of relative slack
-  beforeHeight: number;
-  afterHeight: number;
+  type: 'slack-before-flood' | 'slack-before-ebb';
+  duration: number; // minutes the current stays below the threshold
+  start: Date;
+  end: Date;
 }
 
 interface Props {
@@ -15,160 +18,53 @@ interface Props {
 }
 
 export function SlackWaterFinder({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
-  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const { currentStation, selectCurrentStation } = useCurrentStation();
   const [lookAheadDays, setLookAheadDays] = useState(3);
-  const [slackThreshold, setSlackThreshold] = useState(0.05); // m/hr
+  const [slackThreshold, setSlackThreshold] = useState(0.25); // knots
 
-  const useMetric = unitSystem === 'metric';
-
-  // Find all slack water windows
+  // Slack waters where the current reverses, with the weak-current window around each
   const slackWindows = useMemo((): SlackWindow[] => {
-    if (!station) return [];
+    if (!currentStation) return [];
 
-    const windows: SlackWindow[] = [];
     const now = new Date();
     const end = new Date(now.getTime() + lookAheadDays * 24 * 60 * 60 * 1000);
-
-    // Sample at 5-minute intervals
-    const intervalMs = 5 * 60 * 1000;
-    let prevRate = 0;
-    let prevHeight = predictTide(station, now);
-
-    for (let t = now.getTime(); t < end.getTime(); t += intervalMs) {
-      const time = new Date(t);
-      const height = predictTide(station, time);
-
-      // Calculate rate of change (m/hr)
-      const rate = (height - prevHeight) / (intervalMs / 3600000);
-
-      // Detect sign change (slack water)
-      if (prevRate !== 0 && Math.sign(rate) !== Math.sign(prevRate)) {
-        // Refine to find exact slack time
-        const slackTime = findExactSlack(station, new Date(t - intervalMs), time);
-
-        // Calculate slack duration (time when rate is below threshold)
-        const duration = calculateSlackDuration(station, slackTime, slackThreshold);
-
-        // Determine if high or low slack
-        const type: 'high-slack' | 'low-slack' = prevRate > 0 ? 'high-slack' : 'low-slack';
-
-        windows.push({
-          time: slackTime,
-          type,
-          duration,
-          beforeHeight: prevHeight,
-          afterHeight: height,
-        });
-      }
-
-      prevRate = rate;
-      prevHeight = height;
-    }
-
-    return windows;
-  }, [station, lookAheadDays, slackThreshold]);
-
-  // Binary search for exact slack time
-  function findExactSlack(
-    stationData: typeof station,
-    start: Date,
-    end: Date
-  ): Date {
-    if (!stationData) return start;
-
-    const threshold = 60000; // 1 minute precision
-    let low = start.getTime();
-    let high = end.getTime();
-
-    while (high - low > threshold) {
-      const mid = (low + high) / 2;
-
-      const deltaMs = 60000; // 1 minute
-      const before = predictTide(stationData, new Date(mid - deltaMs));
-      const after = predictTide(stationData, new Date(mid + deltaMs));
-      const rate = (after - before) / (2 * deltaMs / 3600000);
-
-      const lowBefore = predictTide(stationData, new Date(low - deltaMs));
-      const lowAfter = predictTide(stationData, new Date(low + deltaMs));
-      const lowRate = (lowAfter - lowBefore) / (2 * deltaMs / 3600000);
-
-      if (Math.sign(rate) === Math.sign(lowRate)) {
-        low = mid;
-      } else {
-        high = mid;
-      }
-    }
-
-    return new Date((low + high) / 2);
-  }
-
-  // Calculate how long the current rate stays below threshold
-  function calculateSlackDuration(
-    stationData: typeof station,
-    slackTime: Date,
-    threshold: number
-  ): number {
-    if (!stationData) return 0;
-
-    const stepMs = 60000; // 1 minute
-    let duration = 0;
-
-    // Check backwards
-    for (let offset = -stepMs; offset >= -60 * 60 * 1000; offset -= stepMs) {
-      const time = new Date(slackTime.getTime() + offset);
-      const before = predictTide(stationData, new Date(time.getTime() - stepMs));
-      const after = predictTide(stationData, new Date(time.getTime() + stepMs));
-      const rate = Math.abs((after - before) / (2 * stepMs / 3600000));
-
-      if (rate < threshold) {
-        duration++;
-      } else {
-        break;
-      }
-    }
-
-    // Check forwards
-    for (let offset = 0; offset <= 60 * 60 * 1000; offset += stepMs) {
-      const time = new Date(slackTime.getTime() + offset);
-      const before = predictTide(stationData, new Date(time.getTime() - stepMs));
-      const after = predictTide(stationData, new Date(time.getTime() + stepMs));
-      const rate = Math.abs((after - before) / (2 * stepMs / 3600000));
-
-      if (rate < threshold) {
-        duration++;
-      } else {
-        break;
-      }
-    }
-
-    return duration;
-  }
-
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
+    // Windows can reach a few hours past either end of the span
+    const kernel = compileCurrentKernel(
+      currentStation,
+      new Date(now.getTime() - 6 * 3600000),
+      new Date(end.getTime() + 6 * 3600000)
+    );
+
+    return findCurrentEvents(currentStation, now, end).flatMap((event): SlackWindow[] => {
+      if (event.type !== 'slack-before-flood' && event.type !== 'slack-before-ebb') return [];
+      const window = weakCurrentWindow(kernel, event.time, slackThreshold);
+      return [
+        {
+          time: event.time,
+          type: event.type,
+          duration: Math.round((window.end.getTime() - window.start.getTime()) / 60000),
+          start: window.start,
+          end: window.end,
+        },
+      ];
     });
-  };
+  }, [currentStation, lookAheadDays, slackThreshold]);
+
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatDate = (date: Date) => {
     const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
+    const tomorrow = tz.addDays(today, 1);
 
-    if (date.toDateString() === today.toDateString()) {
+    if (tz.dayKey(date) === tz.dayKey(today)) {
       return 'Today';
     }
-    if (date.toDateString() === tomorrow.toDateString()) {
+    if (tz.dayKey(date) === tz.dayKey(tomorrow)) {
       return 'Tomorrow';
     }
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-    });
+    return tz.date(date);
   };
 
   const formatTimeUntil = (date: Date) => {
@@ -189,7 +85,7 @@ export function SlackWaterFinder({ onClose }: Props) {
     const groups: Map<string, SlackWindow[]> = new Map();
 
     for (const window of slackWindows) {
-      const dateKey = window.time.toDateString();
+      const dateKey = tz.dayKey(window.time);
       if (!groups.has(dateKey)) {
         groups.set(dateKey, []);
       }
@@ -197,7 +93,7 @@ export function SlackWaterFinder({ onClose }: Props) {
     }
 
     return Array.from(groups.entries());
-  }, [slackWindows]);
+  }, [slackWindows, tz]);
 
   if (!station) return null;
 
@@ -221,6 +117,29 @@ export function SlackWaterFinder({ onClose }: Props) {
         </div>
 
         <div className="p-4 space-y-6">
+          {/* Current station */}
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Current Station</label>
+            <select
+              value={currentStation?.id ?? ''}
+              onChange={(e) => selectCurrentStation(e.target.value)}
+              className="w-full bg-slate-700 text-white px-2 py-1 rounded text-sm"
+            >
+              {!currentStation && <option value="">Choose a current station</option>}
+              {CURRENT_STATIONS.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}{c.state ? `, ${c.state}` : ''}
+                </option>
+              ))}
+            </select>
+            {!currentStation && (
+              <p className="text-xs text-slate-500 mt-1">
+                No current station near {station.name}. Slack water can't be found from the tide
+                height alone.
+              </p>
+            )}
+          </div>
+
           {/* Settings */}
           <div className="flex gap-4">
             <div>
@@ -242,9 +161,9 @@ export function SlackWaterFinder({ onClose }: Props) {
                 onChange={(e) => setSlackThreshold(Number(e.target.value))}
                 className="bg-slate-700 text-white px-2 py-1 rounded text-sm"
               >
-                <option value={0.02}>Strict (0.02 {useMetric ? 'm' : 'ft'}/hr)</option>
-                <option value={0.05}>Normal (0.05 {useMetric ? 'm' : 'ft'}/hr)</option>
-                <option value={0.1}>Relaxed (0.1 {useMetric ? 'm' : 'ft'}/hr)</option>
+                <option value={0.1}>Strict (0.1 kn)</option>
+                <option value={0.25}>Normal (0.25 kn)</option>
+                <option value={0.5}>Relaxed (0.5 kn)</option>
               </select>
             </div>
           </div>
@@ -252,18 +171,18 @@ export function SlackWaterFinder({ onClose }: Props) {
           {/* Next slack highlight */}
           {nextSlack && (
             <div className={`rounded-lg p-4 ${
-              nextSlack.type === 'high-slack'
+              nextSlack.type === 'slack-before-ebb'
                 ? 'bg-blue-900/40 border border-blue-700'
                 : 'bg-teal-900/40 border border-teal-700'
             }`}>
               <div className="flex items-center justify-between mb-2">
                 <div className="text-sm text-slate-300">Next Slack Water</div>
                 <div className={`text-xs px-2 py-0.5 rounded ${
-                  nextSlack.type === 'high-slack'
+                  nextSlack.type === 'slack-before-ebb'
                     ? 'bg-blue-600 text-white'
                     : 'bg-teal-600 text-white'
                 }`}>
-                  {nextSlack.type === 'high-slack' ? 'After High' : 'After Low'}
+                  {nextSlack.type === 'slack-before-ebb' ? 'Before Ebb' : 'Before Flood'}
                 </div>
               </div>
               <div className="flex items-baseline gap-3">
@@ -275,7 +194,7 @@ export function SlackWaterFinder({ onClose }: Props) {
                 </div>
               </div>
               <div className="mt-2 text-sm text-slate-300">
-                ~{nextSlack.duration} min window
+                ~{nextSlack.duration} min window ({formatTime(nextSlack.start)} – {formatTime(nextSlack.end)})
               </div>
             </div>
           )}
@@ -298,14 +217,14 @@ export function SlackWaterFinder({ onClose }: Props) {
                     >
                       <div className="flex items-center gap-3">
                         <div className={`w-2 h-8 rounded ${
-                          window.type === 'high-slack' ? 'bg-blue-500' : 'bg-teal-500'
+                          window.type === 'slack-before-ebb' ? 'bg-blue-500' : 'bg-teal-500'
                         }`} />
                         <div>
                           <div className="text-white font-medium">
                             {formatTime(window.time)}
                           </div>
                           <div className="text-xs text-slate-400">
-                            {window.type === 'high-slack' ? 'High water slack' : 'Low water slack'}
+                            {window.type === 'slack-before-ebb' ? 'Slack before ebb' : 'Slack before flood'}
                           </div>
                         </div>
                       </div>
@@ -330,7 +249,8 @@ export function SlackWaterFinder({ onClose }: Props) {
             <p className="font-medium text-slate-300 mb-1">What is Slack Water?</p>
             <p>
               Slack water is the brief period when tidal currents stop as they reverse direction.
-              It occurs around high and low tide, making it the ideal time for:
+              In most channels it lags high and low water, sometimes by hours, so it is predicted
+              from the current station rather than the tide. It is the ideal time for:
             </p>
             <ul className="list-disc list-inside mt-2 space-y-1">
               <li>Scuba diving (minimal current)</li>
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface ActivityPeriod {
   type: 'major' | 'minor';
@@ -16,8 +17,9 @@ function calculateSolunarPeriods(date: Date, _latitude: number, longitude: numbe
 
   // Approximate lunar transit time (when moon is highest)
   // This is simplified - real calculation needs ephemeris data
+  // Transit times below are minutes after midnight UTC
   const baseDate = new Date(date);
-  baseDate.setHours(0, 0, 0, 0);
+  baseDate.setUTCHours(0, 0, 0, 0);
 
   // Moon transits about 50 minutes later each day
   // Average lunar day is 24h 50m
@@ -30,14 +32,14 @@ function calculateSolunarPeriods(date: Date, _latitude: number, longitude: numbe
 
   // Major periods: ~2 hours around transit and anti-transit
   const transitStart = new Date(baseDate);
-  transitStart.setMinutes(transitMinutes - 60);
+  transitStart.setUTCMinutes(transitMinutes - 60);
   const transitEnd = new Date(baseDate);
-  transitEnd.setMinutes(transitMinutes + 60);
+  transitEnd.setUTCMinutes(transitMinutes + 60);
 
   const antiTransitStart = new Date(baseDate);
-  antiTransitStart.setMinutes(antiTransitMinutes - 60);
+  antiTransitStart.setUTCMinutes(antiTransitMinutes - 60);
   const antiTransitEnd = new Date(baseDate);
-  antiTransitEnd.setMinutes(antiTransitMinutes + 60);
+  antiTransitEnd.setUTCMinutes(antiTransitMinutes + 60);
 
   // Minor periods: ~1 hour around moonrise/moonset
   // Approximate moonrise/moonset as 6 hours from transit
@@ -45,14 +47,14 @@ function calculateSolunarPeriods(date: Date, _latitude: number, longitude: numbe
   const moonsetMinutes = (transitMinutes + 360) % 1440;
 
   const moonriseStart = new Date(baseDate);
-  moonriseStart.setMinutes(moonriseMinutes - 30);
+  moonriseStart.setUTCMinutes(moonriseMinutes - 30);
   const moonriseEnd = new Date(baseDate);
-  moonriseEnd.setMinutes(moonriseMinutes + 30);
+  moonriseEnd.setUTCMinutes(moonriseMinutes + 30);
 
   const moonsetStart = new Date(baseDate);
-  moonsetStart.setMinutes(moonsetMinutes - 30);
+  moonsetStart.setUTCMinutes(moonsetMinutes - 30);
   const moonsetEnd = new Date(baseDate);
-  moonsetEnd.setMinutes(moonsetMinutes + 30);
+  moonsetEnd.setUTCMinutes(moonsetMinutes + 30);
 
   periods.push(
     { type: 'major', start: transitStart, end: transitEnd, label: 'Moon Overhead' },
@@ -67,10 +69,6 @@ function calculateSolunarPeriods(date: Date, _latitude: number, longitude: numbe
   return periods;
 }
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-}
-
 function calculateOverallRating(periods: ActivityPeriod[], currentTime: Date): { score: number; label: string } {
   // Check if we're in a major or minor period
   for (const period of periods) {
@@ -97,6 +95,8 @@ function calculateOverallRating(periods: ActivityPeriod[], currentTime: Date): {
 }
 
 export function SolunarActivity() {
+  const tz = useZonedTime();
+  const formatTime = (date: Date) => tz.time(date);
   const station = useHarmonicsStore((s) => s.selectedStation);
 
   const { periods, rating } = useMemo(() => {
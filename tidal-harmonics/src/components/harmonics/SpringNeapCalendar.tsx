@@ -2,7 +2,7 @@ import { useMemo } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { getSpringNeapIndicator, getTidalRange } from '@/lib/harmonics';
-import { format, addDays, startOfDay, isSameDay } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface DayData {
   date: Date;
@@ -28,16 +28,17 @@ const LUNAR_PHASE_ICONS: Record<string, string> = {
  * Helps users visualize the ~14-day spring-neap cycle.
  */
 export function SpringNeapCalendar() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
 
   const calendarData = useMemo(() => {
-    const today = startOfDay(new Date(epoch));
+    const today = tz.startOfDay(new Date(epoch));
     const days: DayData[] = [];
 
     // Generate 28 days starting from today
     for (let i = 0; i < 28; i++) {
-      const date = addDays(today, i);
+      const date = tz.addDays(today, i);
       const indicator = getSpringNeapIndicator(date);
 
       // Calculate tidal range for this day
@@ -51,8 +52,8 @@ export function SpringNeapCalendar() {
 
       // Simple approximation: check if we're at a peak or trough
       if (i > 0 && i < 27) {
-        const prevIndicator = getSpringNeapIndicator(addDays(today, i - 1));
-        const nextIndicator = getSpringNeapIndicator(addDays(today, i + 1));
+        const prevIndicator = getSpringNeapIndicator(tz.addDays(today, i - 1));
+        const nextIndicator = getSpringNeapIndicator(tz.addDays(today, i + 1));
 
         if (indicator >= prevIndicator && indicator >= nextIndicator && indicator > 0.9) {
           // Peak spring tide - likely new or full moon
@@ -67,16 +68,16 @@ export function SpringNeapCalendar() {
 
       days.push({
         date,
-        dayOfMonth: date.getDate(),
+        dayOfMonth: Number(tz.format(date, 'd')),
         springNeapIndicator: indicator,
         range: tidalRange,
-        isToday: isSameDay(date, today),
+        isToday: i === 0,
         lunarPhase,
       });
     }
 
     return days;
-  }, [epoch, station]);
+  }, [epoch, station, tz]);
 
   const getColorForIndicator = (indicator: number): string => {
     // Spring (1) = red, Neap (-1) = blue, middle = yellow
@@ -121,7 +122,7 @@ export function SpringNeapCalendar() {
         ))}
 
         {/* Offset for first day of display */}
-        {Array.from({ length: calendarData[0]?.date.getDay() ?? 0 }).map((_, i) => (
+        {Array.from({ length: calendarData[0] ? Number(tz.format(calendarData[0].date, 'c')) % 7 : 0 }).map((_, i) => (
           <div key={`offset-${i}`} />
         ))}
 
@@ -136,7 +137,7 @@ export function SpringNeapCalendar() {
               backgroundColor: getColorForIndicator(day.springNeapIndicator),
               opacity: 0.8 + (Math.abs(day.springNeapIndicator) * 0.2),
             }}
-            title={`${format(day.date, 'MMM d')}: Range ${day.range.toFixed(2)}m`}
+            title={`${tz.format(day.date, 'MMM d')}: Range ${day.range.toFixed(2)}m`}
           >
             <div className="text-[10px] text-slate-900 font-medium">{day.dayOfMonth}</div>
             {day.lunarPhase && (
@@ -174,7 +175,7 @@ export function SpringNeapCalendar() {
             <div key={i} className="flex items-center justify-between text-xs">
               <div className="flex items-center gap-2">
                 <span>{day.lunarPhase ? LUNAR_PHASE_ICONS[day.lunarPhase] : ''}</span>
-                <span className="text-white">{format(day.date, 'MMM d')}</span>
+                <span className="text-white">{tz.format(day.date, 'MMM d')}</span>
                 <span className="text-slate-500">
                   {day.springNeapIndicator > 0 ? 'Spring tide' : 'Neap tide'}
                 </span>
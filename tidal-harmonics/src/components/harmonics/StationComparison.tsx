@@ -9,12 +9,12 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { format } from 'date-fns';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { STATIONS, getTidalType, getTidalTypeLabel } from '@/data/stations';
+import { getTidalType, getTidalTypeLabel } from '@/data/stations';
 import { predictTideSeries } from '@/lib/harmonics';
 import type { TideStation } from '@/types/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 const STATION_COLORS = [
   '#3b82f6', // blue
@@ -30,11 +30,16 @@ const STATION_COLORS = [
  * Helps understand how geography affects tidal type and range.
  */
 export function StationComparison() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const primaryStation = useHarmonicsStore((s) => s.selectedStation);
+  const stations = useHarmonicsStore((s) => s.stations);
+  const catalog = useHarmonicsStore((s) => s.catalog);
+  const loadStationRegion = useHarmonicsStore((s) => s.loadStationRegion);
   const [comparisonStations, setComparisonStations] = useState<string[]>([]);
 
   const toggleStation = (stationId: string) => {
+    const adding = !comparisonStations.includes(stationId) && comparisonStations.length < 3;
     setComparisonStations((prev) =>
       prev.includes(stationId)
         ? prev.filter((id) => id !== stationId)
@@ -42,13 +47,20 @@ export function StationComparison() {
         ? [...prev, stationId]
         : prev
     );
+    // Stations in regions not loaded yet join the chart once their region arrives
+    const region = catalog.find((s) => s.id === stationId)?.region;
+    if (adding && region) {
+      loadStationRegion(region).catch(() => {
+        setComparisonStations((prev) => prev.filter((id) => id !== stationId));
+      });
+    }
   };
 
   const { chartData, stationStats } = useMemo(() => {
     const allStations: TideStation[] = [
       primaryStation,
       ...comparisonStations
-        .map((id) => STATIONS.find((s) => s.id === id))
+        .map((id) => stations.find((s) => s.id === id))
         .filter((s): s is TideStation => s !== undefined),
     ].filter((s): s is TideStation => s !== null && s !== undefined);
 
@@ -79,7 +91,7 @@ export function StationComparison() {
       if (timeValue === undefined) continue;
       const point: Record<string, unknown> = {
         time: timeValue,
-        label: format(new Date(timeValue), 'HH:mm'),
+        label: tz.format(new Date(timeValue), 'HH:mm'),
       };
 
       predictions.forEach((p) => {
@@ -110,7 +122,7 @@ export function StationComparison() {
     });
 
     return { chartData: data, stationStats: stats };
-  }, [epoch, primaryStation, comparisonStations]);
+  }, [epoch, primaryStation, comparisonStations, stations, tz]);
 
   if (!primaryStation) {
     return (
@@ -121,7 +133,7 @@ export function StationComparison() {
   }
 
   // Available stations for comparison (excluding primary)
-  const availableStations = STATIONS.filter((s) => s.id !== primaryStation.id);
+  const availableStations = catalog.filter((s) => !s.subordinate && s.id !== primaryStation.id);
 
   return (
     <div className="bg-slate-900 rounded-lg p-4">
@@ -179,7 +191,7 @@ export function StationComparison() {
               }}
               formatter={(value, name) => {
                 const num = typeof value === 'number' ? value : 0;
-                const station = STATIONS.find((s) => s.id === name);
+                const station = stations.find((s) => s.id === name);
                 return [`${num.toFixed(2)}m`, station?.name || name];
               }}
             />
@@ -197,7 +209,7 @@ export function StationComparison() {
 
             {/* Comparison stations */}
             {comparisonStations.map((id, index) => {
-              const station = STATIONS.find((s) => s.id === id);
+              const station = stations.find((s) => s.id === id);
               if (!station) return null;
               const color = STATION_COLORS[index + 1] || '#888888';
               return (
@@ -0,0 +1,393 @@
+import { useMemo, useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { CONSTITUENTS } from '@/data/constituents';
+import {
+  emptyStationDraft,
+  draftFromStation,
+  validateStationDraft,
+  stationFromDraft,
+  hasIssues,
+  newConstituentRow,
+} from '@/lib/stationEditor';
+import type { StationDraft, StationDraftField, ConstituentDraft } from '@/lib/stationEditor';
+import { getHeightUnit } from '@/lib/units';
+import type { TideStation } from '@/types/harmonics';
+import { TideCurve } from './TideCurve';
+
+interface StationEditorProps {
+  onClose: () => void;
+}
+
+const SYMBOLS = Object.keys(CONSTITUENTS);
+
+const FIELDS: { field: StationDraftField; label: string; placeholder?: string }[] = [
+  { field: 'id', label: 'Id', placeholder: 'my-harbor' },
+  { field: 'name', label: 'Name' },
+  { field: 'state', label: 'State / region', placeholder: 'Optional' },
+  { field: 'country', label: 'Country' },
+  { field: 'lat', label: 'Latitude', placeholder: '-90 to 90' },
+  { field: 'lon', label: 'Longitude', placeholder: '-180 to 180' },
+  { field: 'timezone', label: 'Time zone', placeholder: 'Europe/London' },
+  { field: 'datum', label: 'Datum', placeholder: 'MLLW' },
+  { field: 'harmonicEpoch', label: 'Epoch', placeholder: '1983-2001' },
+];
+
+function cloneDraft(station: TideStation, unitSystem: UnitSystem): StationDraft {
+  return {
+    ...draftFromStation(station, unitSystem),
+    id: `${station.id}-copy`,
+    name: `${station.name} (copy)`,
+  };
+}
+
+/**
+ * StationEditor
+ *
+ * Creates stations from scratch or from a copy of another, and corrects
+ * stations the user has added. Built-in stations are read-only and can only
+ * serve as templates. The preview plots the draft over the saved version.
+ */
+export function StationEditor({ onClose }: StationEditorProps) {
+  const stations = useHarmonicsStore((s) => s.stations);
+  const catalog = useHarmonicsStore((s) => s.catalog);
+  const loadStationRegion = useHarmonicsStore((s) => s.loadStationRegion);
+  const customStations = useHarmonicsStore((s) => s.customStations);
+  const libraryStations = useHarmonicsStore((s) => s.libraryStations);
+  const selectedStation = useHarmonicsStore((s) => s.selectedStation);
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const saveCustomStation = useHarmonicsStore((s) => s.saveCustomStation);
+  const removeCustomStation = useHarmonicsStore((s) => s.removeCustomStation);
+  const importLibraryStations = useHarmonicsStore((s) => s.importLibraryStations);
+  const removeLibraryStation = useHarmonicsStore((s) => s.removeLibraryStation);
+  const selectStation = useHarmonicsStore((s) => s.selectStation);
+
+  const userStations = useMemo(() => [...libraryStations, ...customStations], [libraryStations, customStations]);
+  // Subordinate stations are predicted from another station's constants, so they don't make templates
+  const templates = useMemo(() => catalog.filter((s) => !s.subordinate), [catalog]);
+
+  // Start on the selected station: edit it if it's the user's own, otherwise copy it
+  const [original, setOriginal] = useState<TideStation | null>(() =>
+    selectedStation ? (userStations.find((s) => s.id === selectedStation.id) ?? null) : null
+  );
+  const [template, setTemplate] = useState<TideStation | null>(() =>
+    original ? null : (stations.find((s) => s.id === selectedStation?.id && !s.subordinate && !s.virtual) ?? null)
+  );
+  const [draft, setDraft] = useState<StationDraft>(() => {
+    if (original) return draftFromStation(original, unitSystem);
+    if (template) return cloneDraft(template, unitSystem);
+    return emptyStationDraft();
+  });
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; message: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const existingIds = useMemo(() => catalog.map((s) => s.id), [catalog]);
+  const issues = useMemo(
+    () => validateStationDraft(draft, existingIds, original?.id ?? null),
+    [draft, existingIds, original]
+  );
+  const preview = useMemo(() => stationFromDraft(draft, unitSystem, issues), [draft, unitSystem, issues]);
+  const invalid = hasIssues(issues);
+  const unit = getHeightUnit(unitSystem);
+
+  const startBlank = () => {
+    setOriginal(null);
+    setTemplate(null);
+    setDraft(emptyStationDraft());
+    setStatus(null);
+  };
+
+  const cloneFrom = (station: TideStation) => {
+    setOriginal(null);
+    setTemplate(station);
+    setDraft(cloneDraft(station, unitSystem));
+    setStatus(null);
+  };
+
+  const startClone = (id: string) => {
+    const station = stations.find((s) => s.id === id);
+    if (station) {
+      cloneFrom(station);
+      return;
+    }
+    // A catalog station whose region hasn't loaded yet
+    const region = catalog.find((s) => s.id === id)?.region;
+    if (!region) return;
+    loadStationRegion(region)
+      .then(() => {
+        const loaded = useHarmonicsStore.getState().stations.find((s) => s.id === id);
+        if (loaded) cloneFrom(loaded);
+      })
+      .catch(() => setStatus({ tone: 'error', message: 'Could not load that station' }));
+  };
+
+  const startEdit = (id: string) => {
+    const station = userStations.find((s) => s.id === id);
+    if (!station) return;
+    setOriginal(station);
+    setTemplate(null);
+    setDraft(draftFromStation(station, unitSystem));
+    setStatus(null);
+  };
+
+  const setField = (field: StationDraftField, value: string) => setDraft((d) => ({ ...d, [field]: value }));
+
+  const setRow = (key: number, changes: Partial<ConstituentDraft>) =>
+    setDraft((d) => ({
+      ...d,
+      constituents: d.constituents.map((row) => (row.key === key ? { ...row, ...changes } : row)),
+    }));
+
+  const removeRow = (key: number) =>
+    setDraft((d) => ({ ...d, constituents: d.constituents.filter((row) => row.key !== key) }));
+
+  const addRow = () => setDraft((d) => ({ ...d, constituents: [...d.constituents, newConstituentRow()] }));
+
+  const handleSave = async () => {
+    if (invalid) return;
+    setSaving(true);
+    setStatus(null);
+    const station = preview;
+    const renamed = original !== null && original.id !== station.id;
+    try {
+      // Stations from harmonic analysis stay in localStorage with the other custom
+      // stations; everything else made here goes to the IndexedDB library
+      if (original && customStations.some((s) => s.id === original.id)) {
+        saveCustomStation(station);
+        if (renamed) removeCustomStation(original.id);
+      } else {
+        await importLibraryStations([station]);
+        if (renamed) await removeLibraryStation(original.id);
+      }
+      selectStation(station.id);
+      setOriginal(station);
+      setTemplate(null);
+      setStatus({ tone: 'ok', message: `Saved ${station.name}` });
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : 'unknown error';
+      const saved = useHarmonicsStore.getState().stations.some((s) => s.id === station.id);
+      setStatus({
+        tone: 'error',
+        message: saved ? `Available for this session only; saving failed (${reason})` : reason,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = (error: string | undefined) =>
+    `w-full bg-slate-700 text-white text-sm px-2 py-1 rounded border ${error ? 'border-red-500' : 'border-slate-600'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl border border-slate-700 max-w-5xl w-full mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white">Station Editor</h2>
+            <p className="text-slate-400 text-sm">
+              {original
+                ? `Editing ${original.name}`
+                : template
+                  ? `New station from ${template.name}`
+                  : 'New station'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors p-1" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Starting point */}
+          <div className="flex flex-wrap gap-3 text-sm">
+            <button
+              onClick={startBlank}
+              className="px-3 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+            >
+              New blank
+            </button>
+            <label className="flex items-center gap-2 text-slate-300">
+              Copy from
+              <select
+                value=""
+                onChange={(e) => startClone(e.target.value)}
+                className="bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600 max-w-56"
+              >
+                <option value="">Choose a template…</option>
+                {templates.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.state ? `${s.name}, ${s.state}` : s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-slate-300">
+              Edit
+              <select
+                value={original?.id ?? ''}
+                onChange={(e) => startEdit(e.target.value)}
+                disabled={userStations.length === 0}
+                className="bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600 max-w-56 disabled:text-slate-500"
+              >
+                <option value="">{userStations.length === 0 ? 'No stations of yours yet' : 'Your stations…'}</option>
+                {userStations.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            {/* Station fields */}
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {FIELDS.map(({ field, label, placeholder }) => (
+                  <label key={field} className="block text-xs text-slate-400">
+                    {label}
+                    <input
+                      value={draft[field]}
+                      placeholder={placeholder}
+                      onChange={(e) => setField(field, e.target.value)}
+                      className={inputClass(issues.fields[field])}
+                    />
+                    {issues.fields[field] && <span className="text-red-400">{issues.fields[field]}</span>}
+                  </label>
+                ))}
+                <label className="block text-xs text-slate-400">
+                  Mean level above datum ({unit})
+                  <input
+                    value={draft.meanLevel}
+                    onChange={(e) => setField('meanLevel', e.target.value)}
+                    className={inputClass(issues.fields.meanLevel)}
+                  />
+                  {issues.fields.meanLevel && <span className="text-red-400">{issues.fields.meanLevel}</span>}
+                </label>
+              </div>
+
+              {/* Constituent table */}
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-sm font-semibold text-slate-300">
+                    Constituents <span className="text-slate-500 font-normal">({draft.constituents.length})</span>
+                  </h3>
+                  <button onClick={addRow} className="text-xs text-cyan-400 hover:text-cyan-300">
+                    + Add constituent
+                  </button>
+                </div>
+                <datalist id="station-editor-symbols">
+                  {SYMBOLS.map((symbol) => (
+                    <option key={symbol} value={symbol} />
+                  ))}
+                </datalist>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-500 text-left">
+                      <th className="font-normal pb-1">Symbol</th>
+                      <th className="font-normal pb-1">Amplitude ({unit})</th>
+                      <th className="font-normal pb-1">Phase (°)</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.constituents.map((row) => {
+                      const error = issues.constituents[row.key];
+                      return (
+                        <tr key={row.key} className="align-top">
+                          <td className="pr-2 pb-1">
+                            <input
+                              value={row.symbol}
+                              list="station-editor-symbols"
+                              onChange={(e) => setRow(row.key, { symbol: e.target.value })}
+                              className={inputClass(error)}
+                              aria-label="Constituent symbol"
+                            />
+                            {error && <span className="text-xs text-red-400">{error}</span>}
+                          </td>
+                          <td className="pr-2 pb-1">
+                            <input
+                              value={row.amplitude}
+                              inputMode="decimal"
+                              onChange={(e) => setRow(row.key, { amplitude: e.target.value })}
+                              className={inputClass(error)}
+                              aria-label={`${row.symbol} amplitude`}
+                            />
+                          </td>
+                          <td className="pr-2 pb-1">
+                            <input
+                              value={row.phase}
+                              inputMode="decimal"
+                              onChange={(e) => setRow(row.key, { phase: e.target.value })}
+                              className={inputClass(error)}
+                              aria-label={`${row.symbol} phase`}
+                            />
+                          </td>
+                          <td className="pb-1">
+                            <button
+                              onClick={() => removeRow(row.key)}
+                              className="text-slate-500 hover:text-red-400 px-1"
+                              aria-label={`Remove ${row.symbol || 'row'}`}
+                            >
+                              ×
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {issues.table && <p className="text-xs text-red-400 mt-1">{issues.table}</p>}
+                <p className="text-xs text-slate-500 mt-1">Phases are Greenwich epochs (G), lagging equilibrium.</p>
+              </div>
+            </div>
+
+            {/* Live preview */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-slate-300">Preview</h3>
+              {preview.constituents.length > 0 ? (
+                <TideCurve station={preview} reference={original ?? template} />
+              ) : (
+                <p className="text-xs text-slate-500">Enter a valid constituent to plot the tide.</p>
+              )}
+              {Object.keys(issues.constituents).length > 0 && (
+                <p className="text-xs text-amber-300/80">Rows with errors are left out of the preview.</p>
+              )}
+            </div>
+          </div>
+
+          {status && (
+            <div
+              className={`rounded-lg p-3 text-sm ${
+                status.tone === 'ok'
+                  ? 'bg-green-900/30 border border-green-700/50 text-green-300'
+                  : 'bg-red-900/30 border border-red-700/50 text-red-300'
+              }`}
+            >
+              {status.message}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors text-sm"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => void handleSave()}
+            disabled={invalid || saving}
+            className="px-4 py-2 rounded bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 transition-colors text-sm"
+          >
+            {invalid ? 'Fix the highlighted fields' : original ? 'Save changes' : 'Save station'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
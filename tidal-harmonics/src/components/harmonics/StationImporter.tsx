@@ -0,0 +1,329 @@
+import { useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import {
+  parseStationFile,
+  isImportComplete,
+  toTideStation,
+  libraryStationId,
+  timeZoneForLongitude,
+  STATION_IMPORT_FORMATS,
+} from '@/lib/stationImport';
+import type { ImportedStation, StationImportFormat } from '@/lib/stationImport';
+import { isValidTimeZone } from '@/lib/timeZones';
+
+interface StationImporterProps {
+  onClose: () => void;
+}
+
+interface Draft {
+  key: string;
+  fileName: string;
+  station: ImportedStation;
+  include: boolean;
+}
+
+function parseCoordinate(value: string): number | null {
+  const n = parseFloat(value);
+  return isFinite(n) ? n : null;
+}
+
+/**
+ * StationImporter
+ *
+ * Reads harmonic constants from NOAA, XTide and TICON files into the
+ * station library. Stations missing a position (NOAA's harcon files carry
+ * none) can be completed before import; re-importing a station replaces it.
+ */
+export function StationImporter({ onClose }: StationImporterProps) {
+  const catalog = useHarmonicsStore((s) => s.catalog);
+  const libraryStations = useHarmonicsStore((s) => s.libraryStations);
+  const importLibraryStations = useHarmonicsStore((s) => s.importLibraryStations);
+  const removeLibraryStation = useHarmonicsStore((s) => s.removeLibraryStation);
+  const selectStation = useHarmonicsStore((s) => s.selectStation);
+
+  const [format, setFormat] = useState<StationImportFormat | 'auto'>('auto');
+  const [units, setUnits] = useState<'meters' | 'feet'>('meters');
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; message: string } | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleFiles = async (files: File[]) => {
+    setStatus(null);
+    const next: Draft[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const result = parseStationFile(await file.text(), file.name, {
+          ...(format !== 'auto' && { format }),
+          units,
+        });
+        errors.push(...result.warnings.map((w) => `${file.name}: ${w}`));
+        result.stations.forEach((station, i) =>
+          next.push({ key: `${file.name}-${i}`, fileName: file.name, station, include: true })
+        );
+      } catch (e) {
+        errors.push(`${file.name}: ${e instanceof Error ? e.message : 'could not be read'}`);
+      }
+    }
+
+    setDrafts(next);
+    setFileErrors(errors);
+  };
+
+  const updateStation = (key: string, changes: Partial<ImportedStation>) => {
+    setDrafts((list) =>
+      list.map((d) => (d.key === key ? { ...d, station: { ...d.station, ...changes } } : d))
+    );
+  };
+
+  const ready = drafts.filter((d) => d.include && isImportComplete(d.station));
+  const badZones = ready.filter((d) => d.station.timezone && !isValidTimeZone(d.station.timezone));
+
+  const handleImport = async () => {
+    if (ready.length === 0 || badZones.length > 0) return;
+    setImporting(true);
+    const imported = ready.map((d) => toTideStation(d.station));
+    try {
+      await importLibraryStations(imported);
+      setStatus({ tone: 'ok', message: `Saved ${imported.length} station${imported.length === 1 ? '' : 's'} to the library` });
+      setDrafts((list) => list.filter((d) => !ready.includes(d)));
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : 'unknown error';
+      // Reserved ids are rejected outright; storage failures leave the stations usable this session
+      const saved = useHarmonicsStore.getState().libraryStations.some((s) => s.id === imported[0]!.id);
+      setStatus({
+        tone: 'error',
+        message: saved ? `Imported for this session only; saving failed (${reason})` : reason,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeLibraryStation(id);
+    } catch (e) {
+      setStatus({ tone: 'error', message: e instanceof Error ? e.message : 'Could not remove the station' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl border border-slate-700 max-w-3xl w-full mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white">Import Stations</h2>
+            <p className="text-slate-400 text-sm">Harmonic constants from NOAA, XTide or TICON files</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors p-1" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Source options */}
+          <div className="flex flex-wrap gap-3 text-sm">
+            <label className="flex items-center gap-2 text-slate-300">
+              Format
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as StationImportFormat | 'auto')}
+                className="bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              >
+                <option value="auto">Detect automatically</option>
+                {STATION_IMPORT_FORMATS.map((f) => (
+                  <option key={f.format} value={f.format}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-slate-300" title="Used when the file doesn't state its units">
+              Amplitudes in
+              <select
+                value={units}
+                onChange={(e) => setUnits(e.target.value as 'meters' | 'feet')}
+                className="bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              >
+                <option value="meters">meters</option>
+                <option value="feet">feet</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="block bg-slate-800 rounded-lg p-4 border border-dashed border-slate-600 text-center cursor-pointer hover:border-cyan-500 transition-colors">
+            <input
+              type="file"
+              multiple
+              accept=".json,.csv,.txt,.tsv,.dat,text/plain,text/csv,application/json"
+              className="sr-only"
+              onChange={(e) => {
+                // Copied before clearing, so the same files can be chosen again
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = '';
+                if (files.length > 0) void handleFiles(files);
+              }}
+            />
+            <span className="text-sm text-slate-300">Choose harmonic constant files…</span>
+            <span className="block text-xs text-slate-500 mt-1">
+              NOAA harcon.json or constituent table CSV, XTide harmonics text, TICON tables
+            </span>
+          </label>
+
+          {fileErrors.length > 0 && (
+            <ul className="bg-amber-900/20 border border-amber-700/40 rounded-lg p-3 text-xs text-amber-300 space-y-1">
+              {fileErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {/* Parsed stations */}
+          {drafts.length > 0 && (
+            <div className="space-y-2">
+              {drafts.map((d) => {
+                const { station } = d;
+                const complete = isImportComplete(station);
+                const id = libraryStationId(station);
+                const replaces = catalog.some((s) => s.id === id);
+                const zoneInvalid = station.timezone !== null && !isValidTimeZone(station.timezone);
+                return (
+                  <div key={d.key} className="bg-slate-800 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={d.include && complete}
+                        disabled={!complete}
+                        onChange={(e) =>
+                          setDrafts((list) => list.map((x) => (x.key === d.key ? { ...x, include: e.target.checked } : x)))
+                        }
+                        aria-label={`Import ${station.name}`}
+                      />
+                      <input
+                        value={station.name}
+                        onChange={(e) => updateStation(d.key, { name: e.target.value })}
+                        className="flex-1 bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+                        aria-label="Station name"
+                      />
+                      <span className="text-xs text-slate-400 whitespace-nowrap">
+                        {station.constituents.length} constituents
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                      <input
+                        defaultValue={station.lat ?? ''}
+                        placeholder="Latitude"
+                        onChange={(e) => updateStation(d.key, { lat: parseCoordinate(e.target.value) })}
+                        className="bg-slate-700 text-white px-2 py-1 rounded border border-slate-600"
+                        aria-label="Latitude"
+                      />
+                      <input
+                        defaultValue={station.lon ?? ''}
+                        placeholder="Longitude"
+                        onChange={(e) => updateStation(d.key, { lon: parseCoordinate(e.target.value) })}
+                        className="bg-slate-700 text-white px-2 py-1 rounded border border-slate-600"
+                        aria-label="Longitude"
+                      />
+                      <input
+                        value={station.timezone ?? ''}
+                        placeholder={station.lon !== null ? timeZoneForLongitude(station.lon) : 'Time zone'}
+                        onChange={(e) => updateStation(d.key, { timezone: e.target.value.trim() || null })}
+                        className={`bg-slate-700 text-white px-2 py-1 rounded border ${
+                          zoneInvalid ? 'border-red-500' : 'border-slate-600'
+                        }`}
+                        aria-label="Time zone"
+                      />
+                      <input
+                        value={station.country}
+                        placeholder="Country"
+                        onChange={(e) => updateStation(d.key, { country: e.target.value })}
+                        className="bg-slate-700 text-white px-2 py-1 rounded border border-slate-600"
+                        aria-label="Country"
+                      />
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {d.fileName} · datum {station.datum} · epoch {station.harmonicEpoch}
+                      {replaces && <span className="text-amber-400"> · replaces the library copy</span>}
+                      {!complete && <span className="text-red-400"> · needs a position</span>}
+                    </div>
+                    {station.warnings.length > 0 && (
+                      <ul className="text-xs text-amber-300/80 list-disc pl-4">
+                        {station.warnings.map((w) => (
+                          <li key={w}>{w}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => void handleImport()}
+                disabled={ready.length === 0 || badZones.length > 0 || importing}
+                className="w-full px-4 py-2 rounded bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 transition-colors text-sm"
+              >
+                {badZones.length > 0
+                  ? 'Fix the highlighted time zones'
+                  : `Import ${ready.length} station${ready.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          )}
+
+          {status && (
+            <div
+              className={`rounded-lg p-3 text-sm ${
+                status.tone === 'ok'
+                  ? 'bg-green-900/30 border border-green-700/50 text-green-300'
+                  : 'bg-red-900/30 border border-red-700/50 text-red-300'
+              }`}
+            >
+              {status.message}
+            </div>
+          )}
+
+          {/* Library */}
+          <div>
+            <h3 className="text-sm font-semibold text-slate-300 mb-2">
+              Station library <span className="text-slate-500 font-normal">({libraryStations.length})</span>
+            </h3>
+            {libraryStations.length === 0 ? (
+              <p className="text-xs text-slate-500">Imported stations are stored in this browser and listed here.</p>
+            ) : (
+              <ul className="divide-y divide-slate-800 text-sm">
+                {libraryStations.map((s) => (
+                  <li key={s.id} className="flex items-center gap-2 py-1.5">
+                    <button
+                      onClick={() => {
+                        selectStation(s.id);
+                        onClose();
+                      }}
+                      className="flex-1 text-left text-slate-200 hover:text-cyan-300"
+                    >
+                      {s.state ? `${s.name}, ${s.state}` : s.name}
+                    </button>
+                    <span className="text-xs text-slate-500">
+                      {s.constituents.length} constituents · {s.country}
+                    </span>
+                    <button
+                      onClick={() => void handleRemove(s.id)}
+                      className="text-xs text-slate-500 hover:text-red-400"
+                      aria-label={`Remove ${s.name}`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
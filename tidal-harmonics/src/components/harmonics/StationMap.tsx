@@ -1,6 +1,9 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { getTidalType, type TidalType } from '@/data/stations';
+import { STATION_REGIONS } from '@/data/stationIndex';
+import type { StationRegion } from '@/data/stationIndex';
+import { createSpatialIndex } from '@/lib/spatialIndex';
 
 // Tidal type colors
 const TIDAL_TYPE_COLORS: Record<TidalType, { fill: string; stroke: string; label: string }> = {
@@ -24,9 +27,27 @@ const CONTINENT_PATHS = {
  * StationMap - World map showing tide stations by tidal type
  */
 export function StationMap() {
-  const stations = useHarmonicsStore((s) => s.stations);
+  // The whole catalog is mapped; a station's region loads when it's picked
+  const catalog = useHarmonicsStore((s) => s.catalog);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const selectStation = useHarmonicsStore((s) => s.selectStation);
+  const [view, setView] = useState<StationRegion | 'world'>('world');
+
+  const spatialIndex = useMemo(() => createSpatialIndex(catalog), [catalog]);
+  const bounds = view === 'world' ? null : (STATION_REGIONS.find((r) => r.region === view)?.bounds ?? null);
+  const stations = useMemo(() => (bounds ? spatialIndex.inBounds(bounds) : catalog), [bounds, spatialIndex, catalog]);
+
+  // Zoom by narrowing the viewBox to the region; a region across the
+  // antimeridian continues past the right edge
+  const viewBox = bounds
+    ? {
+        x: ((bounds.west + 180) / 360) * 100,
+        y: ((90 - bounds.north) / 180) * 60,
+        width: (((bounds.east - bounds.west + 360) % 360 || 360) / 360) * 100,
+        height: ((bounds.north - bounds.south) / 180) * 60,
+      }
+    : { x: 0, y: 0, width: 100, height: 60 };
+  const scale = viewBox.width / 100;
 
   // Equirectangular projection: lon/lat to SVG coordinates
   const projectCoords = (lat: number, lon: number) => {
@@ -37,6 +58,15 @@ export function StationMap() {
     return { x, y };
   };
 
+  const place = (lat: number, lon: number) => {
+    const { x, y } = projectCoords(lat, lon);
+    return {
+      x: bounds && x < viewBox.x ? x + 100 : x,
+      // Clamp to visible area on the world view
+      y: bounds ? y * 0.6 : Math.max(5, Math.min(55, y * 0.6)),
+    };
+  };
+
   // Count stations by tidal type
   const typeCounts = useMemo(() => {
     const counts: Record<TidalType, number> = {
@@ -46,7 +76,7 @@ export function StationMap() {
       'diurnal': 0,
     };
     stations.forEach(s => {
-      counts[getTidalType(s)]++;
+      counts[s.tidalType]++;
     });
     return counts;
   }, [stations]);
@@ -62,9 +92,28 @@ export function StationMap() {
         {stations.length} stations colored by tidal type
       </p>
 
+      {/* Region zoom */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {[{ region: 'world' as const, label: 'World' }, ...STATION_REGIONS].map(({ region, label }) => (
+          <button
+            key={region}
+            onClick={() => setView(region)}
+            className={`px-2 py-0.5 text-xs rounded transition-colors ${
+              view === region ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* World map */}
       <div className="relative bg-slate-950 rounded-lg overflow-hidden border border-slate-800" style={{ height: '200px' }}>
-        <svg viewBox="0 0 100 60" preserveAspectRatio="xMidYMid slice" className="w-full h-full">
+        <svg
+          viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+          preserveAspectRatio="xMidYMid slice"
+          className="w-full h-full"
+        >
           {/* Ocean background */}
           <defs>
             <linearGradient id="oceanGrad" x1="0%" y1="0%" x2="100%" y2="100%">
@@ -102,11 +151,9 @@ export function StationMap() {
 
           {/* Station markers */}
           {stations.map((station) => {
-            const { x, y } = projectCoords(station.lat, station.lon);
-            // Clamp to visible area
-            const clampedY = Math.max(5, Math.min(55, y * 0.6));
+            const { x, y: clampedY } = place(station.lat, station.lon);
             const isSelected = selectedStation?.id === station.id;
-            const tidalType = getTidalType(station);
+            const tidalType = station.tidalType;
             const colors = TIDAL_TYPE_COLORS[tidalType];
 
             return (
@@ -123,19 +170,19 @@ export function StationMap() {
                     <circle
                       cx={x}
                       cy={clampedY}
-                      r="4"
+                      r={4 * scale}
                       fill="none"
                       stroke="#ffffff"
-                      strokeWidth="0.4"
+                      strokeWidth={0.4 * scale}
                       opacity="0.8"
                     />
                     <circle
                       cx={x}
                       cy={clampedY}
-                      r="6"
+                      r={6 * scale}
                       fill="none"
                       stroke="#ffffff"
-                      strokeWidth="0.2"
+                      strokeWidth={0.2 * scale}
                       opacity="0.4"
                     />
                   </>
@@ -145,10 +192,10 @@ export function StationMap() {
                 <circle
                   cx={x}
                   cy={clampedY}
-                  r={isSelected ? 2.5 : 1.8}
+                  r={(isSelected ? 2.5 : 1.8) * scale}
                   fill={colors.fill}
                   stroke={isSelected ? '#ffffff' : colors.stroke}
-                  strokeWidth={isSelected ? 0.5 : 0.3}
+                  strokeWidth={(isSelected ? 0.5 : 0.3) * scale}
                   className="transition-all hover:r-[2.5]"
                 />
 
@@ -160,25 +207,26 @@ export function StationMap() {
 
           {/* Selected station label */}
           {selectedStation && (() => {
-            const { x, y } = projectCoords(selectedStation.lat, selectedStation.lon);
-            const clampedY = Math.max(5, Math.min(55, y * 0.6));
-            const labelX = x > 70 ? x - 1 : x + 1;
-            const anchor = x > 70 ? 'end' : 'start';
+            const { x, y: clampedY } = place(selectedStation.lat, selectedStation.lon);
+            const flip = x > viewBox.x + viewBox.width * 0.7;
+            const labelX = flip ? x - scale : x + scale;
+            const anchor = flip ? 'end' : 'start';
             return (
               <g>
                 <rect
-                  x={x > 70 ? labelX - 18 : labelX - 0.5}
-                  y={clampedY - 5.5}
-                  width="19"
-                  height="4"
+                  x={flip ? labelX - 18 * scale : labelX - 0.5 * scale}
+                  y={clampedY - 5.5 * scale}
+                  width={19 * scale}
+                  height={4 * scale}
                   fill="rgba(0,0,0,0.8)"
-                  rx="0.5"
+                  rx={0.5 * scale}
                 />
                 <text
                   x={labelX}
-                  y={clampedY - 2.5}
+                  y={clampedY - 2.5 * scale}
                   textAnchor={anchor}
-                  className="fill-white text-[2.5px] font-medium pointer-events-none"
+                  fontSize={2.5 * scale}
+                  className="fill-white font-medium pointer-events-none"
                 >
                   {selectedStation.name}
                 </text>
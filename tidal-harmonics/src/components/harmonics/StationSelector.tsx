@@ -2,8 +2,14 @@ import { useMemo, useState, useCallback } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { getTidalType, getTidalTypeLabel } from '@/data/stations';
 import { copyStationUrl } from '@/hooks/useUrlSync';
+import { isSubordinateStation, describeSubordinateOffsets } from '@/lib/subordinate';
+import { confidenceLabel } from '@/lib/virtualStation';
+import { createSpatialIndex } from '@/lib/spatialIndex';
+import { TIME_ZONE_MODES } from '@/lib/timeZones';
+import type { TimeZoneMode } from '@/lib/timeZones';
+import { useZonedTime } from '@/hooks/useZonedTime';
 import { TideNotifications } from '@/components/ui/TideNotifications';
-import type { TideStation } from '@/types/harmonics';
+import type { StationSummary } from '@/data/stationIndex';
 
 // Fuzzy match score - returns score (higher is better) or -1 if no match
 function fuzzyMatch(text: string, query: string): number {
@@ -71,8 +77,8 @@ const COUNTRY_NAMES: Record<string, string> = {
   'Sweden': 'Sweden',
 };
 
-function groupStationsByCountry(stations: TideStation[]): Map<string, TideStation[]> {
-  const groups = new Map<string, TideStation[]>();
+function groupStationsByCountry(stations: StationSummary[]): Map<string, StationSummary[]> {
+  const groups = new Map<string, StationSummary[]>();
 
   for (const station of stations) {
     const country = station.country;
@@ -83,7 +89,7 @@ function groupStationsByCountry(stations: TideStation[]): Map<string, TideStatio
   }
 
   // Sort by country order
-  const sorted = new Map<string, TideStation[]>();
+  const sorted = new Map<string, StationSummary[]>();
   for (const country of COUNTRY_ORDER) {
     if (groups.has(country)) {
       sorted.set(country, groups.get(country)!);
@@ -99,32 +105,24 @@ function groupStationsByCountry(stations: TideStation[]): Map<string, TideStatio
   return sorted;
 }
 
-// Calculate distance between two coordinates using Haversine formula
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 export function StationSelector() {
-  const stations = useHarmonicsStore((s) => s.stations);
+  // Listed from the catalog, so stations in regions not yet loaded can be picked
+  const stations = useHarmonicsStore((s) => s.catalog);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
+  const pendingStationId = useHarmonicsStore((s) => s.pendingStationId);
   const selectStation = useHarmonicsStore((s) => s.selectStation);
   const favoriteStations = useHarmonicsStore((s) => s.favoriteStations);
   const toggleFavorite = useHarmonicsStore((s) => s.toggleFavorite);
+  const timeZoneMode = useHarmonicsStore((s) => s.timeZoneMode);
+  const setTimeZoneMode = useHarmonicsStore((s) => s.setTimeZoneMode);
+  const tz = useZonedTime();
   const [searchQuery, setSearchQuery] = useState('');
   const [showCopied, setShowCopied] = useState(false);
   const [locating, setLocating] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
 
+  const spatialIndex = useMemo(() => createSpatialIndex(stations), [stations]);
+
   const handleShare = useCallback(async () => {
     const success = await copyStationUrl();
     if (success) {
@@ -147,20 +145,9 @@ export function StationSelector() {
       (position) => {
         const { latitude, longitude } = position.coords;
 
-        // Find nearest station using reduce
-        const nearest = stations.reduce<{ station: typeof stations[0] | null; distance: number }>(
-          (acc, station) => {
-            const distance = haversineDistance(latitude, longitude, station.lat, station.lon);
-            if (acc.station === null || distance < acc.distance) {
-              return { station, distance };
-            }
-            return acc;
-          },
-          { station: null, distance: Infinity }
-        );
-
-        if (nearest.station) {
-          selectStation(nearest.station.id);
+        const [nearest] = spatialIndex.nearest(latitude, longitude, 1);
+        if (nearest) {
+          selectStation(nearest.item.id);
         }
         setLocating(false);
       },
@@ -183,7 +170,7 @@ export function StationSelector() {
       },
       { enableHighAccuracy: false, timeout: 10000, maximumAge: 300000 }
     );
-  }, [stations, selectStation]);
+  }, [spatialIndex, selectStation]);
 
   const tidalType = selectedStation ? getTidalType(selectedStation) : null;
   const isCurrentFavorite = selectedStation ? favoriteStations.includes(selectedStation.id) : false;
@@ -201,7 +188,7 @@ export function StationSelector() {
           s.state || '',
           s.country,
           COUNTRY_NAMES[s.country] || s.country,
-          getTidalTypeLabel(getTidalType(s)),
+          getTidalTypeLabel(s.tidalType),
         ];
         // Use best match across all fields
         const bestScore = Math.max(...searchableFields.map((field) => fuzzyMatch(field, query)));
@@ -255,6 +242,9 @@ export function StationSelector() {
           </button>
         )}
       </div>
+      {pendingStationId && (
+        <div className="text-xs text-slate-500 mb-1">Loading station…</div>
+      )}
       {searchQuery && (
         <div className="text-xs text-slate-500 mb-1">
           {matchCount === 0 ? 'No stations found' : `${matchCount} station${matchCount !== 1 ? 's' : ''} found`}
@@ -262,7 +252,7 @@ export function StationSelector() {
       )}
       <div className="flex flex-wrap gap-2">
         <select
-          value={selectedStation?.id || ''}
+          value={pendingStationId ?? selectedStation?.id ?? ''}
           onChange={(e) => selectStation(e.target.value)}
           className="flex-1 bg-slate-700 text-white text-sm px-3 py-2 rounded border border-slate-600 focus:border-blue-500 focus:outline-none"
           style={{ minWidth: '140px' }}
@@ -272,6 +262,9 @@ export function StationSelector() {
             <option value="" disabled>No matching stations</option>
           ) : (
             <>
+              {selectedStation?.virtual && (
+                <option value={selectedStation.id}>{selectedStation.name}</option>
+              )}
               {favoriteStationsList.length > 0 && (
                 <optgroup label="★ Favorites">
                   {favoriteStationsList.map((s) => (
@@ -286,6 +279,7 @@ export function StationSelector() {
                   {stationList.map((s) => (
                     <option key={s.id} value={s.id}>
                       {favoriteStations.includes(s.id) ? '★ ' : ''}{s.state ? `${s.name}, ${s.state}` : s.name}
+                      {s.subordinate ? ' (secondary)' : ''}
                     </option>
                   ))}
                 </optgroup>
@@ -360,6 +354,38 @@ export function StationSelector() {
             </span>
             <span className="ml-2">Datum: {selectedStation.datum}</span>
           </div>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Times in
+            <select
+              value={timeZoneMode}
+              onChange={(e) => setTimeZoneMode(e.target.value as TimeZoneMode)}
+              className="bg-slate-700 text-slate-300 text-xs px-1 py-0.5 rounded border border-slate-600"
+              aria-label="Time zone for tide times"
+            >
+              {TIME_ZONE_MODES.map(({ mode, label }) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <span>{tz.abbreviation()}</span>
+          </label>
+          {isSubordinateStation(selectedStation) && (
+            <div className="text-xs text-slate-500">
+              Secondary port: {describeSubordinateOffsets(selectedStation)}
+            </div>
+          )}
+          {selectedStation.virtual && (
+            <div className="text-xs text-slate-500">
+              Interpolated from{' '}
+              {selectedStation.virtual.contributors
+                .map((c) => `${c.name} (${c.distanceKm.toFixed(0)} km, ${Math.round(c.weight * 100)}%)`)
+                .join(', ')}
+              {' · '}
+              {confidenceLabel(selectedStation.virtual.confidence)} confidence (
+              {Math.round(selectedStation.virtual.confidence * 100)}%)
+            </div>
+          )}
           {tidalType && (
             <div className={`text-xs px-2 py-0.5 rounded inline-block ${TIDAL_TYPE_COLORS[tidalType]}`}>
               {getTidalTypeLabel(tidalType)}
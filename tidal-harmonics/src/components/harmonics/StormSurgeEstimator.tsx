@@ -2,7 +2,8 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface StormSurgeEstimatorProps {
   onClose: () => void;
@@ -47,6 +48,7 @@ function estimateSurge(
 }
 
 export function StormSurgeEstimator({ onClose }: StormSurgeEstimatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const epoch = useTimeStore((s) => s.epoch);
@@ -265,7 +267,7 @@ export function StormSurgeEstimator({ onClose }: StormSurgeEstimatorProps) {
                   <div key={i} className="flex items-center justify-between p-2 bg-slate-700/50 rounded">
                     <div>
                       <p className="text-sm text-slate-300">
-                        {format(ht.time, 'EEE HH:mm')}
+                        {tz.format(ht.time, 'EEE HH:mm')}
                       </p>
                       <p className="text-xs text-slate-500">
                         Tide: {formatHeight(ht.height)}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface SurfConditionsCalculatorProps {
   onClose: () => void;
@@ -60,15 +61,11 @@ const BREAK_TYPES = [
   },
 ];
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
 export function SurfConditionsCalculator({ onClose }: SurfConditionsCalculatorProps) {
+  const tz = useZonedTime();
+  const stationTime = useZonedTime('station');
+  const formatDate = (date: Date) => tz.date(date);
+  const formatTime = (date: Date) => tz.time(date);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const [daysAhead, setDaysAhead] = useState(3);
@@ -88,14 +85,12 @@ export function SurfConditionsCalculator({ onClose }: SurfConditionsCalculatorPr
     } | null = null;
 
     for (let day = 0; day < daysAhead; day++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() + day);
+      const date = stationTime.addDays(now, day);
 
-      // Check from 5am to 8pm (surfing hours)
+      // Check from 5am to 8pm station time (surfing hours)
       for (let hour = 5; hour <= 20; hour++) {
         for (let min = 0; min < 60; min += 30) {
-          const time = new Date(date);
-          time.setHours(hour, min, 0, 0);
+          const time = stationTime.atTime(date, hour, min);
 
           if (time < now) continue;
 
@@ -196,7 +191,7 @@ export function SurfConditionsCalculator({ onClose }: SurfConditionsCalculatorPr
       qualityOrder[a.quality] - qualityOrder[b.quality] ||
       a.startTime.getTime() - b.startTime.getTime()
     );
-  }, [selectedStation, daysAhead, selectedBreakType]);
+  }, [selectedStation, daysAhead, selectedBreakType, stationTime]);
 
   function getMostCommon(arr: string[]): string {
     const counts: Record<string, number> = {};
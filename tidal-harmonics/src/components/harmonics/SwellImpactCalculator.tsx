@@ -1,7 +1,9 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries } from '@/lib/harmonics';
-import { addHours, format } from 'date-fns';
+import { orbitalAmplitude, waveAllowance } from '@/lib/keelClearance';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface SwellImpactCalculatorProps {
   onClose: () => void;
@@ -24,19 +26,6 @@ interface DepthResult {
   safe: boolean;
 }
 
-// Wave orbital motion decreases exponentially with depth
-function calculateOrbitalMotion(waveHeight: number, period: number, depth: number): number {
-  // Wavelength approximation for deep water
-  const wavelength = (9.81 * period * period) / (2 * Math.PI);
-
-  // Orbital velocity decay factor
-  const k = (2 * Math.PI) / wavelength;
-  const decayFactor = Math.exp(-k * depth);
-
-  // Orbital amplitude at depth (simplified)
-  return (waveHeight / 2) * decayFactor;
-}
-
 // Calculate ship squat (speed-dependent vessel sinkage)
 function calculateSquat(speed: number, blockCoefficient: number, channelDepth: number, draft: number): number {
   // Simplified squat calculation (Barrass formula)
@@ -52,6 +41,7 @@ function calculateSquat(speed: number, blockCoefficient: number, channelDepth: n
 }
 
 export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -84,16 +74,16 @@ export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
       const totalDepth = chartedDepth + point.height;
 
       // Wave orbital motion at vessel draft depth
-      const orbitalAmplitude = calculateOrbitalMotion(swell.significantHeight, swell.period, draft);
+      const orbital = orbitalAmplitude(swell.significantHeight, swell.period, draft);
 
       // Squat effect
       const squat = calculateSquat(speed, blockCoefficient, totalDepth, draft);
 
-      // Effective depth range (accounting for wave-induced motion)
-      // H1/10 (average of highest 10%) ≈ 1.27 × Hs
-      const waveMax = swell.significantHeight * 1.27;
-      const effectiveMin = totalDepth - (waveMax / 2) - orbitalAmplitude;
-      const effectiveMax = totalDepth + (waveMax / 2) + orbitalAmplitude;
+      // Effective depth range (accounting for wave-induced motion: half
+      // the H1/10 wave plus the orbital motion at the keel)
+      const motion = waveAllowance(swell, draft);
+      const effectiveMin = totalDepth - motion;
+      const effectiveMax = totalDepth + motion;
 
       // Under keel clearance (worst case)
       const ukc = effectiveMin - draft - squat;
@@ -103,7 +93,7 @@ export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
         tideHeight: point.height,
         effectiveMin,
         effectiveMax,
-        orbitalDepth: orbitalAmplitude,
+        orbitalDepth: orbital,
         squat,
         ukc,
         safe: ukc >= requiredUKC,
@@ -399,10 +389,10 @@ export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
                   {summary.windows.slice(0, 5).map((window, i) => (
                     <div key={i} className="bg-slate-700/50 rounded px-2 py-1 text-sm flex justify-between">
                       <span className="text-green-400">
-                        {format(window.start, 'HH:mm')} - {format(window.end, 'HH:mm')}
+                        {tz.format(window.start, 'HH:mm')} - {tz.format(window.end, 'HH:mm')}
                       </span>
                       <span className="text-slate-400">
-                        {format(window.start, 'MMM d')}
+                        {tz.format(window.start, 'MMM d')}
                       </span>
                     </div>
                   ))}
@@ -444,7 +434,7 @@ export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
                     <div
                       key={i}
                       className="flex-1 mx-px"
-                      title={`${format(point.time, 'HH:mm')}: UKC ${formatLength(point.ukc)}`}
+                      title={`${tz.format(point.time, 'HH:mm')}: UKC ${formatLength(point.ukc)}`}
                     >
                       <div
                         className={`w-full transition-all ${
@@ -490,7 +480,7 @@ export function SwellImpactCalculator({ onClose }: SwellImpactCalculatorProps) {
               <tbody className="text-slate-300">
                 {analysis.slice(0, 24).map((point, i) => (
                   <tr key={i} className={!point.safe ? 'bg-red-900/20' : ''}>
-                    <td className="py-1">{format(point.time, 'HH:mm')}</td>
+                    <td className="py-1">{tz.format(point.time, 'HH:mm')}</td>
                     <td className="text-right">{formatLength(point.tideHeight)}</td>
                     <td className="text-right">{formatLength(point.effectiveMin)}</td>
                     <td className="text-right">{formatLength(point.squat)}</td>
@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { findExtremes, predictTideSeries } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface CoefficientLevel {
   min: number;
@@ -33,17 +34,16 @@ const MEAN_RANGE = 3.2; // meters (average tidal range at reference)
 export function TidalCoefficients() {
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
+  const tz = useZonedTime();
 
   const coefficientData = useMemo(() => {
     if (!selectedStation) return null;
 
     const now = new Date(epoch);
-    const startOfDay = new Date(now);
-    startOfDay.setHours(0, 0, 0, 0);
+    const startOfDay = tz.startOfDay(now);
 
     // Get tide series for today
-    const endOfDay = new Date(startOfDay);
-    endOfDay.setDate(endOfDay.getDate() + 1);
+    const endOfDay = tz.addDays(startOfDay, 1);
 
     const series = predictTideSeries(selectedStation, startOfDay, endOfDay, 10);
     const extremes = findExtremes(series);
@@ -69,10 +69,8 @@ export function TidalCoefficients() {
     // Calculate coefficients for next 7 days
     const forecast: { date: Date; coefficient: number }[] = [];
     for (let d = 0; d < 7; d++) {
-      const dayStart = new Date(startOfDay);
-      dayStart.setDate(dayStart.getDate() + d);
-      const dayEnd = new Date(dayStart);
-      dayEnd.setDate(dayEnd.getDate() + 1);
+      const dayStart = tz.addDays(startOfDay, d);
+      const dayEnd = tz.addDays(startOfDay, d + 1);
 
       const daySeries = predictTideSeries(selectedStation, dayStart, dayEnd, 30);
       const dayExtremes = findExtremes(daySeries);
@@ -95,7 +93,7 @@ export function TidalCoefficients() {
       level: getLevel(coefficient),
       forecast,
     };
-  }, [selectedStation, epoch]);
+  }, [selectedStation, epoch, tz]);
 
   if (!coefficientData) {
     return (
@@ -112,11 +110,9 @@ export function TidalCoefficients() {
   // Format day name
   const formatDay = (date: Date) => {
     const today = new Date(epoch);
-    today.setHours(0, 0, 0, 0);
-    const diff = (date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
-    if (diff === 0) return 'Today';
-    if (diff === 1) return 'Tomorrow';
-    return date.toLocaleDateString([], { weekday: 'short' });
+    if (tz.dayKey(date) === tz.dayKey(today)) return 'Today';
+    if (tz.dayKey(date) === tz.dayKey(tz.addDays(today, 1))) return 'Tomorrow';
+    return tz.format(date, 'EEE');
   };
 
   return (
@@ -2,88 +2,57 @@ import { useMemo } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTutorialStore } from '@/stores/tutorialStore';
-import { predictTide } from '@/lib/harmonics';
-
-/**
- * Calculates the rate of change of tide (dH/dt) in m/hour
- * Positive = flood (rising), Negative = ebb (falling)
- */
-function calculateTideRate(station: NonNullable<ReturnType<typeof useHarmonicsStore.getState>['selectedStation']>, time: Date): number {
-  // Calculate tide height 30 minutes before and after
-  const dt = 30 * 60 * 1000; // 30 minutes in ms
-  const before = new Date(time.getTime() - dt);
-  const after = new Date(time.getTime() + dt);
-
-  const h1 = predictTide(station, before);
-  const h2 = predictTide(station, after);
-
-  // Rate in meters per hour
-  return (h2 - h1) / 1; // 1 hour span
-}
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { currentStationFor, compileCurrentKernel, findCurrentEvents, SLACK_SPEED } from '@/lib/currents';
+import type { CurrentEventType } from '@/lib/currents';
 
-/**
- * Estimates current speed based on tidal range and rate
- * This is a simplified approximation - real currents depend on local bathymetry
- */
-function estimateCurrentSpeed(rate: number, tidalRange: number): number {
-  // Rough estimate: current proportional to rate, normalized by tidal range
-  // Peak currents typically occur at mid-tide, near slack at high/low
-  const normalizedRate = Math.abs(rate) / (tidalRange || 1);
-  // Convert to approximate knots (1-4 knots typical range)
-  return normalizedRate * 3;
-}
+const EVENT_LABELS: Record<CurrentEventType, string> = {
+  'slack-before-flood': 'Slack before flood',
+  'slack-before-ebb': 'Slack before ebb',
+  'max-flood': 'Max flood',
+  'max-ebb': 'Max ebb',
+};
 
 export function TidalCurrentIndicator() {
   const tutorialActive = useTutorialStore((s) => s.isActive);
   const epoch = useTimeStore((s) => tutorialActive ? 0 : s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
+  const tz = useZonedTime();
+  const currentStation = useMemo(() => currentStationFor(station), [station]);
 
-  const { rate, direction, currentSpeed, phase } = useMemo(() => {
-    if (!station) {
-      return { rate: 0, direction: 'slack' as const, currentSpeed: 0, phase: 'unknown' as const };
-    }
+  const prediction = useMemo(() => {
+    if (!currentStation) return null;
 
     const now = new Date(epoch);
-    const rateValue = calculateTideRate(station, now);
-
-    // Get approximate tidal range from station's M2 amplitude (dominant semidiurnal)
-    const m2 = station.constituents.find((c) => c.symbol === 'M2');
-    const tidalRange = m2 ? m2.amplitude * 2 : 1; // Double amplitude for range
-
-    const speed = estimateCurrentSpeed(rateValue, tidalRange);
-
-    // Determine direction and phase
-    let dir: 'flood' | 'ebb' | 'slack';
-    let phaseDesc: string;
-
-    if (Math.abs(rateValue) < 0.05) {
-      dir = 'slack';
-      phaseDesc = rateValue > 0 ? 'Slack before ebb' : 'Slack before flood';
-    } else if (rateValue > 0) {
-      dir = 'flood';
-      phaseDesc = 'Rising tide (flood)';
-    } else {
-      dir = 'ebb';
-      phaseDesc = 'Falling tide (ebb)';
-    }
-
-    return {
-      rate: rateValue,
-      direction: dir,
-      currentSpeed: speed,
-      phase: phaseDesc,
-    };
-  }, [epoch, station]);
+    const velocity = compileCurrentKernel(currentStation, now, now).velocityAt(now);
+    // Slacks and maxima are at most a tidal day apart
+    const nextEvent = findCurrentEvents(currentStation, now, new Date(epoch + 25 * 3600000))[0] ?? null;
+
+    return { velocity, nextEvent };
+  }, [epoch, currentStation]);
 
   // Hide during tutorial to reduce visual clutter
   if (tutorialActive) return null;
 
   if (!station) return null;
 
-  const arrowRotation =
-    direction === 'flood' ? 0 : // pointing up (rising)
-    direction === 'ebb' ? 180 : // pointing down (falling)
-    90; // slack - horizontal
+  if (!currentStation || !prediction) {
+    return (
+      <div className="bg-slate-500/20 rounded-lg p-3">
+        <h3 className="text-xs text-slate-400 mb-1">Tidal Current</h3>
+        <p className="text-[10px] text-slate-500">
+          No current station near {station.name}. Currents can't be inferred from the tide height.
+        </p>
+      </div>
+    );
+  }
+
+  const { velocity, nextEvent } = prediction;
+  const direction = velocity.speed < SLACK_SPEED ? 'slack' : velocity.state;
+  const currentSpeed = velocity.speed;
+
+  // Arrow points the way the current sets, north up
+  const arrowRotation = velocity.direction;
 
   const directionColor = {
     flood: 'text-blue-400',
@@ -128,18 +97,21 @@ export function TidalCurrentIndicator() {
         {/* Stats */}
         <div className="flex-1 space-y-1">
           <div className="text-xs text-slate-400">
-            Rate: <span className={`font-medium ${directionColor}`}>
-              {rate > 0 ? '+' : ''}{rate.toFixed(2)} m/hr
+            Current: <span className={`font-medium ${directionColor}`}>
+              {currentSpeed.toFixed(1)} kn
             </span>
           </div>
           <div className="text-xs text-slate-400">
-            Est. current: <span className={`font-medium ${directionColor}`}>
-              {currentSpeed.toFixed(1)} kn
+            Set: <span className={`font-medium ${directionColor}`}>
+              {Math.round(velocity.direction).toString().padStart(3, '0')}°T
             </span>
           </div>
-          <div className="text-xs text-slate-500">
-            {phase}
-          </div>
+          {nextEvent && (
+            <div className="text-xs text-slate-500">
+              {EVENT_LABELS[nextEvent.type]}{' '}
+              {tz.time(nextEvent.time)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -162,7 +134,7 @@ export function TidalCurrentIndicator() {
       </div>
 
       <div className="mt-2 text-[10px] text-slate-500">
-        Note: Current estimates are approximate. Actual currents vary by location.
+        {currentStation.name} · flood sets {currentStation.floodDirection}°T
       </div>
     </div>
   );
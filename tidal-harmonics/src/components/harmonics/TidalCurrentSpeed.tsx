@@ -1,6 +1,10 @@
-import { useMemo, useState } from 'react';
+import { useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTide } from '@/lib/harmonics';
+import { useCurrentStation } from '@/hooks/useCurrentStation';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { CURRENT_STATIONS } from '@/data/currentStations';
+import { compileCurrentKernel, findCurrentEvents, SLACK_SPEED } from '@/lib/currents';
+import type { CurrentEventType } from '@/lib/currents';
 import {
   AreaChart,
   Area,
@@ -14,6 +18,7 @@ import {
 interface CurrentData {
   time: string;
   hour: number;
+  velocity: number; // knots along the flood direction, negative ebbing
   speed: number;
   direction: 'flood' | 'ebb' | 'slack';
 }
@@ -22,115 +27,66 @@ interface Props {
   onClose: () => void;
 }
 
-export function TidalCurrentSpeed({ onClose }: Props) {
-  const station = useHarmonicsStore((s) => s.selectedStation);
-  const [channelFactor, setChannelFactor] = useState(1.0); // Multiplier for narrow channels
-
-  // Calculate current speed throughout the day
-  const currentData = useMemo((): CurrentData[] => {
-    if (!station) return [];
-
-    const data: CurrentData[] = [];
-    const now = new Date();
-    now.setHours(0, 0, 0, 0);
-
-    const deltaMs = 5 * 60 * 1000; // 5 minute delta for rate calculation
-
-    for (let hour = 0; hour < 24; hour++) {
-      for (let min = 0; min < 60; min += 10) {
-        const time = new Date(now.getTime() + hour * 3600000 + min * 60000);
-        const before = predictTide(station, new Date(time.getTime() - deltaMs));
-        const after = predictTide(station, new Date(time.getTime() + deltaMs));
-
-        // Rate of change in m/hr
-        const rate = ((after - before) / (2 * deltaMs)) * 3600000;
-
-        // Convert to current speed estimate
-        // This is a rough approximation - actual current depends on local geography
-        // Typical ratio is ~50-100 of tide rate to current speed
-        const speedFactor = 60 * channelFactor; // knots per m/hr tide change
-        const speed = Math.abs(rate) * speedFactor;
+const EVENT_LABELS: Record<CurrentEventType, string> = {
+  'slack-before-flood': 'Slack, flood begins',
+  'slack-before-ebb': 'Slack, ebb begins',
+  'max-flood': 'Max flood',
+  'max-ebb': 'Max ebb',
+};
 
-        let direction: 'flood' | 'ebb' | 'slack';
-        if (Math.abs(speed) < 0.2) {
-          direction = 'slack';
-        } else if (rate > 0) {
-          direction = 'flood';
-        } else {
-          direction = 'ebb';
-        }
+const formatBearing = (degrees: number) => `${Math.round(degrees).toString().padStart(3, '0')}°T`;
 
-        data.push({
-          time: `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`,
-          hour: hour + min / 60,
-          speed: speed,
-          direction,
-        });
-      }
-    }
+export function TidalCurrentSpeed({ onClose }: Props) {
+  const station = useHarmonicsStore((s) => s.selectedStation);
+  const { currentStation, selectCurrentStation } = useCurrentStation();
+  const tz = useZonedTime();
+
+  // Velocity throughout today in the display zone, flood positive
+  const { currentData, todayEvents } = useMemo(() => {
+    if (!currentStation) return { currentData: [], todayEvents: [] };
+
+    const dayStart = tz.startOfDay(new Date());
+    const dayEnd = new Date(tz.addDays(dayStart, 1).getTime() - 10 * 60000);
+    const kernel = compileCurrentKernel(currentStation, dayStart, dayEnd);
+
+    const data = kernel.series(10).map((v): CurrentData => {
+      return {
+        time: tz.format(v.time, 'HH:mm'),
+        hour: tz.hoursSinceMidnight(v.time),
+        velocity: v.major,
+        speed: v.speed,
+        direction: v.speed < SLACK_SPEED ? 'slack' : v.state,
+      };
+    });
 
-    return data;
-  }, [station, channelFactor]);
+    return { currentData: data, todayEvents: findCurrentEvents(currentStation, dayStart, dayEnd) };
+  }, [currentStation, tz]);
 
   // Current conditions
   const currentNow = useMemo(() => {
-    if (!station) return null;
+    if (!currentStation) return null;
 
     const now = new Date();
-    const deltaMs = 5 * 60 * 1000;
-    const before = predictTide(station, new Date(now.getTime() - deltaMs));
-    const after = predictTide(station, new Date(now.getTime() + deltaMs));
-
-    const rate = ((after - before) / (2 * deltaMs)) * 3600000;
-    const speedFactor = 60 * channelFactor;
-    const speed = Math.abs(rate) * speedFactor;
-
-    let direction: 'flood' | 'ebb' | 'slack';
-    if (Math.abs(speed) < 0.2) {
-      direction = 'slack';
-    } else if (rate > 0) {
-      direction = 'flood';
-    } else {
-      direction = 'ebb';
-    }
-
-    // Find next slack
-    const searchIntervalMs = 10 * 60 * 1000;
-    let nextSlack: Date | null = null;
-    let prevRate = rate;
-
-    for (let offset = searchIntervalMs; offset < 12 * 3600000; offset += searchIntervalMs) {
-      const futureTime = new Date(now.getTime() + offset);
-      const futureBefore = predictTide(station, new Date(futureTime.getTime() - deltaMs));
-      const futureAfter = predictTide(station, new Date(futureTime.getTime() + deltaMs));
-      const futureRate = ((futureAfter - futureBefore) / (2 * deltaMs)) * 3600000;
-
-      if ((prevRate > 0 && futureRate < 0) || (prevRate < 0 && futureRate > 0)) {
-        nextSlack = futureTime;
-        break;
-      }
-      prevRate = futureRate;
-    }
+    const velocity = compileCurrentKernel(currentStation, now, now).velocityAt(now);
+    const nextSlack =
+      findCurrentEvents(currentStation, now, new Date(now.getTime() + 25 * 3600000)).find((e) =>
+        e.type.startsWith('slack')
+      ) ?? null;
 
     return {
-      speed,
-      direction,
+      speed: velocity.speed,
+      set: velocity.direction,
+      direction: velocity.speed < SLACK_SPEED ? ('slack' as const) : velocity.state,
       nextSlack,
     };
-  }, [station, channelFactor]);
+  }, [currentStation]);
 
   // Find max speed
   const maxSpeed = useMemo(() => {
     return Math.max(...currentData.map((d) => d.speed), 1);
   }, [currentData]);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatTimeUntil = (date: Date) => {
     const now = new Date();
@@ -172,7 +128,7 @@ export function TidalCurrentSpeed({ onClose }: Props) {
         <div className="sticky top-0 bg-slate-800 border-b border-slate-700 p-4 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-bold text-white">Tidal Current Speed</h2>
-            <p className="text-sm text-slate-400">Estimated current velocity</p>
+            <p className="text-sm text-slate-400">Harmonic current predictions</p>
           </div>
           <button
             onClick={onClose}
@@ -184,6 +140,34 @@ export function TidalCurrentSpeed({ onClose }: Props) {
         </div>
 
         <div className="p-4 space-y-6">
+          {/* Current station */}
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Current Station</label>
+            <select
+              value={currentStation?.id ?? ''}
+              onChange={(e) => selectCurrentStation(e.target.value)}
+              className="w-full bg-slate-700 text-white px-2 py-1 rounded text-sm"
+            >
+              {!currentStation && <option value="">Choose a current station</option>}
+              {CURRENT_STATIONS.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}{c.state ? `, ${c.state}` : ''}
+                </option>
+              ))}
+            </select>
+            {currentStation ? (
+              <p className="text-xs text-slate-500 mt-1">
+                Flood sets {formatBearing(currentStation.floodDirection)}, ebb{' '}
+                {formatBearing((currentStation.floodDirection + 180) % 360)}
+              </p>
+            ) : (
+              <p className="text-xs text-slate-500 mt-1">
+                No current station near {station.name}. Tide height alone can't tell when the
+                current turns.
+              </p>
+            )}
+          </div>
+
           {/* Current Status */}
           {currentNow && (
             <div className="bg-slate-900/50 rounded-lg p-4">
@@ -194,17 +178,17 @@ export function TidalCurrentSpeed({ onClose }: Props) {
                     {currentNow.speed.toFixed(1)} knots
                   </div>
                   <div className={`text-sm ${getDirectionColor(currentNow.direction)}`}>
-                    {getDirectionLabel(currentNow.direction)}
+                    {getDirectionLabel(currentNow.direction)}, setting {formatBearing(currentNow.set)}
                   </div>
                 </div>
                 {currentNow.nextSlack && (
                   <div className="text-right">
                     <div className="text-sm text-slate-400">Next Slack</div>
                     <div className="text-white font-medium">
-                      {formatTime(currentNow.nextSlack)}
+                      {formatTime(currentNow.nextSlack.time)}
                     </div>
                     <div className="text-xs text-slate-500">
-                      in {formatTimeUntil(currentNow.nextSlack)}
+                      in {formatTimeUntil(currentNow.nextSlack.time)}
                     </div>
                   </div>
                 )}
@@ -232,27 +216,6 @@ export function TidalCurrentSpeed({ onClose }: Props) {
             </div>
           )}
 
-          {/* Channel Factor */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-sm text-slate-400">Channel Factor</label>
-              <span className="text-white font-mono">{channelFactor.toFixed(1)}x</span>
-            </div>
-            <input
-              type="range"
-              min={0.5}
-              max={3}
-              step={0.1}
-              value={channelFactor}
-              onChange={(e) => setChannelFactor(Number(e.target.value))}
-              className="w-full"
-            />
-            <div className="flex justify-between text-xs text-slate-500 mt-1">
-              <span>Open water</span>
-              <span>Narrow channel</span>
-            </div>
-          </div>
-
           {/* Chart */}
           <div className="bg-slate-900/50 rounded-lg p-4">
             <div className="text-sm text-slate-400 mb-3">Today's Current Forecast</div>
@@ -276,7 +239,7 @@ export function TidalCurrentSpeed({ onClose }: Props) {
                   tick={{ fill: '#94a3b8', fontSize: 10 }}
                   tickFormatter={(value) => `${value.toFixed(1)}`}
                   label={{
-                    value: 'knots',
+                    value: 'knots (+flood)',
                     angle: -90,
                     position: 'insideLeft',
                     fill: '#94a3b8',
@@ -290,14 +253,15 @@ export function TidalCurrentSpeed({ onClose }: Props) {
                   }}
                   labelStyle={{ color: '#94a3b8' }}
                   formatter={(value) => {
-                    if (value === undefined || value === null) return ['—', 'Speed'];
-                    return [`${Number(value).toFixed(1)} knots`, 'Speed'];
+                    if (value === undefined || value === null) return ['—', 'Velocity'];
+                    const v = Number(value);
+                    return [`${Math.abs(v).toFixed(1)} knots ${v >= 0 ? 'flood' : 'ebb'}`, 'Velocity'];
                   }}
                 />
                 <ReferenceLine y={0} stroke="#475569" />
                 <Area
                   type="monotone"
-                  dataKey="speed"
+                  dataKey="velocity"
                   stroke="#3b82f6"
                   fill="url(#speedGradient)"
                   strokeWidth={2}
@@ -306,6 +270,36 @@ export function TidalCurrentSpeed({ onClose }: Props) {
             </ResponsiveContainer>
           </div>
 
+          {/* Today's slacks and maxima */}
+          {todayEvents.length > 0 && (
+            <div className="space-y-1">
+              {todayEvents.map((event) => (
+                <div
+                  key={event.time.getTime()}
+                  className="flex items-center justify-between bg-slate-900/50 rounded px-3 py-1.5 text-sm"
+                >
+                  <span className="text-white font-mono">{formatTime(event.time)}</span>
+                  <span
+                    className={
+                      event.type === 'max-flood'
+                        ? 'text-blue-400'
+                        : event.type === 'max-ebb'
+                        ? 'text-orange-400'
+                        : 'text-yellow-400'
+                    }
+                  >
+                    {EVENT_LABELS[event.type]}
+                  </span>
+                  <span className="text-slate-400 text-xs">
+                    {event.type.startsWith('max')
+                      ? `${event.velocity.speed.toFixed(1)} kn ${formatBearing(event.velocity.direction)}`
+                      : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Legend */}
           <div className="flex gap-4 text-sm">
             <div className="flex items-center gap-2">
@@ -324,11 +318,11 @@ export function TidalCurrentSpeed({ onClose }: Props) {
 
           {/* Disclaimer */}
           <div className="bg-amber-900/30 border border-amber-700/50 rounded-lg p-3 text-sm">
-            <p className="font-medium text-amber-400 mb-1">Estimation Only</p>
+            <p className="font-medium text-amber-400 mb-1">Sample Constants</p>
             <p className="text-slate-300">
-              These are rough estimates based on tide height changes. Actual currents depend
-              heavily on local geography, channel width, and depth. For navigation, always
-              consult official current tables.
+              Predicted from the station's current ellipse constants, which are representative
+              rather than official. Wind and river flow also change the current. For navigation,
+              always consult official current tables.
             </p>
           </div>
         </div>
@@ -1,99 +1,19 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { TIDAL_DATUMS, defaultDatumFor } from '@/lib/datums';
+import type { TidalDatumCode } from '@/types/harmonics';
 
-// Standard tidal datums with typical offsets from MLLW (in meters)
-// Note: These are representative values; actual values vary by station
-interface DatumInfo {
-  id: string;
-  name: string;
-  fullName: string;
-  description: string;
-  typicalOffset: number; // From MLLW
-  color: string;
-}
-
-const DATUMS: DatumInfo[] = [
-  {
-    id: 'HAT',
-    name: 'HAT',
-    fullName: 'Highest Astronomical Tide',
-    description: 'The highest tide level that can be predicted under average meteorological conditions',
-    typicalOffset: 2.2,
-    color: 'bg-red-500'
-  },
-  {
-    id: 'MHHW',
-    name: 'MHHW',
-    fullName: 'Mean Higher High Water',
-    description: 'Average of the higher high water height of each tidal day',
-    typicalOffset: 1.8,
-    color: 'bg-orange-500'
-  },
-  {
-    id: 'MHW',
-    name: 'MHW',
-    fullName: 'Mean High Water',
-    description: 'Average of all high water heights',
-    typicalOffset: 1.6,
-    color: 'bg-amber-500'
-  },
-  {
-    id: 'DTL',
-    name: 'DTL',
-    fullName: 'Diurnal Tide Level',
-    description: 'Midpoint between MHHW and MLLW',
-    typicalOffset: 0.9,
-    color: 'bg-yellow-500'
-  },
-  {
-    id: 'MTL',
-    name: 'MTL',
-    fullName: 'Mean Tide Level',
-    description: 'Midpoint between MHW and MLW',
-    typicalOffset: 0.85,
-    color: 'bg-lime-500'
-  },
-  {
-    id: 'MSL',
-    name: 'MSL',
-    fullName: 'Mean Sea Level',
-    description: 'Average water level over 19-year National Tidal Datum Epoch',
-    typicalOffset: 0.8,
-    color: 'bg-green-500'
-  },
-  {
-    id: 'NAVD88',
-    name: 'NAVD88',
-    fullName: 'North American Vertical Datum of 1988',
-    description: 'Fixed geodetic datum, not tide-based (US standard)',
-    typicalOffset: 0.75,
-    color: 'bg-emerald-500'
-  },
-  {
-    id: 'MLW',
-    name: 'MLW',
-    fullName: 'Mean Low Water',
-    description: 'Average of all low water heights',
-    typicalOffset: 0.2,
-    color: 'bg-teal-500'
-  },
-  {
-    id: 'MLLW',
-    name: 'MLLW',
-    fullName: 'Mean Lower Low Water',
-    description: 'Average of the lower low water height of each tidal day (US chart datum)',
-    typicalOffset: 0,
-    color: 'bg-cyan-500'
-  },
-  {
-    id: 'LAT',
-    name: 'LAT',
-    fullName: 'Lowest Astronomical Tide',
-    description: 'The lowest tide level that can be predicted (UK/international chart datum)',
-    typicalOffset: -0.3,
-    color: 'bg-blue-500'
-  }
-];
+const DATUM_COLORS: Record<TidalDatumCode, string> = {
+  HAT: 'bg-red-500',
+  MHHW: 'bg-orange-500',
+  MHW: 'bg-amber-500',
+  DTL: 'bg-yellow-500',
+  MTL: 'bg-lime-500',
+  MSL: 'bg-green-500',
+  MLW: 'bg-teal-500',
+  MLLW: 'bg-cyan-500',
+  LAT: 'bg-blue-500',
+};
 
 interface TidalDatumConverterProps {
   onClose: () => void;
@@ -101,21 +21,26 @@ interface TidalDatumConverterProps {
 
 export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const station = useHarmonicsStore((s) => s.selectedStation);
+  const heightDatum = useHarmonicsStore((s) => s.heightDatum);
+  const setHeightDatum = useHarmonicsStore((s) => s.setHeightDatum);
+  const levels = station?.datums?.levels;
 
   const [inputValue, setInputValue] = useState('1.5');
-  const [fromDatum, setFromDatum] = useState('MLLW');
-  const [toDatum, setToDatum] = useState('MSL');
+  const [fromDatum, setFromDatum] = useState<TidalDatumCode>('MLLW');
+  const [toDatum, setToDatum] = useState<TidalDatumCode>('MSL');
   const [showDiagram, setShowDiagram] = useState(true);
 
-  const fromDatumInfo = DATUMS.find(d => d.id === fromDatum)!;
-  const toDatumInfo = DATUMS.find(d => d.id === toDatum)!;
+  const fromDatumInfo = TIDAL_DATUMS.find(d => d.code === fromDatum)!;
+  const toDatumInfo = TIDAL_DATUMS.find(d => d.code === toDatum)!;
+
+  // Offset to add to a height above the "from" datum to get a height above the "to" datum
+  const offset = levels ? levels[fromDatum] - levels[toDatum] : 0;
 
   const conversion = useMemo(() => {
     const input = parseFloat(inputValue) || 0;
-    // Convert: output = input + (fromOffset - toOffset)
-    const offset = fromDatumInfo.typicalOffset - toDatumInfo.typicalOffset;
     return input + offset;
-  }, [inputValue, fromDatumInfo, toDatumInfo]);
+  }, [inputValue, offset]);
 
   const formatValue = (v: number) => {
     if (unitSystem === 'metric') {
@@ -133,11 +58,10 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
   };
 
   // Height of diagram bar for each datum (normalized)
-  const getDatumHeight = (datum: DatumInfo) => {
-    const minOffset = Math.min(...DATUMS.map(d => d.typicalOffset));
-    const maxOffset = Math.max(...DATUMS.map(d => d.typicalOffset));
-    const range = maxOffset - minOffset;
-    return ((datum.typicalOffset - minOffset) / range) * 100;
+  const getDatumHeight = (code: TidalDatumCode) => {
+    if (!levels) return 0;
+    const range = levels.HAT - levels.LAT || 1;
+    return ((levels[code] - levels.LAT) / range) * 100;
   };
 
   return (
@@ -163,11 +87,31 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
               Use this converter to translate between them.
             </p>
             <p className="text-slate-400 text-xs mt-2">
-              Note: Offsets shown are typical values. Actual datum relationships vary by location
-              and should be verified from official tide tables for your specific station.
+              {station?.datums
+                ? `Levels for ${station.name} are derived from a synthetic ${station.datums.epoch} prediction of its harmonic constants. Official datums also include non-tidal effects and may differ by a few centimeters.`
+                : `Computing datums for ${station?.name ?? 'the selected station'} from a 19-year prediction…`}
             </p>
           </div>
 
+          {/* Reference datum for heights throughout the app */}
+          {station && (
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+              <label htmlFor="height-datum" className="text-slate-400">Show all tide heights relative to</label>
+              <select
+                id="height-datum"
+                value={heightDatum ?? ''}
+                onChange={(e) => setHeightDatum((e.target.value || null) as TidalDatumCode | null)}
+                disabled={!levels}
+                className="px-3 py-1 bg-slate-700 rounded text-white disabled:opacity-50"
+              >
+                <option value="">Chart datum ({defaultDatumFor(station)})</option>
+                {TIDAL_DATUMS.map(d => (
+                  <option key={d.code} value={d.code}>{d.code}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Converter */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 items-end">
             {/* From */}
@@ -183,11 +127,11 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
                 />
                 <select
                   value={fromDatum}
-                  onChange={(e) => setFromDatum(e.target.value)}
+                  onChange={(e) => setFromDatum(e.target.value as TidalDatumCode)}
                   className="flex-1 px-3 py-2 bg-slate-700 rounded text-white"
                 >
-                  {DATUMS.map(d => (
-                    <option key={d.id} value={d.id}>{d.name}</option>
+                  {TIDAL_DATUMS.map(d => (
+                    <option key={d.code} value={d.code}>{d.code}</option>
                   ))}
                 </select>
               </div>
@@ -204,15 +148,15 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
               <label className="text-sm text-slate-400 block mb-1">To</label>
               <div className="flex gap-2">
                 <div className="w-24 px-3 py-2 bg-blue-900/50 rounded text-blue-300 text-lg font-bold">
-                  {conversion.toFixed(2)}
+                  {levels ? conversion.toFixed(2) : '—'}
                 </div>
                 <select
                   value={toDatum}
-                  onChange={(e) => setToDatum(e.target.value)}
+                  onChange={(e) => setToDatum(e.target.value as TidalDatumCode)}
                   className="flex-1 px-3 py-2 bg-slate-700 rounded text-white"
                 >
-                  {DATUMS.map(d => (
-                    <option key={d.id} value={d.id}>{d.name}</option>
+                  {TIDAL_DATUMS.map(d => (
+                    <option key={d.code} value={d.code}>{d.code}</option>
                   ))}
                 </select>
               </div>
@@ -225,14 +169,14 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
             <div className="text-center text-sm">
               <span className="text-white">{formatValue(parseFloat(inputValue) || 0)}</span>
               <span className="text-slate-400"> above </span>
-              <span className="text-amber-400">{fromDatumInfo.name}</span>
+              <span className="text-amber-400">{fromDatumInfo.code}</span>
               <span className="text-slate-400"> = </span>
               <span className="text-blue-400 font-bold">{formatValue(conversion)}</span>
               <span className="text-slate-400"> above </span>
-              <span className="text-cyan-400">{toDatumInfo.name}</span>
+              <span className="text-cyan-400">{toDatumInfo.code}</span>
             </div>
             <div className="text-center text-xs text-slate-500 mt-2">
-              Offset: {formatOffset(fromDatumInfo.typicalOffset - toDatumInfo.typicalOffset)}
+              Offset: {formatOffset(offset)}
             </div>
           </div>
 
@@ -245,40 +189,42 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
           </button>
 
           {/* Visual datum diagram */}
-          {showDiagram && (
+          {showDiagram && levels && (
             <div className="bg-slate-900/50 rounded-lg p-4 mb-6">
-              <h3 className="text-sm font-semibold text-slate-400 mb-4">Relative Datum Positions</h3>
+              <h3 className="text-sm font-semibold text-slate-400 mb-4">
+                Datum Levels above {station?.datum} at {station?.name}
+              </h3>
               <div className="relative h-80 flex">
                 {/* Water column representation */}
                 <div className="absolute left-0 right-0 bottom-0 h-1/3 bg-gradient-to-t from-blue-900/30 to-transparent" />
 
                 {/* Datum lines */}
                 <div className="flex-1 relative">
-                  {DATUMS.map((datum) => {
-                    const height = getDatumHeight(datum);
-                    const isSelected = datum.id === fromDatum || datum.id === toDatum;
+                  {TIDAL_DATUMS.map((datum) => {
+                    const height = getDatumHeight(datum.code);
+                    const isSelected = datum.code === fromDatum || datum.code === toDatum;
 
                     return (
                       <div
-                        key={datum.id}
+                        key={datum.code}
                         className={`absolute left-0 right-0 flex items-center transition-all ${
                           isSelected ? 'z-10' : 'z-0'
                         }`}
                         style={{ bottom: `${height}%` }}
                       >
-                        <div className={`h-0.5 flex-1 ${datum.color} ${
+                        <div className={`h-0.5 flex-1 ${DATUM_COLORS[datum.code]} ${
                           isSelected ? 'opacity-100' : 'opacity-40'
                         }`} />
                         <div className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
-                          datum.id === fromDatum
+                          datum.code === fromDatum
                             ? 'bg-amber-600 text-white'
-                            : datum.id === toDatum
+                            : datum.code === toDatum
                             ? 'bg-cyan-600 text-white'
                             : 'bg-slate-700 text-slate-300'
                         }`}>
-                          {datum.name}
+                          {datum.code}
                           <span className="text-[10px] ml-1 opacity-70">
-                            {formatOffset(datum.typicalOffset)}
+                            {formatOffset(levels[datum.code])}
                           </span>
                         </div>
                       </div>
@@ -297,18 +243,18 @@ export function TidalDatumConverter({ onClose }: TidalDatumConverterProps) {
           <div className="bg-slate-900/50 rounded-lg p-4">
             <h3 className="text-sm font-semibold text-slate-400 mb-3">Datum Reference</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-              {DATUMS.map(datum => (
+              {TIDAL_DATUMS.map(datum => (
                 <div
-                  key={datum.id}
+                  key={datum.code}
                   className={`p-2 rounded ${
-                    datum.id === fromDatum || datum.id === toDatum
+                    datum.code === fromDatum || datum.code === toDatum
                       ? 'bg-slate-700'
                       : 'bg-slate-800/50'
                   }`}
                 >
                   <div className="flex items-center gap-2">
-                    <div className={`w-3 h-3 rounded ${datum.color}`} />
-                    <span className="font-medium text-white">{datum.name}</span>
+                    <div className={`w-3 h-3 rounded ${DATUM_COLORS[datum.code]}`} />
+                    <span className="font-medium text-white">{datum.code}</span>
                     <span className="text-slate-400 text-xs">({datum.fullName})</span>
                   </div>
                   <p className="text-slate-500 text-xs mt-1 ml-5">{datum.description}</p>
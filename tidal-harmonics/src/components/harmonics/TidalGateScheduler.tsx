@@ -2,7 +2,8 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries } from '@/lib/harmonics';
-import { format, addDays } from 'date-fns';
+import { addDays } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TidalGateSchedulerProps {
   onClose: () => void;
@@ -19,6 +20,7 @@ interface PassageWindow {
 }
 
 export function TidalGateScheduler({ onClose }: TidalGateSchedulerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const epoch = useTimeStore((s) => s.epoch);
@@ -295,9 +297,9 @@ export function TidalGateScheduler({ onClose }: TidalGateSchedulerProps) {
                     >
                       <div>
                         <p className="text-sm text-slate-300">
-                          {format(window.start, 'EEE MMM d')}{' '}
+                          {tz.format(window.start, 'EEE MMM d')}{' '}
                           <span className="font-mono">
-                            {format(window.start, 'HH:mm')} - {format(window.end, 'HH:mm')}
+                            {tz.format(window.start, 'HH:mm')} - {tz.format(window.end, 'HH:mm')}
                           </span>
                         </p>
                         <p className="text-xs text-slate-500">
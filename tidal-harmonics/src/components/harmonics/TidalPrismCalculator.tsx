@@ -2,12 +2,14 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TidalPrismCalculatorProps {
   onClose: () => void;
 }
 
 export function TidalPrismCalculator({ onClose }: TidalPrismCalculatorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -21,9 +23,7 @@ export function TidalPrismCalculator({ onClose }: TidalPrismCalculatorProps) {
   const tidalData = useMemo(() => {
     if (!selectedStation) return null;
 
-    const now = new Date();
-    const start = new Date(now);
-    start.setHours(0, 0, 0, 0);
+    const start = tz.startOfDay(new Date());
     const end = new Date(start.getTime() + 48 * 60 * 60 * 1000); // 48 hours
 
     const series = predictTideSeries(selectedStation, start, end, 10);
@@ -57,7 +57,7 @@ export function TidalPrismCalculator({ onClose }: TidalPrismCalculatorProps) {
     }
 
     return { range: maxRange, highTide, lowTide };
-  }, [selectedStation]);
+  }, [selectedStation, tz]);
 
   const tidalRange = tidalData?.range || 2.0;
 
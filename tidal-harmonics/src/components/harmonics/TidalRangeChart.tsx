@@ -11,7 +11,7 @@ import {
 } from 'recharts';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { STATIONS, getTidalType } from '@/data/stations';
+import { getTidalType } from '@/data/stations';
 import { getTidalRange } from '@/lib/harmonics';
 import { formatHeight, convertHeight, getHeightUnit } from '@/lib/units';
 import type { TidalType } from '@/data/stations';
@@ -34,7 +34,7 @@ interface StationRangeData {
 /**
  * TidalRangeChart
  *
- * Horizontal bar chart comparing tidal ranges across all stations.
+ * Horizontal bar chart comparing tidal ranges across the loaded stations.
  * Color-coded by tidal type to show the relationship between
  * tidal type and range.
  */
@@ -42,29 +42,33 @@ export function TidalRangeChart() {
   const epoch = useTimeStore((s) => s.epoch);
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const selectStation = useHarmonicsStore((s) => s.selectStation);
+  const stations = useHarmonicsStore((s) => s.stations);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const unit = getHeightUnit(unitSystem);
 
   const data = useMemo(() => {
     const now = new Date(epoch);
 
-    const stationData: (StationRangeData & { id: string })[] = STATIONS.map((station) => {
-      const range = getTidalRange(station, now);
-      const tidalRange = range.maxHeight - range.minHeight;
-      const type = getTidalType(station);
+    const stationData: (StationRangeData & { id: string })[] = stations
+      .filter((station) => !station.subordinate && !station.virtual)
+      .map((station) => {
+        const range = getTidalRange(station, now);
+        const tidalRange = range.maxHeight - range.minHeight;
+        const type = getTidalType(station);
 
-      return {
-        id: station.id,
-        name: station.state ? `${station.name}, ${station.state}` : station.name,
-        shortName: station.name.length > 12 ? station.name.slice(0, 10) + '...' : station.name,
-        range: tidalRange,
-        type,
-        isSelected: selectedStation?.id === station.id,
-      };
-    }).sort((a, b) => b.range - a.range);
+        return {
+          id: station.id,
+          name: station.state ? `${station.name}, ${station.state}` : station.name,
+          shortName: station.name.length > 12 ? station.name.slice(0, 10) + '...' : station.name,
+          range: tidalRange,
+          type,
+          isSelected: selectedStation?.id === station.id,
+        };
+      })
+      .sort((a, b) => b.range - a.range);
 
     return stationData;
-  }, [epoch, selectedStation]);
+  }, [epoch, selectedStation, stations]);
 
   const handleBarClick = (stationId: string) => {
     selectStation(stationId);
@@ -5,8 +5,9 @@ import { useTutorialStore } from '@/stores/tutorialStore';
 import { predictTide, getTidalRange, findExtremes, predictTideSeries } from '@/lib/harmonics';
 import { getTidalType, getTidalTypeLabel } from '@/data/stations';
 import { TidalTypeExplainer } from './TidalTypeExplainer';
-import { format, formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow } from 'date-fns';
 import { formatHeight, getHeightUnit } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 /**
  * Tidal Statistics Panel
@@ -19,6 +20,7 @@ import { formatHeight, getHeightUnit } from '@/lib/units';
  * - Dominant constituents
  */
 export function TidalStatistics() {
+  const tz = useZonedTime();
   const tutorialActive = useTutorialStore((s) => s.isActive);
   // Conditionally subscribe to epoch only when tutorial is not active
   // to avoid expensive re-renders during tutorial playback
@@ -113,7 +115,7 @@ export function TidalStatistics() {
               {extreme.type === 'high' ? '▲ High' : '▼ Low'}:
             </span>
             <span className="text-white">
-              {formatHeight(extreme.height, unitSystem)} at {format(extreme.time, 'HH:mm')}
+              {formatHeight(extreme.height, unitSystem)} at {tz.format(extreme.time, 'HH:mm')}
               <span className="text-slate-500 ml-1">
                 ({formatDistanceToNow(extreme.time, { addSuffix: true })})
               </span>
@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { addHours, format, differenceInMinutes } from 'date-fns';
+import { addHours, differenceInMinutes } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TidalStrandingTimerProps {
   onClose: () => void;
@@ -19,20 +20,21 @@ interface StrandingScenario {
 }
 
 export function TidalStrandingTimer({ onClose }: TidalStrandingTimerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
   // Scenario parameters
   const [groundingDepth, setGroundingDepth] = useState(1.5); // depth at grounding location (chart datum)
   const [vesselDraft, setVesselDraft] = useState(2.0); // vessel draft
-  const [currentTime, setCurrentTime] = useState(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const [currentTime, setCurrentTime] = useState(tz.format(new Date(), "yyyy-MM-dd'T'HH:mm"));
   const [refloatMargin, setRefloatMargin] = useState(0.3); // additional water needed above just floating
 
   // Calculate stranding scenario
   const scenario = useMemo((): StrandingScenario | null => {
     if (!selectedStation) return null;
 
-    const groundingTime = new Date(currentTime);
+    const groundingTime = tz.parse(currentTime);
     const analysisEnd = addHours(groundingTime, 48); // Look ahead 48 hours
 
     // Get detailed tide series
@@ -100,16 +102,16 @@ export function TidalStrandingTimer({ onClose }: TidalStrandingTimerProps) {
       tideAtGrounding,
       immediateRefloat: false,
     };
-  }, [selectedStation, currentTime, groundingDepth, vesselDraft, refloatMargin]);
+  }, [selectedStation, currentTime, groundingDepth, vesselDraft, refloatMargin, tz]);
 
   // Calculate tide series for visualization
   const tideSeries = useMemo(() => {
     if (!selectedStation) return [];
 
-    const start = new Date(currentTime);
+    const start = tz.parse(currentTime);
     const end = addHours(start, 24);
     return predictTideSeries(selectedStation, start, end, 10);
-  }, [selectedStation, currentTime]);
+  }, [selectedStation, currentTime, tz]);
 
   const formatLength = (m: number) => {
     if (unitSystem === 'imperial') {
@@ -268,10 +270,10 @@ export function TidalStrandingTimer({ onClose }: TidalStrandingTimerProps) {
                 <div>
                   <p className="text-xs text-slate-400 mb-1">Refloat Time</p>
                   <p className="text-xl font-bold text-cyan-400">
-                    {format(scenario.refloatTime, 'HH:mm')}
+                    {tz.format(scenario.refloatTime, 'HH:mm')}
                   </p>
                   <p className="text-xs text-slate-500">
-                    {format(scenario.refloatTime, 'MMM d')}
+                    {tz.format(scenario.refloatTime, 'MMM d')}
                   </p>
                 </div>
                 <div>
@@ -290,7 +292,7 @@ export function TidalStrandingTimer({ onClose }: TidalStrandingTimerProps) {
                 <p className="text-slate-300 text-sm">
                   Tide will not rise high enough to refloat in the next 48 hours.
                   {scenario.nextHighWater && (
-                    <> Next HW: {format(scenario.nextHighWater.time, 'HH:mm')} at {formatLength(scenario.nextHighWater.height)}</>
+                    <> Next HW: {tz.format(scenario.nextHighWater.time, 'HH:mm')} at {formatLength(scenario.nextHighWater.height)}</>
                   )}
                 </p>
               </div>
@@ -365,7 +367,7 @@ export function TidalStrandingTimer({ onClose }: TidalStrandingTimerProps) {
                 {/* Refloat point marker */}
                 {scenario.refloatTime && scenario.refloatHeight !== null && (
                   <circle
-                    cx={(differenceInMinutes(scenario.refloatTime, new Date(currentTime)) / (24 * 60)) * 100}
+                    cx={(differenceInMinutes(scenario.refloatTime, tz.parse(currentTime)) / (24 * 60)) * 100}
                     cy={50 - scenario.refloatHeight * 20}
                     r="3"
                     className="fill-green-500"
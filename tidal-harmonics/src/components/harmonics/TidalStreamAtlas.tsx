@@ -2,7 +2,8 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
 import { formatHeight } from '@/lib/units';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TidalStreamAtlasProps {
   onClose: () => void;
@@ -17,6 +18,7 @@ interface StreamHour {
 }
 
 export function TidalStreamAtlas({ onClose }: TidalStreamAtlasProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
@@ -351,7 +353,7 @@ export function TidalStreamAtlas({ onClose }: TidalStreamAtlasProps) {
             <div className="bg-slate-700/50 rounded-lg p-3 text-sm">
               <div className="flex justify-between">
                 <span className="text-slate-400">Reference High Water:</span>
-                <span className="text-white">{format(tideData.referenceHW, 'EEE, MMM d HH:mm')}</span>
+                <span className="text-white">{tz.format(tideData.referenceHW, 'EEE, MMM d HH:mm')}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-400">Current Tide Height:</span>
@@ -1,7 +1,8 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { getTidalType, STATIONS } from '@/data/stations';
+import { getTidalType } from '@/data/stations';
 import type { TidalType } from '@/data/stations';
+import type { StationSummary } from '@/data/stationIndex';
 
 interface TidalTypeExplainerProps {
   onClose: () => void;
@@ -87,6 +88,27 @@ South China Sea, and some enclosed seas.`,
  */
 export function TidalTypeExplainer({ onClose }: TidalTypeExplainerProps) {
   const station = useHarmonicsStore((s) => s.selectedStation);
+  const catalog = useHarmonicsStore((s) => s.catalog);
+  const builtinStations = useHarmonicsStore((s) => s.builtinStations);
+  const loadStationRegion = useHarmonicsStore((s) => s.loadStationRegion);
+
+  // The first catalog station of each type, whose region is loaded for its constants
+  const exampleSummaries = useMemo(() => {
+    const examples: Partial<Record<TidalType, StationSummary>> = {};
+    for (const summary of catalog) {
+      if (!summary.subordinate && summary.region && !examples[summary.tidalType]) examples[summary.tidalType] = summary;
+    }
+    return examples;
+  }, [catalog]);
+
+  useEffect(() => {
+    const regions = new Set(Object.values(exampleSummaries).flatMap((s) => (s.region ? [s.region] : [])));
+    for (const region of regions) {
+      loadStationRegion(region).catch(() => {
+        // Examples from a region that fails to load are left out
+      });
+    }
+  }, [exampleSummaries, loadStationRegion]);
 
   const stationAnalysis = useMemo(() => {
     if (!station) return null;
@@ -101,13 +123,12 @@ export function TidalTypeExplainer({ onClose }: TidalTypeExplainerProps) {
     const typeInfo = TIDAL_TYPE_INFO[tidalType];
 
     // Get comparison stations of each type
-    const typeExamples = STATIONS.reduce((acc, s) => {
-      const type = getTidalType(s);
-      if (!acc[type] && s.id !== station.id) {
-        acc[type] = s;
+    const typeExamples: Partial<Record<TidalType, StationSummary>> = {};
+    for (const s of catalog) {
+      if (!s.subordinate && !typeExamples[s.tidalType] && s.id !== station.id) {
+        typeExamples[s.tidalType] = s;
       }
-      return acc;
-    }, {} as Record<TidalType, typeof station>);
+    }
 
     return {
       M2,
@@ -119,7 +140,7 @@ export function TidalTypeExplainer({ onClose }: TidalTypeExplainerProps) {
       typeInfo,
       typeExamples,
     };
-  }, [station]);
+  }, [station, catalog]);
 
   if (!station || !stationAnalysis) {
     return (
@@ -315,7 +336,8 @@ export function TidalTypeExplainer({ onClose }: TidalTypeExplainerProps) {
             <h3 className="text-white font-medium mb-3">Compare: Stations by Tidal Type</h3>
             <div className="space-y-2">
               {Object.entries(TIDAL_TYPE_INFO).map(([type, info]) => {
-                const example = STATIONS.find(s => getTidalType(s) === type);
+                const summary = exampleSummaries[type as TidalType];
+                const example = summary && builtinStations.find(s => s.id === summary.id);
                 if (!example) return null;
                 const isCurrent = type === tidalType;
                 const colors = {
@@ -1,9 +1,10 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
-import { predictTideSeries } from '@/lib/harmonics';
+import { findTidalWindows } from '@/lib/tidalWindows';
 import { formatHeight, toMeters } from '@/lib/units';
-import { addHours, addDays, format, differenceInMinutes } from 'date-fns';
+import { addHours, differenceInMinutes } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface Props {
   onClose: () => void;
@@ -18,6 +19,7 @@ interface TidalWindow {
 }
 
 export function TidalWindowCalculator({ onClose }: Props) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -34,57 +36,17 @@ export function TidalWindowCalculator({ onClose }: Props) {
 
     const now = new Date(epoch);
     const end = addHours(now, lookAhead);
-    const series = predictTideSeries(station, now, end, 6); // 6-minute intervals
-
-    const result: TidalWindow[] = [];
-    let windowStart: Date | null = null;
-    let peakHeight = mode === 'above' ? -Infinity : Infinity;
-    let peakTime: Date | null = null;
-
-    for (const point of series) {
-      const meetsCondition = mode === 'above'
-        ? point.height >= thresholdValue
-        : point.height <= thresholdValue;
-
-      if (meetsCondition) {
-        if (!windowStart) {
-          windowStart = point.time;
-          peakHeight = point.height;
-          peakTime = point.time;
-        }
-        if (mode === 'above' && point.height > peakHeight) {
-          peakHeight = point.height;
-          peakTime = point.time;
-        } else if (mode === 'below' && point.height < peakHeight) {
-          peakHeight = point.height;
-          peakTime = point.time;
-        }
-      } else if (windowStart) {
-        result.push({
-          start: windowStart,
-          end: point.time,
-          duration: differenceInMinutes(point.time, windowStart),
-          peakHeight,
-          peakTime: peakTime!,
-        });
-        windowStart = null;
-        peakHeight = mode === 'above' ? -Infinity : Infinity;
-        peakTime = null;
-      }
-    }
-
-    // Handle window that extends beyond our search period
-    if (windowStart) {
-      result.push({
-        start: windowStart,
-        end: end,
-        duration: differenceInMinutes(end, windowStart),
-        peakHeight,
-        peakTime: peakTime!,
-      });
-    }
-
-    return result;
+    const bound = mode === 'above' ? { minHeight: thresholdValue } : { maxHeight: thresholdValue };
+
+    return findTidalWindows(station, bound, { start: now, end }).map(
+      (w): TidalWindow => ({
+        start: w.start,
+        end: w.end,
+        duration: Math.round(w.durationMinutes),
+        peakHeight: mode === 'above' ? w.maxHeight : w.minHeight,
+        peakTime: mode === 'above' ? w.maxHeightTime : w.minHeightTime,
+      })
+    );
   }, [station, epoch, threshold, mode, lookAhead, unitSystem]);
 
   // Calculate summary stats
@@ -119,12 +81,12 @@ export function TidalWindowCalculator({ onClose }: Props) {
 
   const formatDateTime = (date: Date) => {
     const now = new Date(epoch);
-    const isToday = date.toDateString() === now.toDateString();
-    const isTomorrow = date.toDateString() === addDays(now, 1).toDateString();
+    const isToday = tz.dayKey(date) === tz.dayKey(now);
+    const isTomorrow = tz.dayKey(date) === tz.dayKey(tz.addDays(now, 1));
 
-    if (isToday) return `Today ${format(date, 'HH:mm')}`;
-    if (isTomorrow) return `Tomorrow ${format(date, 'HH:mm')}`;
-    return format(date, 'EEE HH:mm');
+    if (isToday) return `Today ${tz.format(date, 'HH:mm')}`;
+    if (isTomorrow) return `Tomorrow ${tz.format(date, 'HH:mm')}`;
+    return tz.format(date, 'EEE HH:mm');
   };
 
   if (!station) {
@@ -263,7 +225,7 @@ export function TidalWindowCalculator({ onClose }: Props) {
                   <span className="text-slate-300">{formatDateTime(window.end)}</span>
                 </div>
                 <div className="mt-1 text-xs text-slate-500">
-                  Peak: {formatHeight(window.peakHeight, unitSystem)} at {format(window.peakTime, 'HH:mm')}
+                  Peak: {formatHeight(window.peakHeight, unitSystem)} at {tz.format(window.peakTime, 'HH:mm')}
                 </div>
               </div>
             );
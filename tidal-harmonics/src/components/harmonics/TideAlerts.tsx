@@ -1,37 +1,59 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
+import { useAlertStore } from '@/stores/alertStore';
+import type { AlertRuleInput } from '@/stores/alertStore';
 import { predictTideFromConstituents } from '@/lib/harmonics';
+import { LEAD_OPTIONS, leadLabel } from '@/lib/alertSchedule';
+import { describeAlertRule, findAlertWindows } from '@/lib/alertRules';
+import type { AlertDeliveryMode } from '@/lib/alertDelivery';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { AlertRuleBuilder } from './AlertRuleBuilder';
 
-interface AlertConfig {
-  id: string;
-  type: 'high' | 'low' | 'threshold' | 'change';
-  threshold?: number; // for threshold alerts
-  enabled: boolean;
-  notifyBefore: number; // minutes before event
-}
+// Windows shown per rule, searched this many days ahead
+const RULE_PREVIEW_COUNT = 5;
+const RULE_PREVIEW_DAYS = 14;
 
-const DEFAULT_ALERTS: AlertConfig[] = [
-  { id: 'high', type: 'high', enabled: false, notifyBefore: 30 },
-  { id: 'low', type: 'low', enabled: false, notifyBefore: 30 },
-];
+const DELIVERY_NOTES: Record<AlertDeliveryMode, string> = {
+  triggers: 'Alerts are handed to the browser ahead of time and show even with this app closed.',
+  'background-sync':
+    'The installed app checks for due alerts in the background when the browser allows, and again whenever it opens.',
+  'while-open':
+    'This browser can only show alerts while the app is open (it can be in the background); alerts missed while it was closed show when it opens.',
+  unsupported: 'This browser cannot show notifications.',
+};
 
+/**
+ * TideAlerts
+ *
+ * The tide alert rules of the selected station: each combines height,
+ * tide, daylight, spring/neap and weekday conditions, and previews the
+ * windows it will alert on. Alerts are scheduled ahead and delivered by
+ * the service worker (see useAlertScheduler).
+ */
 export function TideAlerts() {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const visibleConstituents = useHarmonicsStore((s) => s.visibleConstituents);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const epoch = useTimeStore((s) => s.epoch);
 
-  const [alerts, setAlerts] = useState<AlertConfig[]>(DEFAULT_ALERTS);
-  const [customThreshold, setCustomThreshold] = useState<number>(0);
-  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
+  const rules = useAlertStore((s) => s.rules);
+  const schedule = useAlertStore((s) => s.schedule);
+  const deliveryMode = useAlertStore((s) => s.deliveryMode);
+  const addRules = useAlertStore((s) => s.addRules);
+  const updateRule = useAlertStore((s) => s.updateRule);
+  const replaceRule = useAlertStore((s) => s.replaceRule);
+  const removeRule = useAlertStore((s) => s.removeRule);
 
-  // Check notification permission on mount
-  useEffect(() => {
-    if ('Notification' in window) {
-      setNotificationPermission(Notification.permission);
-    }
-  }, []);
+  // The rule being edited: 'new' for the builder on a blank rule
+  const [editing, setEditing] = useState<string | null>(null);
+  // The rule whose windows are listed, from the time it was opened
+  const [preview, setPreview] = useState<{ id: string; from: number } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(() =>
+    'Notification' in window ? Notification.permission : 'default'
+  );
 
   // Request notification permission
   const requestPermission = useCallback(async () => {
@@ -75,42 +97,30 @@ export function TideAlerts() {
     return extremes;
   }, [selectedStation, visibleConstituents, epoch]);
 
-  // Toggle alert
-  const toggleAlert = (id: string) => {
-    setAlerts(prev => prev.map(a =>
-      a.id === id ? { ...a, enabled: !a.enabled } : a
-    ));
-  };
+  const stationRules = rules.filter((r) => r.stationId === selectedStation?.id);
+  const otherRuleCount = rules.filter((r) => r.enabled && r.stationId !== selectedStation?.id).length;
+  const stationSchedule = schedule.filter((a) => a.stationId === selectedStation?.id && !a.delivered).slice(0, 3);
+  const editingRule = stationRules.find((r) => r.id === editing);
 
-  // Update notify before time
-  const updateNotifyBefore = (id: string, minutes: number) => {
-    setAlerts(prev => prev.map(a =>
-      a.id === id ? { ...a, notifyBefore: minutes } : a
-    ));
-  };
+  // Next windows of the rule opened for preview
+  const ruleWindows = useMemo(() => {
+    const rule = rules.find((r) => r.id === preview?.id);
+    if (!rule || !preview || !selectedStation) return [];
+    const { from } = preview;
+    return findAlertWindows(rule, selectedStation, from, from + RULE_PREVIEW_DAYS * 86400000, RULE_PREVIEW_COUNT);
+  }, [rules, preview, selectedStation]);
 
-  // Add threshold alert
-  const addThresholdAlert = () => {
-    const newAlert: AlertConfig = {
-      id: `threshold-${Date.now()}`,
-      type: 'threshold',
-      threshold: customThreshold,
-      enabled: true,
-      notifyBefore: 0,
-    };
-    setAlerts(prev => [...prev, newAlert]);
-    setCustomThreshold(0);
-  };
+  const reportSaveError = () => setSaveError('Could not save the alert; it lasts until the page closes');
 
-  // Remove alert
-  const removeAlert = (id: string) => {
-    setAlerts(prev => prev.filter(a => a.id !== id));
+  const saveRule = (input: AlertRuleInput) => {
+    setSaveError(null);
+    const saved = editingRule ? replaceRule(editingRule.id, input) : addRules([input]);
+    saved.catch(reportSaveError);
+    setEditing(null);
   };
 
   // Format time
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   // Format height
   const formatHeight = (meters: number) => {
@@ -153,7 +163,7 @@ export function TideAlerts() {
       {supportsNotifications && notificationPermission === 'default' && (
         <div className="bg-blue-900/30 rounded p-2 mb-3">
           <p className="text-slate-300 mb-2">
-            Enable notifications to receive tide alerts even when this tab is in the background.
+            Enable notifications to receive tide alerts, even with the app closed where the browser supports it.
           </p>
           <button
             onClick={requestPermission}
@@ -193,90 +203,132 @@ export function TideAlerts() {
         </div>
       )}
 
-      {/* Alert configuration */}
+      {/* Alert rules */}
       <div className="mb-3">
-        <div className="text-slate-400 mb-2">Alert Settings</div>
+        <div className="text-slate-400 mb-2">Alerts for this station</div>
+        {stationRules.length === 0 && <p className="text-slate-500 mb-2">No alerts yet.</p>}
         <div className="space-y-2">
-          {alerts.map(alert => (
-            <div
-              key={alert.id}
-              className="flex items-center justify-between p-2 rounded bg-slate-800/50"
-            >
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={() => toggleAlert(alert.id)}
-                  className={`w-4 h-4 rounded border flex items-center justify-center text-[10px]
-                    ${alert.enabled
-                      ? 'bg-blue-600 border-blue-500 text-white'
-                      : 'bg-slate-700 border-slate-600'
-                    }`}
-                >
-                  {alert.enabled ? '✓' : ''}
-                </button>
-                <span className="text-slate-300">
-                  {alert.type === 'high' && '▲ High Tide'}
-                  {alert.type === 'low' && '▼ Low Tide'}
-                  {alert.type === 'threshold' && `📏 Level ${formatHeight(alert.threshold || 0)}`}
-                </span>
-              </div>
-              <div className="flex items-center gap-2">
-                {(alert.type === 'high' || alert.type === 'low') && (
+          {stationRules.map((rule) => (
+            <div key={rule.id} className="p-2 rounded bg-slate-800/50">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <button
+                    onClick={() => updateRule(rule.id, { enabled: !rule.enabled }).catch(reportSaveError)}
+                    className={`w-4 h-4 shrink-0 rounded border flex items-center justify-center text-[10px]
+                      ${rule.enabled
+                        ? 'bg-blue-600 border-blue-500 text-white'
+                        : 'bg-slate-700 border-slate-600'
+                      }`}
+                    aria-label={rule.enabled ? 'Disable alert' : 'Enable alert'}
+                  >
+                    {rule.enabled ? '✓' : ''}
+                  </button>
+                  <button
+                    onClick={() => setPreview(preview?.id === rule.id ? null : { id: rule.id, from: Date.now() })}
+                    className="text-slate-300 text-left truncate hover:text-white"
+                    title="Show the next windows"
+                  >
+                    {describeAlertRule(rule, unitSystem)}
+                  </button>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
                   <select
-                    value={alert.notifyBefore}
-                    onChange={(e) => updateNotifyBefore(alert.id, parseInt(e.target.value))}
+                    value={rule.leadMinutes}
+                    onChange={(e) => updateRule(rule.id, { leadMinutes: parseInt(e.target.value) }).catch(reportSaveError)}
                     className="bg-slate-700 text-slate-300 text-[10px] rounded px-1 py-0.5 border-none"
                   >
-                    <option value={15}>15m before</option>
-                    <option value={30}>30m before</option>
-                    <option value={60}>1h before</option>
-                    <option value={120}>2h before</option>
+                    {LEAD_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {leadLabel(minutes)}
+                      </option>
+                    ))}
                   </select>
-                )}
-                {alert.type === 'threshold' && (
                   <button
-                    onClick={() => removeAlert(alert.id)}
+                    onClick={() => setEditing(rule.id)}
+                    className="text-slate-400 hover:text-slate-200 px-1"
+                    aria-label="Edit alert"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => removeRule(rule.id).catch(reportSaveError)}
                     className="text-red-400 hover:text-red-300 px-1"
+                    aria-label="Remove alert"
                   >
                     ×
                   </button>
-                )}
+                </div>
               </div>
+              {preview?.id === rule.id && (
+                <div className="mt-2 pl-6 space-y-0.5">
+                  {ruleWindows.length === 0 && (
+                    <p className="text-slate-500">None in the next {RULE_PREVIEW_DAYS} days</p>
+                  )}
+                  {ruleWindows.map((w) => (
+                    <div key={w.start} className="text-slate-400">
+                      {w.inProgress ? 'Now' : tz.dateTime(new Date(w.start))}
+                      {w.end - w.start > 60000 && ` – ${tz.time(new Date(w.end))}`}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
+        {otherRuleCount > 0 && (
+          <p className="text-slate-500 text-[10px] mt-1">
+            {otherRuleCount} more active at other stations
+          </p>
+        )}
       </div>
 
-      {/* Add threshold alert */}
+      {/* Rule builder */}
       <div className="border-t border-slate-700 pt-3">
-        <div className="text-slate-400 mb-2">Custom Level Alert</div>
-        <div className="flex gap-2">
-          <input
-            type="number"
-            value={customThreshold}
-            onChange={(e) => setCustomThreshold(parseFloat(e.target.value) || 0)}
-            placeholder={unitSystem === 'metric' ? 'meters' : 'feet'}
-            step={unitSystem === 'metric' ? 0.1 : 0.5}
-            className="flex-1 bg-slate-800 text-slate-300 text-xs rounded px-2 py-1.5 border border-slate-600 focus:border-blue-500 focus:outline-none"
-          />
+        {selectedStation?.virtual ? (
+          <p className="text-slate-500 text-[10px]">
+            Alerts need a saved station; virtual points aren't kept between visits.
+          </p>
+        ) : selectedStation && editing && (editing === 'new' || editingRule) ? (
+          <>
+            <div className="text-slate-400 mb-2">{editingRule ? 'Edit Alert' : 'New Alert'}</div>
+            <AlertRuleBuilder
+              key={editing}
+              station={selectedStation}
+              {...(editingRule && { rule: editingRule })}
+              onSave={saveRule}
+              onCancel={() => setEditing(null)}
+            />
+          </>
+        ) : (
           <button
-            onClick={addThresholdAlert}
-            disabled={customThreshold === 0}
-            className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={() => setEditing('new')}
+            disabled={!selectedStation}
+            className="w-full px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300 text-xs disabled:opacity-50"
           >
-            Add
+            + New alert
           </button>
-        </div>
-        <p className="text-slate-500 text-[10px] mt-1">
-          Get notified when tide reaches this level
-        </p>
+        )}
+        {saveError && <p className="text-red-400 text-[10px] mt-1">{saveError}</p>}
       </div>
 
+      {/* Scheduled */}
+      {stationSchedule.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-slate-700">
+          <div className="text-slate-400 mb-1">Next alerts</div>
+          {stationSchedule.map((a) => (
+            <div key={a.id} className="flex justify-between text-slate-300">
+              <span>{a.title}</span>
+              <span className="text-slate-500">{tz.dateTime(new Date(a.triggerAt))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Info */}
       <div className="mt-3 pt-2 border-t border-slate-700 text-slate-500 text-[10px]">
         <p>
-          Alerts are calculated from harmonic predictions. Browser notifications require
-          this page to remain open (can be in background). For reliable alerts, consider
-          keeping the page open or using a dedicated tide app.
+          Alerts are calculated from harmonic predictions up to three days ahead and rescheduled
+          each time the app opens. {deliveryMode && DELIVERY_NOTES[deliveryMode]}
         </p>
       </div>
     </div>
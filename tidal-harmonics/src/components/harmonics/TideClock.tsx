@@ -2,8 +2,9 @@ import { useMemo } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { findExtremes, predictTideSeries, predictTide } from '@/lib/harmonics';
-import { addHours, differenceInMinutes, format } from 'date-fns';
+import { addHours, differenceInMinutes } from 'date-fns';
 import { formatHeight } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 /**
  * TideClock
@@ -13,6 +14,7 @@ import { formatHeight } from '@/lib/units';
  * (~12h 25m for semidiurnal tides).
  */
 export function TideClock() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -216,7 +218,7 @@ export function TideClock() {
             </div>
             <div className="flex justify-between">
               <span>Next {tideState.nextExtreme.type}:</span>
-              <span className="text-white">{format(tideState.nextExtreme.time, 'h:mm a')}</span>
+              <span className="text-white">{tz.format(tideState.nextExtreme.time, 'h:mm a')}</span>
             </div>
           </div>
         </div>
@@ -240,9 +242,9 @@ export function TideClock() {
           />
         </div>
         <div className="flex justify-between text-xs text-slate-600 mt-1">
-          <span>{format(tideState.prevExtreme.time, 'h:mm a')}</span>
+          <span>{tz.format(tideState.prevExtreme.time, 'h:mm a')}</span>
           <span>~{Math.round(tideState.cycleDuration / 60)}h {tideState.cycleDuration % 60}m cycle</span>
-          <span>{format(tideState.nextExtreme.time, 'h:mm a')}</span>
+          <span>{tz.format(tideState.nextExtreme.time, 'h:mm a')}</span>
         </div>
       </div>
 
@@ -7,10 +7,10 @@ import {
   CartesianGrid,
   Tooltip,
   ReferenceLine,
+  ReferenceArea,
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { format } from 'date-fns';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import {
@@ -19,7 +19,11 @@ import {
   findExtremes,
   type ConstituentSeriesData,
 } from '@/lib/harmonics';
+import { findLightBands, findMoonUpIntervals, LIGHT_PHASE_LABELS } from '@/lib/daylight';
+import type { LightPhase } from '@/lib/daylight';
 import { useTouchGesturesRef } from '@/hooks/useTouchGestures';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import type { TideStation } from '@/types/harmonics';
 
 type ViewMode = 'total' | 'constituents' | 'groups';
 
@@ -33,6 +37,15 @@ const CONSTITUENT_COLORS = {
   total: '#ef4444', // red
 };
 
+// Shading behind the curve; the day is left clear
+const LIGHT_FILLS: Record<LightPhase, string | null> = {
+  day: null,
+  civil: 'rgba(100, 116, 139, 0.12)',
+  nautical: 'rgba(71, 85, 105, 0.22)',
+  astronomical: 'rgba(51, 65, 85, 0.32)',
+  night: 'rgba(15, 23, 42, 0.55)',
+};
+
 const TIME_RANGES = [
   { label: '12h', hours: 12 },
   { label: '24h', hours: 24 },
@@ -41,13 +54,23 @@ const TIME_RANGES = [
   { label: '30d', hours: 720 },
 ];
 
-export function TideCurve() {
+interface TideCurveProps {
+  // Plot this station instead of the selection, e.g. a draft in the station editor
+  station?: TideStation;
+  // Drawn dashed behind the total, so edits can be compared with the saved constants
+  reference?: TideStation | null;
+}
+
+export function TideCurve({ station: stationOverride, reference = null }: TideCurveProps = {}) {
   const epoch = useTimeStore((s) => s.epoch);
   const setDate = useTimeStore((s) => s.setDate);
-  const station = useHarmonicsStore((s) => s.selectedStation);
+  const selectedStation = useHarmonicsStore((s) => s.selectedStation);
+  const station = stationOverride ?? selectedStation;
   const hoursRange = useHarmonicsStore((s) => s.chartHoursRange);
   const setChartHoursRange = useHarmonicsStore((s) => s.setChartHoursRange);
   const [viewMode, setViewMode] = useState<ViewMode>('total');
+  const [showLight, setShowLight] = useState(true);
+  const tz = useZonedTime();
 
   // Touch gestures for mobile
   const zoomIn = useCallback(() => {
@@ -83,9 +106,20 @@ export function TideCurve() {
     onPinchOut: zoomIn,
   });
 
-  const { data, extremes, nowLabel, minHeight, maxHeight } = useMemo(() => {
+  const { data, extremes, ticks, formatLabel, minHeight, maxHeight } = useMemo(() => {
+    // Format label based on range
+    const formatLabel = (date: Date) => {
+      if (hoursRange <= 48) {
+        return tz.format(date, 'HH:mm');
+      } else if (hoursRange <= 168) {
+        return tz.format(date, 'EEE HH:mm');
+      } else {
+        return tz.format(date, 'MMM d');
+      }
+    };
+
     if (!station) {
-      return { data: [], extremes: [], nowLabel: '', minHeight: -1, maxHeight: 1 };
+      return { data: [], extremes: [], ticks: [], formatLabel, minHeight: -1, maxHeight: 1 };
     }
 
     const now = new Date(epoch);
@@ -99,18 +133,7 @@ export function TideCurve() {
     if (hoursRange > 168) intervalMinutes = 30;
     if (hoursRange > 360) intervalMinutes = 60;
 
-    // Format label based on range
-    const formatLabel = (date: Date) => {
-      if (hoursRange <= 48) {
-        return format(date, 'HH:mm');
-      } else if (hoursRange <= 168) {
-        return format(date, 'EEE HH:mm');
-      } else {
-        return format(date, 'MMM d');
-      }
-    };
-
-    let chartData: ConstituentSeriesData[];
+    let chartData: (ConstituentSeriesData & { reference?: number })[];
 
     if (viewMode === 'total') {
       // Simple mode - just total
@@ -122,32 +145,51 @@ export function TideCurve() {
       }));
     } else {
       // Detailed mode with constituent breakdown
-      chartData = predictTideSeriesWithConstituents(station, start, end, intervalMinutes).map((d) => ({
+      chartData = predictTideSeriesWithConstituents(station, start, end, intervalMinutes, tz.zone).map((d) => ({
         ...d,
         label: formatLabel(new Date(d.time)),
       }));
     }
 
+    if (reference) {
+      const referenceSeries = predictTideSeries(reference, start, end, intervalMinutes);
+      chartData = chartData.map((d, i) => ({ ...d, reference: referenceSeries[i]?.height ?? d.total }));
+    }
+
     const extremeList = findExtremes(
       chartData.map(d => ({ time: new Date(d.time), height: d.total }))
     );
 
     // Calculate y-axis bounds
-    let min = Math.min(...chartData.map((d) => d.total));
-    let max = Math.max(...chartData.map((d) => d.total));
+    let min = Math.min(...chartData.map((d) => Math.min(d.total, d.reference ?? d.total)));
+    let max = Math.max(...chartData.map((d) => Math.max(d.total, d.reference ?? d.total)));
     // Add padding
     const padding = (max - min) * 0.15;
     min -= padding;
     max += padding;
 
+    const tickStep = Math.max(1, Math.floor(chartData.length / 8));
+
     return {
       data: chartData,
       extremes: extremeList,
-      nowLabel: format(now, 'HH:mm'),
+      ticks: chartData.filter((_, i) => i % tickStep === 0).map((d) => d.time),
+      formatLabel,
       minHeight: min,
       maxHeight: max,
     };
-  }, [epoch, station, hoursRange, viewMode]);
+  }, [epoch, station, reference, hoursRange, viewMode, tz]);
+
+  // Day, twilight and night at the station, with a strip along the top while the moon is up
+  const light = useMemo(() => {
+    if (!station || !showLight) return null;
+    const start = new Date(epoch - (hoursRange / 2) * 3600000);
+    const end = new Date(epoch + (hoursRange / 2) * 3600000);
+    return {
+      bands: findLightBands(station.lat, station.lon, start, end).filter((b) => LIGHT_FILLS[b.phase]),
+      moon: findMoonUpIntervals(station.lat, station.lon, start, end),
+    };
+  }, [epoch, station, hoursRange, showLight]);
 
   if (!station) {
     return (
@@ -178,6 +220,16 @@ export function TideCurve() {
               </button>
             ))}
           </div>
+          <button
+            onClick={() => setShowLight(!showLight)}
+            className={`px-1.5 py-0.5 text-xs rounded transition-colors ${
+              showLight ? 'bg-amber-600/70 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+            title="Shade night and twilight, and mark when the moon is up"
+            aria-pressed={showLight}
+          >
+            ☀
+          </button>
           {/* View mode selector */}
           <div className="flex gap-0.5 bg-slate-800 rounded p-0.5">
             <button
@@ -212,10 +264,14 @@ export function TideCurve() {
           <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
             <XAxis
-              dataKey="label"
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              ticks={ticks}
+              tickFormatter={(t: number) => formatLabel(new Date(t))}
               stroke="#64748b"
               tick={{ fontSize: 9 }}
-              interval={Math.floor(data.length / 8)}
             />
             <YAxis
               stroke="#64748b"
@@ -234,16 +290,42 @@ export function TideCurve() {
                 const num = typeof value === 'number' ? value : 0;
                 return [`${num.toFixed(2)}m`, name];
               }}
-              labelFormatter={(label) => `Time: ${label}`}
+              labelFormatter={(t) => `Time: ${formatLabel(new Date(Number(t)))} ${tz.abbreviation(new Date(epoch))}`}
             />
-            {viewMode !== 'total' && (
+            {(viewMode !== 'total' || reference) && (
               <Legend
                 iconSize={8}
                 wrapperStyle={{ fontSize: '10px', paddingTop: '4px' }}
               />
             )}
+            {/* Twilight and night */}
+            {light?.bands.map((band) => (
+              <ReferenceArea
+                key={band.start.getTime()}
+                x1={band.start.getTime()}
+                x2={band.end.getTime()}
+                fill={LIGHT_FILLS[band.phase] ?? undefined}
+                fillOpacity={1}
+                strokeOpacity={0}
+                ifOverflow="hidden"
+              />
+            ))}
+            {/* Moon up */}
+            {light?.moon.map((moon) => (
+              <ReferenceArea
+                key={moon.start.getTime()}
+                x1={moon.start.getTime()}
+                x2={moon.end.getTime()}
+                y1={maxHeight - (maxHeight - minHeight) * 0.03}
+                y2={maxHeight}
+                fill="#e2e8f0"
+                fillOpacity={0.35}
+                strokeOpacity={0}
+                ifOverflow="hidden"
+              />
+            ))}
             {/* Current time marker */}
-            <ReferenceLine x={nowLabel} stroke="#ef4444" strokeDasharray="5 5" />
+            <ReferenceLine x={epoch} stroke="#ef4444" strokeDasharray="5 5" />
             {/* Zero line */}
             <ReferenceLine y={0} stroke="#475569" />
 
@@ -263,6 +345,18 @@ export function TideCurve() {
               </>
             )}
 
+            {reference && (
+              <Line
+                type="monotone"
+                dataKey="reference"
+                name="Saved"
+                stroke="#94a3b8"
+                strokeDasharray="4 3"
+                dot={false}
+                strokeWidth={1.5}
+              />
+            )}
+
             {/* Total always shown */}
             <Line
               type="monotone"
@@ -276,6 +370,21 @@ export function TideCurve() {
         </ResponsiveContainer>
       </div>
 
+      {light && (
+        <div className="flex flex-wrap gap-3 mt-1 text-[10px] text-slate-500">
+          {(['civil', 'nautical', 'astronomical', 'night'] as const).map((phase) => (
+            <span key={phase} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-sm border border-slate-700" style={{ background: LIGHT_FILLS[phase] ?? undefined }} />
+              {LIGHT_PHASE_LABELS[phase]}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-1 rounded-sm bg-slate-200/40" />
+            Moon up
+          </span>
+        </div>
+      )}
+
       {/* High/Low tide info */}
       <div className="flex gap-4 mt-2 text-xs">
         {extremes.slice(0, 4).map((e, i) => (
@@ -283,7 +392,7 @@ export function TideCurve() {
             key={i}
             className={e.type === 'high' ? 'text-blue-400' : 'text-cyan-400'}
           >
-            {e.type === 'high' ? '▲' : '▼'} {format(e.time, 'HH:mm')}: {e.height.toFixed(2)}m
+            {e.type === 'high' ? '▲' : '▼'} {tz.format(e.time, 'HH:mm')}: {e.height.toFixed(2)}m
           </span>
         ))}
       </div>
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 import {
   LineChart,
   Line,
@@ -18,17 +19,10 @@ interface Props {
 export function TideDateComparison({ onClose }: Props) {
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const tz = useZonedTime();
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayStr = today.toISOString().split('T')[0] ?? today.toISOString().slice(0, 10);
-
-  const [date1, setDate1] = useState(todayStr);
-  const [date2, setDate2] = useState(() => {
-    const nextWeek = new Date(today);
-    nextWeek.setDate(today.getDate() + 7);
-    return nextWeek.toISOString().split('T')[0] ?? nextWeek.toISOString().slice(0, 10);
-  });
+  const [date1, setDate1] = useState(() => tz.dayKey(new Date()));
+  const [date2, setDate2] = useState(() => tz.dayKey(tz.addDays(new Date(), 7)));
 
   const useMetric = unitSystem === 'metric';
 
@@ -36,15 +30,11 @@ export function TideDateComparison({ onClose }: Props) {
   const comparisonData = useMemo(() => {
     if (!station) return { chartData: [], date1Extremes: [], date2Extremes: [] };
 
-    const d1 = new Date(date1);
-    d1.setHours(0, 0, 0, 0);
-    const d1End = new Date(d1);
-    d1End.setHours(23, 59, 59, 999);
+    const d1 = tz.parse(date1);
+    const d1End = new Date(tz.addDays(d1, 1).getTime() - 1);
 
-    const d2 = new Date(date2);
-    d2.setHours(0, 0, 0, 0);
-    const d2End = new Date(d2);
-    d2End.setHours(23, 59, 59, 999);
+    const d2 = tz.parse(date2);
+    const d2End = new Date(tz.addDays(d2, 1).getTime() - 1);
 
     const series1 = predictTideSeries(station, d1, d1End, 15);
     const series2 = predictTideSeries(station, d2, d2End, 15);
@@ -52,16 +42,28 @@ export function TideDateComparison({ onClose }: Props) {
     const extremes1 = findExtremes(series1);
     const extremes2 = findExtremes(series2);
 
-    // Normalize to hours for x-axis comparison
+    // Line both days up by wall-clock time; a daylight saving day has an
+    // hour missing or repeated, so match on the clock rather than position
+    const byClock = (series: typeof series1) => {
+      const heights = new Map<string, (typeof series1)[number]>();
+      for (const point of series) {
+        const clock = tz.format(point.time, 'HH:mm');
+        if (!heights.has(clock)) heights.set(clock, point);
+      }
+      return heights;
+    };
+    const clock1 = byClock(series1);
+    const clock2 = byClock(series2);
+
     const chartData = [];
     for (let hour = 0; hour < 24; hour++) {
       for (let min = 0; min < 60; min += 15) {
-        const idx = hour * 4 + min / 15;
-        const s1 = series1[idx];
-        const s2 = series2[idx];
+        const time = `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`;
+        const s1 = clock1.get(time);
+        const s2 = clock2.get(time);
 
         chartData.push({
-          time: `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`,
+          time,
           hour: hour + min / 60,
           date1: s1 ? (useMetric ? s1.height : s1.height * 3.28084) : null,
           date2: s2 ? (useMetric ? s2.height : s2.height * 3.28084) : null,
@@ -74,24 +76,11 @@ export function TideDateComparison({ onClose }: Props) {
       date1Extremes: extremes1,
       date2Extremes: extremes2,
     };
-  }, [station, date1, date2, useMetric]);
+  }, [station, date1, date2, useMetric, tz]);
 
-  const formatDate = (dateStr: string) => {
-    const d = new Date(dateStr);
-    return d.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-    });
-  };
+  const formatDate = (dateStr: string) => tz.date(tz.parse(dateStr));
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatHeight = (meters: number) => {
     if (useMetric) {
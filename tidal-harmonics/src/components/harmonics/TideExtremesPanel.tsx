@@ -1,14 +1,17 @@
 import { useMemo } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { findExtremes, predictTideSeries } from '@/lib/harmonics';
-import { format, formatDistanceToNow, isFuture, addHours } from 'date-fns';
+import { findPreciseExtremes } from '@/lib/harmonics';
+import type { TideExtremeClass } from '@/lib/harmonics';
+import { formatDistanceToNow, isFuture, addHours } from 'date-fns';
 import { formatHeight } from '@/lib/units';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TideExtremeDisplay {
   time: Date;
   height: number;
   type: 'high' | 'low';
+  classification?: TideExtremeClass;
   isNext: boolean;
   distanceText: string;
 }
@@ -20,6 +23,7 @@ interface TideExtremeDisplay {
  * Highlights the next tide and provides useful timing information.
  */
 export function TideExtremesPanel() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -31,9 +35,8 @@ export function TideExtremesPanel() {
     const start = now;
     const end = addHours(now, 48);
 
-    // Generate fine-grained predictions
-    const series = predictTideSeries(station, start, end, 6); // 6-minute intervals
-    const rawExtremes = findExtremes(series);
+    // Extremes refined to the minute from the tide's rate of change
+    const rawExtremes = findPreciseExtremes(station, start, end);
 
     // Format for display
     const displayed: TideExtremeDisplay[] = rawExtremes
@@ -46,6 +49,7 @@ export function TideExtremesPanel() {
           time: e.time,
           height: e.height,
           type: e.type,
+          ...(e.classification && { classification: e.classification }),
           isNext: isNextTide,
           distanceText: formatDistanceToNow(e.time, { addSuffix: true }),
         };
@@ -102,7 +106,7 @@ export function TideExtremesPanel() {
           </div>
           <div className="mt-2 flex justify-between text-sm">
             <span className="text-slate-400">
-              {format(nextExtreme.time, 'h:mm a')}
+              {tz.format(nextExtreme.time, 'h:mm a')}
             </span>
             <span className="text-slate-400">{nextExtreme.distanceText}</span>
           </div>
@@ -129,9 +133,12 @@ export function TideExtremesPanel() {
               >
                 {extreme.type === 'high' ? 'High' : 'Low'}
               </span>
+              {extreme.classification && (
+                <span className="text-[10px] text-slate-500 font-mono">{extreme.classification}</span>
+              )}
             </div>
             <div className="text-slate-400 text-xs">
-              {format(extreme.time, 'EEE h:mm a')}
+              {tz.format(extreme.time, 'EEE h:mm a')}
             </div>
             <div className="text-white font-mono w-20 text-right">
               {formatHeight(extreme.height, unitSystem)}
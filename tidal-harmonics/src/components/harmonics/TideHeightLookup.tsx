@@ -1,23 +1,25 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide, predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours, subHours } from 'date-fns';
+import { addHours, subHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TideHeightLookupProps {
   onClose: () => void;
 }
 
 export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
 
-  const [queryTime, setQueryTime] = useState(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const [queryTime, setQueryTime] = useState(tz.format(new Date(), "yyyy-MM-dd'T'HH:mm"));
 
   // Calculate tide at query time
   const result = useMemo(() => {
     if (!selectedStation) return null;
 
-    const time = new Date(queryTime);
+    const time = tz.parse(queryTime);
     const height = predictTide(selectedStation, time);
 
     // Get surrounding context (±12 hours)
@@ -52,10 +54,8 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
     }
 
     // Find today's range
-    const todayStart = new Date(time);
-    todayStart.setHours(0, 0, 0, 0);
-    const todayEnd = new Date(time);
-    todayEnd.setHours(23, 59, 59, 999);
+    const todayStart = tz.startOfDay(time);
+    const todayEnd = new Date(tz.addDays(todayStart, 1).getTime() - 1);
     const todaySeries = predictTideSeries(selectedStation, todayStart, todayEnd, 10);
     const todayHeights = todaySeries.map(s => s.height);
     const todayMin = Math.min(...todayHeights);
@@ -71,7 +71,7 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
       series,
       todayRange: { min: todayMin, max: todayMax },
     };
-  }, [selectedStation, queryTime]);
+  }, [selectedStation, queryTime, tz]);
 
   const formatHeight = (m: number) => {
     if (unitSystem === 'imperial') {
@@ -88,14 +88,14 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
   };
 
   // Quick time buttons
-  const setToNow = () => setQueryTime(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const setToNow = () => setQueryTime(tz.format(new Date(), "yyyy-MM-dd'T'HH:mm"));
   const addTime = (hours: number) => {
-    const current = new Date(queryTime);
-    setQueryTime(format(addHours(current, hours), "yyyy-MM-dd'T'HH:mm"));
+    const current = tz.parse(queryTime);
+    setQueryTime(tz.format(addHours(current, hours), "yyyy-MM-dd'T'HH:mm"));
   };
 
   const stationName = selectedStation?.name ?? 'Selected Station';
-  const queryDate = new Date(queryTime);
+  const queryDate = tz.parse(queryTime);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -172,7 +172,7 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
             <div className="bg-slate-800 rounded-lg p-4 mb-4 text-center">
               <p className="text-xs text-slate-400 mb-1">{stationName}</p>
               <p className="text-sm text-slate-400 mb-2">
-                {format(queryDate, 'EEEE, MMMM d, yyyy')} at {format(queryDate, 'HH:mm')}
+                {tz.format(queryDate, 'EEEE, MMMM d, yyyy')} at {tz.format(queryDate, 'HH:mm')}
               </p>
               <p className="text-4xl font-mono font-bold text-cyan-400 mb-2">
                 {formatHeight(result.height)}
@@ -203,7 +203,7 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
                     {result.previousExtreme.type === 'high' ? '▲' : '▼'} {formatHeight(result.previousExtreme.height)}
                   </p>
                   <p className="text-xs text-slate-500">
-                    {format(result.previousExtreme.time, 'HH:mm')}
+                    {tz.format(result.previousExtreme.time, 'HH:mm')}
                   </p>
                 </div>
               )}
@@ -214,7 +214,7 @@ export function TideHeightLookup({ onClose }: TideHeightLookupProps) {
                     {result.nextExtreme.type === 'high' ? '▲' : '▼'} {formatHeight(result.nextExtreme.height)}
                   </p>
                   <p className="text-xs text-slate-500">
-                    {format(result.nextExtreme.time, 'HH:mm')}
+                    {tz.format(result.nextExtreme.time, 'HH:mm')}
                   </p>
                 </div>
               )}
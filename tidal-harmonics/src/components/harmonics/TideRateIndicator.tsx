@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTide } from '@/lib/harmonics';
 import type { TideStation } from '@/types/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface TideRate {
   rate: number; // meters per hour
@@ -82,6 +83,7 @@ function formatTimeUntil(target: Date): string {
 }
 
 export function TideRateIndicator() {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
 
   const tideRate = useMemo(() => {
@@ -138,7 +140,7 @@ export function TideRateIndicator() {
           <span className="text-slate-400">Next slack water:</span>
           <div className="text-right">
             <span className="text-white">
-              {tideRate.nextSlack.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+              {tz.time(tideRate.nextSlack)}
             </span>
             <span className="text-slate-500 text-xs ml-1">
               ({formatTimeUntil(tideRate.nextSlack)})
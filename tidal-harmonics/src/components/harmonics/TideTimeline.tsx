@@ -2,16 +2,29 @@ import { useMemo } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { findExtremes, predictTideSeries } from '@/lib/harmonics';
-import { addHours, format, differenceInHours } from 'date-fns';
+import { addHours, differenceInHours } from 'date-fns';
 import { formatHeight } from '@/lib/units';
+import { findLightBands, findMoonUpIntervals } from '@/lib/daylight';
+import type { LightPhase } from '@/lib/daylight';
+import { useZonedTime } from '@/hooks/useZonedTime';
+
+const LIGHT_FILLS: Record<LightPhase, string | null> = {
+  day: null,
+  civil: 'rgba(100, 116, 139, 0.15)',
+  nautical: 'rgba(71, 85, 105, 0.25)',
+  astronomical: 'rgba(51, 65, 85, 0.35)',
+  night: 'rgba(2, 6, 23, 0.55)',
+};
 
 /**
  * TideTimeline
  *
  * A horizontal timeline showing the next 24 hours of tide levels.
- * Shows current position, high/low markers, and visual wave representation.
+ * Shows current position, high/low markers, and visual wave representation,
+ * over night and twilight shading and a strip for when the moon is up.
  */
 export function TideTimeline() {
+  const tz = useZonedTime();
   const epoch = useTimeStore((s) => s.epoch);
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
@@ -47,6 +60,8 @@ export function TideTimeline() {
     return {
       series: normalizedSeries,
       extremes: windowExtremes,
+      lightBands: findLightBands(station.lat, station.lon, start, end),
+      moonUp: findMoonUpIntervals(station.lat, station.lon, start, end),
       minHeight,
       maxHeight,
       range,
@@ -63,7 +78,10 @@ export function TideTimeline() {
     );
   }
 
-  const { series, extremes, minHeight, maxHeight, start, end } = timelineData;
+  const { series, extremes, lightBands, moonUp, minHeight, maxHeight, start, end } = timelineData;
+
+  // Horizontal position of a time, as a percentage of the 24 hours
+  const xOf = (time: Date) => ((time.getTime() - start.getTime()) / (end.getTime() - start.getTime())) * 100;
 
   // Create SVG path from series
   const pathPoints = series
@@ -103,6 +121,35 @@ export function TideTimeline() {
             </linearGradient>
           </defs>
 
+          {/* Twilight and night */}
+          {lightBands.map((band) => {
+            const fill = LIGHT_FILLS[band.phase];
+            if (!fill) return null;
+            return (
+              <rect
+                key={band.start.getTime()}
+                x={xOf(band.start)}
+                y="0"
+                width={xOf(band.end) - xOf(band.start)}
+                height="100"
+                fill={fill}
+              />
+            );
+          })}
+
+          {/* Moon up */}
+          {moonUp.map((moon) => (
+            <rect
+              key={moon.start.getTime()}
+              x={xOf(moon.start)}
+              y="0"
+              width={xOf(moon.end) - xOf(moon.start)}
+              height="2.5"
+              fill="#e2e8f0"
+              fillOpacity="0.4"
+            />
+          ))}
+
           {/* Fill area under curve */}
           <path d={fillPath} fill="url(#timelineWaterGrad)" />
 
@@ -191,11 +238,25 @@ export function TideTimeline() {
 
       {/* Time axis labels */}
       <div className="flex justify-between mt-1 text-[10px] text-slate-500">
-        <span>{format(start, 'h a')}</span>
-        <span>{format(addHours(start, 6), 'h a')}</span>
-        <span>{format(addHours(start, 12), 'h a')}</span>
-        <span>{format(addHours(start, 18), 'h a')}</span>
-        <span>{format(end, 'h a')}</span>
+        <span>{tz.format(start, 'h a')}</span>
+        <span>{tz.format(addHours(start, 6), 'h a')}</span>
+        <span>{tz.format(addHours(start, 12), 'h a')}</span>
+        <span>{tz.format(addHours(start, 18), 'h a')}</span>
+        <span>{tz.format(end, 'h a')}</span>
+      </div>
+
+      {/* Sunrise and sunset */}
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-1 text-[10px] text-slate-500">
+        {lightBands.slice(1).map((band, i) => {
+          const previous = lightBands[i]!;
+          if (band.phase !== 'day' && previous.phase !== 'day') return null;
+          return (
+            <span key={band.start.getTime()}>
+              {band.phase === 'day' ? '☀ Sunrise' : '☾ Sunset'} {tz.format(band.start, 'h:mm a')}
+            </span>
+          );
+        })}
+        {moonUp.length > 0 && <span>▬ Moon up</span>}
       </div>
 
       {/* Extreme events list */}
@@ -213,7 +274,7 @@ export function TideTimeline() {
                 {extreme.type === 'high' ? 'High' : 'Low'} Tide
               </span>
             </div>
-            <span className="text-slate-400">{format(extreme.time, 'h:mm a')}</span>
+            <span className="text-slate-400">{tz.format(extreme.time, 'h:mm a')}</span>
             <span className="text-white font-mono w-16 text-right">
               {formatHeight(extreme.height, unitSystem)}
             </span>
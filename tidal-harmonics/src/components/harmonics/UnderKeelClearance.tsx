@@ -2,6 +2,11 @@ import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
+import { dynamicClearance, minimumWaterDepth, SQUAT_FORMULA_LABELS } from '@/lib/keelClearance';
+import type { ShipParticulars, SquatFormula, TransitConditions } from '@/lib/keelClearance';
+import { VesselPicker } from './VesselPicker';
 
 interface UnderKeelClearanceProps {
   onClose: () => void;
@@ -16,30 +21,69 @@ interface SafeWindow {
 }
 
 export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const epoch = useTimeStore((s) => s.epoch);
 
-  const [vesselDraft, setVesselDraft] = useState(3.5); // meters
+  const { vessel, updateVessel } = useVessel();
   const [channelDepth, setChannelDepth] = useState(5.0); // meters at chart datum
   const [requiredUKC, setRequiredUKC] = useState(0.5); // meters
-  const [squat, setSquat] = useState(0.2); // meters (vessel squat at speed)
-  const [heelAllowance, setHeelAllowance] = useState(0); // meters
+
+  // Transit conditions for the dynamic allowances
+  const [speed, setSpeed] = useState(() => vessel.cruiseSpeed); // knots through the water
+  const [blockCoefficient, setBlockCoefficient] = useState(0.65);
+  const [squatFormula, setSquatFormula] = useState<SquatFormula>('barrass');
+  const [channelWidth, setChannelWidth] = useState(0); // 0 for open water
+  const [turnRadius, setTurnRadius] = useState(0); // 0 on a straight course
+  const [metacentricHeight, setMetacentricHeight] = useState(1.0);
+  const [centreOfGravity, setCentreOfGravity] = useState(2.0);
+  const [staticHeel, setStaticHeel] = useState(0); // degrees
+  const [waveHeight, setWaveHeight] = useState(0); // significant height
+  const [wavePeriod, setWavePeriod] = useState(8); // seconds
 
   const isMetric = unitSystem === 'metric';
 
+  // The draft is the vessel profile's, shown in display units
+  const vesselDraft = Number((isMetric ? vessel.draft : vessel.draft * 3.281).toFixed(2));
+  const setVesselDraft = (value: number) => updateVessel({ draft: isMetric ? value : value / 3.281 });
+
   // Convert display values to metric for calculations
-  const vesselDraftM = isMetric ? vesselDraft : vesselDraft / 3.281;
-  const channelDepthM = isMetric ? channelDepth : channelDepth / 3.281;
-  const requiredUKCM = isMetric ? requiredUKC : requiredUKC / 3.281;
-  const squatM = isMetric ? squat : squat / 3.281;
-  const heelM = isMetric ? heelAllowance : heelAllowance / 3.281;
+  const toM = (value: number) => (isMetric ? value : value / 3.281);
+  const channelDepthM = toM(channelDepth);
+  const requiredUKCM = toM(requiredUKC);
 
-  // Total draft including dynamic allowances
-  const totalDraft = vesselDraftM + squatM + heelM;
+  const ship: ShipParticulars = useMemo(
+    () => ({ draft: vessel.draft, beam: vessel.beam, length: vessel.loa, blockCoefficient }),
+    [vessel.draft, vessel.beam, vessel.loa, blockCoefficient]
+  );
+  const conditions: TransitConditions = useMemo(
+    () => ({
+      speed,
+      squatFormula,
+      channelWidth: isMetric ? channelWidth : channelWidth / 3.281,
+      turnRadius: isMetric ? turnRadius : turnRadius / 3.281,
+      metacentricHeight: isMetric ? metacentricHeight : metacentricHeight / 3.281,
+      centreOfGravity: isMetric ? centreOfGravity : centreOfGravity / 3.281,
+      staticHeel,
+      swell: { significantHeight: isMetric ? waveHeight : waveHeight / 3.281, period: wavePeriod },
+    }),
+    [
+      isMetric,
+      speed,
+      squatFormula,
+      channelWidth,
+      turnRadius,
+      metacentricHeight,
+      centreOfGravity,
+      staticHeel,
+      waveHeight,
+      wavePeriod,
+    ]
+  );
 
-  // Minimum tide height needed for safe passage
-  const minTideRequired = totalDraft + requiredUKCM - channelDepthM;
+  // Minimum tide height needed for safe passage; squat eases as the tide rises
+  const minTideRequired = minimumWaterDepth(ship, conditions, requiredUKCM) - channelDepthM;
 
   const analysis = useMemo(() => {
     if (!station) return null;
@@ -51,6 +95,13 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
     const series = predictTideSeries(station, now, end, 10);
     const extremes = findExtremes(series);
 
+    // Every allowance at each time, for the timeline
+    const timeline = series.map((point) => ({
+      time: point.time,
+      tide: point.height,
+      ...dynamicClearance(ship, conditions, channelDepthM + point.height),
+    }));
+
     // Find safe passage windows
     const safeWindows: SafeWindow[] = [];
     let windowStart: Date | null = null;
@@ -58,9 +109,8 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
     let windowMaxClearance = -Infinity;
     let windowMaxHeight = -Infinity;
 
-    for (const point of series) {
-      const availableDepth = channelDepthM + point.height;
-      const ukc = availableDepth - totalDraft;
+    for (const point of timeline) {
+      const ukc = point.ukc;
       const isSafe = ukc >= requiredUKCM;
 
       if (isSafe) {
@@ -68,11 +118,11 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
           windowStart = point.time;
           windowMinClearance = ukc;
           windowMaxClearance = ukc;
-          windowMaxHeight = point.height;
+          windowMaxHeight = point.tide;
         } else {
           windowMinClearance = Math.min(windowMinClearance, ukc);
           windowMaxClearance = Math.max(windowMaxClearance, ukc);
-          windowMaxHeight = Math.max(windowMaxHeight, point.height);
+          windowMaxHeight = Math.max(windowMaxHeight, point.tide);
         }
       } else if (windowStart) {
         safeWindows.push({
@@ -101,34 +151,30 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
     }
 
     // Current status
-    const currentTide = series[0]?.height || 0;
-    const currentDepth = channelDepthM + currentTide;
-    const currentUKC = currentDepth - totalDraft;
-    const currentStatus = currentUKC >= requiredUKCM ? 'safe' : 'unsafe';
+    const current = timeline[0] ?? { tide: 0, ...dynamicClearance(ship, conditions, channelDepthM) };
+    const currentStatus = current.ukc >= requiredUKCM ? 'safe' : 'unsafe';
 
     return {
-      currentTide,
-      currentDepth,
-      currentUKC,
+      current,
+      currentTide: current.tide,
+      currentDepth: current.waterDepth,
+      currentUKC: current.ukc,
       currentStatus,
       safeWindows,
       extremes,
+      // Hourly rows for the allowance breakdown
+      timeline: timeline.filter((_, i) => i % 6 === 0),
+      maxFroude: Math.max(...timeline.map((p) => p.depthFroude)),
       minTideRequired: Math.max(0, minTideRequired)
     };
-  }, [station, epoch, channelDepthM, totalDraft, requiredUKCM, minTideRequired]);
+  }, [station, epoch, channelDepthM, ship, conditions, requiredUKCM, minTideRequired]);
 
   const formatDepth = (d: number) => {
     if (isMetric) return `${d.toFixed(2)} m`;
     return `${(d * 3.281).toFixed(1)} ft`;
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
+  const formatTime = (date: Date) => tz.time(date);
 
   const formatDuration = (start: Date, end: Date) => {
     const diff = end.getTime() - start.getTime();
@@ -169,6 +215,10 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
             <span className="text-white ml-2 font-medium">{station.name}</span>
           </div>
 
+          <div className="mb-4">
+            <VesselPicker />
+          </div>
+
           {/* Input parameters */}
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
             <div>
@@ -211,59 +261,193 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
                 className="w-full px-3 py-2 bg-slate-700 rounded text-white"
               />
             </div>
+          </div>
+
+          {/* Transit conditions */}
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">Transit Conditions</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
             <div>
               <label className="text-sm text-slate-400 block mb-1">
-                Squat Allowance ({isMetric ? 'm' : 'ft'})
-                <span className="text-xs text-slate-500 ml-1">(at speed)</span>
+                Speed (kts)
+                <span className="text-xs text-slate-500 ml-1">(through the water)</span>
               </label>
               <input
                 type="number"
-                value={squat}
-                onChange={(e) => setSquat(Number(e.target.value))}
-                step="0.05"
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                step="0.5"
                 min="0"
                 className="w-full px-3 py-2 bg-slate-700 rounded text-white"
               />
             </div>
             <div>
               <label className="text-sm text-slate-400 block mb-1">
-                Heel Allowance ({isMetric ? 'm' : 'ft'})
+                Block Coefficient
+                <span className="text-xs text-slate-500 ml-1">(Cb)</span>
               </label>
               <input
                 type="number"
-                value={heelAllowance}
-                onChange={(e) => setHeelAllowance(Number(e.target.value))}
-                step="0.05"
+                value={blockCoefficient}
+                onChange={(e) => setBlockCoefficient(Number(e.target.value))}
+                step="0.01"
                 min="0"
                 className="w-full px-3 py-2 bg-slate-700 rounded text-white"
               />
             </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">Squat Formula</label>
+              <select
+                value={squatFormula}
+                onChange={(e) => setSquatFormula(e.target.value as SquatFormula)}
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              >
+                {(Object.keys(SQUAT_FORMULA_LABELS) as SquatFormula[]).map((formula) => (
+                  <option key={formula} value={formula}>
+                    {SQUAT_FORMULA_LABELS[formula]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                Channel Width ({isMetric ? 'm' : 'ft'})
+                <span className="text-xs text-slate-500 ml-1">(0 for open water)</span>
+              </label>
+              <input
+                type="number"
+                value={channelWidth}
+                onChange={(e) => setChannelWidth(Number(e.target.value))}
+                step="10"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                Turn Radius ({isMetric ? 'm' : 'ft'})
+                <span className="text-xs text-slate-500 ml-1">(0 on a straight)</span>
+              </label>
+              <input
+                type="number"
+                value={turnRadius}
+                onChange={(e) => setTurnRadius(Number(e.target.value))}
+                step="50"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                Static Heel (°)
+                <span className="text-xs text-slate-500 ml-1">(list or wind)</span>
+              </label>
+              <input
+                type="number"
+                value={staticHeel}
+                onChange={(e) => setStaticHeel(Number(e.target.value))}
+                step="0.5"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                GM ({isMetric ? 'm' : 'ft'})
+              </label>
+              <input
+                type="number"
+                value={metacentricHeight}
+                onChange={(e) => setMetacentricHeight(Number(e.target.value))}
+                step="0.1"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                KG ({isMetric ? 'm' : 'ft'})
+                <span className="text-xs text-slate-500 ml-1">(above keel)</span>
+              </label>
+              <input
+                type="number"
+                value={centreOfGravity}
+                onChange={(e) => setCentreOfGravity(Number(e.target.value))}
+                step="0.1"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                Wave Height ({isMetric ? 'm' : 'ft'})
+                <span className="text-xs text-slate-500 ml-1">(significant)</span>
+              </label>
+              <input
+                type="number"
+                value={waveHeight}
+                onChange={(e) => setWaveHeight(Number(e.target.value))}
+                step="0.1"
+                min="0"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-400 block mb-1">
+                Wave Period (s)
+              </label>
+              <input
+                type="number"
+                value={wavePeriod}
+                onChange={(e) => setWavePeriod(Number(e.target.value))}
+                step="1"
+                min="1"
+                className="w-full px-3 py-2 bg-slate-700 rounded text-white"
+              />
+            </div>
           </div>
 
           {/* Calculation summary */}
-          <div className="bg-slate-900/50 rounded-lg p-4 mb-6">
-            <h3 className="text-sm font-semibold text-slate-400 mb-3">Draft Calculation</h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-              <div className="bg-slate-800 rounded p-2">
-                <div className="text-slate-400 text-xs">Static Draft</div>
-                <div className="text-white font-medium">{formatDepth(vesselDraftM)}</div>
-              </div>
-              <div className="bg-slate-800 rounded p-2">
-                <div className="text-slate-400 text-xs">+ Squat & Heel</div>
-                <div className="text-white font-medium">{formatDepth(squatM + heelM)}</div>
-              </div>
-              <div className="bg-slate-800 rounded p-2">
-                <div className="text-slate-400 text-xs">= Total Draft</div>
-                <div className="text-amber-400 font-bold">{formatDepth(totalDraft)}</div>
-              </div>
-              <div className="bg-slate-800 rounded p-2">
-                <div className="text-slate-400 text-xs">Min Tide Required</div>
-                <div className="text-cyan-400 font-bold">
-                  {minTideRequired > 0 ? formatDepth(minTideRequired) : 'None'}
+          {analysis && (
+            <div className="bg-slate-900/50 rounded-lg p-4 mb-6">
+              <h3 className="text-sm font-semibold text-slate-400 mb-3">Draft Calculation (Now)</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">Static Draft</div>
+                  <div className="text-white font-medium">{formatDepth(vessel.draft)}</div>
+                </div>
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">+ Squat ({SQUAT_FORMULA_LABELS[squatFormula]})</div>
+                  <div className="text-white font-medium">{formatDepth(analysis.current.squat)}</div>
+                </div>
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">+ Heel ({analysis.current.heelAngle.toFixed(1)}°)</div>
+                  <div className="text-white font-medium">{formatDepth(analysis.current.heel)}</div>
+                </div>
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">+ Wave Response</div>
+                  <div className="text-white font-medium">{formatDepth(analysis.current.wave)}</div>
+                </div>
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">= Dynamic Draft</div>
+                  <div className="text-amber-400 font-bold">
+                    {formatDepth(vessel.draft + analysis.current.squat + analysis.current.heel + analysis.current.wave)}
+                  </div>
+                </div>
+                <div className="bg-slate-800 rounded p-2">
+                  <div className="text-slate-400 text-xs">Min Tide Required</div>
+                  <div className="text-cyan-400 font-bold">
+                    {analysis.minTideRequired > 0 ? formatDepth(analysis.minTideRequired) : 'None'}
+                  </div>
                 </div>
               </div>
+              {analysis.maxFroude > 0.7 && (
+                <div className="mt-3 p-2 bg-red-900/30 border border-red-700/50 rounded text-xs text-red-300">
+                  Depth Froude number reaches {analysis.maxFroude.toFixed(2)}: squat grows steeply above 0.7
+                  and the formulas become unreliable. Slow down in this depth.
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
           {/* Current status */}
           {analysis && (
@@ -334,6 +518,53 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
                 )}
               </div>
 
+              {/* Hourly breakdown */}
+              <div className="mt-4 bg-slate-900/50 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-slate-400 mb-1">Hourly Clearance Breakdown</h3>
+                <p className="text-xs text-slate-500 mb-3">
+                  Every allowance behind each clearance, for the passage plan or the harbour master.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-400 text-left">
+                        <th className="py-1 pr-2">Time</th>
+                        <th className="py-1 pr-2 text-right">Tide</th>
+                        <th className="py-1 pr-2 text-right">Depth</th>
+                        <th className="py-1 pr-2 text-right">Draft</th>
+                        <th className="py-1 pr-2 text-right">Squat</th>
+                        <th className="py-1 pr-2 text-right">Heel</th>
+                        <th className="py-1 pr-2 text-right">Wave</th>
+                        <th className="py-1 pr-2 text-right">UKC</th>
+                        <th className="py-1 text-center"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.timeline.map((row) => {
+                        const safe = row.ukc >= requiredUKCM;
+                        return (
+                          <tr key={row.time.getTime()} className="border-t border-slate-700/50 text-slate-300">
+                            <td className="py-1 pr-2">{formatTime(row.time)}</td>
+                            <td className="py-1 pr-2 text-right">{formatDepth(row.tide)}</td>
+                            <td className="py-1 pr-2 text-right">{formatDepth(row.waterDepth)}</td>
+                            <td className="py-1 pr-2 text-right">{formatDepth(vessel.draft)}</td>
+                            <td className="py-1 pr-2 text-right">
+                              {Number.isFinite(row.squat) ? formatDepth(row.squat) : '—'}
+                            </td>
+                            <td className="py-1 pr-2 text-right">{formatDepth(row.heel)}</td>
+                            <td className="py-1 pr-2 text-right">{formatDepth(row.wave)}</td>
+                            <td className={`py-1 pr-2 text-right font-medium ${safe ? 'text-green-400' : 'text-red-400'}`}>
+                              {Number.isFinite(row.ukc) ? formatDepth(row.ukc) : '—'}
+                            </td>
+                            <td className="py-1 text-center">{safe ? '✓' : '✗'}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
               {/* Upcoming extremes */}
               {analysis.extremes.length > 0 && (
                 <div className="mt-4 bg-slate-900/50 rounded-lg p-4">
@@ -361,7 +592,7 @@ export function UnderKeelClearance({ onClose }: UnderKeelClearanceProps) {
           {/* Disclaimer */}
           <div className="mt-4 p-3 bg-amber-900/20 border border-amber-700/30 rounded text-xs text-amber-400">
             <strong>Disclaimer:</strong> This is an educational tool only. Actual navigation decisions
-            must account for weather, waves, vessel trim, bottom conditions, and official hydrographic
+            must account for weather, vessel trim, bottom conditions, and official hydrographic
             data. Always consult current nautical charts and port authorities.
           </div>
         </div>
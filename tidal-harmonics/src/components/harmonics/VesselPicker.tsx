@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { useVesselStore } from '@/stores/vesselStore';
+import { useVessel } from '@/hooks/useVessel';
+import { RODE_TYPES, LITERS_PER_US_GALLON } from '@/lib/vessel';
+import type { FuelBurnPoint, RodeType, VesselProfileInput } from '@/lib/vessel';
+import { convertHeight, getHeightUnit, toMeters } from '@/lib/units';
+
+type LengthField = 'draft' | 'airDraft' | 'loa' | 'beam' | 'freeboard';
+
+const LENGTH_FIELDS: { field: LengthField; label: string }[] = [
+  { field: 'draft', label: 'Draft' },
+  { field: 'airDraft', label: 'Air draft' },
+  { field: 'loa', label: 'LOA' },
+  { field: 'beam', label: 'Beam' },
+  { field: 'freeboard', label: 'Bow freeboard' },
+];
+
+/**
+ * VesselPicker
+ *
+ * Chooses the boat the navigation tools work with, and edits its profile:
+ * dimensions, cruising speed, fuel burn curve and anchor rode. Profiles are
+ * saved in the browser and shared by every tool.
+ */
+export function VesselPicker() {
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const profiles = useVesselStore((s) => s.profiles);
+  const setActive = useVesselStore((s) => s.setActive);
+  const addProfile = useVesselStore((s) => s.addProfile);
+  const removeProfile = useVesselStore((s) => s.removeProfile);
+  const { vessel, updateVessel } = useVessel();
+  const [editing, setEditing] = useState(false);
+
+  const fuelUnit = unitSystem === 'metric' ? 'L/h' : 'gal/h';
+  const fuelFactor = unitSystem === 'metric' ? 1 : 1 / LITERS_PER_US_GALLON;
+
+  const addCopy = () => {
+    // The store gives the copy its own id
+    const input: VesselProfileInput = { ...vessel, name: `Boat ${profiles.length + 1}` };
+    addProfile(input);
+    setEditing(true);
+  };
+
+  const updateFuelPoint = (index: number, updates: Partial<FuelBurnPoint>) => {
+    updateVessel({ fuelBurn: vessel.fuelBurn.map((p, i) => (i === index ? { ...p, ...updates } : p)) });
+  };
+
+  const inputClass =
+    'w-full bg-slate-700 text-white text-sm rounded px-2 py-1 border border-slate-600 focus:border-cyan-500 focus:outline-none';
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-400">⛵ Vessel</span>
+        <select
+          value={vessel.id}
+          onChange={(e) => setActive(e.target.value)}
+          className="flex-1 min-w-0 bg-slate-700 text-white text-sm rounded px-2 py-1 border border-slate-600"
+          aria-label="Vessel profile"
+        >
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setEditing(!editing)}
+          className={`px-2 py-1 text-xs rounded ${editing ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+          aria-expanded={editing}
+        >
+          Edit
+        </button>
+        <button
+          onClick={addCopy}
+          className="px-2 py-1 text-xs rounded bg-slate-700 text-slate-300 hover:bg-slate-600"
+          title="New profile, starting from this one"
+        >
+          + New
+        </button>
+      </div>
+
+      {editing && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Name</label>
+            <input value={vessel.name} onChange={(e) => updateVessel({ name: e.target.value })} className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {LENGTH_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs text-slate-400 mb-1">
+                  {label} ({getHeightUnit(unitSystem)})
+                </label>
+                <input
+                  type="number"
+                  value={Number(convertHeight(vessel[field], unitSystem).toFixed(2))}
+                  onChange={(e) => updateVessel({ [field]: toMeters(Number(e.target.value), unitSystem) })}
+                  step={0.1}
+                  min={0}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Displacement (t)</label>
+              <input
+                type="number"
+                value={vessel.displacement}
+                onChange={(e) => updateVessel({ displacement: Number(e.target.value) })}
+                step={0.5}
+                min={0}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Cruise (kts)</label>
+              <input
+                type="number"
+                value={vessel.cruiseSpeed}
+                onChange={(e) => updateVessel({ cruiseSpeed: Number(e.target.value) })}
+                step={0.5}
+                min={0.5}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Anchor rode</label>
+              <select
+                value={vessel.rodeType}
+                onChange={(e) => updateVessel({ rodeType: e.target.value as RodeType })}
+                className={inputClass}
+              >
+                {RODE_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Fuel burn curve */}
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Fuel burn ({fuelUnit} at speed through water)</div>
+            <div className="space-y-1">
+              {vessel.fuelBurn.map((point, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    value={point.speed}
+                    onChange={(e) => updateFuelPoint(i, { speed: Number(e.target.value) })}
+                    step={0.5}
+                    min={0}
+                    className={`${inputClass} w-20`}
+                    aria-label="Speed (kts)"
+                  />
+                  <span className="text-xs text-slate-500">kts</span>
+                  <input
+                    type="number"
+                    value={Number((point.litersPerHour * fuelFactor).toFixed(1))}
+                    onChange={(e) => updateFuelPoint(i, { litersPerHour: Number(e.target.value) / fuelFactor })}
+                    step={0.5}
+                    min={0}
+                    className={`${inputClass} w-20`}
+                    aria-label={`Burn (${fuelUnit})`}
+                  />
+                  <span className="text-xs text-slate-500">{fuelUnit}</span>
+                  <button
+                    onClick={() => updateVessel({ fuelBurn: vessel.fuelBurn.filter((_, k) => k !== i) })}
+                    className="text-red-400 hover:text-red-300 px-1"
+                    aria-label="Remove point"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => {
+                const last = vessel.fuelBurn[vessel.fuelBurn.length - 1];
+                updateVessel({
+                  fuelBurn: [...vessel.fuelBurn, { speed: (last?.speed ?? 5) + 1, litersPerHour: last?.litersPerHour ?? 10 }],
+                });
+              }}
+              className="mt-1 text-xs text-cyan-400 hover:text-cyan-300"
+            >
+              + Add point
+            </button>
+          </div>
+
+          {profiles.length > 1 && (
+            <button
+              onClick={() => {
+                removeProfile(vessel.id);
+                setEditing(false);
+              }}
+              className="text-xs text-red-400 hover:text-red-300"
+            >
+              Delete {vessel.name || 'this profile'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { createVirtualStation, confidenceLabel } from '@/lib/virtualStation';
+import { formatHeight } from '@/lib/units';
+import type { TideStation } from '@/types/harmonics';
+
+interface VirtualStationPanelProps {
+  onClose: () => void;
+}
+
+const DISTANCE_OPTIONS = [50, 100, 250, 500];
+const STATION_OPTIONS = [2, 3, 4, 6, 8];
+
+const CONFIDENCE_COLORS = {
+  high: 'text-green-400',
+  moderate: 'text-amber-400',
+  low: 'text-red-400',
+};
+
+function constituentOf(station: TideStation | undefined, symbol: string) {
+  return station?.constituents.find((c) => c.symbol === symbol);
+}
+
+/**
+ * VirtualStationPanel
+ *
+ * Predicts the tide at any position by interpolating the harmonic constants
+ * of the surrounding stations, for sites that sit between gauges. Lists the
+ * contributing stations with their weights, and how far to trust the result.
+ */
+export function VirtualStationPanel({ onClose }: VirtualStationPanelProps) {
+  const stations = useHarmonicsStore((s) => s.stations);
+  const selectedStation = useHarmonicsStore((s) => s.selectedStation);
+  const selectVirtualStation = useHarmonicsStore((s) => s.selectVirtualStation);
+  const loadStationsNear = useHarmonicsStore((s) => s.loadStationsNear);
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+
+  const [lat, setLat] = useState(() => (selectedStation ? selectedStation.lat.toFixed(4) : ''));
+  const [lon, setLon] = useState(() => (selectedStation ? selectedStation.lon.toFixed(4) : ''));
+  const [maxDistanceKm, setMaxDistanceKm] = useState(250);
+  const [maxStations, setMaxStations] = useState(4);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  const latValue = parseFloat(lat);
+  const lonValue = parseFloat(lon);
+  const positionValid = Math.abs(latValue) <= 90 && Math.abs(lonValue) <= 180;
+
+  // Fetch the catalog regions around the point; the result updates as they arrive
+  useEffect(() => {
+    if (!positionValid) return;
+    loadStationsNear(latValue, lonValue, maxDistanceKm).catch(() => {
+      setLocationError('Could not load the stations around this point');
+    });
+  }, [positionValid, latValue, lonValue, maxDistanceKm, loadStationsNear]);
+
+  const virtual = useMemo(
+    () => (positionValid ? createVirtualStation(latValue, lonValue, stations, { maxDistanceKm, maxStations }) : null),
+    [positionValid, latValue, lonValue, stations, maxDistanceKm, maxStations]
+  );
+
+  const useMyLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Geolocation not supported');
+      return;
+    }
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLat(position.coords.latitude.toFixed(4));
+        setLon(position.coords.longitude.toFixed(4));
+        setLocating(false);
+      },
+      () => {
+        setLocationError('Could not get location');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  };
+
+  const source = virtual?.virtual;
+  const label = source ? confidenceLabel(source.confidence) : null;
+  const m2 = constituentOf(virtual ?? undefined, 'M2');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl border border-slate-700 max-w-2xl w-full mx-4 max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white">Tide at Any Point</h2>
+            <p className="text-slate-400 text-sm">Constants interpolated from the surrounding stations</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors p-1" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Position */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <label className="block text-xs text-slate-400">
+              Latitude
+              <input
+                value={lat}
+                inputMode="decimal"
+                onChange={(e) => setLat(e.target.value)}
+                className="w-full bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Longitude
+              <input
+                value={lon}
+                inputMode="decimal"
+                onChange={(e) => setLon(e.target.value)}
+                className="w-full bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              />
+            </label>
+            <label className="block text-xs text-slate-400">
+              Search radius
+              <select
+                value={maxDistanceKm}
+                onChange={(e) => setMaxDistanceKm(Number(e.target.value))}
+                className="w-full bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              >
+                {DISTANCE_OPTIONS.map((km) => (
+                  <option key={km} value={km}>
+                    {km} km
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Stations
+              <select
+                value={maxStations}
+                onChange={(e) => setMaxStations(Number(e.target.value))}
+                className="w-full bg-slate-700 text-white text-sm px-2 py-1 rounded border border-slate-600"
+              >
+                {STATION_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    up to {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            <button
+              onClick={useMyLocation}
+              disabled={locating}
+              className="px-3 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              {locating ? 'Locating…' : 'Use my location'}
+            </button>
+            {locationError && <span className="text-red-400">{locationError}</span>}
+            {!positionValid && (lat || lon) && <span className="text-red-400">Enter a latitude and longitude</span>}
+          </div>
+
+          {positionValid && !virtual && (
+            <p className="bg-slate-800 rounded-lg p-3 text-sm text-slate-400">
+              No harmonic stations within {maxDistanceKm} km. Widen the search radius, or add a station nearby.
+            </p>
+          )}
+
+          {virtual && source && label && (
+            <>
+              {/* Confidence */}
+              <div className="bg-slate-800 rounded-lg p-3 grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <div className={`text-lg font-bold ${CONFIDENCE_COLORS[label]}`}>
+                    {Math.round(source.confidence * 100)}%
+                  </div>
+                  <div className="text-xs text-slate-500">{label} confidence</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-white">{Math.round(source.coherence * 100)}%</div>
+                  <div className="text-xs text-slate-500" title="How closely the stations agree on the main constituent">
+                    phase agreement
+                  </div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-white">
+                    {m2 ? `${formatHeight(m2.amplitude, unitSystem)} / ${m2.phase.toFixed(0)}°` : '—'}
+                  </div>
+                  <div className="text-xs text-slate-500">M2 amplitude / phase</div>
+                </div>
+              </div>
+
+              {/* Contributors */}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500 text-left">
+                    <th className="font-normal pb-1">Station</th>
+                    <th className="font-normal pb-1 text-right">Distance</th>
+                    <th className="font-normal pb-1 text-right">M2</th>
+                    <th className="font-normal pb-1 pl-3">Weight</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {source.contributors.map((c) => {
+                    const station = stations.find((s) => s.id === c.id);
+                    const cm2 = constituentOf(station, 'M2');
+                    return (
+                      <tr key={c.id} className="border-t border-slate-800">
+                        <td className="py-1 text-slate-200">{c.name}</td>
+                        <td className="py-1 text-right text-slate-400">{c.distanceKm.toFixed(1)} km</td>
+                        <td className="py-1 text-right text-slate-400">
+                          {cm2 ? `${formatHeight(cm2.amplitude, unitSystem)} / ${cm2.phase.toFixed(0)}°` : '—'}
+                        </td>
+                        <td className="py-1 pl-3">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-1.5 bg-slate-700 rounded">
+                              <div className="h-1.5 bg-cyan-500 rounded" style={{ width: `${c.weight * 100}%` }} />
+                            </div>
+                            <span className="text-xs text-slate-400 w-9 text-right">{Math.round(c.weight * 100)}%</span>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <p className="text-xs text-slate-500">
+                Heights are about mean sea level. Confidence falls with distance to the stations and where they
+                disagree on phase, e.g. across a headland or near an amphidromic point.
+              </p>
+
+              <button
+                onClick={() => {
+                  selectVirtualStation(virtual);
+                  onClose();
+                }}
+                className="w-full px-4 py-2 rounded bg-cyan-600 text-white hover:bg-cyan-500 transition-colors text-sm"
+              >
+                Predict tides here
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
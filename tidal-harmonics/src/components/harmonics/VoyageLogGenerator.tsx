@@ -1,7 +1,8 @@
 import { useState, useMemo, useRef } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours } from 'date-fns';
+import { addHours } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 interface VoyageLogGeneratorProps {
   onClose: () => void;
@@ -16,6 +17,7 @@ interface VoyageEntry {
 }
 
 export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
   const unitSystem = useHarmonicsStore((s) => s.unitSystem);
   const printRef = useRef<HTMLDivElement>(null);
@@ -25,7 +27,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
   const [voyageFrom, setVoyageFrom] = useState('');
   const [voyageTo, setVoyageTo] = useState('');
   const [departureDate, setDepartureDate] = useState(
-    format(new Date(), "yyyy-MM-dd'T'HH:mm")
+    tz.format(new Date(), "yyyy-MM-dd'T'HH:mm")
   );
   const [voyageDuration, setVoyageDuration] = useState(24); // hours
   const [masterName, setMasterName] = useState('');
@@ -36,7 +38,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
   const voyageData = useMemo(() => {
     if (!selectedStation) return null;
 
-    const start = new Date(departureDate);
+    const start = tz.parse(departureDate);
     const end = addHours(start, voyageDuration);
 
     // Get tide series (use finer resolution for better extreme detection)
@@ -104,7 +106,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
         range: maxHeight - minHeight,
       },
     };
-  }, [selectedStation, departureDate, voyageDuration, voyageFrom, voyageTo, vesselDraft]);
+  }, [selectedStation, departureDate, voyageDuration, voyageFrom, voyageTo, vesselDraft, tz]);
 
   const formatHeight = (m: number) => {
     if (unitSystem === 'imperial') {
@@ -157,7 +159,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
       <body>
         ${printContent.innerHTML}
         <div class="footer">
-          Generated on ${format(new Date(), 'PPpp')} | Tidal predictions for ${selectedStation?.name || 'station'}
+          Generated on ${tz.format(new Date(), 'DD tt')} | Tidal predictions for ${selectedStation?.name || 'station'}
           <br>
           <em>Predictions are based on harmonic analysis and may not account for meteorological effects.</em>
         </div>
@@ -307,7 +309,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
               <div className="grid grid-cols-2 gap-x-8 gap-y-2 mb-4 text-sm">
                 <div><span className="text-slate-500">From:</span> {voyageFrom || '-'}</div>
                 <div><span className="text-slate-500">To:</span> {voyageTo || '-'}</div>
-                <div><span className="text-slate-500">Departure:</span> {format(new Date(departureDate), 'PPp')}</div>
+                <div><span className="text-slate-500">Departure:</span> {tz.format(tz.parse(departureDate), 'DD t')}</div>
                 <div><span className="text-slate-500">Duration:</span> {voyageDuration} hours</div>
                 <div><span className="text-slate-500">Master:</span> {masterName || '-'}</div>
                 <div><span className="text-slate-500">Draft:</span> {formatHeight(vesselDraft)}</div>
@@ -353,7 +355,7 @@ export function VoyageLogGenerator({ onClose }: VoyageLogGeneratorProps) {
                   {voyageData.entries.map((entry, i) => (
                     <tr key={i} className={entry.event.includes('Water') ? 'bg-blue-50' : ''}>
                       <td className="border border-slate-300 px-2 py-1">
-                        {format(entry.time, 'MMM d HH:mm')}
+                        {tz.format(entry.time, 'MMM d HH:mm')}
                       </td>
                       <td className="border border-slate-300 px-2 py-1 font-medium">
                         {entry.event}
@@ -12,7 +12,7 @@ import {
 import { useTimeStore } from '@/stores/timeStore';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { CONSTITUENTS } from '@/data/constituents';
-import { predictTideFromConstituents, predictTide } from '@/lib/harmonics';
+import { getConstituentContributions, predictTide } from '@/lib/harmonics';
 
 const CONSTITUENT_COLORS = [
   '#3b82f6', // blue
@@ -66,9 +66,9 @@ export function WaveformDecomposition() {
       const point: WaveformDataPoint = { hour: h, total: predictTide(station, time) };
 
       // Calculate each selected constituent's contribution
+      const contributions = getConstituentContributions(station, time);
       for (const symbol of selectedConstituents) {
-        const height = predictTideFromConstituents(station, time, [symbol]);
-        point[symbol] = height;
+        point[symbol] = contributions.find((c) => c.symbol === symbol)?.contribution ?? 0;
       }
 
       data.push(point);
@@ -1,7 +1,12 @@
 import { useState, useMemo } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
-import { format, addHours, addMinutes } from 'date-fns';
+import { createStreamModel, planLeg, rhumbLine } from '@/lib/passagePlan';
+import type { LegPlan } from '@/lib/passagePlan';
+import type { TideStation } from '@/types/harmonics';
+import { addHours, addMinutes } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
+import { useVessel } from '@/hooks/useVessel';
 
 interface WaypointRoutePlannerProps {
   onClose: () => void;
@@ -10,7 +15,8 @@ interface WaypointRoutePlannerProps {
 interface Waypoint {
   id: string;
   name: string;
-  distance: number; // nm from start (cumulative)
+  lat: number;
+  lon: number;
   tidalGate: boolean; // requires specific tidal timing
   gateType: 'slack-only' | 'flood-only' | 'ebb-only' | 'any';
   notes: string;
@@ -19,9 +25,7 @@ interface Waypoint {
 interface RouteLeg {
   from: Waypoint;
   to: Waypoint;
-  distance: number;
-  departureTime: Date;
-  arrivalTime: Date;
+  plan: LegPlan; // track, stream and course to steer
   tidalCondition: string;
   waitTime: number; // minutes waiting for tidal gate
 }
@@ -34,17 +38,28 @@ interface RouteOption {
   rating: 'excellent' | 'good' | 'fair' | 'poor';
 }
 
-const DEFAULT_WAYPOINTS: Waypoint[] = [
-  { id: '1', name: 'Departure', distance: 0, tidalGate: false, gateType: 'any', notes: '' },
-  { id: '2', name: 'Tidal Gate 1', distance: 8, tidalGate: true, gateType: 'slack-only', notes: 'Narrow passage' },
-  { id: '3', name: 'Arrival', distance: 20, tidalGate: false, gateType: 'any', notes: '' },
-];
+// A starter route heading west from the station, to be edited into the real one
+function defaultWaypoints(station: TideStation | null): Waypoint[] {
+  const lat = station?.lat ?? 50;
+  const lon = station?.lon ?? -1;
+  const west = (nm: number) => lon - nm / (60 * Math.cos((lat * Math.PI) / 180));
+  return [
+    { id: '1', name: 'Departure', lat, lon, tidalGate: false, gateType: 'any', notes: '' },
+    { id: '2', name: 'Tidal Gate 1', lat, lon: west(8), tidalGate: true, gateType: 'slack-only', notes: 'Narrow passage' },
+    { id: '3', name: 'Arrival', lat, lon: west(20), tidalGate: false, gateType: 'any', notes: '' },
+  ];
+}
+
+const formatBearing = (degrees: number) => `${String(Math.round(degrees) % 360).padStart(3, '0')}°`;
 
 export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
+  const tz = useZonedTime();
   const selectedStation = useHarmonicsStore((s) => s.selectedStation);
 
-  const [waypoints, setWaypoints] = useState<Waypoint[]>(DEFAULT_WAYPOINTS);
-  const [boatSpeed, setBoatSpeed] = useState(6); // knots
+  const [waypoints, setWaypoints] = useState<Waypoint[]>(() => defaultWaypoints(selectedStation));
+  const { vessel, updateVessel } = useVessel();
+  const boatSpeed = vessel.cruiseSpeed; // knots through the water
+  const setBoatSpeed = (speed: number) => updateVessel({ cruiseSpeed: speed });
   const [maxStreamRate, setMaxStreamRate] = useState(3); // knots at tidal gates
 
   // Calculate tidal windows for the next 24 hours
@@ -87,6 +102,8 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
 
     const now = new Date();
     const options: RouteOption[] = [];
+    // Streams for the last departure plus a long passage
+    const streams = createStreamModel(now, addHours(now, 72));
 
     // Try starting at different times
     for (let h = 0; h < 24; h += 1) {
@@ -101,17 +118,20 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
       for (let i = 0; i < waypoints.length - 1; i++) {
         const from = waypoints[i]!;
         const to = waypoints[i + 1]!;
-        const legDistance = to.distance - from.distance;
 
-        // Calculate base travel time
-        const travelMinutes = (legDistance / boatSpeed) * 60;
+        // Time the leg through the stream; a stream the boat can't stem rules the departure out
+        const plan = planLeg(from, to, currentTime, boatSpeed, streams);
+        if (!plan) {
+          routeFeasible = false;
+          break;
+        }
 
         // Check if destination has a tidal gate requirement
         let waitMinutes = 0;
         let tidalCondition = 'any';
 
         if (to.tidalGate) {
-          const arrivalTime = addMinutes(currentTime, travelMinutes);
+          const arrivalTime = plan.arrival;
 
           if (to.gateType === 'slack-only') {
             // Find next slack water after arrival
@@ -159,16 +179,12 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
 
         if (!routeFeasible) break;
 
-        const departureTime = currentTime;
-        const arrivalTime = addMinutes(currentTime, travelMinutes);
-        const gatePassTime = addMinutes(arrivalTime, waitMinutes);
+        const gatePassTime = addMinutes(plan.arrival, waitMinutes);
 
         legs.push({
           from,
           to,
-          distance: legDistance,
-          departureTime,
-          arrivalTime,
+          plan,
           tidalCondition,
           waitTime: waitMinutes,
         });
@@ -179,9 +195,7 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
 
       if (!routeFeasible) continue;
 
-      const totalTime =
-        legs.reduce((sum, leg) => sum + (leg.arrivalTime.getTime() - leg.departureTime.getTime()) / 60000, 0) +
-        totalWaitTime;
+      const totalTime = legs.reduce((sum, leg) => sum + leg.plan.minutes, 0) + totalWaitTime;
 
       // Rate the route
       let rating: RouteOption['rating'];
@@ -205,11 +219,14 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
 
   const addWaypoint = () => {
     const lastWaypoint = waypoints[waypoints.length - 1];
-    if (!lastWaypoint) return;
+    const previous = waypoints[waypoints.length - 2];
+    if (!lastWaypoint || !previous) return;
+    // Halfway along the final leg, ready to be moved
     const newWaypoint: Waypoint = {
       id: Date.now().toString(),
       name: `Waypoint ${waypoints.length}`,
-      distance: lastWaypoint.distance + 5,
+      lat: Number(((previous.lat + lastWaypoint.lat) / 2).toFixed(4)),
+      lon: Number(((previous.lon + lastWaypoint.lon) / 2).toFixed(4)),
       tidalGate: false,
       gateType: 'any',
       notes: '',
@@ -260,9 +277,11 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
           <div className="bg-slate-800 rounded-lg p-3 text-sm text-slate-300">
             <p className="font-medium text-emerald-400 mb-2">Tidal Gate Planning</p>
             <p>
-              Plan routes through areas with tidal constraints. Mark waypoints as "tidal gates" that
-              require specific conditions (slack water, flood, or ebb) to pass safely. The planner
-              finds optimal departure times to minimize waiting at gates.
+              Plan routes through areas with tidal constraints. Each leg is timed through the tidal
+              stream from the nearest current station, solving the vector triangle for the course to
+              steer and speed over ground. Mark waypoints as "tidal gates" that require specific
+              conditions (slack water, flood, or ebb) to pass safely; the planner finds departure
+              times that minimize waiting at gates.
             </p>
           </div>
 
@@ -271,7 +290,7 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
             <h3 className="text-sm font-medium text-slate-300 mb-3">Vessel Parameters</h3>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="block text-xs text-slate-400 mb-1">Boat Speed (kts)</label>
+                <label className="block text-xs text-slate-400 mb-1">Boat Speed Through Water (kts)</label>
                 <input
                   type="number"
                   value={boatSpeed}
@@ -324,15 +343,35 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
                       />
                       <input
                         type="number"
-                        value={wp.distance}
-                        onChange={(e) => updateWaypoint(wp.id, { distance: Number(e.target.value) })}
-                        className="w-20 px-2 py-1 bg-slate-600 rounded text-white text-sm text-right"
-                        placeholder="nm"
-                        min={0}
+                        value={wp.lat}
+                        onChange={(e) => updateWaypoint(wp.id, { lat: Number(e.target.value) })}
+                        className="w-24 px-2 py-1 bg-slate-600 rounded text-white text-sm text-right"
+                        aria-label="Latitude"
+                        min={-89}
+                        max={89}
+                        step={0.001}
+                      />
+                      <input
+                        type="number"
+                        value={wp.lon}
+                        onChange={(e) => updateWaypoint(wp.id, { lon: Number(e.target.value) })}
+                        className="w-24 px-2 py-1 bg-slate-600 rounded text-white text-sm text-right"
+                        aria-label="Longitude"
+                        min={-180}
+                        max={180}
+                        step={0.001}
                       />
-                      <span className="text-slate-400 text-sm py-1">nm</span>
                     </div>
 
+                    {i > 0 && (
+                      <div className="text-xs text-slate-400">
+                        {(() => {
+                          const leg = rhumbLine(waypoints[i - 1]!, wp);
+                          return `Leg ${i}: ${formatBearing(leg.course)}T, ${leg.distance.toFixed(1)} nm`;
+                        })()}
+                      </div>
+                    )}
+
                     <div className="flex items-center gap-4">
                       <label className="flex items-center gap-2 text-xs text-slate-300">
                         <input
@@ -395,7 +434,7 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
                       <div className="flex items-center gap-3">
                         <div className={`w-2 h-2 rounded-full ${getRatingColor(option.rating)}`} />
                         <span className="text-white font-medium">
-                          Depart: {format(option.startTime, 'HH:mm')}
+                          Depart: {tz.format(option.startTime, 'HH:mm')}
                         </span>
                       </div>
                       <div className="text-sm">
@@ -411,19 +450,29 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
 
                     <div className="ml-5 space-y-1 text-xs">
                       {option.legs.map((leg, j) => (
-                        <div key={j} className="flex items-center gap-2 text-slate-400">
-                          <span>{format(leg.departureTime, 'HH:mm')}</span>
-                          <span className="text-slate-600">→</span>
-                          <span>{leg.from.name}</span>
-                          <span className="text-slate-600">to</span>
-                          <span>{leg.to.name}</span>
-                          <span className="text-slate-500">({leg.distance.toFixed(1)} nm)</span>
-                          {leg.to.tidalGate && (
-                            <span className="text-cyan-400">
-                              [{leg.tidalCondition}
-                              {leg.waitTime > 0 && `, wait ${formatDuration(leg.waitTime)}`}]
-                            </span>
-                          )}
+                        <div key={j} className="text-slate-400">
+                          <div className="flex items-center gap-2">
+                            <span>{tz.format(leg.plan.departure, 'HH:mm')}</span>
+                            <span className="text-slate-600">→</span>
+                            <span>{leg.from.name}</span>
+                            <span className="text-slate-600">to</span>
+                            <span>{leg.to.name}</span>
+                            <span className="text-slate-500">({leg.plan.distance.toFixed(1)} nm)</span>
+                            {leg.to.tidalGate && (
+                              <span className="text-cyan-400">
+                                [{leg.tidalCondition}
+                                {leg.waitTime > 0 && `, wait ${formatDuration(leg.waitTime)}`}]
+                              </span>
+                            )}
+                          </div>
+                          <div className="ml-11 text-slate-500">
+                            Track {formatBearing(leg.plan.course)}T · steer {formatBearing(leg.plan.heading)}T · SOG{' '}
+                            {leg.plan.speedOverGround.toFixed(1)} kts ·{' '}
+                            {leg.plan.streamStation
+                              ? `stream ${formatBearing(leg.plan.stream.set)} ${leg.plan.stream.drift.toFixed(1)} kts (${leg.plan.streamStation.name})`
+                              : 'no stream data'}{' '}
+                            · ETA {tz.format(leg.plan.arrival, 'HH:mm')}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -437,6 +486,7 @@ export function WaypointRoutePlanner({ onClose }: WaypointRoutePlannerProps) {
           <div className="bg-slate-800 rounded-lg p-3 text-xs text-slate-400">
             <p className="font-medium text-slate-300 mb-1">Tidal Gate Tips:</p>
             <ul className="list-disc list-inside space-y-1">
+              <li>Streams come from the nearest current station within 50 km; other legs are planned in still water</li>
               <li>Narrow passages often require slack water for safe transit</li>
               <li>Some channels can only be entered on the flood (against ebb current)</li>
               <li>Plan to arrive at gates with margin - conditions vary from predictions</li>
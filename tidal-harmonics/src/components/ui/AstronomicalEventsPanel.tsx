@@ -2,7 +2,8 @@ import { useMemo, useState } from 'react';
 import { useTimeStore } from '@/stores/timeStore';
 import { getUpcomingTidalEvents } from '@/lib/ephemeris';
 import type { AstronomicalEvent } from '@/lib/ephemeris';
-import { format, formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow } from 'date-fns';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 const EVENT_ICONS: Record<AstronomicalEvent['type'], string> = {
   new_moon: '🌑',
@@ -134,6 +135,7 @@ export function AstronomicalEventsPanel() {
 }
 
 function EventRow({ event }: { event: AstronomicalEvent }) {
+  const tz = useZonedTime();
   const [showDetails, setShowDetails] = useState(false);
 
   return (
@@ -147,8 +149,8 @@ function EventRow({ event }: { event: AstronomicalEvent }) {
           <span className="text-sm text-white">{event.label}</span>
         </div>
         <div className="text-right">
-          <div className="text-xs">{format(event.date, 'MMM d')}</div>
-          <div className="text-xs opacity-60">{format(event.date, 'HH:mm')}</div>
+          <div className="text-xs">{tz.format(event.date, 'MMM d')}</div>
+          <div className="text-xs opacity-60">{tz.format(event.date, 'HH:mm')}</div>
         </div>
       </button>
 
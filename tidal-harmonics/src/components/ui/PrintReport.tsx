@@ -1,31 +1,31 @@
 import { useMemo } from 'react';
-import { format } from 'date-fns';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
 import { useTimeStore } from '@/stores/timeStore';
 import { predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { useZonedTime } from '@/hooks/useZonedTime';
 
 /**
  * PrintReport - renders hidden content that appears only when printing.
  * The print button is in ExportMenu.tsx.
  */
 export function PrintReport() {
+  const tz = useZonedTime();
   const station = useHarmonicsStore((s) => s.selectedStation);
   const epoch = useTimeStore((s) => s.epoch);
 
   const tideData = useMemo(() => {
     if (!station) return { extremes: [], days: [] };
 
-    const now = new Date(epoch);
-    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    const start = tz.startOfDay(new Date(epoch));
+    const end = tz.addDays(start, 7);
 
     const series = predictTideSeries(station, start, end, 10);
     const extremes = findExtremes(series);
 
-    // Group by day
+    // Group by day in the display zone
     const days: Map<string, typeof extremes> = new Map();
     for (const e of extremes) {
-      const dayKey = format(e.time, 'yyyy-MM-dd');
+      const dayKey = tz.dayKey(e.time);
       if (!days.has(dayKey)) {
         days.set(dayKey, []);
       }
@@ -34,12 +34,13 @@ export function PrintReport() {
 
     return {
       extremes,
-      days: Array.from(days.entries()).map(([date, tides]) => ({
-        date: new Date(date),
+      days: Array.from(days.entries()).map(([key, tides]) => ({
+        key,
+        date: tides[0]!.time,
         tides,
       })),
     };
-  }, [station, epoch]);
+  }, [station, epoch, tz]);
 
   if (!station) return null;
 
@@ -55,7 +56,8 @@ export function PrintReport() {
             {Math.abs(station.lon).toFixed(4)}°{station.lon >= 0 ? 'E' : 'W'}
           </p>
           <p>Datum: {station.datum}</p>
-          <p>Generated: {format(new Date(epoch), 'PPP p')}</p>
+          <p>Generated: {tz.format(new Date(epoch), 'DDD t')}</p>
+          <p>Times: {tz.zone} ({tz.abbreviation(new Date(epoch))})</p>
         </header>
 
         <main>
@@ -72,13 +74,13 @@ export function PrintReport() {
             <tbody>
               {tideData.days.map((day) => (
                 day.tides.map((tide, i) => (
-                  <tr key={`${format(day.date, 'yyyy-MM-dd')}-${i}`}>
+                  <tr key={`${day.key}-${i}`}>
                     {i === 0 && (
                       <td rowSpan={day.tides.length} className="date-cell">
-                        {format(day.date, 'EEE, MMM d')}
+                        {tz.format(day.date, 'EEE, MMM d')}
                       </td>
                     )}
-                    <td>{format(tide.time, 'HH:mm')}</td>
+                    <td>{tz.format(tide.time, 'HH:mm')}</td>
                     <td className={tide.type === 'high' ? 'high-tide' : 'low-tide'}>
                       {tide.type === 'high' ? 'High' : 'Low'}
                     </td>
@@ -1,20 +1,23 @@
 import { useTime } from '@/hooks/useTime';
 import { useTimeStore } from '@/stores/timeStore';
+import { useZonedTime } from '@/hooks/useZonedTime';
 import { SPEED_PRESETS } from '@/types';
 
 export function TimeControls() {
   const { playing, speed, date, toggle, setSpeed, setDate } = useTime();
   const resetToNow = useTimeStore((s) => s.resetToNow);
+  const tz = useZonedTime();
 
+  // The input shows wall-clock time in the display zone
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newDate = new Date(e.target.value);
+    const newDate = tz.parse(e.target.value);
     if (!isNaN(newDate.getTime())) {
       setDate(newDate);
     }
   };
 
   const formatDateForInput = (d: Date): string => {
-    return d.toISOString().slice(0, 16);
+    return tz.format(d, "yyyy-MM-dd'T'HH:mm");
   };
 
   // Format current speed for display
@@ -31,7 +34,7 @@ export function TimeControls() {
     <div className="bg-slate-800/80 backdrop-blur-sm rounded-lg p-3">
       {/* Header with current time */}
       <div className="flex justify-between items-center mb-2">
-        <span className="text-xs text-slate-400">Simulation Time</span>
+        <span className="text-xs text-slate-400">Simulation Time ({tz.abbreviation(date)})</span>
         <span className="text-xs text-slate-500">{getSpeedDescription()}</span>
       </div>
 
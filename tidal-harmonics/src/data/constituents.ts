@@ -4,6 +4,8 @@ import type { Constituent } from '@/types/harmonics';
 // Doodson numbers: [T, s, h, p, N', p'] where:
 // T = mean lunar time, s = moon's longitude, h = sun's longitude,
 // p = lunar perigee, N' = lunar node, p' = solar perigee
+// The extended Doodson digit (doodsonPhase) adds Schureman's phase
+// constant in quarter cycles: -90° for K1, +90° for O1, P1 and Q1, etc.
 
 export const CONSTITUENTS: Record<string, Constituent> = {
   // ===== SEMIDIURNAL (period ~12 hours) =====
@@ -11,6 +13,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'M2',
     name: 'Principal lunar semidiurnal',
     doodson: [2, 0, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 28.984104,
     period: 12.4206012,
     family: 'semidiurnal',
@@ -20,6 +23,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'S2',
     name: 'Principal solar semidiurnal',
     doodson: [2, 2, -2, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 30.0,
     period: 12.0,
     family: 'semidiurnal',
@@ -29,6 +33,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'N2',
     name: 'Larger lunar elliptic semidiurnal',
     doodson: [2, -1, 0, 1, 0, 0],
+    doodsonPhase: 0,
     speed: 28.439730,
     period: 12.6583,
     family: 'semidiurnal',
@@ -38,6 +43,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'K2',
     name: 'Lunisolar semidiurnal',
     doodson: [2, 2, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 30.082138,
     period: 11.9672,
     family: 'semidiurnal',
@@ -47,6 +53,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'NU2',
     name: 'Larger lunar evectional',
     doodson: [2, -1, 2, -1, 0, 0],
+    doodsonPhase: 0,
     speed: 28.512583,
     period: 12.6260,
     family: 'semidiurnal',
@@ -56,6 +63,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'MU2',
     name: 'Variational',
     doodson: [2, -2, 2, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 27.968208,
     period: 12.8718,
     family: 'semidiurnal',
@@ -65,6 +73,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: '2N2',
     name: 'Lunar elliptic semidiurnal (2nd order)',
     doodson: [2, -2, 0, 2, 0, 0],
+    doodsonPhase: 0,
     speed: 27.895355,
     period: 12.9054,
     family: 'semidiurnal',
@@ -74,6 +83,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'L2',
     name: 'Smaller lunar elliptic semidiurnal',
     doodson: [2, 1, 0, -1, 0, 0],
+    doodsonPhase: 2,
     speed: 29.528479,
     period: 12.1916,
     family: 'semidiurnal',
@@ -83,6 +93,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'T2',
     name: 'Larger solar elliptic',
     doodson: [2, 2, -3, 0, 0, 1],
+    doodsonPhase: 0,
     speed: 29.958933,
     period: 12.0164,
     family: 'semidiurnal',
@@ -92,6 +103,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'R2',
     name: 'Smaller solar elliptic',
     doodson: [2, 2, -1, 0, 0, -1],
+    doodsonPhase: 2,
     speed: 30.041067,
     period: 11.9836,
     family: 'semidiurnal',
@@ -101,6 +113,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'LAM2',
     name: 'Smaller lunar evectional',
     doodson: [2, 1, -2, 1, 0, 0],
+    doodsonPhase: 2,
     speed: 29.455625,
     period: 12.2218,
     family: 'semidiurnal',
@@ -112,6 +125,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'K1',
     name: 'Lunisolar diurnal',
     doodson: [1, 1, 0, 0, 0, 0],
+    doodsonPhase: -1,
     speed: 15.041069,
     period: 23.9345,
     family: 'diurnal',
@@ -121,6 +135,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'O1',
     name: 'Principal lunar diurnal',
     doodson: [1, -1, 0, 0, 0, 0],
+    doodsonPhase: 1,
     speed: 13.943035,
     period: 25.8193,
     family: 'diurnal',
@@ -130,6 +145,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'P1',
     name: 'Principal solar diurnal',
     doodson: [1, 1, -2, 0, 0, 0],
+    doodsonPhase: 1,
     speed: 14.958931,
     period: 24.0659,
     family: 'diurnal',
@@ -139,6 +155,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'Q1',
     name: 'Larger lunar elliptic diurnal',
     doodson: [1, -2, 0, 1, 0, 0],
+    doodsonPhase: 1,
     speed: 13.398661,
     period: 26.8684,
     family: 'diurnal',
@@ -148,6 +165,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'J1',
     name: 'Smaller lunar elliptic diurnal',
     doodson: [1, 2, 0, -1, 0, 0],
+    doodsonPhase: -1,
     speed: 15.585443,
     period: 23.0985,
     family: 'diurnal',
@@ -157,6 +175,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'M1',
     name: 'Smaller lunar diurnal',
     doodson: [1, 0, 0, 0, 0, 0],
+    doodsonPhase: -1,
     speed: 14.496694,
     period: 24.8332,
     family: 'diurnal',
@@ -166,6 +185,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'OO1',
     name: 'Lunar diurnal (2nd order)',
     doodson: [1, 3, 0, 0, 0, 0],
+    doodsonPhase: -1,
     speed: 16.139102,
     period: 22.3061,
     family: 'diurnal',
@@ -175,6 +195,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'S1',
     name: 'Solar diurnal',
     doodson: [1, 1, -1, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 15.0,
     period: 24.0,
     family: 'diurnal',
@@ -184,6 +205,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'RHO1',
     name: 'Larger lunar evectional diurnal',
     doodson: [1, -2, 2, -1, 0, 0],
+    doodsonPhase: 1,
     speed: 13.471514,
     period: 26.7231,
     family: 'diurnal',
@@ -193,6 +215,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: '2Q1',
     name: 'Larger elliptic diurnal',
     doodson: [1, -3, 0, 2, 0, 0],
+    doodsonPhase: 1,
     speed: 12.854286,
     period: 28.0062,
     family: 'diurnal',
@@ -204,6 +227,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'Mf',
     name: 'Lunar fortnightly',
     doodson: [0, 2, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 1.098033,
     period: 327.8599,
     family: 'long-period',
@@ -213,6 +237,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'Mm',
     name: 'Lunar monthly',
     doodson: [0, 1, 0, -1, 0, 0],
+    doodsonPhase: 0,
     speed: 0.544375,
     period: 661.3092,
     family: 'long-period',
@@ -222,6 +247,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'Ssa',
     name: 'Solar semiannual',
     doodson: [0, 0, 2, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 0.082137,
     period: 4383.0521,
     family: 'long-period',
@@ -231,6 +257,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'Sa',
     name: 'Solar annual',
     doodson: [0, 0, 1, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 0.041069,
     period: 8766.1527,
     family: 'long-period',
@@ -240,6 +267,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'MSf',
     name: 'Lunisolar synodic fortnightly',
     doodson: [0, 2, -2, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 1.015896,
     period: 354.3671,
     family: 'long-period',
@@ -251,6 +279,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'M4',
     name: 'Shallow water overtide of M2',
     doodson: [4, 0, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 57.968208,
     period: 6.2103,
     family: 'shallow-water',
@@ -260,6 +289,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'MS4',
     name: 'Shallow water compound',
     doodson: [4, 2, -2, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 58.984104,
     period: 6.1033,
     family: 'shallow-water',
@@ -269,6 +299,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'M6',
     name: 'Shallow water overtide of M2 (2nd)',
     doodson: [6, 0, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 86.952313,
     period: 4.1402,
     family: 'shallow-water',
@@ -278,6 +309,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'MN4',
     name: 'Shallow water compound',
     doodson: [4, -1, 0, 1, 0, 0],
+    doodsonPhase: 0,
     speed: 57.423834,
     period: 6.2692,
     family: 'shallow-water',
@@ -287,6 +319,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'S4',
     name: 'Shallow water overtide of S2',
     doodson: [4, 4, -4, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 60.0,
     period: 6.0,
     family: 'shallow-water',
@@ -296,6 +329,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'S6',
     name: 'Shallow water overtide of S2 (2nd)',
     doodson: [6, 6, -6, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 90.0,
     period: 4.0,
     family: 'shallow-water',
@@ -305,6 +339,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'MK3',
     name: 'Shallow water terdiurnal',
     doodson: [3, 1, 0, 0, 0, 0],
+    doodsonPhase: -1,
     speed: 44.025173,
     period: 8.1771,
     family: 'shallow-water',
@@ -314,6 +349,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: '2MK3',
     name: 'Shallow water terdiurnal',
     doodson: [3, -1, 0, 0, 0, 0],
+    doodsonPhase: 1,
     speed: 42.927139,
     period: 8.3863,
     family: 'shallow-water',
@@ -323,6 +359,7 @@ export const CONSTITUENTS: Record<string, Constituent> = {
     symbol: 'M8',
     name: 'Shallow water eighth diurnal',
     doodson: [8, 0, 0, 0, 0, 0],
+    doodsonPhase: 0,
     speed: 115.936417,
     period: 3.1052,
     family: 'shallow-water',
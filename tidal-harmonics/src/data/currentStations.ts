@@ -0,0 +1,96 @@
+import type { CurrentStation } from '@/types/harmonics';
+
+// Sample tidal current stations
+// Constants are representative of the NOAA CO-OPS current predictions for
+// each channel (flood set, strength, and timing relative to the local tide)
+// and are meant for teaching, not navigation.
+//
+// Velocities are resolved along the flood direction (major axis, positive
+// flooding) and 90° clockwise of it (minor axis). The mean current carries
+// the residual flow, e.g. net ebb from river discharge.
+
+export const CURRENT_STATIONS: CurrentStation[] = [
+  // Golden Gate - max flood leads San Francisco high water by about 2 hours
+  {
+    id: 'SFB1201',
+    name: 'Golden Gate Bridge',
+    state: 'CA',
+    country: 'US',
+    lat: 37.8117,
+    lon: -122.4717,
+    timezone: 'America/Los_Angeles',
+    depth: 6,
+    floodDirection: 75,
+    meanCurrent: { major: -0.3, minor: 0 },
+    referenceStationId: '9414290',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', majorAmplitude: 2.31, majorPhase: 127.5, minorAmplitude: 0.18, minorPhase: 215.0 },
+      { symbol: 'S2', majorAmplitude: 0.55, majorPhase: 145.7, minorAmplitude: 0.04, minorPhase: 233.0 },
+      { symbol: 'N2', majorAmplitude: 0.5, majorPhase: 106.9, minorAmplitude: 0.04, minorPhase: 194.0 },
+      { symbol: 'K2', majorAmplitude: 0.15, majorPhase: 139.5, minorAmplitude: 0.01, minorPhase: 227.0 },
+      { symbol: 'K1', majorAmplitude: 0.78, majorPhase: 183.0, minorAmplitude: 0.06, minorPhase: 270.0 },
+      { symbol: 'O1', majorAmplitude: 0.47, majorPhase: 168.0, minorAmplitude: 0.04, minorPhase: 255.0 },
+      { symbol: 'P1', majorAmplitude: 0.24, majorPhase: 180.4, minorAmplitude: 0.02, minorPhase: 268.0 },
+      { symbol: 'Q1', majorAmplitude: 0.09, majorPhase: 156.6, minorAmplitude: 0.01, minorPhase: 244.0 },
+      { symbol: 'M4', majorAmplitude: 0.21, majorPhase: 126.2, minorAmplitude: 0.02, minorPhase: 214.0 },
+      { symbol: 'MS4', majorAmplitude: 0.07, majorPhase: 157.1, minorAmplitude: 0.01, minorPhase: 245.0 },
+    ],
+  },
+  // The Narrows, New York Harbor - strongly semidiurnal, flood sets north
+  {
+    id: 'NYH1927',
+    name: 'The Narrows, midchannel',
+    state: 'NY',
+    country: 'US',
+    lat: 40.6083,
+    lon: -74.0383,
+    timezone: 'America/New_York',
+    depth: 5,
+    floodDirection: 340,
+    meanCurrent: { major: -0.2, minor: 0 },
+    referenceStationId: '8518750',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', majorAmplitude: 1.52, majorPhase: 325.5, minorAmplitude: 0.12, minorPhase: 55.0 },
+      { symbol: 'S2', majorAmplitude: 0.31, majorPhase: 355.0, minorAmplitude: 0.02, minorPhase: 85.0 },
+      { symbol: 'N2', majorAmplitude: 0.36, majorPhase: 305.3, minorAmplitude: 0.03, minorPhase: 35.0 },
+      { symbol: 'K2', majorAmplitude: 0.09, majorPhase: 351.1, minorAmplitude: 0.01, minorPhase: 81.0 },
+      { symbol: 'K1', majorAmplitude: 0.13, majorPhase: 95.2, minorAmplitude: 0.01, minorPhase: 185.0 },
+      { symbol: 'O1', majorAmplitude: 0.08, majorPhase: 78.5, minorAmplitude: 0.01, minorPhase: 168.0 },
+      { symbol: 'M4', majorAmplitude: 0.16, majorPhase: 130.5, minorAmplitude: 0.01, minorPhase: 220.0 },
+      { symbol: 'MS4', majorAmplitude: 0.08, majorPhase: 160.3, minorAmplitude: 0.01, minorPhase: 250.0 },
+    ],
+  },
+  // Tacoma Narrows - standing-wave currents peak about 3 hours before
+  // Seattle high water, with a large diurnal inequality
+  {
+    id: 'PUG1515',
+    name: 'Tacoma Narrows, north end',
+    state: 'WA',
+    country: 'US',
+    lat: 47.2917,
+    lon: -122.5467,
+    timezone: 'America/Los_Angeles',
+    depth: 8,
+    floodDirection: 190,
+    meanCurrent: { major: -0.1, minor: 0 },
+    referenceStationId: '9447130',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', majorAmplitude: 3.28, majorPhase: 297.5, minorAmplitude: 0.3, minorPhase: 27.0 },
+      { symbol: 'S2', majorAmplitude: 0.82, majorPhase: 327.8, minorAmplitude: 0.07, minorPhase: 57.0 },
+      { symbol: 'N2', majorAmplitude: 0.66, majorPhase: 277.0, minorAmplitude: 0.06, minorPhase: 7.0 },
+      { symbol: 'K2', majorAmplitude: 0.23, majorPhase: 320.5, minorAmplitude: 0.02, minorPhase: 50.0 },
+      { symbol: 'K1', majorAmplitude: 1.22, majorPhase: 215.5, minorAmplitude: 0.1, minorPhase: 305.0 },
+      { symbol: 'O1', majorAmplitude: 0.71, majorPhase: 197.3, minorAmplitude: 0.06, minorPhase: 287.0 },
+      { symbol: 'P1', majorAmplitude: 0.38, majorPhase: 212.2, minorAmplitude: 0.03, minorPhase: 302.0 },
+      { symbol: 'Q1', majorAmplitude: 0.13, majorPhase: 185.0, minorAmplitude: 0.01, minorPhase: 275.0 },
+      { symbol: 'M4', majorAmplitude: 0.12, majorPhase: 325.0, minorAmplitude: 0.01, minorPhase: 55.0 },
+    ],
+  },
+];
+
+export function getCurrentStationById(id: string): CurrentStation | undefined {
+  return CURRENT_STATIONS.find((s) => s.id === id);
+}
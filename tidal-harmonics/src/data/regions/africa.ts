@@ -0,0 +1,30 @@
+import type { TideStation } from '@/types/harmonics';
+
+// African stations, loaded on demand by the station catalog
+// Listed in STATION_INDEX too, which must be updated alongside.
+
+export const STATIONS: TideStation[] = [
+  // Cape Town - Mixed semidiurnal (South Atlantic/Indian Ocean)
+  {
+    id: 'ZA-CPT',
+    name: 'Cape Town',
+    country: 'South Africa',
+    lat: -33.9249,
+    lon: 18.4241,
+    timezone: 'Africa/Johannesburg',
+    datum: 'LLD',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.485, phase: 122.0 },
+      { symbol: 'S2', amplitude: 0.178, phase: 148.0 },
+      { symbol: 'N2', amplitude: 0.105, phase: 102.0 },
+      { symbol: 'K1', amplitude: 0.058, phase: 242.0 },
+      { symbol: 'O1', amplitude: 0.042, phase: 215.0 },
+      { symbol: 'K2', amplitude: 0.052, phase: 142.0 },
+      { symbol: 'P1', amplitude: 0.018, phase: 238.0 },
+      { symbol: 'Q1', amplitude: 0.008, phase: 202.0 },
+      { symbol: 'M4', amplitude: 0.025, phase: 285.0 },
+      { symbol: 'MS4', amplitude: 0.012, phase: 315.0 },
+    ],
+  },
+];
@@ -0,0 +1,99 @@
+import type { TideStation } from '@/types/harmonics';
+
+// Asian stations, loaded on demand by the station catalog
+// Listed in STATION_INDEX too, which must be updated alongside.
+
+export const STATIONS: TideStation[] = [
+  // Tokyo - Mixed, mainly semidiurnal (Western Pacific)
+  {
+    id: 'JP-TK',
+    name: 'Tokyo',
+    country: 'Japan',
+    lat: 35.6528,
+    lon: 139.7700,
+    timezone: 'Asia/Tokyo',
+    datum: 'TP',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.492, phase: 185.0 },
+      { symbol: 'S2', amplitude: 0.198, phase: 215.0 },
+      { symbol: 'N2', amplitude: 0.108, phase: 162.0 },
+      { symbol: 'K1', amplitude: 0.245, phase: 195.0 },
+      { symbol: 'O1', amplitude: 0.178, phase: 175.0 },
+      { symbol: 'K2', amplitude: 0.056, phase: 208.0 },
+      { symbol: 'P1', amplitude: 0.078, phase: 192.0 },
+      { symbol: 'Q1', amplitude: 0.035, phase: 162.0 },
+      { symbol: 'M4', amplitude: 0.018, phase: 65.0 },
+      { symbol: 'MS4', amplitude: 0.008, phase: 95.0 },
+    ],
+  },
+  // Do Son, Vietnam - Diurnal (classic example of diurnal tides)
+  {
+    id: 'VN-DS',
+    name: 'Do Son',
+    country: 'Vietnam',
+    lat: 20.7167,
+    lon: 106.7833,
+    timezone: 'Asia/Ho_Chi_Minh',
+    datum: 'MSL',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.082, phase: 285.0 },
+      { symbol: 'S2', amplitude: 0.028, phase: 325.0 },
+      { symbol: 'N2', amplitude: 0.018, phase: 262.0 },
+      { symbol: 'K1', amplitude: 0.652, phase: 318.0 },
+      { symbol: 'O1', amplitude: 0.515, phase: 285.0 },
+      { symbol: 'K2', amplitude: 0.008, phase: 315.0 },
+      { symbol: 'P1', amplitude: 0.208, phase: 315.0 },
+      { symbol: 'Q1', amplitude: 0.098, phase: 272.0 },
+      { symbol: 'Mf', amplitude: 0.032, phase: 285.0 },
+      { symbol: 'Mm', amplitude: 0.018, phase: 175.0 },
+    ],
+  },
+  // Mumbai - Mixed mainly semidiurnal (Arabian Sea)
+  {
+    id: 'IN-MUM',
+    name: 'Mumbai',
+    country: 'India',
+    lat: 18.9388,
+    lon: 72.8354,
+    timezone: 'Asia/Kolkata',
+    datum: 'CD',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 1.542, phase: 325.0 },
+      { symbol: 'S2', amplitude: 0.685, phase: 358.0 },
+      { symbol: 'N2', amplitude: 0.328, phase: 302.0 },
+      { symbol: 'K1', amplitude: 0.492, phase: 48.0 },
+      { symbol: 'O1', amplitude: 0.285, phase: 22.0 },
+      { symbol: 'K2', amplitude: 0.192, phase: 352.0 },
+      { symbol: 'P1', amplitude: 0.158, phase: 45.0 },
+      { symbol: 'Q1', amplitude: 0.055, phase: 8.0 },
+      { symbol: 'M4', amplitude: 0.085, phase: 145.0 },
+      { symbol: 'MS4', amplitude: 0.048, phase: 178.0 },
+    ],
+  },
+  // Shanghai - Mixed semidiurnal (East China Sea)
+  {
+    id: 'CN-SHA',
+    name: 'Shanghai',
+    country: 'China',
+    lat: 31.2304,
+    lon: 121.4737,
+    timezone: 'Asia/Shanghai',
+    datum: 'MSL',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 1.285, phase: 248.0 },
+      { symbol: 'S2', amplitude: 0.458, phase: 285.0 },
+      { symbol: 'N2', amplitude: 0.275, phase: 225.0 },
+      { symbol: 'K1', amplitude: 0.318, phase: 325.0 },
+      { symbol: 'O1', amplitude: 0.225, phase: 298.0 },
+      { symbol: 'K2', amplitude: 0.128, phase: 278.0 },
+      { symbol: 'P1', amplitude: 0.102, phase: 322.0 },
+      { symbol: 'Q1', amplitude: 0.045, phase: 285.0 },
+      { symbol: 'M4', amplitude: 0.095, phase: 162.0 },
+      { symbol: 'MS4', amplitude: 0.045, phase: 195.0 },
+    ],
+  },
+];
@@ -0,0 +1,125 @@
+import type { TideStation } from '@/types/harmonics';
+
+// European stations, loaded on demand by the station catalog
+// Listed in STATION_INDEX too, which must be updated alongside.
+
+export const STATIONS: TideStation[] = [
+  // London (Tower Bridge) - Semidiurnal (Thames estuary)
+  {
+    id: 'UK-0113',
+    name: 'London Bridge',
+    country: 'UK',
+    lat: 51.5074,
+    lon: -0.0761,
+    timezone: 'Europe/London',
+    datum: 'ODN',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 2.183, phase: 356.0 },
+      { symbol: 'S2', amplitude: 0.689, phase: 44.5 },
+      { symbol: 'N2', amplitude: 0.422, phase: 336.0 },
+      { symbol: 'K1', amplitude: 0.156, phase: 52.0 },
+      { symbol: 'O1', amplitude: 0.098, phase: 328.0 },
+      { symbol: 'K2', amplitude: 0.195, phase: 39.0 },
+      { symbol: 'P1', amplitude: 0.052, phase: 48.0 },
+      { symbol: 'M4', amplitude: 0.312, phase: 165.0 },
+      { symbol: 'MS4', amplitude: 0.198, phase: 210.0 },
+      { symbol: 'MN4', amplitude: 0.125, phase: 145.0 },
+      { symbol: 'M6', amplitude: 0.089, phase: 75.0 },
+    ],
+  },
+  // Amsterdam - Semidiurnal (North Sea with shallow water effects)
+  {
+    id: 'NL-AMS',
+    name: 'Amsterdam',
+    country: 'Netherlands',
+    lat: 52.3791,
+    lon: 4.9003,
+    timezone: 'Europe/Amsterdam',
+    datum: 'NAP',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.592, phase: 295.0 },
+      { symbol: 'S2', amplitude: 0.158, phase: 345.0 },
+      { symbol: 'N2', amplitude: 0.118, phase: 275.0 },
+      { symbol: 'K1', amplitude: 0.082, phase: 128.0 },
+      { symbol: 'O1', amplitude: 0.048, phase: 95.0 },
+      { symbol: 'K2', amplitude: 0.045, phase: 338.0 },
+      { symbol: 'P1', amplitude: 0.028, phase: 125.0 },
+      { symbol: 'M4', amplitude: 0.145, phase: 195.0 },
+      { symbol: 'MS4', amplitude: 0.068, phase: 245.0 },
+      { symbol: 'MN4', amplitude: 0.042, phase: 168.0 },
+    ],
+  },
+  // Mont Saint-Michel - Extreme semidiurnal with massive shallow water effects
+  {
+    id: 'FR-MSM',
+    name: 'Mont Saint-Michel',
+    country: 'France',
+    lat: 48.6361,
+    lon: -1.5114,
+    timezone: 'Europe/Paris',
+    datum: 'IGN69',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 4.285, phase: 152.0 },
+      { symbol: 'S2', amplitude: 1.482, phase: 195.0 },
+      { symbol: 'N2', amplitude: 0.872, phase: 130.0 },
+      { symbol: 'K1', amplitude: 0.125, phase: 85.0 },
+      { symbol: 'O1', amplitude: 0.082, phase: 342.0 },
+      { symbol: 'K2', amplitude: 0.418, phase: 188.0 },
+      { symbol: 'P1', amplitude: 0.042, phase: 82.0 },
+      { symbol: 'M4', amplitude: 0.685, phase: 12.0 },
+      { symbol: 'MS4', amplitude: 0.325, phase: 62.0 },
+      { symbol: 'MN4', amplitude: 0.285, phase: 348.0 },
+      { symbol: 'M6', amplitude: 0.195, phase: 215.0 },
+      { symbol: 'M8', amplitude: 0.045, phase: 55.0 },
+    ],
+  },
+  // Gibraltar - Semidiurnal (Mediterranean gateway)
+  {
+    id: 'GI-GIB',
+    name: 'Gibraltar',
+    country: 'Gibraltar',
+    lat: 36.1408,
+    lon: -5.3536,
+    timezone: 'Europe/Gibraltar',
+    datum: 'CD',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.325, phase: 52.0 },
+      { symbol: 'S2', amplitude: 0.118, phase: 78.0 },
+      { symbol: 'N2', amplitude: 0.072, phase: 32.0 },
+      { symbol: 'K1', amplitude: 0.042, phase: 128.0 },
+      { symbol: 'O1', amplitude: 0.032, phase: 102.0 },
+      { symbol: 'K2', amplitude: 0.035, phase: 72.0 },
+      { symbol: 'P1', amplitude: 0.014, phase: 125.0 },
+      { symbol: 'Q1', amplitude: 0.006, phase: 92.0 },
+      { symbol: 'M4', amplitude: 0.008, phase: 165.0 },
+      { symbol: 'MS4', amplitude: 0.004, phase: 195.0 },
+    ],
+  },
+  // Stockholm - Very small tides (Baltic Sea)
+  {
+    id: 'SE-STO',
+    name: 'Stockholm',
+    country: 'Sweden',
+    lat: 59.3293,
+    lon: 18.0686,
+    timezone: 'Europe/Stockholm',
+    datum: 'RH2000',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.012, phase: 285.0 },
+      { symbol: 'S2', amplitude: 0.005, phase: 315.0 },
+      { symbol: 'N2', amplitude: 0.003, phase: 262.0 },
+      { symbol: 'K1', amplitude: 0.028, phase: 145.0 },
+      { symbol: 'O1', amplitude: 0.018, phase: 118.0 },
+      { symbol: 'K2', amplitude: 0.002, phase: 308.0 },
+      { symbol: 'P1', amplitude: 0.009, phase: 142.0 },
+      { symbol: 'Q1', amplitude: 0.004, phase: 105.0 },
+      { symbol: 'Mf', amplitude: 0.008, phase: 285.0 },
+      { symbol: 'Mm', amplitude: 0.005, phase: 175.0 },
+    ],
+  },
+];
@@ -0,0 +1,30 @@
+import type { TideStation } from '@/types/harmonics';
+
+// Oceania stations, loaded on demand by the station catalog
+// Listed in STATION_INDEX too, which must be updated alongside.
+
+export const STATIONS: TideStation[] = [
+  // Sydney - Semidiurnal (Southern Hemisphere Pacific)
+  {
+    id: 'AU-IDO70001',
+    name: 'Sydney (Fort Denison)',
+    country: 'Australia',
+    lat: -33.8547,
+    lon: 151.2258,
+    timezone: 'Australia/Sydney',
+    datum: 'AHD',
+    harmonicEpoch: '1992-2011',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.505, phase: 237.5 },
+      { symbol: 'S2', amplitude: 0.095, phase: 272.0 },
+      { symbol: 'N2', amplitude: 0.105, phase: 215.0 },
+      { symbol: 'K1', amplitude: 0.142, phase: 338.0 },
+      { symbol: 'O1', amplitude: 0.102, phase: 305.0 },
+      { symbol: 'K2', amplitude: 0.028, phase: 265.0 },
+      { symbol: 'P1', amplitude: 0.045, phase: 335.0 },
+      { symbol: 'Q1', amplitude: 0.020, phase: 290.0 },
+      { symbol: 'M4', amplitude: 0.012, phase: 95.0 },
+      { symbol: 'MS4', amplitude: 0.005, phase: 130.0 },
+    ],
+  },
+];
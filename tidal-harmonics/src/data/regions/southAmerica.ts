@@ -0,0 +1,30 @@
+import type { TideStation } from '@/types/harmonics';
+
+// South American stations, loaded on demand by the station catalog
+// Listed in STATION_INDEX too, which must be updated alongside.
+
+export const STATIONS: TideStation[] = [
+  // Rio de Janeiro - Mixed semidiurnal (South Atlantic)
+  {
+    id: 'BR-RIO',
+    name: 'Rio de Janeiro',
+    country: 'Brazil',
+    lat: -22.9068,
+    lon: -43.1729,
+    timezone: 'America/Sao_Paulo',
+    datum: 'MSL',
+    harmonicEpoch: '1983-2001',
+    constituents: [
+      { symbol: 'M2', amplitude: 0.312, phase: 68.0 },
+      { symbol: 'S2', amplitude: 0.148, phase: 85.0 },
+      { symbol: 'N2', amplitude: 0.072, phase: 48.0 },
+      { symbol: 'K1', amplitude: 0.068, phase: 185.0 },
+      { symbol: 'O1', amplitude: 0.105, phase: 155.0 },
+      { symbol: 'K2', amplitude: 0.042, phase: 78.0 },
+      { symbol: 'P1', amplitude: 0.022, phase: 182.0 },
+      { symbol: 'Q1', amplitude: 0.022, phase: 142.0 },
+      { symbol: 'M4', amplitude: 0.015, phase: 175.0 },
+      { symbol: 'MS4', amplitude: 0.008, phase: 205.0 },
+    ],
+  },
+];
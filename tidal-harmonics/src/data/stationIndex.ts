@@ -0,0 +1,83 @@
+import type { GeoBounds } from '@/lib/spatialIndex';
+import type { TidalType } from './stations';
+import { SUBORDINATE_STATION_DEFINITIONS } from './subordinateStations';
+
+// Station catalog index
+// Sample tide stations with harmonic constants from NOAA CO-OPS
+// Data source: https://tidesandcurrents.noaa.gov/harcon.html
+//
+// The constants live in region modules (src/data/regions) that load on
+// demand; this index of names and positions is bundled with the app so
+// stations can be searched, mapped and found by distance before their
+// region loads. Add a station to its region module and here together.
+
+export type StationRegion = 'north-america' | 'south-america' | 'europe' | 'africa' | 'asia' | 'oceania';
+
+export const STATION_REGIONS: { region: StationRegion; label: string; bounds: GeoBounds }[] = [
+  { region: 'north-america', label: 'North America', bounds: { south: 5, west: -180, north: 75, east: -50 } },
+  { region: 'south-america', label: 'South America', bounds: { south: -60, west: -95, north: 15, east: -30 } },
+  { region: 'europe', label: 'Europe', bounds: { south: 30, west: -30, north: 75, east: 45 } },
+  { region: 'africa', label: 'Africa', bounds: { south: -40, west: -25, north: 38, east: 55 } },
+  { region: 'asia', label: 'Asia', bounds: { south: -12, west: 45, north: 70, east: 150 } },
+  { region: 'oceania', label: 'Oceania', bounds: { south: -50, west: 110, north: 5, east: -150 } },
+];
+
+export interface StationSummary {
+  id: string;
+  name: string;
+  state?: string;
+  country: string;
+  lat: number;
+  lon: number;
+  region: StationRegion | null; // null: a user station, always loaded
+  tidalType: TidalType;
+  subordinate?: boolean;
+}
+
+const HARMONIC_STATIONS: StationSummary[] = [
+  { id: '9414290', name: 'San Francisco', state: 'CA', country: 'US', lat: 37.8067, lon: -122.465, region: 'north-america', tidalType: 'mixed-semidiurnal' },
+  { id: '8518750', name: 'The Battery, New York', state: 'NY', country: 'US', lat: 40.7006, lon: -74.0142, region: 'north-america', tidalType: 'semidiurnal' },
+  { id: '8443970', name: 'Boston', state: 'MA', country: 'US', lat: 42.3539, lon: -71.0503, region: 'north-america', tidalType: 'semidiurnal' },
+  { id: '9410660', name: 'Los Angeles', state: 'CA', country: 'US', lat: 33.7199, lon: -118.2729, region: 'north-america', tidalType: 'mixed-semidiurnal' },
+  { id: '8658120', name: 'Wilmington', state: 'NC', country: 'US', lat: 34.2275, lon: -77.9536, region: 'north-america', tidalType: 'mixed-semidiurnal' },
+  { id: '9447130', name: 'Seattle', state: 'WA', country: 'US', lat: 47.6026, lon: -122.3393, region: 'north-america', tidalType: 'mixed-semidiurnal' },
+  { id: '9455920', name: 'Anchorage', state: 'AK', country: 'US', lat: 61.2381, lon: -149.8894, region: 'north-america', tidalType: 'semidiurnal' },
+  { id: '8729840', name: 'Pensacola', state: 'FL', country: 'US', lat: 30.4044, lon: -87.2108, region: 'north-america', tidalType: 'diurnal' },
+  { id: '1612340', name: 'Honolulu', state: 'HI', country: 'US', lat: 21.3067, lon: -157.867, region: 'north-america', tidalType: 'mixed-semidiurnal' },
+  { id: 'UK-0113', name: 'London Bridge', country: 'UK', lat: 51.5074, lon: -0.0761, region: 'europe', tidalType: 'semidiurnal' },
+  { id: 'CA-0665', name: 'Burntcoat Head', state: 'NS', country: 'Canada', lat: 45.3089, lon: -63.7853, region: 'north-america', tidalType: 'semidiurnal' },
+  { id: 'AU-IDO70001', name: 'Sydney (Fort Denison)', country: 'Australia', lat: -33.8547, lon: 151.2258, region: 'oceania', tidalType: 'mixed-semidiurnal' },
+  { id: 'JP-TK', name: 'Tokyo', country: 'Japan', lat: 35.6528, lon: 139.77, region: 'asia', tidalType: 'mixed-semidiurnal' },
+  { id: 'NL-AMS', name: 'Amsterdam', country: 'Netherlands', lat: 52.3791, lon: 4.9003, region: 'europe', tidalType: 'semidiurnal' },
+  { id: 'VN-DS', name: 'Do Son', country: 'Vietnam', lat: 20.7167, lon: 106.7833, region: 'asia', tidalType: 'diurnal' },
+  { id: 'FR-MSM', name: 'Mont Saint-Michel', country: 'France', lat: 48.6361, lon: -1.5114, region: 'europe', tidalType: 'semidiurnal' },
+  { id: 'BR-RIO', name: 'Rio de Janeiro', country: 'Brazil', lat: -22.9068, lon: -43.1729, region: 'south-america', tidalType: 'mixed-semidiurnal' },
+  { id: 'ZA-CPT', name: 'Cape Town', country: 'South Africa', lat: -33.9249, lon: 18.4241, region: 'africa', tidalType: 'semidiurnal' },
+  { id: 'IN-MUM', name: 'Mumbai', country: 'India', lat: 18.9388, lon: 72.8354, region: 'asia', tidalType: 'mixed-semidiurnal' },
+  { id: 'CN-SHA', name: 'Shanghai', country: 'China', lat: 31.2304, lon: 121.4737, region: 'asia', tidalType: 'mixed-semidiurnal' },
+  { id: 'GI-GIB', name: 'Gibraltar', country: 'Gibraltar', lat: 36.1408, lon: -5.3536, region: 'europe', tidalType: 'semidiurnal' },
+  { id: 'SE-STO', name: 'Stockholm', country: 'Sweden', lat: 59.3293, lon: 18.0686, region: 'europe', tidalType: 'mixed-diurnal' },
+];
+
+// Subordinate stations load with their reference station's region
+const SUBORDINATE_SUMMARIES: StationSummary[] = SUBORDINATE_STATION_DEFINITIONS.flatMap(
+  ({ id, name, state, country, lat, lon, referenceId }) => {
+    const reference = HARMONIC_STATIONS.find((s) => s.id === referenceId);
+    if (!reference) return [];
+    return [
+      {
+        id,
+        name,
+        ...(state !== undefined && { state }),
+        country,
+        lat,
+        lon,
+        region: reference.region,
+        tidalType: reference.tidalType,
+        subordinate: true,
+      },
+    ];
+  }
+);
+
+export const STATION_INDEX: StationSummary[] = [...HARMONIC_STATIONS, ...SUBORDINATE_SUMMARIES];
@@ -1,8 +1,5 @@
 import type { TideStation } from '@/types/harmonics';
 
-// Sample tide stations with harmonic constants from NOAA CO-OPS
-// Data source: https://tidesandcurrents.noaa.gov/harcon.html
-//
 // Tidal Type Classification (based on (K1+O1)/(M2+S2) ratio):
 // - Semidiurnal: ratio < 0.25 (two nearly equal highs/day)
 // - Mixed, mainly semidiurnal: 0.25 ≤ ratio < 1.5
@@ -37,541 +34,3 @@ export function getTidalTypeLabel(type: TidalType): string {
     case 'diurnal': return 'Diurnal (1 high/day)';
   }
 }
-
-export const STATIONS: TideStation[] = [
-  {
-    id: '9414290',
-    name: 'San Francisco',
-    state: 'CA',
-    country: 'US',
-    lat: 37.8067,
-    lon: -122.465,
-    timezone: 'America/Los_Angeles',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.577, phase: 187.5 },
-      { symbol: 'S2', amplitude: 0.133, phase: 205.7 },
-      { symbol: 'N2', amplitude: 0.136, phase: 166.9 },
-      { symbol: 'K1', amplitude: 0.368, phase: 213.0 },
-      { symbol: 'O1', amplitude: 0.226, phase: 198.0 },
-      { symbol: 'K2', amplitude: 0.039, phase: 199.5 },
-      { symbol: 'P1', amplitude: 0.115, phase: 210.4 },
-      { symbol: 'Q1', amplitude: 0.044, phase: 186.6 },
-      { symbol: 'M4', amplitude: 0.023, phase: 246.2 },
-      { symbol: 'MS4', amplitude: 0.008, phase: 277.1 },
-      { symbol: 'Mf', amplitude: 0.015, phase: 245.3 },
-      { symbol: 'Mm', amplitude: 0.008, phase: 134.2 },
-    ],
-  },
-  {
-    id: '8518750',
-    name: 'The Battery, New York',
-    state: 'NY',
-    country: 'US',
-    lat: 40.7006,
-    lon: -74.0142,
-    timezone: 'America/New_York',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.671, phase: 355.5 },
-      { symbol: 'S2', amplitude: 0.146, phase: 25.0 },
-      { symbol: 'N2', amplitude: 0.159, phase: 335.3 },
-      { symbol: 'K1', amplitude: 0.102, phase: 110.2 },
-      { symbol: 'O1', amplitude: 0.056, phase: 93.5 },
-      { symbol: 'K2', amplitude: 0.042, phase: 21.1 },
-      { symbol: 'P1', amplitude: 0.033, phase: 109.0 },
-      { symbol: 'Q1', amplitude: 0.011, phase: 85.0 },
-      { symbol: 'M4', amplitude: 0.046, phase: 190.5 },
-      { symbol: 'MS4', amplitude: 0.026, phase: 220.3 },
-      { symbol: 'Mf', amplitude: 0.018, phase: 265.0 },
-      { symbol: 'Mm', amplitude: 0.012, phase: 156.0 },
-    ],
-  },
-  {
-    id: '8443970',
-    name: 'Boston',
-    state: 'MA',
-    country: 'US',
-    lat: 42.3539,
-    lon: -71.0503,
-    timezone: 'America/New_York',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 1.407, phase: 110.8 },
-      { symbol: 'S2', amplitude: 0.225, phase: 137.5 },
-      { symbol: 'N2', amplitude: 0.313, phase: 88.3 },
-      { symbol: 'K1', amplitude: 0.137, phase: 185.0 },
-      { symbol: 'O1', amplitude: 0.108, phase: 172.3 },
-      { symbol: 'K2', amplitude: 0.065, phase: 132.5 },
-      { symbol: 'P1', amplitude: 0.044, phase: 183.2 },
-      { symbol: 'Q1', amplitude: 0.021, phase: 162.0 },
-      { symbol: 'M4', amplitude: 0.045, phase: 320.0 },
-      { symbol: 'MS4', amplitude: 0.019, phase: 355.0 },
-    ],
-  },
-  {
-    id: '9410660',
-    name: 'Los Angeles',
-    state: 'CA',
-    country: 'US',
-    lat: 33.7199,
-    lon: -118.2729,
-    timezone: 'America/Los_Angeles',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.521, phase: 141.7 },
-      { symbol: 'S2', amplitude: 0.161, phase: 142.2 },
-      { symbol: 'N2', amplitude: 0.120, phase: 124.5 },
-      { symbol: 'K1', amplitude: 0.329, phase: 195.8 },
-      { symbol: 'O1', amplitude: 0.217, phase: 183.6 },
-      { symbol: 'K2', amplitude: 0.046, phase: 139.0 },
-      { symbol: 'P1', amplitude: 0.106, phase: 193.0 },
-      { symbol: 'Q1', amplitude: 0.041, phase: 172.0 },
-      { symbol: 'M4', amplitude: 0.007, phase: 85.0 },
-      { symbol: 'MS4', amplitude: 0.003, phase: 115.0 },
-    ],
-  },
-  {
-    id: '8658120',
-    name: 'Wilmington',
-    state: 'NC',
-    country: 'US',
-    lat: 34.2275,
-    lon: -77.9536,
-    timezone: 'America/New_York',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.585, phase: 28.5 },
-      { symbol: 'S2', amplitude: 0.094, phase: 46.0 },
-      { symbol: 'N2', amplitude: 0.128, phase: 8.3 },
-      { symbol: 'K1', amplitude: 0.168, phase: 182.5 },
-      { symbol: 'O1', amplitude: 0.156, phase: 180.2 },
-      { symbol: 'K2', amplitude: 0.028, phase: 42.5 },
-      { symbol: 'P1', amplitude: 0.054, phase: 180.0 },
-      { symbol: 'Q1', amplitude: 0.030, phase: 170.0 },
-      { symbol: 'M4', amplitude: 0.024, phase: 130.0 },
-      { symbol: 'MS4', amplitude: 0.010, phase: 155.0 },
-    ],
-  },
-  // Seattle - Mixed, mainly semidiurnal (strong diurnal inequality)
-  {
-    id: '9447130',
-    name: 'Seattle',
-    state: 'WA',
-    country: 'US',
-    lat: 47.6026,
-    lon: -122.3393,
-    timezone: 'America/Los_Angeles',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 1.076, phase: 27.5 },
-      { symbol: 'S2', amplitude: 0.276, phase: 57.8 },
-      { symbol: 'N2', amplitude: 0.228, phase: 7.0 },
-      { symbol: 'K1', amplitude: 0.856, phase: 260.5 },
-      { symbol: 'O1', amplitude: 0.498, phase: 242.3 },
-      { symbol: 'K2', amplitude: 0.078, phase: 50.5 },
-      { symbol: 'P1', amplitude: 0.267, phase: 257.2 },
-      { symbol: 'Q1', amplitude: 0.093, phase: 230.0 },
-      { symbol: 'M4', amplitude: 0.012, phase: 145.0 },
-      { symbol: 'MS4', amplitude: 0.005, phase: 180.0 },
-      { symbol: 'Mf', amplitude: 0.022, phase: 268.0 },
-      { symbol: 'Mm', amplitude: 0.012, phase: 155.0 },
-    ],
-  },
-  // Anchorage - Semidiurnal with very large range
-  {
-    id: '9455920',
-    name: 'Anchorage',
-    state: 'AK',
-    country: 'US',
-    lat: 61.2381,
-    lon: -149.8894,
-    timezone: 'America/Anchorage',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 3.652, phase: 6.8 },
-      { symbol: 'S2', amplitude: 0.983, phase: 35.2 },
-      { symbol: 'N2', amplitude: 0.752, phase: 346.0 },
-      { symbol: 'K1', amplitude: 0.672, phase: 270.5 },
-      { symbol: 'O1', amplitude: 0.408, phase: 253.0 },
-      { symbol: 'K2', amplitude: 0.276, phase: 28.0 },
-      { symbol: 'P1', amplitude: 0.216, phase: 267.5 },
-      { symbol: 'Q1', amplitude: 0.078, phase: 240.0 },
-      { symbol: 'M4', amplitude: 0.198, phase: 115.0 },
-      { symbol: 'MS4', amplitude: 0.095, phase: 145.0 },
-      { symbol: 'MN4', amplitude: 0.085, phase: 85.0 },
-      { symbol: 'M6', amplitude: 0.045, phase: 220.0 },
-    ],
-  },
-  // Pensacola - Mixed, tending diurnal (Gulf of Mexico)
-  {
-    id: '8729840',
-    name: 'Pensacola',
-    state: 'FL',
-    country: 'US',
-    lat: 30.4044,
-    lon: -87.2108,
-    timezone: 'America/Chicago',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.076, phase: 355.0 },
-      { symbol: 'S2', amplitude: 0.018, phase: 25.0 },
-      { symbol: 'N2', amplitude: 0.018, phase: 335.0 },
-      { symbol: 'K1', amplitude: 0.234, phase: 15.5 },
-      { symbol: 'O1', amplitude: 0.220, phase: 355.0 },
-      { symbol: 'K2', amplitude: 0.005, phase: 20.0 },
-      { symbol: 'P1', amplitude: 0.075, phase: 12.0 },
-      { symbol: 'Q1', amplitude: 0.042, phase: 340.0 },
-      { symbol: 'Mf', amplitude: 0.018, phase: 275.0 },
-      { symbol: 'Mm', amplitude: 0.010, phase: 165.0 },
-    ],
-  },
-  // Honolulu - Mixed tides (Pacific island)
-  {
-    id: '1612340',
-    name: 'Honolulu',
-    state: 'HI',
-    country: 'US',
-    lat: 21.3067,
-    lon: -157.867,
-    timezone: 'Pacific/Honolulu',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.192, phase: 222.5 },
-      { symbol: 'S2', amplitude: 0.067, phase: 244.0 },
-      { symbol: 'N2', amplitude: 0.045, phase: 202.0 },
-      { symbol: 'K1', amplitude: 0.141, phase: 75.0 },
-      { symbol: 'O1', amplitude: 0.091, phase: 54.0 },
-      { symbol: 'K2', amplitude: 0.019, phase: 237.0 },
-      { symbol: 'P1', amplitude: 0.044, phase: 72.0 },
-      { symbol: 'Q1', amplitude: 0.017, phase: 42.0 },
-      { symbol: 'M4', amplitude: 0.003, phase: 85.0 },
-    ],
-  },
-  // London (Tower Bridge) - Semidiurnal (Thames estuary)
-  {
-    id: 'UK-0113',
-    name: 'London Bridge',
-    country: 'UK',
-    lat: 51.5074,
-    lon: -0.0761,
-    timezone: 'Europe/London',
-    datum: 'ODN',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 2.183, phase: 356.0 },
-      { symbol: 'S2', amplitude: 0.689, phase: 44.5 },
-      { symbol: 'N2', amplitude: 0.422, phase: 336.0 },
-      { symbol: 'K1', amplitude: 0.156, phase: 52.0 },
-      { symbol: 'O1', amplitude: 0.098, phase: 328.0 },
-      { symbol: 'K2', amplitude: 0.195, phase: 39.0 },
-      { symbol: 'P1', amplitude: 0.052, phase: 48.0 },
-      { symbol: 'M4', amplitude: 0.312, phase: 165.0 },
-      { symbol: 'MS4', amplitude: 0.198, phase: 210.0 },
-      { symbol: 'MN4', amplitude: 0.125, phase: 145.0 },
-      { symbol: 'M6', amplitude: 0.089, phase: 75.0 },
-    ],
-  },
-  // Fundy - Extreme semidiurnal (world's highest tides)
-  {
-    id: 'CA-0665',
-    name: 'Burntcoat Head',
-    state: 'NS',
-    country: 'Canada',
-    lat: 45.3089,
-    lon: -63.7853,
-    timezone: 'America/Halifax',
-    datum: 'MLLW',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 5.650, phase: 100.5 },
-      { symbol: 'S2', amplitude: 0.920, phase: 135.0 },
-      { symbol: 'N2', amplitude: 1.180, phase: 78.0 },
-      { symbol: 'K1', amplitude: 0.158, phase: 178.0 },
-      { symbol: 'O1', amplitude: 0.098, phase: 165.0 },
-      { symbol: 'K2', amplitude: 0.255, phase: 125.0 },
-      { symbol: 'P1', amplitude: 0.052, phase: 175.0 },
-      { symbol: 'M4', amplitude: 0.485, phase: 295.0 },
-      { symbol: 'MS4', amplitude: 0.185, phase: 345.0 },
-      { symbol: 'MN4', amplitude: 0.225, phase: 265.0 },
-      { symbol: 'M6', amplitude: 0.145, phase: 85.0 },
-    ],
-  },
-  // Sydney - Semidiurnal (Southern Hemisphere Pacific)
-  {
-    id: 'AU-IDO70001',
-    name: 'Sydney (Fort Denison)',
-    country: 'Australia',
-    lat: -33.8547,
-    lon: 151.2258,
-    timezone: 'Australia/Sydney',
-    datum: 'AHD',
-    harmonicEpoch: '1992-2011',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.505, phase: 237.5 },
-      { symbol: 'S2', amplitude: 0.095, phase: 272.0 },
-      { symbol: 'N2', amplitude: 0.105, phase: 215.0 },
-      { symbol: 'K1', amplitude: 0.142, phase: 338.0 },
-      { symbol: 'O1', amplitude: 0.102, phase: 305.0 },
-      { symbol: 'K2', amplitude: 0.028, phase: 265.0 },
-      { symbol: 'P1', amplitude: 0.045, phase: 335.0 },
-      { symbol: 'Q1', amplitude: 0.020, phase: 290.0 },
-      { symbol: 'M4', amplitude: 0.012, phase: 95.0 },
-      { symbol: 'MS4', amplitude: 0.005, phase: 130.0 },
-    ],
-  },
-  // Tokyo - Mixed, mainly semidiurnal (Western Pacific)
-  {
-    id: 'JP-TK',
-    name: 'Tokyo',
-    country: 'Japan',
-    lat: 35.6528,
-    lon: 139.7700,
-    timezone: 'Asia/Tokyo',
-    datum: 'TP',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.492, phase: 185.0 },
-      { symbol: 'S2', amplitude: 0.198, phase: 215.0 },
-      { symbol: 'N2', amplitude: 0.108, phase: 162.0 },
-      { symbol: 'K1', amplitude: 0.245, phase: 195.0 },
-      { symbol: 'O1', amplitude: 0.178, phase: 175.0 },
-      { symbol: 'K2', amplitude: 0.056, phase: 208.0 },
-      { symbol: 'P1', amplitude: 0.078, phase: 192.0 },
-      { symbol: 'Q1', amplitude: 0.035, phase: 162.0 },
-      { symbol: 'M4', amplitude: 0.018, phase: 65.0 },
-      { symbol: 'MS4', amplitude: 0.008, phase: 95.0 },
-    ],
-  },
-  // Amsterdam - Semidiurnal (North Sea with shallow water effects)
-  {
-    id: 'NL-AMS',
-    name: 'Amsterdam',
-    country: 'Netherlands',
-    lat: 52.3791,
-    lon: 4.9003,
-    timezone: 'Europe/Amsterdam',
-    datum: 'NAP',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.592, phase: 295.0 },
-      { symbol: 'S2', amplitude: 0.158, phase: 345.0 },
-      { symbol: 'N2', amplitude: 0.118, phase: 275.0 },
-      { symbol: 'K1', amplitude: 0.082, phase: 128.0 },
-      { symbol: 'O1', amplitude: 0.048, phase: 95.0 },
-      { symbol: 'K2', amplitude: 0.045, phase: 338.0 },
-      { symbol: 'P1', amplitude: 0.028, phase: 125.0 },
-      { symbol: 'M4', amplitude: 0.145, phase: 195.0 },
-      { symbol: 'MS4', amplitude: 0.068, phase: 245.0 },
-      { symbol: 'MN4', amplitude: 0.042, phase: 168.0 },
-    ],
-  },
-  // Do Son, Vietnam - Diurnal (classic example of diurnal tides)
-  {
-    id: 'VN-DS',
-    name: 'Do Son',
-    country: 'Vietnam',
-    lat: 20.7167,
-    lon: 106.7833,
-    timezone: 'Asia/Ho_Chi_Minh',
-    datum: 'MSL',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.082, phase: 285.0 },
-      { symbol: 'S2', amplitude: 0.028, phase: 325.0 },
-      { symbol: 'N2', amplitude: 0.018, phase: 262.0 },
-      { symbol: 'K1', amplitude: 0.652, phase: 318.0 },
-      { symbol: 'O1', amplitude: 0.515, phase: 285.0 },
-      { symbol: 'K2', amplitude: 0.008, phase: 315.0 },
-      { symbol: 'P1', amplitude: 0.208, phase: 315.0 },
-      { symbol: 'Q1', amplitude: 0.098, phase: 272.0 },
-      { symbol: 'Mf', amplitude: 0.032, phase: 285.0 },
-      { symbol: 'Mm', amplitude: 0.018, phase: 175.0 },
-    ],
-  },
-  // Mont Saint-Michel - Extreme semidiurnal with massive shallow water effects
-  {
-    id: 'FR-MSM',
-    name: 'Mont Saint-Michel',
-    country: 'France',
-    lat: 48.6361,
-    lon: -1.5114,
-    timezone: 'Europe/Paris',
-    datum: 'IGN69',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 4.285, phase: 152.0 },
-      { symbol: 'S2', amplitude: 1.482, phase: 195.0 },
-      { symbol: 'N2', amplitude: 0.872, phase: 130.0 },
-      { symbol: 'K1', amplitude: 0.125, phase: 85.0 },
-      { symbol: 'O1', amplitude: 0.082, phase: 342.0 },
-      { symbol: 'K2', amplitude: 0.418, phase: 188.0 },
-      { symbol: 'P1', amplitude: 0.042, phase: 82.0 },
-      { symbol: 'M4', amplitude: 0.685, phase: 12.0 },
-      { symbol: 'MS4', amplitude: 0.325, phase: 62.0 },
-      { symbol: 'MN4', amplitude: 0.285, phase: 348.0 },
-      { symbol: 'M6', amplitude: 0.195, phase: 215.0 },
-      { symbol: 'M8', amplitude: 0.045, phase: 55.0 },
-    ],
-  },
-  // Rio de Janeiro - Mixed semidiurnal (South Atlantic)
-  {
-    id: 'BR-RIO',
-    name: 'Rio de Janeiro',
-    country: 'Brazil',
-    lat: -22.9068,
-    lon: -43.1729,
-    timezone: 'America/Sao_Paulo',
-    datum: 'MSL',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.312, phase: 68.0 },
-      { symbol: 'S2', amplitude: 0.148, phase: 85.0 },
-      { symbol: 'N2', amplitude: 0.072, phase: 48.0 },
-      { symbol: 'K1', amplitude: 0.068, phase: 185.0 },
-      { symbol: 'O1', amplitude: 0.105, phase: 155.0 },
-      { symbol: 'K2', amplitude: 0.042, phase: 78.0 },
-      { symbol: 'P1', amplitude: 0.022, phase: 182.0 },
-      { symbol: 'Q1', amplitude: 0.022, phase: 142.0 },
-      { symbol: 'M4', amplitude: 0.015, phase: 175.0 },
-      { symbol: 'MS4', amplitude: 0.008, phase: 205.0 },
-    ],
-  },
-  // Cape Town - Mixed semidiurnal (South Atlantic/Indian Ocean)
-  {
-    id: 'ZA-CPT',
-    name: 'Cape Town',
-    country: 'South Africa',
-    lat: -33.9249,
-    lon: 18.4241,
-    timezone: 'Africa/Johannesburg',
-    datum: 'LLD',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.485, phase: 122.0 },
-      { symbol: 'S2', amplitude: 0.178, phase: 148.0 },
-      { symbol: 'N2', amplitude: 0.105, phase: 102.0 },
-      { symbol: 'K1', amplitude: 0.058, phase: 242.0 },
-      { symbol: 'O1', amplitude: 0.042, phase: 215.0 },
-      { symbol: 'K2', amplitude: 0.052, phase: 142.0 },
-      { symbol: 'P1', amplitude: 0.018, phase: 238.0 },
-      { symbol: 'Q1', amplitude: 0.008, phase: 202.0 },
-      { symbol: 'M4', amplitude: 0.025, phase: 285.0 },
-      { symbol: 'MS4', amplitude: 0.012, phase: 315.0 },
-    ],
-  },
-  // Mumbai - Mixed mainly semidiurnal (Arabian Sea)
-  {
-    id: 'IN-MUM',
-    name: 'Mumbai',
-    country: 'India',
-    lat: 18.9388,
-    lon: 72.8354,
-    timezone: 'Asia/Kolkata',
-    datum: 'CD',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 1.542, phase: 325.0 },
-      { symbol: 'S2', amplitude: 0.685, phase: 358.0 },
-      { symbol: 'N2', amplitude: 0.328, phase: 302.0 },
-      { symbol: 'K1', amplitude: 0.492, phase: 48.0 },
-      { symbol: 'O1', amplitude: 0.285, phase: 22.0 },
-      { symbol: 'K2', amplitude: 0.192, phase: 352.0 },
-      { symbol: 'P1', amplitude: 0.158, phase: 45.0 },
-      { symbol: 'Q1', amplitude: 0.055, phase: 8.0 },
-      { symbol: 'M4', amplitude: 0.085, phase: 145.0 },
-      { symbol: 'MS4', amplitude: 0.048, phase: 178.0 },
-    ],
-  },
-  // Shanghai - Mixed semidiurnal (East China Sea)
-  {
-    id: 'CN-SHA',
-    name: 'Shanghai',
-    country: 'China',
-    lat: 31.2304,
-    lon: 121.4737,
-    timezone: 'Asia/Shanghai',
-    datum: 'MSL',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 1.285, phase: 248.0 },
-      { symbol: 'S2', amplitude: 0.458, phase: 285.0 },
-      { symbol: 'N2', amplitude: 0.275, phase: 225.0 },
-      { symbol: 'K1', amplitude: 0.318, phase: 325.0 },
-      { symbol: 'O1', amplitude: 0.225, phase: 298.0 },
-      { symbol: 'K2', amplitude: 0.128, phase: 278.0 },
-      { symbol: 'P1', amplitude: 0.102, phase: 322.0 },
-      { symbol: 'Q1', amplitude: 0.045, phase: 285.0 },
-      { symbol: 'M4', amplitude: 0.095, phase: 162.0 },
-      { symbol: 'MS4', amplitude: 0.045, phase: 195.0 },
-    ],
-  },
-  // Gibraltar - Semidiurnal (Mediterranean gateway)
-  {
-    id: 'GI-GIB',
-    name: 'Gibraltar',
-    country: 'Gibraltar',
-    lat: 36.1408,
-    lon: -5.3536,
-    timezone: 'Europe/Gibraltar',
-    datum: 'CD',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.325, phase: 52.0 },
-      { symbol: 'S2', amplitude: 0.118, phase: 78.0 },
-      { symbol: 'N2', amplitude: 0.072, phase: 32.0 },
-      { symbol: 'K1', amplitude: 0.042, phase: 128.0 },
-      { symbol: 'O1', amplitude: 0.032, phase: 102.0 },
-      { symbol: 'K2', amplitude: 0.035, phase: 72.0 },
-      { symbol: 'P1', amplitude: 0.014, phase: 125.0 },
-      { symbol: 'Q1', amplitude: 0.006, phase: 92.0 },
-      { symbol: 'M4', amplitude: 0.008, phase: 165.0 },
-      { symbol: 'MS4', amplitude: 0.004, phase: 195.0 },
-    ],
-  },
-  // Stockholm - Very small tides (Baltic Sea)
-  {
-    id: 'SE-STO',
-    name: 'Stockholm',
-    country: 'Sweden',
-    lat: 59.3293,
-    lon: 18.0686,
-    timezone: 'Europe/Stockholm',
-    datum: 'RH2000',
-    harmonicEpoch: '1983-2001',
-    constituents: [
-      { symbol: 'M2', amplitude: 0.012, phase: 285.0 },
-      { symbol: 'S2', amplitude: 0.005, phase: 315.0 },
-      { symbol: 'N2', amplitude: 0.003, phase: 262.0 },
-      { symbol: 'K1', amplitude: 0.028, phase: 145.0 },
-      { symbol: 'O1', amplitude: 0.018, phase: 118.0 },
-      { symbol: 'K2', amplitude: 0.002, phase: 308.0 },
-      { symbol: 'P1', amplitude: 0.009, phase: 142.0 },
-      { symbol: 'Q1', amplitude: 0.004, phase: 105.0 },
-      { symbol: 'Mf', amplitude: 0.008, phase: 285.0 },
-      { symbol: 'Mm', amplitude: 0.005, phase: 175.0 },
-    ],
-  },
-];
-
-// Get station by ID
-export function getStationById(id: string): TideStation | undefined {
-  return STATIONS.find((s) => s.id === id);
-}
-
-// Get all station names for dropdown
-export function getStationOptions(): { id: string; name: string }[] {
-  return STATIONS.map((s) => ({
-    id: s.id,
-    name: s.state ? `${s.name}, ${s.state}` : s.name,
-  }));
-}
@@ -0,0 +1,128 @@
+import type { TideStation, SubordinateStation, SubordinateStationDefinition } from '@/types/harmonics';
+import { createSubordinateStation } from '@/lib/subordinate';
+
+// Sample subordinate stations, predicted from a reference station's high and
+// low waters. Time and height corrections approximate the published NOAA
+// (height ratios) and Admiralty (height differences) values, with height
+// differences restated about mean level; for teaching, not navigation.
+// Ratios apply above the reference's MLLW, given below its mean level as
+// `tides datums <reference> --datum MSL` derives it from the catalog's
+// constants; update it with them.
+
+export const SUBORDINATE_STATION_DEFINITIONS: SubordinateStationDefinition[] = [
+  {
+    id: '9414819',
+    name: 'Sausalito',
+    state: 'CA',
+    country: 'US',
+    lat: 37.8467,
+    lon: -122.4767,
+    timezone: 'America/Los_Angeles',
+    datum: 'MLLW',
+    referenceId: '9414290',
+    offsets: { highTime: 11, lowTime: 17, heightType: 'ratio', highHeight: 0.93, lowHeight: 0.93, referenceLowWater: -0.981 },
+  },
+  {
+    id: '9414750',
+    name: 'Alameda',
+    state: 'CA',
+    country: 'US',
+    lat: 37.7717,
+    lon: -122.3,
+    timezone: 'America/Los_Angeles',
+    datum: 'MLLW',
+    referenceId: '9414290',
+    offsets: { highTime: 26, lowTime: 40, heightType: 'ratio', highHeight: 1.1, lowHeight: 1.05, referenceLowWater: -0.981 },
+  },
+  {
+    id: '9414523',
+    name: 'Redwood City',
+    state: 'CA',
+    country: 'US',
+    lat: 37.5067,
+    lon: -122.21,
+    timezone: 'America/Los_Angeles',
+    datum: 'MLLW',
+    referenceId: '9414290',
+    offsets: { highTime: 56, lowTime: 86, heightType: 'ratio', highHeight: 1.45, lowHeight: 1.4, referenceLowWater: -0.981 },
+  },
+  {
+    id: '8531680',
+    name: 'Sandy Hook',
+    state: 'NJ',
+    country: 'US',
+    lat: 40.4669,
+    lon: -74.0094,
+    timezone: 'America/New_York',
+    datum: 'MLLW',
+    referenceId: '8518750',
+    offsets: { highTime: -27, lowTime: -30, heightType: 'ratio', highHeight: 0.98, lowHeight: 0.98, referenceLowWater: -0.837 },
+  },
+  {
+    id: '8516945',
+    name: 'Kings Point',
+    state: 'NY',
+    country: 'US',
+    lat: 40.8103,
+    lon: -73.7649,
+    timezone: 'America/New_York',
+    datum: 'MLLW',
+    referenceId: '8518750',
+    offsets: { highTime: 188, lowTime: 211, heightType: 'ratio', highHeight: 1.57, lowHeight: 1.5, referenceLowWater: -0.837 },
+  },
+  {
+    id: '9446484',
+    name: 'Tacoma',
+    state: 'WA',
+    country: 'US',
+    lat: 47.2671,
+    lon: -122.413,
+    timezone: 'America/Los_Angeles',
+    datum: 'MLLW',
+    referenceId: '9447130',
+    offsets: { highTime: 8, lowTime: 12, heightType: 'ratio', highHeight: 1.05, lowHeight: 1.06, referenceLowWater: -1.906 },
+  },
+  {
+    id: '9444900',
+    name: 'Port Townsend',
+    state: 'WA',
+    country: 'US',
+    lat: 48.1117,
+    lon: -122.7583,
+    timezone: 'America/Los_Angeles',
+    datum: 'MLLW',
+    referenceId: '9447130',
+    offsets: { highTime: -49, lowTime: -22, heightType: 'ratio', highHeight: 0.76, lowHeight: 0.8, referenceLowWater: -1.906 },
+  },
+  {
+    id: 'UK-0110',
+    name: 'Southend-on-Sea',
+    country: 'UK',
+    lat: 51.5167,
+    lon: 0.7167,
+    timezone: 'Europe/London',
+    datum: 'ODN',
+    referenceId: 'UK-0113',
+    offsets: { highTime: -80, lowTime: -115, heightType: 'offset', highHeight: -0.7, lowHeight: 0.7 },
+  },
+  {
+    id: 'UK-0111',
+    name: 'Gravesend',
+    country: 'UK',
+    lat: 51.4433,
+    lon: 0.3683,
+    timezone: 'Europe/London',
+    datum: 'ODN',
+    referenceId: 'UK-0113',
+    offsets: { highTime: -59, lowTime: -85, heightType: 'offset', highHeight: -0.2, lowHeight: 0.2 },
+  },
+];
+
+// The subordinate stations whose reference station is among those given,
+// e.g. once the reference's catalog region has loaded
+export function subordinateStationsFor(references: readonly TideStation[]): SubordinateStation[] {
+  return SUBORDINATE_STATION_DEFINITIONS.flatMap((definition) => {
+    const reference = references.find((s) => s.id === definition.referenceId);
+    return reference ? [createSubordinateStation(definition, reference)] : [];
+  });
+}
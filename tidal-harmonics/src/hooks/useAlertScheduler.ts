@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAlertStore } from '@/stores/alertStore';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { buildAlertSchedule, dueAlerts, mergeDelivered } from '@/lib/alertSchedule';
+import { loadAlertSchedule } from '@/lib/alertStorage';
+import { showAlerts, syncAlertDelivery } from '@/lib/alertDelivery';
+import { catalogRegionOf } from '@/lib/stationCatalog';
+import { datumSignature } from '@/lib/datums';
+import { requestTidalDatums } from '@/lib/predictionService';
+
+// Longest a timer waits before looking again; timers drift while a device sleeps
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * Keep the tide alert schedule current and deliver alerts while the app is open
+ *
+ * The schedule is rebuilt whenever the rules or stations change and each
+ * time the app comes back to the foreground, then handed to the service
+ * worker. Alerts that fall due while the app is open, or fell due while it
+ * was closed and the browser couldn't deliver them, are shown from here.
+ */
+export function useAlertScheduler() {
+  const rules = useAlertStore((s) => s.rules);
+  const loaded = useAlertStore((s) => s.loaded);
+  const schedule = useAlertStore((s) => s.schedule);
+  const deliveryMode = useAlertStore((s) => s.deliveryMode);
+  const setSchedule = useAlertStore((s) => s.setSchedule);
+  const markDelivered = useAlertStore((s) => s.markDelivered);
+  const stations = useHarmonicsStore((s) => s.stations);
+  const unitSystem = useHarmonicsStore((s) => s.unitSystem);
+  const loadStationRegion = useHarmonicsStore((s) => s.loadStationRegion);
+  const setStationDatums = useHarmonicsStore((s) => s.setStationDatums);
+  const [resync, setResync] = useState(0);
+  const [tick, setTick] = useState(0);
+  // Datum signatures of the stations whose datums jobs have been started
+  const datumRequests = useRef(new Set<string>());
+
+  // Fetch the catalog regions of stations with alerts
+  useEffect(() => {
+    for (const rule of rules) {
+      const region = rule.enabled ? catalogRegionOf(rule.stationId) : undefined;
+      if (region) {
+        loadStationRegion(region).catch(() => {
+          // Its alerts keep their last schedule until the region loads
+        });
+      }
+    }
+  }, [rules, loadStationRegion]);
+
+  // Compute datums for stations with alerts; rule heights are about them
+  useEffect(() => {
+    for (const rule of rules) {
+      const station = rule.enabled ? stations.find((s) => s.id === rule.stationId) : undefined;
+      if (!station || station.datums) continue;
+      const signature = datumSignature(station);
+      if (datumRequests.current.has(signature)) continue;
+      datumRequests.current.add(signature);
+      requestTidalDatums(station)
+        .then((datums) => setStationDatums(station.id, datums))
+        .catch(() => {
+          // Its alerts keep their last schedule; the next change tries again
+          datumRequests.current.delete(signature);
+        });
+    }
+  }, [rules, stations, setStationDatums]);
+
+  // Re-sync on returning to the app, where background delivery isn't available
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') setResync((n) => n + 1);
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    let cancelled = false;
+    // The service worker may have shown alerts since the store last read the schedule
+    loadAlertSchedule()
+      .catch(() => [])
+      .then((stored) => {
+        if (cancelled) return;
+        const now = Date.now();
+        const next = buildAlertSchedule(
+          rules,
+          (id) => stations.find((s) => s.id === id),
+          mergeDelivered(useAlertStore.getState().schedule, stored),
+          now,
+          unitSystem
+        );
+        return syncAlertDelivery(next, now).then((mode) => (cancelled ? undefined : setSchedule(next, mode)));
+      })
+      .catch(() => {
+        // Ignore IndexedDB and service worker errors; the next sync tries again
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loaded, rules, stations, unitSystem, resync, setSchedule]);
+
+  // Show alerts as they fall due, or wait for the next one
+  useEffect(() => {
+    if (deliveryMode === null) return;
+    const now = Date.now();
+    const due = dueAlerts(schedule, now);
+    if (due.length > 0) {
+      // Triggers were registered for these, so the browser shows them itself
+      const show = deliveryMode === 'triggers' ? Promise.resolve() : showAlerts(due);
+      show.then(() => markDelivered(due.map((a) => a.id))).catch(() => {
+        // Left undelivered; shown on the next check
+      });
+      return;
+    }
+    const upcoming = schedule.find((a) => !a.delivered && a.triggerAt > now);
+    if (!upcoming) return;
+    const timer = setTimeout(() => setTick((n) => n + 1), Math.min(upcoming.triggerAt - now, MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [schedule, deliveryMode, tick, markDelivered]);
+}
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import type { CurrentStation } from '@/types/harmonics';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { getCurrentStationById } from '@/data/currentStations';
+import { currentStationFor } from '@/lib/currents';
+
+/**
+ * The current station to predict for the selected tide station
+ * Defaults to the one paired with (or near) the tide station; a choice made
+ * with selectCurrentStation lasts until the tide station changes.
+ */
+export function useCurrentStation(): {
+  currentStation: CurrentStation | null;
+  selectCurrentStation: (id: string) => void;
+} {
+  const station = useHarmonicsStore((s) => s.selectedStation);
+  const [choice, setChoice] = useState<{ stationId: string | null; currentId: string } | null>(null);
+
+  const stationId = station?.id ?? null;
+  const chosen = choice && choice.stationId === stationId ? getCurrentStationById(choice.currentId) : undefined;
+
+  return {
+    currentStation: chosen ?? currentStationFor(station),
+    selectCurrentStation: (id) => setChoice({ stationId, currentId: id }),
+  };
+}
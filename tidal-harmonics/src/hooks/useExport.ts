@@ -1,10 +1,12 @@
 import { useCallback } from 'react';
 import { useHarmonicsStore } from '@/stores/harmonicsStore';
-import { predictTideSeries, findExtremes } from '@/lib/harmonics';
+import { predictTideSeries, findPreciseExtremes } from '@/lib/harmonics';
 import { format } from 'date-fns';
+import { useZonedTime } from './useZonedTime';
 
 export function useExport() {
   const station = useHarmonicsStore((s) => s.selectedStation);
+  const tz = useZonedTime();
 
   const exportScreenshot = useCallback(() => {
     const canvas = document.querySelector('canvas');
@@ -29,18 +31,20 @@ export function useExport() {
       const startDate = new Date();
       const endDate = new Date(startDate.getTime() + daysAhead * 24 * 3600000);
       const predictions = predictTideSeries(station, startDate, endDate, 60); // Hourly
-      const extremes = findExtremes(predictions);
+      const extremes = findPreciseExtremes(station, startDate, endDate);
+
+      // Hourly rows with each high and low water inserted at its own time
+      const entries = [
+        ...predictions.map((p) => ({ time: p.time, height: p.height, type: '' })),
+        ...extremes.map((e) => ({ time: e.time, height: e.height, type: e.classification ?? e.type })),
+      ].sort((a, b) => a.time.getTime() - b.time.getTime());
 
       // Build CSV
       const rows: string[] = [
-        'DateTime,Height (m),Type',
-        ...predictions.map((p) => {
-          const extreme = extremes.find(
-            (e) => Math.abs(e.time.getTime() - p.time.getTime()) < 30 * 60000
-          );
-          const type = extreme?.type || '';
-          return `${format(p.time, 'yyyy-MM-dd HH:mm')},${p.height.toFixed(3)},${type}`;
-        }),
+        'DateTime,Zone,Height (m),Type',
+        ...entries.map(
+          (e) => `${tz.format(e.time, 'yyyy-MM-dd HH:mm')},${tz.abbreviation(e.time)},${e.height.toFixed(3)},${e.type}`
+        ),
       ];
 
       const csv = rows.join('\n');
@@ -54,7 +58,7 @@ export function useExport() {
 
       URL.revokeObjectURL(url);
     },
-    [station]
+    [station, tz]
   );
 
   const exportHarmonicConstants = useCallback(() => {
@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { TideStation, TidePrediction, TidalDatums } from '@/types/harmonics';
+import type { TideExtreme } from '@/lib/harmonics';
+import type { PredictionJob, PredictionJobResults } from '@/lib/predictionJobs';
+import {
+  requestPrediction,
+  PredictionCancelledError,
+  toTidePredictions,
+  toTideExtremes,
+  toTideRangeSummary,
+} from '@/lib/predictionService';
+import type { TideRangeSummary } from '@/lib/predictionService';
+import { NTDE_START_YEAR, NTDE_END_YEAR } from '@/lib/datums';
+
+export interface PredictionRange {
+  start: Date;
+  end: Date;
+}
+
+export interface PredictionState<T> {
+  data: T | null;
+  loading: boolean;
+  progress: number; // 0-1
+  error: string | null;
+}
+
+interface JobState<T> {
+  job: PredictionJob | null;
+  data: T | null;
+  error: string | null;
+}
+
+/**
+ * Run a prediction job through the worker service
+ * A new job cancels the previous one; data is null until the current job
+ * has finished, so a stale station's results are never shown.
+ */
+function usePredictionJob<J extends PredictionJob>(job: J | null): PredictionState<PredictionJobResults[J['kind']]> {
+  type Result = PredictionJobResults[J['kind']];
+  const [state, setState] = useState<JobState<Result>>({ job: null, data: null, error: null });
+  const [progress, setProgress] = useState<{ job: PredictionJob | null; value: number }>({ job: null, value: 0 });
+
+  useEffect(() => {
+    if (!job) return;
+    const controller = new AbortController();
+
+    requestPrediction(job, {
+      signal: controller.signal,
+      onProgress: (value) => setProgress({ job, value }),
+    })
+      .then((data) => setState({ job, data, error: null }))
+      .catch((error: unknown) => {
+        if (error instanceof PredictionCancelledError) return;
+        setState({ job, data: null, error: error instanceof Error ? error.message : 'Prediction failed' });
+      });
+
+    return () => controller.abort();
+  }, [job]);
+
+  const current = job !== null && state.job === job;
+  return {
+    data: current ? state.data : null,
+    loading: job !== null && !current,
+    progress: current ? 1 : progress.job === job ? progress.value : 0,
+    error: current ? state.error : null,
+  };
+}
+
+/**
+ * Evenly spaced tide heights computed off the main thread
+ */
+export function usePredictionSeries(
+  station: TideStation | null,
+  range: PredictionRange,
+  intervalMinutes: number
+): PredictionState<TidePrediction[]> {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  const job = useMemo(
+    () => (station ? { kind: 'series' as const, station, start, end, intervalMinutes } : null),
+    [station, start, end, intervalMinutes]
+  );
+  const { data, ...status } = usePredictionJob(job);
+  const series = useMemo(() => (data ? toTidePredictions(data) : null), [data]);
+  return { data: series, ...status };
+}
+
+/**
+ * High and low waters computed off the main thread
+ */
+export function usePredictionExtremes(
+  station: TideStation | null,
+  range: PredictionRange
+): PredictionState<TideExtreme[]> {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  const job = useMemo(
+    () => (station ? { kind: 'extremes' as const, station, start, end } : null),
+    [station, start, end]
+  );
+  const { data, ...status } = usePredictionJob(job);
+  const extremes = useMemo(() => (data ? toTideExtremes(data) : null), [data]);
+  return { data: extremes, ...status };
+}
+
+/**
+ * Highest and lowest heights over a span computed off the main thread
+ */
+export function usePredictionRange(
+  station: TideStation | null,
+  range: PredictionRange,
+  intervalMinutes: number
+): PredictionState<TideRangeSummary> {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  const job = useMemo(
+    () => (station ? { kind: 'range' as const, station, start, end, intervalMinutes } : null),
+    [station, start, end, intervalMinutes]
+  );
+  const { data, ...status } = usePredictionJob(job);
+  const summary = useMemo(() => (data ? toTideRangeSummary(data) : null), [data]);
+  return { data: summary, ...status };
+}
+
+/**
+ * Tidal datums over the National Tidal Datum Epoch computed off the main thread
+ */
+export function usePredictionDatums(station: TideStation | null): PredictionState<TidalDatums> {
+  const job = useMemo(
+    () =>
+      station
+        ? { kind: 'datums' as const, station, startYear: NTDE_START_YEAR, endYear: NTDE_END_YEAR }
+        : null,
+    [station]
+  );
+  const { data, ...status } = usePredictionJob(job);
+  return { data: data?.datums ?? null, ...status };
+}
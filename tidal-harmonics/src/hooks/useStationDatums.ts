@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { useHarmonicsStore, findStation } from '@/stores/harmonicsStore';
+import { usePredictionDatums } from './usePrediction';
+
+/**
+ * Compute tidal datums for the selected station when it has none yet
+ * Results are stored on the station, which re-references its heights to
+ * the chosen datum.
+ */
+export function useStationDatums() {
+  const selectedId = useHarmonicsStore((s) => s.selectedStation?.id);
+  const station = useHarmonicsStore((s) => findStation(s, selectedId) ?? null);
+  const setStationDatums = useHarmonicsStore((s) => s.setStationDatums);
+
+  const pending = station && !station.datums ? station : null;
+  const { data } = usePredictionDatums(pending);
+
+  useEffect(() => {
+    if (pending && data) setStationDatums(pending.id, data);
+  }, [pending, data, setStationDatums]);
+}
@@ -8,7 +8,7 @@ import { useTimeStore } from '@/stores/timeStore';
  * Supports additional params: constituents, time
  */
 export function useUrlSync() {
-  const { selectedStation, selectStation, stations, setAllConstituentsVisible } = useHarmonicsStore();
+  const { selectedStation, selectStation, catalog, setAllConstituentsVisible } = useHarmonicsStore();
   const setDate = useTimeStore((s) => s.setDate);
   const isInitialLoad = useRef(true);
 
@@ -20,7 +20,7 @@ export function useUrlSync() {
     // Handle station
     const stationId = params.get('station');
     if (stationId) {
-      const stationExists = stations.some((s) => s.id === stationId);
+      const stationExists = catalog.some((s) => s.id === stationId);
       if (stationExists) {
         selectStation(stationId);
       }
@@ -45,7 +45,7 @@ export function useUrlSync() {
     }
 
     isInitialLoad.current = false;
-  }, [stations, selectStation, setAllConstituentsVisible, setDate]);
+  }, [catalog, selectStation, setAllConstituentsVisible, setDate]);
 
   // Update URL when station changes (but not on initial load)
   useEffect(() => {
@@ -65,7 +65,7 @@ export function useUrlSync() {
       const stationId = params.get('station');
 
       if (stationId) {
-        const stationExists = stations.some((s) => s.id === stationId);
+        const stationExists = catalog.some((s) => s.id === stationId);
         if (stationExists) {
           selectStation(stationId);
         }
@@ -74,7 +74,7 @@ export function useUrlSync() {
 
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
-  }, [stations, selectStation]);
+  }, [catalog, selectStation]);
 }
 
 /**
@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import { useVesselStore } from '@/stores/vesselStore';
+import type { VesselProfile, VesselProfileInput } from '@/lib/vessel';
+
+/**
+ * The selected vessel profile, and a setter that saves changes to it
+ * Navigation tools read their boat's numbers from here, so an edit in one
+ * tool carries over to the others and to the next visit.
+ */
+export function useVessel(): { vessel: VesselProfile; updateVessel: (updates: Partial<VesselProfileInput>) => void } {
+  const vessel = useVesselStore((s) => s.profiles.find((p) => p.id === s.activeId) ?? s.profiles[0]!);
+  const updateProfile = useVesselStore((s) => s.updateProfile);
+  const updateVessel = useCallback(
+    (updates: Partial<VesselProfileInput>) => updateProfile(vessel.id, updates),
+    [updateProfile, vessel.id]
+  );
+  return { vessel, updateVessel };
+}
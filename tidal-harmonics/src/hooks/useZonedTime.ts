@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useHarmonicsStore } from '@/stores/harmonicsStore';
+import { resolveTimeZone, zonedTime } from '@/lib/timeZones';
+import type { TimeZoneMode, ZonedTime } from '@/lib/timeZones';
+
+/**
+ * Formatting and day arithmetic in the zone tide times are shown in
+ * Station time, the browser's zone or UTC, per the user's preference. Pass
+ * a mode to pin it, e.g. 'station' for daylight hours at the station.
+ */
+export function useZonedTime(modeOverride?: TimeZoneMode): ZonedTime {
+  const preferredMode = useHarmonicsStore((s) => s.timeZoneMode);
+  const stationZone = useHarmonicsStore((s) => s.selectedStation?.timezone ?? null);
+  const mode = modeOverride ?? preferredMode;
+  return useMemo(() => zonedTime(resolveTimeZone(mode, stationZone)), [mode, stationZone]);
+}
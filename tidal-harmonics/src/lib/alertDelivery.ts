@@ -0,0 +1,113 @@
+// Alert delivery
+// Notifications go through the PWA service worker, so they show with the tab
+// closed. Where the browser has Notification Triggers the whole schedule is
+// handed over up front; elsewhere the service worker checks the schedule on
+// periodic background sync, the open app runs timers, and anything missed
+// is shown when the app is opened again.
+
+import type { ScheduledAlert } from './alertSchedule';
+
+const TAG_PREFIX = 'tide-alert:';
+const ICON = `${import.meta.env.BASE_URL}icons/icon.svg`;
+
+// Periodic sync tag public/alert-sw.js listens for
+const ALERT_SYNC_TAG = 'tide-alerts';
+
+// Notification Triggers and periodic background sync aren't in the DOM typings yet
+interface TimestampTriggerConstructor {
+  new (timestamp: number): object;
+}
+
+type TriggerNotificationOptions = NotificationOptions & { showTrigger?: object };
+
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval?: number }) => Promise<void>;
+}
+
+export type AlertDeliveryMode = 'triggers' | 'background-sync' | 'while-open' | 'unsupported';
+
+function timestampTrigger(): TimestampTriggerConstructor | undefined {
+  return (globalThis as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+}
+
+function supportsTriggers(): boolean {
+  return typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype && !!timestampTrigger();
+}
+
+async function alertRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration?.active ? registration : null;
+  } catch {
+    return null;
+  }
+}
+
+function notificationOptions(alert: ScheduledAlert): TriggerNotificationOptions {
+  return {
+    body: alert.body,
+    icon: ICON,
+    tag: `${TAG_PREFIX}${alert.id}`,
+    data: { alertId: alert.id, stationId: alert.stationId },
+  };
+}
+
+/**
+ * Show alerts now, through the service worker when there is one
+ */
+export async function showAlerts(alerts: ScheduledAlert[]): Promise<void> {
+  if (alerts.length === 0 || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const registration = await alertRegistration();
+  for (const alert of alerts) {
+    if (registration) {
+      await registration.showNotification(alert.title, notificationOptions(alert));
+    } else {
+      new Notification(alert.title, notificationOptions(alert));
+    }
+  }
+}
+
+/**
+ * Hand the schedule to the service worker
+ *
+ * Returns how alerts will reach the user. With Notification Triggers every
+ * undelivered alert is registered to fire at its time, replacing any
+ * registered before; otherwise periodic sync is requested so the service
+ * worker can check the stored schedule from time to time.
+ */
+export async function syncAlertDelivery(schedule: readonly ScheduledAlert[], now: number): Promise<AlertDeliveryMode> {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  const registration = await alertRegistration();
+  if (!registration || Notification.permission !== 'granted') return 'while-open';
+
+  const Trigger = timestampTrigger();
+  if (Trigger && supportsTriggers()) {
+    // Alerts already due fire straight away
+    const pending = schedule.filter((a) => !a.delivered && a.eventAt > now);
+    const tags = new Set(pending.map((a) => `${TAG_PREFIX}${a.id}`));
+    const registered = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+    for (const notification of registered) {
+      if (notification.tag.startsWith(TAG_PREFIX) && !tags.has(notification.tag)) notification.close();
+    }
+    for (const alert of pending) {
+      const options: TriggerNotificationOptions = {
+        ...notificationOptions(alert),
+        showTrigger: new Trigger(Math.max(alert.triggerAt, now)),
+      };
+      await registration.showNotification(alert.title, options);
+    }
+    return 'triggers';
+  }
+
+  const periodicSync = (registration as { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (periodicSync) {
+    try {
+      await periodicSync.register(ALERT_SYNC_TAG, { minInterval: 60 * 60 * 1000 });
+      return 'background-sync';
+    } catch {
+      // Not installed as an app, or the browser declined
+    }
+  }
+  return 'while-open';
+}
@@ -0,0 +1,239 @@
+// Alert rules
+// A rule is a set of conditions combined with AND or OR and evaluated on a
+// one-minute prediction grid. The stretches where the rule holds are its
+// windows: an alert fires ahead of a window's start, and the rule builder
+// previews the next few.
+
+import type { TideStation, TidalDatumCode } from '@/types/harmonics';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { predictTideSeries, findExtremes, getSpringNeapIndicator } from './harmonics';
+import { findDaylightIntervals } from './daylight';
+import { defaultDatumFor, referenceStation } from './datums';
+import { formatHeight } from './units';
+import { resolveTimeZone, zonedTime } from './timeZones';
+
+export type AlertConditionType =
+  | 'below' // tide below a height
+  | 'above' // tide above a height
+  | 'high' // at high water
+  | 'low' // at low water
+  | 'rising'
+  | 'falling'
+  | 'daylight' // between sunrise and sunset at the station
+  | 'spring' // within some days of spring tide
+  | 'weekend'; // Saturday or Sunday, station time
+
+export interface AlertCondition {
+  type: AlertConditionType;
+  value?: number; // meters above datum for below/above; days for spring
+  negate?: boolean; // the condition must not hold
+}
+
+export type AlertMatch = 'all' | 'any';
+
+export interface AlertRule {
+  id: string;
+  stationId: string;
+  stationName: string;
+  name?: string; // the conditions are described when unset
+  match: AlertMatch;
+  conditions: AlertCondition[];
+  datum?: TidalDatumCode; // heights are about this datum; the station's chart datum when unset
+  leadMinutes: number; // notify this long before a window opens
+  enabled: boolean;
+  createdAt: number;
+}
+
+// A stretch of time where a rule holds
+export interface AlertWindow {
+  start: number; // ms since epoch
+  end: number;
+  inProgress: boolean; // already open at the start of the search
+  minHeight: number;
+  maxHeight: number;
+}
+
+export const CONDITION_TYPES: { type: AlertConditionType; label: string; needsValue?: 'height' | 'days' }[] = [
+  { type: 'below', label: 'Tide below', needsValue: 'height' },
+  { type: 'above', label: 'Tide above', needsValue: 'height' },
+  { type: 'low', label: 'Low water' },
+  { type: 'high', label: 'High water' },
+  { type: 'falling', label: 'Falling' },
+  { type: 'rising', label: 'Rising' },
+  { type: 'daylight', label: 'Daylight' },
+  { type: 'spring', label: 'Near spring tide', needsValue: 'days' },
+  { type: 'weekend', label: 'Weekend' },
+];
+
+export const DEFAULT_SPRING_DAYS = 2;
+
+const STEP_MINUTES = 1;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A condition in words, e.g. "below 0.30 m MLLW" or "not weekend"
+ */
+export function describeCondition(condition: AlertCondition, unitSystem: UnitSystem, datum?: string): string {
+  const height = (v: number | undefined) => `${formatHeight(v ?? 0, unitSystem)}${datum ? ` ${datum}` : ''}`;
+  const text = (() => {
+    switch (condition.type) {
+      case 'below':
+        return `below ${height(condition.value)}`;
+      case 'above':
+        return `above ${height(condition.value)}`;
+      case 'high':
+        return 'high water';
+      case 'low':
+        return 'low water';
+      case 'rising':
+        return 'rising';
+      case 'falling':
+        return 'falling';
+      case 'daylight':
+        return 'daylight';
+      case 'spring':
+        return `within ${condition.value ?? DEFAULT_SPRING_DAYS} days of springs`;
+      case 'weekend':
+        return 'weekend';
+    }
+  })();
+  return condition.negate ? `not ${text}` : text;
+}
+
+export function describeAlertRule(
+  rule: Pick<AlertRule, 'name' | 'match' | 'conditions' | 'datum'>,
+  unitSystem: UnitSystem
+): string {
+  if (rule.name) return rule.name;
+  const text = rule.conditions
+    .map((c) => describeCondition(c, unitSystem, rule.datum))
+    .join(rule.match === 'all' ? ' and ' : ' or ');
+  return text ? text.charAt(0).toUpperCase() + text.slice(1) : 'No conditions';
+}
+
+// Whether each sample time falls in one of the intervals (both in time order)
+function sampleIntervals(times: number[], intervals: { start: number; end: number }[]): boolean[] {
+  let k = 0;
+  return times.map((t) => {
+    while (k < intervals.length && intervals[k]!.end <= t) k++;
+    const interval = intervals[k];
+    return !!interval && interval.start <= t;
+  });
+}
+
+// Saturdays and Sundays in the station's zone
+function weekendIntervals(station: TideStation, start: number, end: number): { start: number; end: number }[] {
+  const tz = zonedTime(resolveTimeZone('station', station.timezone));
+  const intervals: { start: number; end: number }[] = [];
+  for (let day = tz.startOfDay(new Date(start)); day.getTime() < end; day = tz.addDays(day, 1)) {
+    const weekday = Number(tz.format(day, 'c')); // 1 Monday … 7 Sunday
+    if (weekday >= 6) intervals.push({ start: day.getTime(), end: tz.addDays(day, 1).getTime() });
+  }
+  return intervals;
+}
+
+// Spring tides (peaks of the spring/neap indicator), each widened by days either side
+function springIntervals(start: number, end: number, days: number): { start: number; end: number }[] {
+  const from = start - days * DAY_MS - DAY_MS;
+  const to = end + days * DAY_MS + DAY_MS;
+  const intervals: { start: number; end: number }[] = [];
+  let prev = getSpringNeapIndicator(new Date(from - HOUR_MS));
+  let curr = getSpringNeapIndicator(new Date(from));
+  for (let t = from; t < to; t += HOUR_MS) {
+    const next = getSpringNeapIndicator(new Date(t + HOUR_MS));
+    if (curr >= prev && curr > next) intervals.push({ start: t - days * DAY_MS, end: t + days * DAY_MS });
+    prev = curr;
+    curr = next;
+  }
+  return intervals;
+}
+
+/**
+ * Windows where a rule holds between two times, soonest first
+ *
+ * Heights are about the rule's datum. High and low water are moments, so
+ * a rule matching on them gives windows a minute long. A rule with no
+ * conditions never matches.
+ */
+export function findAlertWindows(
+  rule: Pick<AlertRule, 'match' | 'conditions' | 'datum'>,
+  station: TideStation,
+  start: number,
+  end: number,
+  limit: number = Infinity
+): AlertWindow[] {
+  if (rule.conditions.length === 0 || end <= start) return [];
+
+  const referenced = referenceStation(station, rule.datum ?? defaultDatumFor(station));
+  // Whole minutes, so re-running from a later time finds the same windows
+  const first = Math.ceil(start / MINUTE_MS) * MINUTE_MS;
+  // One sample either side, for the rising/falling and high/low tests at the ends
+  const series = predictTideSeries(
+    referenced,
+    new Date(first - STEP_MINUTES * MINUTE_MS),
+    new Date(end + STEP_MINUTES * MINUTE_MS),
+    STEP_MINUTES
+  );
+  const samples = series.slice(1, -1);
+  const times = samples.map((p) => p.time.getTime());
+  const heights = samples.map((p) => p.height);
+
+  const extremes = new Map(findExtremes(series).map((e) => [e.time.getTime(), e.type]));
+
+  const tests = rule.conditions.map((condition): boolean[] => {
+    switch (condition.type) {
+      case 'below':
+        return heights.map((h) => h < (condition.value ?? 0));
+      case 'above':
+        return heights.map((h) => h > (condition.value ?? 0));
+      case 'high':
+      case 'low':
+        return times.map((t) => extremes.get(t) === condition.type);
+      case 'rising':
+      case 'falling':
+        return samples.map((_, i) => {
+          const slope = series[i + 2]!.height - series[i]!.height;
+          return condition.type === 'rising' ? slope > 0 : slope < 0;
+        });
+      case 'daylight': {
+        const daylight = findDaylightIntervals(station.lat, station.lon, new Date(first), new Date(end + MINUTE_MS));
+        return sampleIntervals(
+          times,
+          daylight.map((d) => ({ start: d.start.getTime(), end: d.end.getTime() }))
+        );
+      }
+      case 'spring':
+        return sampleIntervals(times, springIntervals(first, end, condition.value ?? DEFAULT_SPRING_DAYS));
+      case 'weekend':
+        return sampleIntervals(times, weekendIntervals(station, first, end));
+    }
+  });
+
+  const holds = (i: number) => {
+    const results = rule.conditions.map((c, k) => tests[k]![i]! !== !!c.negate);
+    return rule.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+  };
+
+  const windows: AlertWindow[] = [];
+  let open: AlertWindow | null = null;
+  for (let i = 0; i < times.length && windows.length < limit; i++) {
+    const t = times[i]!;
+    const h = heights[i]!;
+    if (holds(i)) {
+      if (open) {
+        open.end = t + STEP_MINUTES * MINUTE_MS;
+        open.minHeight = Math.min(open.minHeight, h);
+        open.maxHeight = Math.max(open.maxHeight, h);
+      } else {
+        open = { start: t, end: t + STEP_MINUTES * MINUTE_MS, inProgress: i === 0, minHeight: h, maxHeight: h };
+      }
+    } else if (open) {
+      windows.push(open);
+      open = null;
+    }
+  }
+  if (open && windows.length < limit) windows.push(open);
+  return windows;
+}
@@ -0,0 +1,138 @@
+// Tide alert schedule
+// Alert rules are turned into trigger times ahead of time, so a notification
+// can be handed to the service worker (or a timer) without the prediction
+// code running when it fires.
+
+import type { TideStation, TidalDatumCode } from '@/types/harmonics';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { defaultDatumFor } from './datums';
+import { formatHeight } from './units';
+import { resolveTimeZone, zonedTime } from './timeZones';
+import { describeAlertRule, findAlertWindows } from './alertRules';
+import type { AlertRule, AlertWindow } from './alertRules';
+
+export interface ScheduledAlert {
+  id: string; // rule id and window start, stable across re-syncs
+  ruleId: string;
+  stationId: string;
+  triggerAt: number; // ms since epoch
+  eventAt: number; // when the window opens
+  title: string;
+  body: string;
+  delivered: boolean;
+}
+
+// How far ahead alerts are scheduled; the schedule is rebuilt whenever the app opens
+export const ALERT_HORIZON_HOURS = 72;
+
+const MINUTE_MS = 60 * 1000;
+
+export const LEAD_OPTIONS = [0, 15, 30, 45, 60, 120];
+
+export function leadLabel(minutes: number): string {
+  if (minutes === 0) return 'at the time';
+  if (minutes % 60 === 0) return `${minutes / 60}h before`;
+  return `${minutes}m before`;
+}
+
+function alertText(
+  rule: AlertRule,
+  station: TideStation,
+  datum: TidalDatumCode,
+  window: AlertWindow,
+  unitSystem: UnitSystem
+): { title: string; body: string } {
+  const tz = zonedTime(resolveTimeZone('station', station.timezone));
+  const from = new Date(window.start);
+  const lead = rule.leadMinutes > 0 ? ` in ${rule.leadMinutes} minutes` : ' now';
+  const height = (meters: number) => formatHeight(meters, unitSystem);
+
+  // High and low water are moments; other windows last a while
+  const body =
+    window.end - window.start <= MINUTE_MS
+      ? `${station.name}: ${height(window.minHeight)} ${datum} at ${tz.time(from)} ${tz.abbreviation(from)}`
+      : `${station.name}: ${tz.time(from)} to ${tz.time(new Date(window.end))} ${tz.abbreviation(from)}, ` +
+        `${height(window.minHeight)} to ${height(window.maxHeight)} ${datum}`;
+  return { title: `${describeAlertRule({ ...rule, datum }, unitSystem)}${lead}`, body };
+}
+
+/**
+ * Upcoming alerts of one rule, from now to the end of the horizon
+ *
+ * One alert per window the rule opens, ahead of its start. Windows whose
+ * trigger time has passed but which haven't opened yet are kept, so an
+ * alert missed while the app was closed still shows when it opens; a
+ * window already open now gets no alert.
+ */
+export function scheduleAlertRule(
+  rule: AlertRule,
+  station: TideStation,
+  now: number,
+  unitSystem: UnitSystem,
+  horizonHours: number = ALERT_HORIZON_HOURS
+): ScheduledAlert[] {
+  if (!rule.enabled) return [];
+
+  const datum = rule.datum ?? defaultDatumFor(station);
+  const lastTrigger = now + horizonHours * 60 * MINUTE_MS;
+  return findAlertWindows({ ...rule, datum }, station, now, lastTrigger + rule.leadMinutes * MINUTE_MS)
+    .filter((window) => !window.inProgress && window.start - rule.leadMinutes * MINUTE_MS <= lastTrigger)
+    .map((window) => ({
+      id: `${rule.id}@${window.start}`,
+      ruleId: rule.id,
+      stationId: station.id,
+      triggerAt: window.start - rule.leadMinutes * MINUTE_MS,
+      eventAt: window.start,
+      ...alertText(rule, station, datum, window, unitSystem),
+      delivered: false,
+    }));
+}
+
+/**
+ * Alerts that should be showing now: triggered, not yet past, not yet shown
+ */
+export function dueAlerts(schedule: readonly ScheduledAlert[], now: number): ScheduledAlert[] {
+  return schedule.filter((a) => !a.delivered && a.triggerAt <= now && a.eventAt > now);
+}
+
+/**
+ * A schedule with the delivered flags of another copy of it, such as the one
+ * in IndexedDB that the service worker marks while the app is closed
+ */
+export function mergeDelivered(
+  schedule: readonly ScheduledAlert[],
+  other: readonly ScheduledAlert[]
+): ScheduledAlert[] {
+  const delivered = new Set(other.filter((a) => a.delivered).map((a) => a.id));
+  return schedule.map((a) => (!a.delivered && delivered.has(a.id) ? { ...a, delivered: true } : a));
+}
+
+/**
+ * Rebuild the schedule for all rules
+ *
+ * Delivered flags carry over from the previous schedule. A rule whose
+ * station isn't loaded yet, or has no datums to reference heights to, keeps
+ * its previous alerts, so a re-sync before the station library has opened
+ * or the datums job has finished doesn't drop them.
+ */
+export function buildAlertSchedule(
+  rules: readonly AlertRule[],
+  findStation: (id: string) => TideStation | undefined,
+  previous: readonly ScheduledAlert[],
+  now: number,
+  unitSystem: UnitSystem
+): ScheduledAlert[] {
+  const delivered = new Set(previous.filter((a) => a.delivered).map((a) => a.id));
+  const schedule: ScheduledAlert[] = [];
+  for (const rule of rules) {
+    const station = findStation(rule.stationId);
+    if (!station?.datums) {
+      if (rule.enabled) schedule.push(...previous.filter((a) => a.ruleId === rule.id && a.eventAt > now));
+      continue;
+    }
+    for (const alert of scheduleAlertRule(rule, station, now, unitSystem)) {
+      schedule.push(delivered.has(alert.id) ? { ...alert, delivered: true } : alert);
+    }
+  }
+  return schedule.sort((a, b) => a.triggerAt - b.triggerAt);
+}
@@ -0,0 +1,106 @@
+// Alert storage
+// Alert rules and their precomputed schedule live in IndexedDB, where the
+// service worker can read them too (public/alert-sw.js opens the same
+// database, so keep the names and version in step with it).
+
+import type { ScheduledAlert } from './alertSchedule';
+import type { AlertRule } from './alertRules';
+
+const DB_NAME = 'tidal-harmonics-alerts';
+const DB_VERSION = 1;
+const RULES = 'rules';
+const SCHEDULE = 'schedule';
+
+type AlertStoreName = typeof RULES | typeof SCHEDULE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const name of [RULES, SCHEDULE]) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the alert database'));
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function transact(
+  name: AlertStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => void
+): Promise<void> {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    run(tx.objectStore(name));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('Alert database transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Alert database transaction aborted'));
+  });
+}
+
+async function getAll<T>(name: AlertStoreName): Promise<T[]> {
+  let items: T[] = [];
+  await transact(name, 'readonly', (store) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      items = request.result as T[];
+    };
+  });
+  return items;
+}
+
+/**
+ * All alert rules, oldest first
+ */
+export async function loadAlertRules(): Promise<AlertRule[]> {
+  const rules = await getAll<AlertRule>(RULES);
+  return rules.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function putAlertRules(rules: AlertRule[]): Promise<void> {
+  return transact(RULES, 'readwrite', (store) => {
+    for (const rule of rules) store.put(rule);
+  });
+}
+
+export function deleteAlertRule(id: string): Promise<void> {
+  return transact(RULES, 'readwrite', (store) => {
+    store.delete(id);
+  });
+}
+
+/**
+ * The scheduled alerts, soonest first
+ */
+export async function loadAlertSchedule(): Promise<ScheduledAlert[]> {
+  const schedule = await getAll<ScheduledAlert>(SCHEDULE);
+  return schedule.sort((a, b) => a.triggerAt - b.triggerAt);
+}
+
+/**
+ * Replace the whole schedule, in one transaction
+ */
+export function replaceAlertSchedule(schedule: ScheduledAlert[]): Promise<void> {
+  return transact(SCHEDULE, 'readwrite', (store) => {
+    store.clear();
+    for (const alert of schedule) store.put(alert);
+  });
+}
@@ -1,10 +1,12 @@
 // Astronomical parameters for tidal calculations
 // Based on NOAA/NOS methodology
 
+import * as Astronomy from 'astronomy-engine';
+import type { Constituent, NodalFactors } from '@/types/harmonics';
 import { JULIAN } from './constants';
 
 export interface AstronomicalParameters {
-  T: number; // Hour angle (degrees)
+  T: number; // Hour angle of the mean Sun (degrees)
   s: number; // Mean longitude of Moon (degrees)
   h: number; // Mean longitude of Sun (degrees)
   p: number; // Longitude of lunar perigee (degrees)
@@ -12,6 +14,28 @@ export interface AstronomicalParameters {
   pp: number; // Longitude of solar perigee (degrees)
 }
 
+/**
+ * How the mean longitudes are evaluated
+ * - polynomial: truncated series in UT (fast; good to a few arcseconds
+ *   around 2000, drifting by ΔT away from it)
+ * - precise: full Meeus/Chapront series in Terrestrial Time, with ΔT from
+ *   astronomy-engine's historical and extrapolated model
+ */
+export type EphemerisMode = 'polynomial' | 'precise';
+
+let defaultEphemerisMode: EphemerisMode = 'polynomial';
+
+/**
+ * Mode used when getAstronomicalParameters is called without one
+ */
+export function setEphemerisMode(mode: EphemerisMode) {
+  defaultEphemerisMode = mode;
+}
+
+export function getEphemerisMode(): EphemerisMode {
+  return defaultEphemerisMode;
+}
+
 /**
  * Calculate Julian centuries from J2000.0
  */
@@ -40,19 +64,31 @@ export function getHoursInDay(date: Date): number {
   );
 }
 
+/**
+ * Hour angle of the mean Sun at Greenwich (degrees)
+ * The mean Sun is on the lower meridian at midnight UT, so the angle is
+ * 180° then, and 0° at noon, as Schureman's T is.
+ */
+function meanSunHourAngle(date: Date): number {
+  return normalizeAngle(180 + getHoursInDay(date) * 15);
+}
+
 /**
  * Calculate astronomical parameters at a given date
  * These are used to compute the equilibrium argument V0 for each constituent
  *
  * Formulas from Schureman (1958) and NOAA
  */
-export function getAstronomicalParameters(date: Date): AstronomicalParameters {
+export function getAstronomicalParameters(
+  date: Date,
+  mode: EphemerisMode = defaultEphemerisMode
+): AstronomicalParameters {
+  if (mode === 'precise') return getPreciseAstronomicalParameters(date);
+
   const T = getJulianCenturies(date);
   const T2 = T * T;
   const T3 = T2 * T;
 
-  // Hour angle at Greenwich (degrees) - based on time of day
-  const hourAngle = getHoursInDay(date) * 15; // 15 degrees per hour
 
   // Mean longitude of Moon (s) - degrees
   // Measured from mean vernal equinox along ecliptic to mean ascending node
@@ -63,13 +99,7 @@ export function getAstronomicalParameters(date: Date): AstronomicalParameters {
 
   // Mean longitude of Sun (h) - degrees
   // Essentially the mean position of the Sun
-  const h = normalizeAngle(
-    280.4664567 +
-      360007.6982779 * T +
-      0.03032028 * T2 +
-      T3 / 49931 -
-      T2 * T2 / 15300
-  );
+  const h = normalizeAngle(280.46646 + 36000.76983 * T + 0.0003032 * T2);
 
   // Longitude of lunar perigee (p) - degrees
   // The point in Moon's orbit closest to Earth
@@ -88,7 +118,7 @@ export function getAstronomicalParameters(date: Date): AstronomicalParameters {
   const pp = normalizeAngle(282.9373 + 1.7195 * T);
 
   return {
-    T: hourAngle,
+    T: meanSunHourAngle(date),
     s,
     h,
     p,
@@ -97,6 +127,33 @@ export function getAstronomicalParameters(date: Date): AstronomicalParameters {
   };
 }
 
+/**
+ * Astronomical parameters from the full mean-element series
+ *
+ * The longitudes are functions of Terrestrial Time, which runs ahead of UT
+ * by ΔT (about 69 s in 2000, but under 3 s in 1900 and minutes by 2100);
+ * the Moon moves 0.5" per second, so ignoring ΔT shifts s by tens of
+ * arcseconds a century away from J2000. Series from Meeus (1998) ch. 47
+ * and Chapront et al. (2002). The hour angle stays in UT, since it tracks
+ * Earth's rotation rather than the orbits.
+ */
+function getPreciseAstronomicalParameters(date: Date): AstronomicalParameters {
+  const T = Astronomy.MakeTime(date).tt / JULIAN.DAYS_PER_CENTURY;
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const T4 = T3 * T;
+
+  const s = normalizeAngle(218.3164477 + 481267.88123421 * T - 0.0015786 * T2 + T3 / 538841 - T4 / 65194000);
+  const h = normalizeAngle(
+    280.4664567 + 36000.76982779 * T + 0.0003032028 * T2 + T3 / 49931000 - T4 / 153000000 - (T4 * T) / 2e10
+  );
+  const p = normalizeAngle(83.3532465 + 4069.0137287 * T - 0.01032 * T2 - T3 / 80053 + T4 / 18999000);
+  const N = normalizeAngle(125.0445479 - 1934.1362891 * T + 0.0020754 * T2 + T3 / 467441 - T4 / 60616000);
+  const pp = normalizeAngle(282.93735 + 1.71946 * T + 0.00046 * T2);
+
+  return { T: meanSunHourAngle(date), s, h, p, N, pp };
+}
+
 /**
  * Normalize angle to 0-360 range
  */
@@ -109,25 +166,135 @@ export function normalizeAngle(degrees: number): number {
 /**
  * Calculate the equilibrium argument V0 for a constituent
  * V0 = sum of (Doodson number × corresponding astronomical argument)
+ *      + phase constant
  *
  * The Doodson numbers weight how each astronomical cycle contributes
- * to the constituent's phase
+ * to the constituent's phase. The first number multiplies mean lunar
+ * time τ = T + h - s, not the solar hour angle, so that each argument
+ * advances at the constituent's true speed. The extended Doodson digit
+ * adds Schureman's constant in quarter cycles (K1 -90°, O1 +90°, ...),
+ * so V0 matches the Greenwich phases NOAA publishes.
  */
 export function calculateV0(
-  doodson: [number, number, number, number, number, number],
+  { doodson, doodsonPhase }: Pick<Constituent, 'doodson' | 'doodsonPhase'>,
   astro: AstronomicalParameters
 ): number {
+  const tau = astro.T + astro.h - astro.s;
+
   const v0 =
-    doodson[0] * astro.T +
+    doodson[0] * tau +
     doodson[1] * astro.s +
     doodson[2] * astro.h +
     doodson[3] * astro.p +
     doodson[4] * astro.N +
-    doodson[5] * astro.pp;
+    doodson[5] * astro.pp +
+    doodsonPhase * 90;
 
   return normalizeAngle(v0);
 }
 
+// Obliquity of the ecliptic and inclination of the lunar orbit to it,
+// as used by Schureman (1958) for the nodal angles
+const OBLIQUITY = (23.452 * Math.PI) / 180;
+const LUNAR_INCLINATION = (5.145 * Math.PI) / 180;
+const RAD = Math.PI / 180;
+
+/**
+ * Angles of the lunar orbit relative to the equator (radians)
+ * I = inclination, ν = right ascension of the intersection,
+ * ξ = longitude in the orbit of the intersection,
+ * ν′ and 2ν″ = lunisolar terms for K1 and K2
+ */
+interface NodeAngles {
+  I: number;
+  nu: number;
+  xi: number;
+  nup: number;
+  nupp2: number;
+}
+
+let cachedNode: { N: number; angles: NodeAngles } | null = null;
+
+function getNodeAngles(N: number): NodeAngles {
+  if (cachedNode && cachedNode.N === N) return cachedNode.angles;
+
+  const Nrad = N * RAD;
+  const w = OBLIQUITY;
+  const i = LUNAR_INCLINATION;
+
+  const I = Math.acos(Math.cos(i) * Math.cos(w) - Math.sin(i) * Math.sin(w) * Math.cos(Nrad));
+
+  // Schureman eqs. 10-11 via Napier's analogies
+  const e1 = Math.atan((Math.cos(0.5 * (w - i)) / Math.cos(0.5 * (w + i))) * Math.tan(0.5 * Nrad)) - 0.5 * Nrad;
+  const e2 = Math.atan((Math.sin(0.5 * (w - i)) / Math.sin(0.5 * (w + i))) * Math.tan(0.5 * Nrad)) - 0.5 * Nrad;
+  const xi = -(e1 + e2);
+  const nu = e1 - e2;
+
+  // Schureman eqs. 224 and 232
+  const nup = Math.atan((Math.sin(2 * I) * Math.sin(nu)) / (Math.sin(2 * I) * Math.cos(nu) + 0.3347));
+  const nupp2 = Math.atan(
+    (Math.sin(I) ** 2 * Math.sin(2 * nu)) / (Math.sin(I) ** 2 * Math.cos(2 * nu) + 0.0727)
+  );
+
+  const angles = { I, nu, xi, nup, nupp2 };
+  cachedNode = { N, angles };
+  return angles;
+}
+
+// Mean values of the Schureman node factor terms over a full nodal cycle
+const MEAN_M2 = Math.cos(0.5 * OBLIQUITY) ** 4 * Math.cos(0.5 * LUNAR_INCLINATION) ** 4;
+const MEAN_O1 =
+  Math.sin(OBLIQUITY) * Math.cos(0.5 * OBLIQUITY) ** 2 * Math.cos(0.5 * LUNAR_INCLINATION) ** 4;
+const MEAN_J1 = Math.sin(2 * OBLIQUITY) * (1 - 1.5 * Math.sin(LUNAR_INCLINATION) ** 2);
+const MEAN_OO1 =
+  Math.sin(OBLIQUITY) * Math.sin(0.5 * OBLIQUITY) ** 2 * Math.cos(0.5 * LUNAR_INCLINATION) ** 4;
+const MEAN_MF = Math.sin(OBLIQUITY) ** 2 * Math.cos(0.5 * LUNAR_INCLINATION) ** 4;
+const MEAN_MM = (2 / 3 - Math.sin(OBLIQUITY) ** 2) * (1 - 1.5 * Math.sin(LUNAR_INCLINATION) ** 2);
+const MEAN_K1 = 0.5023 * MEAN_J1 + 0.1681;
+const MEAN_K2 = 0.5023 * Math.sin(OBLIQUITY) ** 2 * (1 - 1.5 * Math.sin(LUNAR_INCLINATION) ** 2) + 0.0365;
+
+/**
+ * Schureman node factor formula used by each astronomical constituent
+ * Constituents without an entry (S2, P1, Sa, ...) are purely solar: f = 1, u = 0
+ */
+const NODAL_FORMULA: Record<string, 'M2' | 'L2' | 'K2' | 'K1' | 'O1' | 'J1' | 'OO1' | 'M1' | 'Mf' | 'Mm'> = {
+  M2: 'M2',
+  N2: 'M2',
+  '2N2': 'M2',
+  MU2: 'M2',
+  NU2: 'M2',
+  LAM2: 'M2',
+  L2: 'L2',
+  K2: 'K2',
+  K1: 'K1',
+  O1: 'O1',
+  Q1: 'O1',
+  '2Q1': 'O1',
+  RHO1: 'O1',
+  J1: 'J1',
+  OO1: 'OO1',
+  M1: 'M1',
+  Mf: 'Mf',
+  Mm: 'Mm',
+};
+
+/**
+ * Shallow-water and compound constituents as combinations of their parents
+ * e.g. 2MK3 = M2 + M2 - K1, so f = f(M2)² × f(K1) and u = 2u(M2) - u(K1)
+ */
+export const COMPOUND_CONSTITUENTS: Record<string, Record<string, number>> = {
+  MSf: { S2: 1, M2: -1 },
+  MK3: { M2: 1, K1: 1 },
+  '2MK3': { M2: 2, K1: -1 },
+  M4: { M2: 2 },
+  MS4: { M2: 1, S2: 1 },
+  MN4: { M2: 1, N2: 1 },
+  S4: { S2: 2 },
+  M6: { M2: 3 },
+  S6: { S2: 3 },
+  M8: { M2: 4 },
+};
+
 /**
  * Nodal factors f and u
  *
@@ -135,148 +302,104 @@ export function calculateV0(
  * f is the amplitude factor (multiplier)
  * u is the phase correction (degrees)
  *
- * Simplified implementation - for educational purposes
- * Full implementation would need constituent-specific formulas
+ * Astronomical constituents use the formulas of Schureman (1958),
+ * Tables 2 and 14. L2 and M1 also depend on the lunar perigee.
+ * Compound constituents combine the factors of their parents.
  */
 export function getNodalFactors(
   symbol: string,
-  N: number
-): { f: number; u: number } {
-  // Convert N to radians
-  const Nrad = (N * Math.PI) / 180;
-  const sinN = Math.sin(Nrad);
-  const cosN = Math.cos(Nrad);
-  const sin2N = Math.sin(2 * Nrad);
-  const cos2N = Math.cos(2 * Nrad);
-
-  // Commonly used intermediate values
-  const w = Math.sqrt(
-    (1 - 0.2505 * cos2N - 0.1102 * cosN) ** 2 +
-      (0.2505 * sin2N + 0.1102 * sinN) ** 2
-  );
+  astro: Pick<AstronomicalParameters, 'N' | 'p'>
+): NodalFactors {
+  const parents = COMPOUND_CONSTITUENTS[symbol];
+  if (parents) {
+    let f = 1;
+    let u = 0;
+    for (const [parent, count] of Object.entries(parents)) {
+      const factors = getNodalFactors(parent, astro);
+      f *= factors.f ** Math.abs(count);
+      u += count * factors.u;
+    }
+    return { f, u };
+  }
+
+  const formula = NODAL_FORMULA[symbol];
+  if (!formula) return { f: 1.0, u: 0 };
+
+  const { I, nu, xi, nup, nupp2 } = getNodeAngles(astro.N);
+  const sinI = Math.sin(I);
+  const fM2 = Math.cos(0.5 * I) ** 4 / MEAN_M2;
+  const uM2 = 2 * xi - 2 * nu;
+  const fO1 = (sinI * Math.cos(0.5 * I) ** 2) / MEAN_O1;
+  const uO1 = 2 * xi - nu;
+  // Longitude of lunar perigee measured from the intersection
+  const P = astro.p * RAD - xi;
+
+  let f: number;
+  let u: number;
 
-  // Constituent-specific factors
-  // These are simplified approximations
-  switch (symbol) {
+  switch (formula) {
     case 'M2':
-    case 'N2':
-    case '2N2':
-    case 'MU2':
-    case 'NU2':
-    case 'L2':
-    case 'LAM2':
-      return {
-        f:
-          1.0 -
-          0.037 * cosN,
-        u: -2.1 * sinN,
-      };
-
-    case 'S2':
-    case 'T2':
-    case 'R2':
-      // Solar constituents have no nodal modulation
-      return { f: 1.0, u: 0 };
+      f = fM2;
+      u = uM2;
+      break;
+
+    case 'L2': {
+      // Schureman eqs. 213-215
+      const tanHalfI = Math.tan(0.5 * I);
+      const Ra = Math.sqrt(1 - 12 * tanHalfI ** 2 * Math.cos(2 * P) + 36 * tanHalfI ** 4);
+      const R = Math.atan(Math.sin(2 * P) / (1 / (6 * tanHalfI ** 2) - Math.cos(2 * P)));
+      f = fM2 * Ra;
+      u = uM2 - R;
+      break;
+    }
 
     case 'K2':
-      return {
-        f: 1.024 + 0.286 * cosN,
-        u: -17.74 * sinN,
-      };
+      f = Math.sqrt(0.2523 * sinI ** 4 + 0.0367 * sinI ** 2 * Math.cos(2 * nu) + 0.0013) / MEAN_K2;
+      u = -nupp2;
+      break;
 
     case 'K1':
-      return {
-        f: 1.006 + 0.115 * cosN,
-        u: -8.86 * sinN,
-      };
+      f = Math.sqrt(0.2523 * Math.sin(2 * I) ** 2 + 0.1689 * Math.sin(2 * I) * Math.cos(nu) + 0.0283) / MEAN_K1;
+      u = -nup;
+      break;
 
     case 'O1':
-    case 'Q1':
-    case '2Q1':
-    case 'RHO1':
-      return {
-        f: 1.009 + 0.187 * cosN,
-        u: 10.8 * sinN,
-      };
-
-    case 'P1':
-    case 'S1':
-      // Solar diurnal - no nodal modulation
-      return { f: 1.0, u: 0 };
+      f = fO1;
+      u = uO1;
+      break;
 
     case 'J1':
-    case 'OO1':
-      return {
-        f: 1.024 + 0.286 * cosN,
-        u: -17.74 * sinN,
-      };
+      f = Math.sin(2 * I) / MEAN_J1;
+      u = -nu;
+      break;
 
-    case 'M1':
-      return {
-        f: w,
-        u: 0,
-      };
+    case 'OO1':
+      f = (sinI * Math.sin(0.5 * I) ** 2) / MEAN_OO1;
+      u = -2 * xi - nu;
+      break;
+
+    case 'M1': {
+      // Schureman eqs. 197-207
+      const cosI = Math.cos(I);
+      const Qa = Math.sqrt(
+        0.25 + 1.5 * cosI * Math.cos(2 * P) * Math.cos(0.5 * I) ** -0.5 + 2.25 * cosI ** 2 * Math.cos(0.5 * I) ** -4
+      );
+      const Q = Math.atan(((5 * cosI - 1) / (7 * cosI + 1)) * Math.tan(P));
+      f = fO1 * Qa;
+      u = xi - nu + Q;
+      break;
+    }
 
     case 'Mf':
-      return {
-        f: 1.043 + 0.414 * cosN,
-        u: -23.7 * sinN,
-      };
+      f = sinI ** 2 / MEAN_MF;
+      u = -2 * xi;
+      break;
 
     case 'Mm':
-      return {
-        f: 1.0 - 0.13 * cosN,
-        u: 0,
-      };
-
-    case 'Ssa':
-    case 'Sa':
-    case 'MSf':
-      return { f: 1.0, u: 0 };
-
-    case 'M4':
-    case 'MN4':
-      return {
-        f: (1.0 - 0.037 * cosN) ** 2,
-        u: -4.2 * sinN,
-      };
-
-    case 'MS4':
-      return {
-        f: 1.0 - 0.037 * cosN,
-        u: -2.1 * sinN,
-      };
-
-    case 'M6':
-      return {
-        f: (1.0 - 0.037 * cosN) ** 3,
-        u: -6.3 * sinN,
-      };
-
-    case 'S4':
-    case 'S6':
-      return { f: 1.0, u: 0 };
-
-    case 'MK3':
-      return {
-        f: (1.0 - 0.037 * cosN) * (1.006 + 0.115 * cosN),
-        u: -2.1 * sinN - 8.86 * sinN,
-      };
-
-    case '2MK3':
-      return {
-        f: (1.0 - 0.037 * cosN) ** 2 * (1.006 + 0.115 * cosN),
-        u: -4.2 * sinN + 8.86 * sinN,
-      };
-
-    case 'M8':
-      return {
-        f: (1.0 - 0.037 * cosN) ** 4,
-        u: -8.4 * sinN,
-      };
-
-    default:
-      // Default: no nodal correction
-      return { f: 1.0, u: 0 };
+      f = (2 / 3 - sinI ** 2) / MEAN_MM;
+      u = 0;
+      break;
   }
+
+  return { f, u: u / RAD };
 }
@@ -53,6 +53,9 @@ export const TEXTURE_URLS = {
   },
 } as const;
 
+// Mean lunar day: each tidal day holds one higher high and one lower low
+export const TIDAL_DAY_MS = 24.8412 * 3600000;
+
 // Julian Date constants
 export const JULIAN = {
   UNIX_EPOCH_JD: 2440587.5,  // JD at Unix epoch (Jan 1, 1970 00:00:00 UTC)
@@ -0,0 +1,224 @@
+// Tidal current prediction from ellipse constituents
+// Each axis of a current station is a harmonic series in knots, predicted
+// exactly like a tide height; the two axes combine into a velocity vector.
+// Slack water is where the flow along the flood axis reverses, which in most
+// channels is not the time of high or low water.
+
+import type { CurrentStation, TideStation } from '@/types/harmonics';
+import { CURRENT_STATIONS } from '@/data/currentStations';
+import { compilePredictionKernel, locateExtremes } from './predictionKernel';
+import type { PredictionKernel } from './predictionKernel';
+
+const DEG = Math.PI / 180;
+const MS_PER_MINUTE = 60000;
+const SLACK_SCAN_MS = 10 * MS_PER_MINUTE;
+const SLACK_TOLERANCE_MS = 1000;
+const EARTH_RADIUS_KM = 6371;
+
+// Below this speed the current is shown as slack (knots)
+export const SLACK_SPEED = 0.2;
+
+// Tide stations only borrow a current station within this distance
+const NEARBY_CURRENT_KM = 50;
+
+export type CurrentState = 'flood' | 'ebb';
+
+export interface CurrentVelocity {
+  time: Date;
+  major: number; // knots along the flood direction, negative when ebbing
+  minor: number; // knots 90° clockwise of the flood direction
+  speed: number; // knots
+  direction: number; // degrees true the current sets toward
+  state: CurrentState;
+}
+
+export type CurrentEventType = 'slack-before-flood' | 'slack-before-ebb' | 'max-flood' | 'max-ebb';
+
+export interface CurrentEvent {
+  time: Date;
+  type: CurrentEventType;
+  velocity: CurrentVelocity;
+}
+
+export interface CurrentKernel {
+  readonly start: number;
+  readonly end: number;
+  velocityAt: (time: Date | number) => CurrentVelocity;
+  // Evenly spaced series from start to end inclusive
+  series: (intervalMinutes: number) => CurrentVelocity[];
+}
+
+/**
+ * One axis of the current as a harmonic series the prediction kernel accepts
+ */
+function axisSeries(station: CurrentStation, axis: 'major' | 'minor') {
+  return {
+    constituents: station.constituents.map((c) => ({
+      symbol: c.symbol,
+      amplitude: axis === 'major' ? c.majorAmplitude : c.minorAmplitude,
+      phase: axis === 'major' ? c.majorPhase : c.minorPhase,
+    })),
+    meanLevel: station.meanCurrent[axis],
+  };
+}
+
+function toVelocity(station: CurrentStation, time: number, major: number, minor: number): CurrentVelocity {
+  const set = station.floodDirection + Math.atan2(minor, major) / DEG;
+  return {
+    time: new Date(time),
+    major,
+    minor,
+    speed: Math.hypot(major, minor),
+    direction: ((set % 360) + 360) % 360,
+    state: major >= 0 ? 'flood' : 'ebb',
+  };
+}
+
+/**
+ * Compile both current axes over a span
+ */
+export function compileCurrentKernel(station: CurrentStation, startDate: Date, endDate: Date): CurrentKernel {
+  const major = compilePredictionKernel(axisSeries(station, 'major'), startDate, endDate);
+  const minor = compilePredictionKernel(axisSeries(station, 'minor'), startDate, endDate);
+
+  const velocityAt = (time: Date | number): CurrentVelocity => {
+    const t = typeof time === 'number' ? time : time.getTime();
+    return toVelocity(station, t, major.heightAt(t), minor.heightAt(t));
+  };
+
+  const series = (intervalMinutes: number): CurrentVelocity[] => {
+    const minorSeries = minor.series(intervalMinutes);
+    return major
+      .series(intervalMinutes)
+      .map((p, i) => toVelocity(station, p.time.getTime(), p.height, minorSeries[i]!.height));
+  };
+
+  return { start: major.start, end: major.end, velocityAt, series };
+}
+
+/**
+ * Current velocity at a single time
+ */
+export function predictCurrent(station: CurrentStation, time: Date): CurrentVelocity {
+  return compileCurrentKernel(station, time, time).velocityAt(time);
+}
+
+/**
+ * Slack waters in (start, end]: sign changes of the flood-axis velocity,
+ * bisected to within a second
+ */
+function locateSlacks(kernel: PredictionKernel, start: number, end: number): { time: number; beforeFlood: boolean }[] {
+  const slacks: { time: number; beforeFlood: boolean }[] = [];
+  let t0 = start;
+  let v0 = kernel.heightAt(t0);
+
+  while (t0 < end) {
+    const t1 = Math.min(end, t0 + SLACK_SCAN_MS);
+    const v1 = kernel.heightAt(t1);
+
+    if ((v0 > 0 && v1 <= 0) || (v0 < 0 && v1 >= 0)) {
+      const flooding = v0 > 0;
+      let lo = t0;
+      let hi = t1;
+      while (hi - lo > SLACK_TOLERANCE_MS) {
+        const mid = (lo + hi) / 2;
+        if (kernel.heightAt(mid) > 0 === flooding) lo = mid;
+        else hi = mid;
+      }
+      slacks.push({ time: (lo + hi) / 2, beforeFlood: !flooding });
+    }
+
+    t0 = t1;
+    v0 = v1;
+  }
+
+  return slacks;
+}
+
+/**
+ * Slack waters and strengths of flood and ebb between two times
+ *
+ * Max flood and max ebb are the turning points of the flood-axis velocity
+ * on either side of zero; weaker turning points within a flood or ebb (the
+ * "minimum before" of a mixed current) are not reported. A current whose
+ * mean flow never lets it reverse has no slack.
+ */
+export function findCurrentEvents(station: CurrentStation, startDate: Date, endDate: Date): CurrentEvent[] {
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  const major = compilePredictionKernel(axisSeries(station, 'major'), startDate, endDate);
+  const minor = compilePredictionKernel(axisSeries(station, 'minor'), startDate, endDate);
+  const event = (time: number, type: CurrentEventType): CurrentEvent => ({
+    time: new Date(Math.round(time / MS_PER_MINUTE) * MS_PER_MINUTE),
+    type,
+    velocity: toVelocity(station, time, major.heightAt(time), minor.heightAt(time)),
+  });
+
+  const events: CurrentEvent[] = locateSlacks(major, start, end).map((s) =>
+    event(s.time, s.beforeFlood ? 'slack-before-flood' : 'slack-before-ebb')
+  );
+
+  for (const peak of locateExtremes(major, start, end)) {
+    if (peak.type === 'high' && peak.height > 0) events.push(event(peak.time.getTime(), 'max-flood'));
+    if (peak.type === 'low' && peak.height < 0) events.push(event(peak.time.getTime(), 'max-ebb'));
+  }
+
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * The stretch around a slack during which the current stays below a speed
+ * Searches at most maxMinutes either side of the slack.
+ */
+export function weakCurrentWindow(
+  kernel: CurrentKernel,
+  slack: Date,
+  threshold: number,
+  maxMinutes = 180
+): { start: Date; end: Date } {
+  const t = slack.getTime();
+  let before = 0;
+  while (before < maxMinutes && kernel.velocityAt(t - (before + 1) * MS_PER_MINUTE).speed < threshold) before++;
+  let after = 0;
+  while (after < maxMinutes && kernel.velocityAt(t + (after + 1) * MS_PER_MINUTE).speed < threshold) after++;
+  return { start: new Date(t - before * MS_PER_MINUTE), end: new Date(t + after * MS_PER_MINUTE) };
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * The nearest current station to a position, if one is within reach (km)
+ */
+export function nearestCurrentStation(
+  lat: number,
+  lon: number,
+  maxKm: number = NEARBY_CURRENT_KM
+): CurrentStation | null {
+  let nearest: CurrentStation | null = null;
+  let nearestKm = maxKm;
+  for (const c of CURRENT_STATIONS) {
+    const km = distanceKm(lat, lon, c.lat, c.lon);
+    if (km <= nearestKm) {
+      nearest = c;
+      nearestKm = km;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * The current station for a tide station
+ * Prefers a current station referenced to it, then the nearest one close
+ * enough to share its waterway.
+ */
+export function currentStationFor(station: TideStation | null): CurrentStation | null {
+  if (!station) return null;
+  const paired = CURRENT_STATIONS.find((c) => c.referenceStationId === station.id);
+  if (paired) return paired;
+  return nearestCurrentStation(station.lat, station.lon);
+}
@@ -0,0 +1,174 @@
+// Tidal datums derived from a station's harmonic constants
+// Levels are computed from a synthetic prediction over the National Tidal
+// Datum Epoch, the way NOAA derives them from 19 years of observations.
+
+import type { TideStation, TidalDatumCode, TidalDatums } from '@/types/harmonics';
+import type { TideExtreme } from './harmonics';
+import { getEphemerisMode } from './astronomical';
+import type { EphemerisMode } from './astronomical';
+import { TIDAL_DAY_MS } from './constants';
+
+// Raised when predictions change for the same constants (Schureman's V0
+// phase constants, subordinate ratios above MLLW), so cached datums are
+// derived again
+const DATUM_MODEL_VERSION = 2;
+
+// National Tidal Datum Epoch (NTDE) used by NOAA
+export const NTDE_START_YEAR = 1983;
+export const NTDE_END_YEAR = 2001;
+
+export interface TidalDatumInfo {
+  code: TidalDatumCode;
+  fullName: string;
+  description: string;
+}
+
+// Highest to lowest
+export const TIDAL_DATUMS: TidalDatumInfo[] = [
+  {
+    code: 'HAT',
+    fullName: 'Highest Astronomical Tide',
+    description: 'The highest tide level that can be predicted under average meteorological conditions',
+  },
+  {
+    code: 'MHHW',
+    fullName: 'Mean Higher High Water',
+    description: 'Average of the higher high water height of each tidal day',
+  },
+  {
+    code: 'MHW',
+    fullName: 'Mean High Water',
+    description: 'Average of all high water heights',
+  },
+  {
+    code: 'DTL',
+    fullName: 'Diurnal Tide Level',
+    description: 'Midpoint between MHHW and MLLW',
+  },
+  {
+    code: 'MTL',
+    fullName: 'Mean Tide Level',
+    description: 'Midpoint between MHW and MLW',
+  },
+  {
+    code: 'MSL',
+    fullName: 'Mean Sea Level',
+    description: 'Average water level over the 19-year National Tidal Datum Epoch',
+  },
+  {
+    code: 'MLW',
+    fullName: 'Mean Low Water',
+    description: 'Average of all low water heights',
+  },
+  {
+    code: 'MLLW',
+    fullName: 'Mean Lower Low Water',
+    description: 'Average of the lower low water height of each tidal day (US chart datum)',
+  },
+  {
+    code: 'LAT',
+    fullName: 'Lowest Astronomical Tide',
+    description: 'The lowest tide level that can be predicted (UK/international chart datum)',
+  },
+];
+
+export function isTidalDatumCode(value: string): value is TidalDatumCode {
+  return TIDAL_DATUMS.some((d) => d.code === value);
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Reduce a datum epoch's worth of extremes to tidal datums
+ *
+ * MHW and MLW average every high and low water; MHHW and MLLW average the
+ * highest high and lowest low of each tidal day. HAT and LAT are the
+ * extreme predicted levels, so the extremes should span the full 18.6-year
+ * nodal cycle.
+ */
+export function deriveTidalDatums(
+  extremes: TideExtreme[],
+  meanSeaLevel: number,
+  epochStart: number,
+  epoch: string
+): TidalDatums {
+  const highs: number[] = [];
+  const lows: number[] = [];
+  const higherHighs = new Map<number, number>();
+  const lowerLows = new Map<number, number>();
+
+  for (const e of extremes) {
+    const day = Math.floor((e.time.getTime() - epochStart) / TIDAL_DAY_MS);
+    if (e.type === 'high') {
+      highs.push(e.height);
+      higherHighs.set(day, Math.max(higherHighs.get(day) ?? -Infinity, e.height));
+    } else {
+      lows.push(e.height);
+      lowerLows.set(day, Math.min(lowerLows.get(day) ?? Infinity, e.height));
+    }
+  }
+
+  const MHHW = mean([...higherHighs.values()]);
+  const MHW = mean(highs);
+  const MLW = mean(lows);
+  const MLLW = mean([...lowerLows.values()]);
+
+  return {
+    epoch,
+    levels: {
+      HAT: highs.length > 0 ? Math.max(...highs) : meanSeaLevel,
+      MHHW,
+      MHW,
+      DTL: (MHHW + MLLW) / 2,
+      MTL: (MHW + MLW) / 2,
+      MSL: meanSeaLevel,
+      MLW,
+      MLLW,
+      LAT: lows.length > 0 ? Math.min(...lows) : meanSeaLevel,
+    },
+  };
+}
+
+/**
+ * The datum a station's heights are shown against unless the user picks one
+ * US stations chart to MLLW and European chart datum (CD) approximates LAT;
+ * geodetic datums can't be derived from the tide, so those fall back to MSL.
+ */
+export function defaultDatumFor(station: TideStation): TidalDatumCode {
+  if (isTidalDatumCode(station.datum)) return station.datum;
+  if (station.datum === 'CD') return 'LAT';
+  return 'MSL';
+}
+
+/**
+ * Re-express a station's heights relative to one of its tidal datums
+ * Shifts the mean level so predictions read as heights above the datum,
+ * and shifts the stored datum levels to match. Returns the station
+ * unchanged until its datums have been computed.
+ */
+export function referenceStation(station: TideStation, datum: TidalDatumCode): TideStation {
+  if (!station.datums) return station;
+  const offset = station.datums.levels[datum];
+  const levels = Object.fromEntries(
+    Object.entries(station.datums.levels).map(([code, level]) => [code, level - offset])
+  ) as Record<TidalDatumCode, number>;
+
+  return {
+    ...station,
+    datum,
+    meanLevel: (station.meanLevel ?? 0) - offset,
+    datums: { ...station.datums, levels },
+  };
+}
+
+/**
+ * Identifies the harmonic constants (and subordinate corrections) datums
+ * were computed from, and the ephemeris they were computed with, as the
+ * prediction job cache key does. Cached datums are discarded when they change.
+ */
+export function datumSignature(station: TideStation, ephemeris: EphemerisMode = getEphemerisMode()): string {
+  const constants = station.constituents.map((c) => `${c.symbol}:${c.amplitude}:${c.phase}`).join(',');
+  const offsets = station.subordinate ? JSON.stringify(station.subordinate.offsets) : '';
+  return `${DATUM_MODEL_VERSION}|${station.meanLevel ?? 0}|${constants}|${offsets}|${ephemeris}`;
+}
@@ -0,0 +1,216 @@
+// Daylight
+// Sunrise, sunset, twilight and moonrise/moonset at a place, from
+// astronomy-engine. Light is graded by the altitude of the sun's centre:
+// day while it is above the horizon, then civil (down to -6°), nautical
+// (-12°) and astronomical (-18°) twilight, then night.
+
+import { Astronomy } from './ephemeris';
+import { zonedTime } from './timeZones';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sun's centre at sunrise and sunset: refraction plus the half-diameter of the disc
+const SUNRISE_ALTITUDE = -0.8333;
+const CIVIL_ALTITUDE = -6;
+const NAUTICAL_ALTITUDE = -12;
+const ASTRONOMICAL_ALTITUDE = -18;
+
+export type LightPhase = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface LightBand extends TimeInterval {
+  phase: LightPhase;
+}
+
+// The sun and moon over one station day; null where an event doesn't happen that day
+export interface SunMoonTimes {
+  astronomicalDawn: Date | null;
+  nauticalDawn: Date | null;
+  civilDawn: Date | null;
+  sunrise: Date | null;
+  solarNoon: Date;
+  sunset: Date | null;
+  civilDusk: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDusk: Date | null;
+  moonrise: Date | null;
+  moonset: Date | null;
+  daylightMinutes: number;
+}
+
+export const LIGHT_PHASE_LABELS: Record<LightPhase, string> = {
+  day: 'Daylight',
+  civil: 'Civil twilight',
+  nautical: 'Nautical twilight',
+  astronomical: 'Astronomical twilight',
+  night: 'Night',
+};
+
+// Darkest first, matching the altitudes below
+const TWILIGHT_ALTITUDES: [LightPhase, number][] = [
+  ['astronomical', ASTRONOMICAL_ALTITUDE],
+  ['nautical', NAUTICAL_ALTITUDE],
+  ['civil', CIVIL_ALTITUDE],
+];
+
+function altitude(body: Astronomy.Body, observer: Astronomy.Observer, date: Date): number {
+  const time = Astronomy.MakeTime(date);
+  const equator = Astronomy.Equator(body, time, observer, true, true);
+  return Astronomy.Horizon(time, observer, equator.ra, equator.dec).altitude;
+}
+
+// Rise (direction 1) or set (-1) across the horizon, or across an altitude when given
+function searchCrossing(
+  body: Astronomy.Body,
+  observer: Astronomy.Observer,
+  direction: 1 | -1,
+  from: Date,
+  days: number,
+  crossing?: number
+): Date | null {
+  const found =
+    crossing === undefined
+      ? Astronomy.SearchRiseSet(body, observer, direction, from, days)
+      : Astronomy.SearchAltitude(body, observer, direction, from, days, crossing);
+  return found ? found.date : null;
+}
+
+// Stretches between two dates with a body above the horizon (or an altitude),
+// clipped to the range
+function intervalsAbove(
+  body: Astronomy.Body,
+  observer: Astronomy.Observer,
+  startDate: Date,
+  endDate: Date,
+  crossing?: number
+): TimeInterval[] {
+  const end = endDate.getTime();
+  const intervals: TimeInterval[] = [];
+
+  let t = startDate.getTime();
+  let up = altitude(body, observer, startDate) > (crossing ?? SUNRISE_ALTITUDE);
+  while (t < end) {
+    // The next setting while up, else the next rising
+    const next = searchCrossing(body, observer, up ? -1 : 1, new Date(t), (end - t) / DAY_MS, crossing);
+    const until = next ? Math.min(next.getTime(), end) : end;
+    if (up) intervals.push({ start: new Date(t), end: new Date(until) });
+    if (!next) break;
+    t = until;
+    up = !up;
+  }
+  return intervals;
+}
+
+/**
+ * Daylight between two dates at a place, as sunrise-to-sunset intervals
+ * Intervals are clipped to the range: under the midnight sun the whole
+ * range is one interval, and in polar night there are none.
+ */
+export function findDaylightIntervals(
+  latitude: number,
+  longitude: number,
+  startDate: Date,
+  endDate: Date
+): TimeInterval[] {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  return intervalsAbove(Astronomy.Body.Sun, observer, startDate, endDate);
+}
+
+/**
+ * Moon above the horizon between two dates at a place, clipped to the range
+ */
+export function findMoonUpIntervals(
+  latitude: number,
+  longitude: number,
+  startDate: Date,
+  endDate: Date
+): TimeInterval[] {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  return intervalsAbove(Astronomy.Body.Moon, observer, startDate, endDate);
+}
+
+/**
+ * Day, twilight and night between two dates at a place, in time order
+ *
+ * The bands cover the whole range. Where the sun never gets low enough
+ * (a summer night at high latitude) there is simply no darker band.
+ */
+export function findLightBands(latitude: number, longitude: number, startDate: Date, endDate: Date): LightBand[] {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  if (!(end > start)) return [];
+
+  // Each set of intervals lies inside the one before
+  const levels: TimeInterval[][] = [
+    ...TWILIGHT_ALTITUDES.map(([, crossing]) =>
+      intervalsAbove(Astronomy.Body.Sun, observer, startDate, endDate, crossing)
+    ),
+    intervalsAbove(Astronomy.Body.Sun, observer, startDate, endDate),
+  ];
+  const phases: LightPhase[] = ['night', ...TWILIGHT_ALTITUDES.map(([phase]) => phase), 'day'];
+
+  const edges = new Set([start, end]);
+  for (const level of levels) {
+    for (const interval of level) {
+      edges.add(interval.start.getTime());
+      edges.add(interval.end.getTime());
+    }
+  }
+  const times = [...edges].sort((a, b) => a - b);
+
+  const bands: LightBand[] = [];
+  for (let i = 0; i + 1 < times.length; i++) {
+    const from = times[i]!;
+    const to = times[i + 1]!;
+    const mid = (from + to) / 2;
+    const depth = levels.filter((level) =>
+      level.some((interval) => interval.start.getTime() <= mid && mid < interval.end.getTime())
+    ).length;
+    const phase = phases[depth]!;
+    const last = bands[bands.length - 1];
+    if (last && last.phase === phase) last.end = new Date(to);
+    else bands.push({ start: new Date(from), end: new Date(to), phase });
+  }
+  return bands;
+}
+
+/**
+ * Sun and moon events over the day containing a date, in a time zone
+ */
+export function getSunMoonTimes(latitude: number, longitude: number, date: Date, timeZone: string): SunMoonTimes {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const tz = zonedTime(timeZone);
+  const dayStart = tz.startOfDay(date);
+  const dayEnd = tz.addDays(dayStart, 1);
+  const days = (dayEnd.getTime() - dayStart.getTime()) / DAY_MS;
+
+  const event = (body: Astronomy.Body, direction: 1 | -1, crossing?: number) => {
+    const found = searchCrossing(body, observer, direction, dayStart, days, crossing);
+    return found && found < dayEnd ? found : null;
+  };
+
+  const daylightMinutes = findDaylightIntervals(latitude, longitude, dayStart, dayEnd).reduce(
+    (sum, d) => sum + (d.end.getTime() - d.start.getTime()) / 60000,
+    0
+  );
+
+  return {
+    astronomicalDawn: event(Astronomy.Body.Sun, 1, ASTRONOMICAL_ALTITUDE),
+    nauticalDawn: event(Astronomy.Body.Sun, 1, NAUTICAL_ALTITUDE),
+    civilDawn: event(Astronomy.Body.Sun, 1, CIVIL_ALTITUDE),
+    sunrise: event(Astronomy.Body.Sun, 1),
+    solarNoon: Astronomy.SearchHourAngle(Astronomy.Body.Sun, observer, 0, dayStart).time.date,
+    sunset: event(Astronomy.Body.Sun, -1),
+    civilDusk: event(Astronomy.Body.Sun, -1, CIVIL_ALTITUDE),
+    nauticalDusk: event(Astronomy.Body.Sun, -1, NAUTICAL_ALTITUDE),
+    astronomicalDusk: event(Astronomy.Body.Sun, -1, ASTRONOMICAL_ALTITUDE),
+    moonrise: event(Astronomy.Body.Moon, 1),
+    moonset: event(Astronomy.Body.Moon, -1),
+    daylightMinutes,
+  };
+}
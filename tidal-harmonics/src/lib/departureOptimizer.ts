@@ -0,0 +1,242 @@
+// Departure optimizer
+// Sweeps departure times over a range and sails the passage from each one,
+// leg by leg through the tidal stream (see passagePlan), checking every gate
+// as the boat reaches it. Departures that clear every gate are ranked; the
+// rest are kept with the gate that stopped them, so the planner can see what
+// is binding and by how much.
+
+import type { TideStation } from '@/types/harmonics';
+import { compilePredictionKernel } from './predictionKernel';
+import type { PredictionKernel } from './predictionKernel';
+import { createStreamModel, planLeg } from './passagePlan';
+import type { LegPlan, RoutePoint, StreamModel } from './passagePlan';
+import { DEFAULT_SLACK_RATE } from './tidalWindows';
+import { fuelBurnAt } from './vessel';
+import type { FuelBurnPoint } from './vessel';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+
+// Streams and tides are compiled this far past the last departure
+const PASSAGE_ALLOWANCE_MS = 48 * MS_PER_HOUR;
+
+// Heights are about the station's chart datum
+export type PassageGate =
+  | { kind: 'depth'; chartedDepth: number; underKeelClearance: number } // m; negative depth dries
+  | { kind: 'slack'; maxStream: number } // knots
+  | { kind: 'clearance'; bridgeHeight: number; margin: number }; // underside above datum, m
+
+export type GateKind = PassageGate['kind'];
+
+export interface PassageWaypoint extends RoutePoint {
+  name: string;
+  gate: PassageGate | null; // checked as the boat passes
+}
+
+export interface PassageVessel {
+  speed: number; // knots through the water
+  draft: number; // m
+  airDraft: number; // m
+  fuelBurn: FuelBurnPoint[];
+}
+
+export type DepartureRanking = 'time' | 'fuel' | 'adverse';
+
+export interface GateCheck {
+  waypointIndex: number;
+  gate: PassageGate;
+  time: Date;
+  // depth: water over the gate (m); clearance: room under the bridge (m);
+  // slack: stream speed (kts), or the tide's rate (m/h) with no current station
+  value: number;
+  required: number;
+  unit: 'm' | 'kts' | 'm/h';
+  passed: boolean;
+}
+
+export type Rejection =
+  | { kind: 'gate'; check: GateCheck }
+  | { kind: 'stream'; legIndex: number }; // too strong to hold the track
+
+export interface DepartureResult {
+  departure: Date;
+  arrival: Date | null; // null when a leg can't be sailed
+  legs: LegPlan[];
+  minutes: number;
+  fuelLiters: number; // at the cruise speed's burn, see legFuelLiters
+  adverseMiles: number; // distance lost to foul stream
+  gates: GateCheck[];
+  rejection: Rejection | null; // the first thing that rules the departure out
+}
+
+export interface DepartureSearch {
+  start: Date;
+  end: Date;
+  stepMinutes: number;
+}
+
+export interface DepartureSweep {
+  ranked: DepartureResult[]; // best first
+  rejected: DepartureResult[]; // in time order
+}
+
+export const GATE_KIND_LABELS: Record<GateKind, string> = {
+  depth: 'Minimum depth',
+  slack: 'Slack water only',
+  clearance: 'Bridge clearance',
+};
+
+export const RANKING_LABELS: Record<DepartureRanking, string> = {
+  time: 'Shortest passage',
+  fuel: 'Least fuel',
+  adverse: 'Least foul stream',
+};
+
+function checkGate(
+  gate: PassageGate,
+  waypoint: PassageWaypoint,
+  waypointIndex: number,
+  time: Date,
+  vessel: PassageVessel,
+  tide: PredictionKernel,
+  streams: StreamModel
+): GateCheck {
+  const t = time.getTime();
+  const check = { waypointIndex, gate, time };
+
+  switch (gate.kind) {
+    case 'depth': {
+      const value = gate.chartedDepth + tide.heightAt(t);
+      const required = vessel.draft + gate.underKeelClearance;
+      return { ...check, value, required, unit: 'm', passed: value >= required };
+    }
+    case 'clearance': {
+      const value = gate.bridgeHeight - tide.heightAt(t);
+      const required = vessel.airDraft + gate.margin;
+      return { ...check, value, required, unit: 'm', passed: value >= required };
+    }
+    case 'slack': {
+      const source = streams(waypoint);
+      if (source.station) {
+        const value = source.streamAt(t).drift;
+        return { ...check, value, required: gate.maxStream, unit: 'kts', passed: value <= gate.maxStream };
+      }
+      // No stream data here: fall back to the turn of the tide at the station
+      const value = Math.abs(tide.rateAt(t));
+      return { ...check, value, required: DEFAULT_SLACK_RATE, unit: 'm/h', passed: value < DEFAULT_SLACK_RATE };
+    }
+  }
+}
+
+/**
+ * Fuel for a leg as it was sailed
+ *
+ * planLeg times the leg at the cruise speed through the water, so the engine
+ * burns the curve's rate at that speed for the leg's minutes. Foul stream
+ * costs fuel by lengthening the leg, not by opening the throttle.
+ */
+function legFuelLiters(leg: LegPlan, vessel: PassageVessel): number {
+  return (fuelBurnAt(vessel.fuelBurn, vessel.speed) * leg.minutes) / 60;
+}
+
+/**
+ * Sail a passage from one departure time
+ *
+ * Gates are checked at the moment the boat reaches their waypoint, the
+ * departure's own gate at departure. Every gate is checked even after one
+ * fails, so the results show all of them; the first failure is the
+ * rejection.
+ */
+export function simulatePassage(
+  waypoints: PassageWaypoint[],
+  vessel: PassageVessel,
+  departure: Date,
+  tide: PredictionKernel,
+  streams: StreamModel
+): DepartureResult {
+  const legs: LegPlan[] = [];
+  const gates: GateCheck[] = [];
+  let rejection: Rejection | null = null;
+  let time = departure;
+  let adverseMiles = 0;
+  let fuelLiters = 0;
+
+  for (let i = 0; i < waypoints.length; i++) {
+    const waypoint = waypoints[i]!;
+    if (i > 0) {
+      const leg = planLeg(waypoints[i - 1]!, waypoint, time, vessel.speed, streams);
+      if (!leg) {
+        rejection ??= { kind: 'stream', legIndex: i - 1 };
+        break;
+      }
+      legs.push(leg);
+      // Stream component against the track, over the time spent in it
+      const along = leg.stream.drift * Math.cos(((leg.stream.set - leg.course) * Math.PI) / 180);
+      adverseMiles += (Math.max(0, -along) * leg.minutes) / 60;
+      fuelLiters += legFuelLiters(leg, vessel);
+      time = leg.arrival;
+    }
+    if (waypoint.gate) {
+      const check = checkGate(waypoint.gate, waypoint, i, time, vessel, tide, streams);
+      gates.push(check);
+      if (!check.passed) rejection ??= { kind: 'gate', check };
+    }
+  }
+
+  const sailed = rejection?.kind !== 'stream';
+  const minutes = legs.reduce((sum, leg) => sum + leg.minutes, 0);
+  return {
+    departure,
+    arrival: sailed ? time : null,
+    legs,
+    minutes,
+    fuelLiters,
+    adverseMiles,
+    gates,
+    rejection,
+  };
+}
+
+function rankingValue(result: DepartureResult, ranking: DepartureRanking): number {
+  switch (ranking) {
+    case 'time':
+      return result.minutes;
+    case 'fuel':
+      return result.fuelLiters;
+    case 'adverse':
+      return result.adverseMiles;
+  }
+}
+
+/**
+ * Try every departure in a range, stepping by a number of minutes
+ * Ties in the ranking go to the earlier departure.
+ */
+export function optimizeDepartures(
+  station: TideStation,
+  waypoints: PassageWaypoint[],
+  vessel: PassageVessel,
+  search: DepartureSearch,
+  ranking: DepartureRanking
+): DepartureSweep {
+  const start = search.start.getTime();
+  const end = search.end.getTime();
+  const step = Math.max(1, search.stepMinutes) * MS_PER_MINUTE;
+  if (waypoints.length < 2 || !(end >= start)) return { ranked: [], rejected: [] };
+
+  const until = new Date(end + PASSAGE_ALLOWANCE_MS);
+  const tide = compilePredictionKernel(station, search.start, until);
+  const streams = createStreamModel(search.start, until);
+
+  const ranked: DepartureResult[] = [];
+  const rejected: DepartureResult[] = [];
+  for (let t = start; t <= end; t += step) {
+    const result = simulatePassage(waypoints, vessel, new Date(t), tide, streams);
+    (result.rejection ? rejected : ranked).push(result);
+  }
+
+  ranked.sort(
+    (a, b) => rankingValue(a, ranking) - rankingValue(b, ranking) || a.departure.getTime() - b.departure.getTime()
+  );
+  return { ranked, rejected };
+}
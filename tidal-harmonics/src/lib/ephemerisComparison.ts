@@ -0,0 +1,228 @@
+// Ephemeris diagnostics
+// Compares the fast polynomial astronomical arguments with the precise ones
+// year by year, and checks both against astronomy-engine's true Moon and Sun
+// longitudes, so drift far from J2000 shows up as numbers rather than as
+// quietly shifted tide times.
+
+import * as Astronomy from 'astronomy-engine';
+import type { TideStation } from '@/types/harmonics';
+import { CONSTITUENTS } from '@/data/constituents';
+import { getAstronomicalParameters, calculateV0, getNodalFactors } from './astronomical';
+import type { AstronomicalParameters, EphemerisMode } from './astronomical';
+import { compilePredictionKernel } from './predictionKernel';
+
+const MS_PER_DAY = 86400000;
+const MS_PER_HOUR = 3600000;
+const DEG = Math.PI / 180;
+const ARCSEC_PER_DEG = 3600;
+
+// Arguments are compared monthly; residuals are averaged over samples this
+// far apart, which isn't commensurate with any major lunar period
+const RESIDUAL_STEP_DAYS = 9.13;
+// Heights are compared hourly over this many days at the start of each year
+const HEIGHT_DAYS = 30;
+
+export const DIAGNOSTIC_CONSTITUENTS = ['M2', 'S2', 'N2', 'K1', 'O1', 'M4'] as const;
+
+type ArgumentKey = 's' | 'h' | 'p' | 'N' | 'pp';
+
+export interface EphemerisYearComparison {
+  year: number;
+  deltaT: number; // TT - UT (seconds)
+  // Largest precise - polynomial difference in each argument over the year (arcsec)
+  argumentDiff: Record<ArgumentKey, number>;
+  // Largest V0 + u difference (degrees) and the tide time shift it causes
+  // (seconds; positive when the precise tide is later)
+  constituents: { symbol: string; phaseDiff: number; timingShift: number }[];
+  // Largest height difference over the first days of the year (m), when a station is given
+  heightDiff: number | null;
+}
+
+export interface EphemerisResidual {
+  decade: number;
+  // Mean true - modelled longitude (arcsec), after nutation, aberration and
+  // the main periodic terms are removed
+  moon: Record<EphemerisMode, number>;
+  sun: Record<EphemerisMode, number>;
+}
+
+export interface EphemerisComparison {
+  startYear: number;
+  endYear: number;
+  years: EphemerisYearComparison[];
+  residuals: EphemerisResidual[];
+  maxTimingShift: number; // seconds, any diagnostic constituent
+  maxHeightDiff: number | null; // m
+}
+
+// Signed difference of two angles in degrees, within ±180
+function angleDiff(a: number, b: number): number {
+  return ((((a - b) % 360) + 540) % 360) - 180;
+}
+
+function phaseOf(symbol: string, astro: AstronomicalParameters): number {
+  const constituent = CONSTITUENTS[symbol];
+  if (!constituent) return 0;
+  return calculateV0(constituent, astro) + getNodalFactors(symbol, astro).u;
+}
+
+/**
+ * Nutation in longitude (degrees), leading terms of the IAU 1980 series
+ */
+function nutationInLongitude(astro: AstronomicalParameters): number {
+  const N = astro.N * DEG;
+  const L = astro.h * DEG;
+  const Lm = astro.s * DEG;
+  return (-17.2 * Math.sin(N) - 1.32 * Math.sin(2 * L) - 0.23 * Math.sin(2 * Lm) + 0.21 * Math.sin(2 * N)) / ARCSEC_PER_DEG;
+}
+
+/**
+ * Moon's geometric longitude from the mean elements and the largest
+ * periodic terms of Meeus (1998) table 47.A
+ */
+function modelMoonLongitude(astro: AstronomicalParameters): number {
+  const Mm = (astro.s - astro.p) * DEG; // Moon's mean anomaly
+  const M = (astro.h - astro.pp) * DEG; // Sun's mean anomaly
+  const D = (astro.s - astro.h) * DEG; // mean elongation
+  const F = (astro.s - astro.N) * DEG; // argument of latitude
+  return (
+    astro.s +
+    6.288774 * Math.sin(Mm) +
+    1.274027 * Math.sin(2 * D - Mm) +
+    0.658314 * Math.sin(2 * D) +
+    0.213618 * Math.sin(2 * Mm) -
+    0.185116 * Math.sin(M) -
+    0.114332 * Math.sin(2 * F) +
+    0.058793 * Math.sin(2 * D - 2 * Mm) +
+    0.057066 * Math.sin(2 * D - M - Mm) +
+    0.053322 * Math.sin(2 * D + Mm) +
+    0.045758 * Math.sin(2 * D - M) -
+    0.040923 * Math.sin(M - Mm) -
+    0.03472 * Math.sin(D) -
+    0.030383 * Math.sin(M + Mm)
+  );
+}
+
+/**
+ * Sun's geometric longitude from the mean longitude and equation of centre
+ */
+function modelSunLongitude(astro: AstronomicalParameters): number {
+  const M = (astro.h - astro.pp) * DEG;
+  return astro.h + 1.914602 * Math.sin(M) + 0.019993 * Math.sin(2 * M) + 0.000289 * Math.sin(3 * M);
+}
+
+/**
+ * Mean residuals of both modes against the true longitudes over a span
+ */
+function longitudeResiduals(start: number, end: number): Pick<EphemerisResidual, 'moon' | 'sun'> {
+  const sums = { moon: { polynomial: 0, precise: 0 }, sun: { polynomial: 0, precise: 0 } };
+  let samples = 0;
+
+  for (let t = start; t < end; t += RESIDUAL_STEP_DAYS * MS_PER_DAY) {
+    const date = new Date(t);
+    const moon = Astronomy.EclipticGeoMoon(date).lon;
+    // Apparent longitude; aberration displaces the Sun by a constant -20.5"
+    const sun = Astronomy.SunPosition(date).elon + 20.4898 / ARCSEC_PER_DEG;
+
+    for (const mode of ['polynomial', 'precise'] as const) {
+      const astro = getAstronomicalParameters(date, mode);
+      const nutation = nutationInLongitude(astro);
+      sums.moon[mode] += angleDiff(moon - nutation, modelMoonLongitude(astro));
+      sums.sun[mode] += angleDiff(sun - nutation, modelSunLongitude(astro));
+    }
+    samples++;
+  }
+
+  const mean = (sum: number) => (samples > 0 ? (sum / samples) * ARCSEC_PER_DEG : 0);
+  return {
+    moon: { polynomial: mean(sums.moon.polynomial), precise: mean(sums.moon.precise) },
+    sun: { polynomial: mean(sums.sun.polynomial), precise: mean(sums.sun.precise) },
+  };
+}
+
+/**
+ * Largest height difference between the modes over the first days of a year
+ */
+function heightDifference(station: TideStation, year: number): number {
+  const start = new Date(Date.UTC(year, 0, 1));
+  const end = new Date(start.getTime() + HEIGHT_DAYS * MS_PER_DAY);
+  const polynomial = compilePredictionKernel(station, start, end, { ephemeris: 'polynomial' });
+  const precise = compilePredictionKernel(station, start, end, { ephemeris: 'precise' });
+
+  let max = 0;
+  for (let t = start.getTime(); t <= end.getTime(); t += MS_PER_HOUR) {
+    max = Math.max(max, Math.abs(precise.heightAt(t) - polynomial.heightAt(t)));
+  }
+  return max;
+}
+
+function compareYear(year: number, station: TideStation | null): EphemerisYearComparison {
+  const argumentDiff: Record<ArgumentKey, number> = { s: 0, h: 0, p: 0, N: 0, pp: 0 };
+  const phaseDiff = new Map<string, number>(DIAGNOSTIC_CONSTITUENTS.map((symbol) => [symbol, 0]));
+
+  // Mid-month samples; differences change slowly, so the largest is close
+  // to the year's true maximum
+  for (let month = 0; month < 12; month++) {
+    const date = new Date(Date.UTC(year, month, 15));
+    const polynomial = getAstronomicalParameters(date, 'polynomial');
+    const precise = getAstronomicalParameters(date, 'precise');
+
+    for (const key of Object.keys(argumentDiff) as ArgumentKey[]) {
+      const diff = angleDiff(precise[key], polynomial[key]) * ARCSEC_PER_DEG;
+      if (Math.abs(diff) > Math.abs(argumentDiff[key])) argumentDiff[key] = diff;
+    }
+    for (const symbol of DIAGNOSTIC_CONSTITUENTS) {
+      const diff = angleDiff(phaseOf(symbol, precise), phaseOf(symbol, polynomial));
+      if (Math.abs(diff) > Math.abs(phaseDiff.get(symbol)!)) phaseDiff.set(symbol, diff);
+    }
+  }
+
+  const midYear = Astronomy.MakeTime(new Date(Date.UTC(year, 6, 1)));
+
+  return {
+    year,
+    deltaT: (midYear.tt - midYear.ut) * 86400,
+    argumentDiff,
+    constituents: DIAGNOSTIC_CONSTITUENTS.map((symbol) => {
+      const diff = phaseDiff.get(symbol)!;
+      // A larger argument at ω°/hour brings the tide Δφ/ω hours earlier
+      return { symbol, phaseDiff: diff, timingShift: (-diff / CONSTITUENTS[symbol]!.speed) * 3600 };
+    }),
+    heightDiff: station ? heightDifference(station, year) : null,
+  };
+}
+
+/**
+ * Compare the polynomial and precise ephemerides over a range of years
+ * Takes about a second a century with a station, as heights are predicted
+ * in both modes for each year.
+ */
+export function compareEphemerides(
+  startYear: number,
+  endYear: number,
+  station: TideStation | null = null
+): EphemerisComparison {
+  const years: EphemerisYearComparison[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    years.push(compareYear(year, station));
+  }
+
+  const residuals: EphemerisResidual[] = [];
+  for (let decade = Math.floor(startYear / 10) * 10; decade <= endYear; decade += 10) {
+    const from = Math.max(decade, startYear);
+    const to = Math.min(decade + 10, endYear + 1);
+    residuals.push({ decade, ...longitudeResiduals(Date.UTC(from, 0, 1), Date.UTC(to, 0, 1)) });
+  }
+
+  const shifts = years.flatMap((y) => y.constituents.map((c) => Math.abs(c.timingShift)));
+  const heights = years.flatMap((y) => (y.heightDiff === null ? [] : [y.heightDiff]));
+
+  return {
+    startYear,
+    endYear,
+    years,
+    residuals,
+    maxTimingShift: Math.max(0, ...shifts),
+    maxHeightDiff: heights.length > 0 ? Math.max(...heights) : null,
+  };
+}
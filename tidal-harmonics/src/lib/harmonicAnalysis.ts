@@ -0,0 +1,312 @@
+// Least-squares harmonic analysis of observed water levels
+// Solves for the amplitude and Greenwich phase of each constituent so that
+// the result can be fed straight back into predictTide
+
+import type { ConstituentValue, TideStation } from '@/types/harmonics';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { CONSTITUENTS, CONSTITUENT_LIST, MAJOR_CONSTITUENTS } from '@/data/constituents';
+import {
+  getAstronomicalParameters,
+  calculateV0,
+  getNodalFactors,
+  normalizeAngle,
+} from './astronomical';
+import { toMeters } from './units';
+
+export interface WaterLevelObservation {
+  time: Date;
+  height: number; // meters
+}
+
+export interface ParsedObservations {
+  observations: WaterLevelObservation[];
+  skippedRows: number;
+}
+
+export interface HarmonicAnalysisOptions {
+  // Constituents to solve for (defaults to every entry in CONSTITUENTS)
+  constituents?: string[];
+  // Fraction of the Rayleigh criterion two constituents must be separated by
+  rayleighFactor?: number;
+}
+
+export interface HarmonicAnalysisResult {
+  meanLevel: number; // Z0, in the datum of the observations
+  constituents: ConstituentValue[];
+  excluded: { symbol: string; reason: 'rayleigh' | 'nyquist' }[];
+  observationCount: number;
+  start: Date;
+  end: Date;
+  sampleIntervalMinutes: number;
+  residualRms: number; // meters
+  varianceExplained: number; // 0-1
+}
+
+/**
+ * Parse a timestamp from a CSV cell
+ * Accepts ISO 8601, "YYYY-MM-DD HH:mm[:ss]" (read as UTC) and Unix epochs
+ */
+function parseTimestamp(raw: string): Date | null {
+  const value = raw.trim().replace(/^"|"$/g, '');
+  if (!value) return null;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const n = Number(value);
+    // Values below 1e11 are seconds, larger ones milliseconds
+    return new Date(n < 1e11 ? n * 1000 : n);
+  }
+
+  let iso = value.replace(' ', 'T');
+  if (!iso.includes('T')) iso += 'T00:00';
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(iso);
+  const date = new Date(hasZone ? iso : `${iso}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a CSV of observed water levels
+ * Expects one "time,height" pair per row; header and unparseable rows are skipped.
+ * Comma, semicolon and tab delimiters are accepted.
+ */
+export function parseObservationCsv(
+  text: string,
+  unitSystem: UnitSystem = 'metric'
+): ParsedObservations {
+  const observations: WaterLevelObservation[] = [];
+  let skippedRows = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const cells = line.split(/[,;\t]/);
+    const time = parseTimestamp(cells[0] ?? '');
+    const height = parseFloat((cells[1] ?? '').replace(/"/g, ''));
+
+    if (!time || !isFinite(height)) {
+      skippedRows++;
+      continue;
+    }
+
+    observations.push({ time, height: toMeters(height, unitSystem) });
+  }
+
+  observations.sort((a, b) => a.time.getTime() - b.time.getTime());
+  return { observations, skippedRows };
+}
+
+/**
+ * Pick the constituents that the record can actually resolve
+ *
+ * Rayleigh criterion: two frequencies separated by less than one cycle over
+ * the record length cannot be told apart. Candidates are admitted in order
+ * of typical importance, so M2 wins over its weaker neighbours.
+ */
+function selectConstituents(
+  candidates: string[],
+  durationHours: number,
+  sampleIntervalHours: number,
+  rayleighFactor: number
+): { selected: string[]; excluded: HarmonicAnalysisResult['excluded'] } {
+  const priority = (symbol: string) => {
+    const major = (MAJOR_CONSTITUENTS as readonly string[]).indexOf(symbol);
+    return major >= 0 ? major : MAJOR_CONSTITUENTS.length + CONSTITUENT_LIST.findIndex((c) => c.symbol === symbol);
+  };
+  const ordered = [...candidates].sort((a, b) => priority(a) - priority(b));
+
+  const minSeparation = (rayleighFactor * 360) / durationHours;
+  const nyquistSpeed = 180 / sampleIntervalHours;
+
+  // Z0 occupies speed 0, which blocks Sa/Ssa on records shorter than a year
+  const acceptedSpeeds = [0];
+  const selected: string[] = [];
+  const excluded: HarmonicAnalysisResult['excluded'] = [];
+
+  for (const symbol of ordered) {
+    const constituent = CONSTITUENTS[symbol];
+    if (!constituent) continue;
+
+    if (constituent.speed >= nyquistSpeed) {
+      excluded.push({ symbol, reason: 'nyquist' });
+    } else if (acceptedSpeeds.some((s) => Math.abs(s - constituent.speed) < minSeparation)) {
+      excluded.push({ symbol, reason: 'rayleigh' });
+    } else {
+      acceptedSpeeds.push(constituent.speed);
+      selected.push(symbol);
+    }
+  }
+
+  return { selected, excluded };
+}
+
+/**
+ * Solve A·x = b in place by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: Float64Array[], rhs: Float64Array): Float64Array {
+  const n = rhs.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row]![col]!) > Math.abs(matrix[pivot]![col]!)) pivot = row;
+    }
+    if (Math.abs(matrix[pivot]![col]!) < 1e-12) {
+      throw new Error('Harmonic analysis is singular; the record is too short or too sparse');
+    }
+    if (pivot !== col) {
+      [matrix[col], matrix[pivot]] = [matrix[pivot]!, matrix[col]!];
+      [rhs[col], rhs[pivot]] = [rhs[pivot]!, rhs[col]!];
+    }
+
+    const pivotRow = matrix[col]!;
+    for (let row = col + 1; row < n; row++) {
+      const target = matrix[row]!;
+      const factor = target[col]! / pivotRow[col]!;
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) target[k]! -= factor * pivotRow[k]!;
+      rhs[row]! -= factor * rhs[col]!;
+    }
+  }
+
+  const x = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    const r = matrix[row]!;
+    let sum = rhs[row]!;
+    for (let k = row + 1; k < n; k++) sum -= r[k]! * x[k]!;
+    x[row] = sum / r[row]!;
+  }
+  return x;
+}
+
+/**
+ * Fit harmonic constants to observed water levels by least squares
+ *
+ * The model is the prediction formula with an unknown mean level:
+ * h(t) = Z₀ + Σ fᵢ × [aᵢ·cos(V₀ᵢ + uᵢ) + bᵢ·sin(V₀ᵢ + uᵢ)]
+ *
+ * Because nodal f and u are evaluated at each observation time, the
+ * recovered Aᵢ = √(aᵢ² + bᵢ²) and Gᵢ = atan2(bᵢ, aᵢ) are free of the
+ * 18.6-year modulation and can be used for any other year.
+ */
+export function analyzeHarmonics(
+  observations: WaterLevelObservation[],
+  options: HarmonicAnalysisOptions = {}
+): HarmonicAnalysisResult {
+  const { constituents = Object.keys(CONSTITUENTS), rayleighFactor = 1 } = options;
+
+  if (observations.length < 3) {
+    throw new Error('At least three observations are required');
+  }
+
+  const first = observations[0]!;
+  const last = observations[observations.length - 1]!;
+  const durationHours = (last.time.getTime() - first.time.getTime()) / 3600000;
+  if (durationHours <= 0) {
+    throw new Error('Observations must span a positive time range');
+  }
+
+  // Median spacing is robust to gaps in the record
+  const gaps = observations
+    .slice(1)
+    .map((o, i) => o.time.getTime() - observations[i]!.time.getTime())
+    .sort((a, b) => a - b);
+  const sampleIntervalHours = (gaps[Math.floor(gaps.length / 2)] ?? 3600000) / 3600000;
+
+  const { selected, excluded } = selectConstituents(
+    constituents,
+    durationHours,
+    sampleIntervalHours,
+    rayleighFactor
+  );
+
+  // Unknowns: Z0, then (a, b) per constituent
+  const n = 1 + 2 * selected.length;
+  const normal = Array.from({ length: n }, () => new Float64Array(n));
+  const rhs = new Float64Array(n);
+  const row = new Float64Array(n);
+  const rows: Float64Array[] = [];
+
+  for (const obs of observations) {
+    const astro = getAstronomicalParameters(obs.time);
+    row[0] = 1;
+
+    selected.forEach((symbol, i) => {
+      const { f, u } = getNodalFactors(symbol, astro);
+      const V0 = calculateV0(CONSTITUENTS[symbol]!, astro);
+      const arg = ((V0 + u) * Math.PI) / 180;
+      row[1 + 2 * i] = f * Math.cos(arg);
+      row[2 + 2 * i] = f * Math.sin(arg);
+    });
+
+    for (let j = 0; j < n; j++) {
+      const rj = row[j]!;
+      rhs[j]! += rj * obs.height;
+      const normalRow = normal[j]!;
+      for (let k = j; k < n; k++) normalRow[k]! += rj * row[k]!;
+    }
+    rows.push(Float64Array.from(row));
+  }
+
+  // Only the upper triangle was accumulated
+  for (let j = 0; j < n; j++) {
+    for (let k = 0; k < j; k++) normal[j]![k] = normal[k]![j]!;
+  }
+
+  const solution = solveLinearSystem(normal, rhs);
+
+  const fitted: ConstituentValue[] = selected.map((symbol, i) => {
+    const a = solution[1 + 2 * i]!;
+    const b = solution[2 + 2 * i]!;
+    return {
+      symbol,
+      amplitude: Math.sqrt(a * a + b * b),
+      phase: normalizeAngle((Math.atan2(b, a) * 180) / Math.PI),
+    };
+  });
+
+  // Goodness of fit
+  const meanHeight = observations.reduce((sum, o) => sum + o.height, 0) / observations.length;
+  let residualSq = 0;
+  let totalSq = 0;
+  observations.forEach((obs, i) => {
+    const r = rows[i]!;
+    let model = 0;
+    for (let k = 0; k < n; k++) model += r[k]! * solution[k]!;
+    residualSq += (obs.height - model) ** 2;
+    totalSq += (obs.height - meanHeight) ** 2;
+  });
+
+  return {
+    meanLevel: solution[0]!,
+    constituents: fitted.sort((a, b) => b.amplitude - a.amplitude),
+    excluded,
+    observationCount: observations.length,
+    start: first.time,
+    end: last.time,
+    sampleIntervalMinutes: sampleIntervalHours * 60,
+    residualRms: Math.sqrt(residualSq / observations.length),
+    varianceExplained: totalSq > 0 ? 1 - residualSq / totalSq : 0,
+  };
+}
+
+/**
+ * Build a TideStation from an analysis result
+ * Heights predicted from the station are relative to the fitted mean level.
+ */
+export function createStationFromAnalysis(
+  result: HarmonicAnalysisResult,
+  details: Pick<TideStation, 'id' | 'name' | 'country' | 'lat' | 'lon' | 'timezone'> & { state?: string }
+): TideStation {
+  const startYear = result.start.getUTCFullYear();
+  const endYear = result.end.getUTCFullYear();
+
+  return {
+    ...details,
+    datum: 'MSL',
+    harmonicEpoch: startYear === endYear ? `${startYear}` : `${startYear}-${endYear}`,
+    constituents: result.constituents.map((c) => ({
+      symbol: c.symbol,
+      amplitude: Math.round(c.amplitude * 10000) / 10000,
+      phase: Math.round(c.phase * 10) / 10,
+    })),
+  };
+}
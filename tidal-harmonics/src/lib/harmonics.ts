@@ -3,20 +3,30 @@
 
 import type { TideStation, TidePrediction } from '@/types/harmonics';
 import { CONSTITUENTS } from '@/data/constituents';
+import { getTidalType } from '@/data/stations';
 import {
   getAstronomicalParameters,
+  getEphemerisMode,
   calculateV0,
   getNodalFactors,
   normalizeAngle,
 } from './astronomical';
+import type { EphemerisMode } from './astronomical';
+import { compilePredictionKernel, locateExtremes } from './predictionKernel';
+import type { PredictionKernel } from './predictionKernel';
+import { zonedTime } from './timeZones';
+import { TIDAL_DAY_MS } from './constants';
+
+const MS_PER_DAY = 86400000;
 
 /**
  * Calculate the tide height at a given time for a station
  *
  * The harmonic prediction formula:
- * h(t) = Σ fᵢ × Aᵢ × cos(ωᵢ×t + (V₀+u)ᵢ - Gᵢ)
+ * h(t) = Z₀ + Σ fᵢ × Aᵢ × cos(ωᵢ×t + (V₀+u)ᵢ - Gᵢ)
  *
  * Where:
+ * Z₀ = mean sea level above the station datum (station.meanLevel)
  * fᵢ = nodal amplitude factor
  * Aᵢ = amplitude from harmonic constants
  * ωᵢ = constituent angular speed (degrees/hour)
@@ -24,20 +34,24 @@ import {
  * V₀ᵢ = equilibrium argument
  * uᵢ = nodal phase correction
  * Gᵢ = phase lag (Greenwich epoch)
+ *
+ * Subordinate stations are interpolated between their corrected extremes.
  */
 export function predictTide(station: TideStation, date: Date): number {
+  if (station.subordinate) return predictSubordinateTide(station, date);
+
   const astro = getAstronomicalParameters(date);
-  let height = 0;
+  let height = station.meanLevel ?? 0;
 
   for (const c of station.constituents) {
     const constituent = CONSTITUENTS[c.symbol];
     if (!constituent) continue;
 
     // Get nodal corrections
-    const { f, u } = getNodalFactors(c.symbol, astro.N);
+    const { f, u } = getNodalFactors(c.symbol, astro);
 
     // Calculate equilibrium argument V0
-    const V0 = calculateV0(constituent.doodson, astro);
+    const V0 = calculateV0(constituent, astro);
 
     // Phase calculation: V0 + u - G (all in degrees)
     // V0 already includes the time-varying astronomical argument
@@ -53,6 +67,29 @@ export function predictTide(station: TideStation, date: Date): number {
   return height;
 }
 
+// Subordinate heights come from a kernel over the surrounding extremes;
+// predictTide is called point by point, so the last kernel is reused
+let subordinateKernel: { station: TideStation; ephemeris: EphemerisMode; kernel: PredictionKernel } | null = null;
+
+function predictSubordinateTide(station: TideStation, date: Date): number {
+  const t = date.getTime();
+  const ephemeris = getEphemerisMode();
+  const cached = subordinateKernel;
+  if (
+    cached &&
+    cached.station === station &&
+    cached.ephemeris === ephemeris &&
+    t >= cached.kernel.start &&
+    t <= cached.kernel.end
+  ) {
+    return cached.kernel.heightAt(t);
+  }
+  const day = Math.floor(t / MS_PER_DAY) * MS_PER_DAY;
+  const kernel = compilePredictionKernel(station, new Date(day - MS_PER_DAY), new Date(day + 2 * MS_PER_DAY));
+  subordinateKernel = { station, ephemeris, kernel };
+  return kernel.heightAt(t);
+}
+
 /**
  * Calculate individual constituent contributions at a given time
  * Useful for phasor diagrams and detailed analysis
@@ -73,8 +110,8 @@ export function getConstituentContributions(
     const constituent = CONSTITUENTS[c.symbol];
     if (!constituent) continue;
 
-    const { f, u } = getNodalFactors(c.symbol, astro.N);
-    const V0 = calculateV0(constituent.doodson, astro);
+    const { f, u } = getNodalFactors(c.symbol, astro);
+    const V0 = calculateV0(constituent, astro);
     const phase = normalizeAngle(V0 + u - c.phase);
     const phaseRad = (phase * Math.PI) / 180;
     const effectiveAmplitude = f * c.amplitude;
@@ -92,6 +129,8 @@ export function getConstituentContributions(
 
 /**
  * Generate a time series of tide predictions
+ * Uses a compiled kernel with daily nodal updates, so year-long
+ * series cost little more than a few hundred predictTide calls
  */
 export function predictTideSeries(
   station: TideStation,
@@ -99,20 +138,15 @@ export function predictTideSeries(
   endDate: Date,
   intervalMinutes: number = 6
 ): TidePrediction[] {
-  const series: TidePrediction[] = [];
-  const intervalMs = intervalMinutes * 60 * 1000;
-
-  for (let t = startDate.getTime(); t <= endDate.getTime(); t += intervalMs) {
-    const date = new Date(t);
-    series.push({
-      time: date,
-      height: predictTide(station, date),
-    });
-  }
-
-  return series;
+  return compilePredictionKernel(station, startDate, endDate).series(intervalMinutes);
 }
 
+/**
+ * Higher high, lower high, higher low and lower low water
+ * Only assigned at stations with a mixed tide.
+ */
+export type TideExtremeClass = 'HHW' | 'LHW' | 'HLW' | 'LLW';
+
 /**
  * Find high and low tides in a prediction series
  */
@@ -120,6 +154,7 @@ export interface TideExtreme {
   time: Date;
   height: number;
   type: 'high' | 'low';
+  classification?: TideExtremeClass;
 }
 
 export function findExtremes(series: TidePrediction[]): TideExtreme[] {
@@ -156,6 +191,63 @@ export function findExtremes(series: TidePrediction[]): TideExtreme[] {
   return extremes;
 }
 
+// A tidal day starts at the first extreme within this of a lunar day after
+// the last one began: about half the spacing of extremes, so the start
+// stays on the same tide rather than drifting by minutes a day
+const TIDAL_DAY_START_TOLERANCE_MS = 3 * 3600000;
+
+/**
+ * Split extremes into tidal days
+ * Days run from the first extreme, each starting at the extreme a lunar day
+ * after the last began, so each holds a full cycle of two highs and two lows.
+ */
+export function splitTidalDays(extremes: TideExtreme[]): TideExtreme[][] {
+  const days: TideExtreme[][] = [];
+  let dayStart = -Infinity;
+  for (const e of extremes) {
+    const t = e.time.getTime();
+    if (t >= dayStart + TIDAL_DAY_MS - TIDAL_DAY_START_TOLERANCE_MS) {
+      days.push([]);
+      dayStart = t;
+    }
+    days[days.length - 1]!.push(e);
+  }
+  return days;
+}
+
+/**
+ * Label the extremes of a mixed tide as HHW/LHW/HLW/LLW
+ *
+ * Within each tidal day the highest high water is the higher high and the
+ * lowest low water the lower low; the others are the lower high and higher
+ * low. Extremes at stations without a mixed tide are returned unlabelled.
+ */
+export function classifyExtremes(station: TideStation, extremes: TideExtreme[]): TideExtreme[] {
+  const type = getTidalType(station);
+  if (type !== 'mixed-semidiurnal' && type !== 'mixed-diurnal') return extremes;
+
+  const labels = new Map<TideExtreme, TideExtremeClass>();
+  for (const day of splitTidalDays(extremes)) {
+    const highs = day.filter((e) => e.type === 'high');
+    const lows = day.filter((e) => e.type === 'low');
+    const higherHigh = highs.reduce<TideExtreme | null>((best, e) => (!best || e.height > best.height ? e : best), null);
+    const lowerLow = lows.reduce<TideExtreme | null>((best, e) => (!best || e.height < best.height ? e : best), null);
+    for (const e of highs) labels.set(e, e === higherHigh ? 'HHW' : 'LHW');
+    for (const e of lows) labels.set(e, e === lowerLow ? 'LLW' : 'HLW');
+  }
+
+  return extremes.map((e) => ({ ...e, classification: labels.get(e)! }));
+}
+
+/**
+ * Find high and low tides between two times, refined to the minute
+ * Prefer this over findExtremes, whose times are limited to the series interval.
+ */
+export function findPreciseExtremes(station: TideStation, startDate: Date, endDate: Date): TideExtreme[] {
+  const kernel = compilePredictionKernel(station, startDate, endDate);
+  return classifyExtremes(station, locateExtremes(kernel, startDate.getTime(), endDate.getTime()));
+}
+
 /**
  * Calculate spring/neap tide indicator
  * Returns a value from -1 (neap) to +1 (spring)
@@ -170,18 +262,19 @@ export function getSpringNeapIndicator(date: Date): number {
 
   if (!m2 || !s2) return 0;
 
-  const V0_M2 = calculateV0(m2.doodson, astro);
-  const V0_S2 = calculateV0(s2.doodson, astro);
+  const V0_M2 = calculateV0(m2, astro);
+  const V0_S2 = calculateV0(s2, astro);
 
   // The phase difference determines spring/neap
-  // When M2 and S2 are in phase: spring tide
-  // When 90° out of phase: neap tide
+  // M2 - S2 = 2(h - s) turns once per half lunation
+  // In phase (new and full moon): spring tide
+  // 180° out of phase (quarter moons): neap tide
   const phaseDiff = normalizeAngle(V0_M2 - V0_S2);
 
   // Convert to -1 to +1 scale
-  // 0° or 180° = spring (+1)
-  // 90° or 270° = neap (-1)
-  return Math.cos((phaseDiff * 2 * Math.PI) / 180);
+  // 0° = spring (+1)
+  // 180° = neap (-1)
+  return Math.cos((phaseDiff * Math.PI) / 180);
 }
 
 /**
@@ -224,7 +317,7 @@ export function getTidalRange(
 
 /**
  * Predict tide height from a subset of constituents
- * Useful for showing individual constituent contributions
+ * Includes the station's mean level, so the result is comparable with predictTide
  */
 export function predictTideFromConstituents(
   station: TideStation,
@@ -232,7 +325,7 @@ export function predictTideFromConstituents(
   constituentSymbols: string[]
 ): number {
   const astro = getAstronomicalParameters(date);
-  let height = 0;
+  let height = station.meanLevel ?? 0;
 
   for (const c of station.constituents) {
     if (!constituentSymbols.includes(c.symbol)) continue;
@@ -240,8 +333,8 @@ export function predictTideFromConstituents(
     const constituent = CONSTITUENTS[c.symbol];
     if (!constituent) continue;
 
-    const { f, u } = getNodalFactors(c.symbol, astro.N);
-    const V0 = calculateV0(constituent.doodson, astro);
+    const { f, u } = getNodalFactors(c.symbol, astro);
+    const V0 = calculateV0(constituent, astro);
     const phase = normalizeAngle(V0 + u - c.phase);
     const phaseRad = (phase * Math.PI) / 180;
 
@@ -253,7 +346,8 @@ export function predictTideFromConstituents(
 
 /**
  * Generate constituent-layered time series
- * Returns series for each major constituent group plus total
+ * Returns series for each major constituent group plus total, labelled
+ * HH:mm in the given time zone
  */
 export interface ConstituentSeriesData {
   time: number;
@@ -271,38 +365,45 @@ export function predictTideSeriesWithConstituents(
   station: TideStation,
   startDate: Date,
   endDate: Date,
-  intervalMinutes: number = 6
+  intervalMinutes: number = 6,
+  timeZone: string = 'UTC'
 ): ConstituentSeriesData[] {
   const series: ConstituentSeriesData[] = [];
+  const zone = zonedTime(timeZone);
   const intervalMs = intervalMinutes * 60 * 1000;
 
   // Constituent groups
   const semidiurnalSymbols = ['M2', 'S2', 'N2', 'K2', 'NU2', 'MU2', '2N2', 'L2', 'T2', 'R2', 'LAM2'];
   const diurnalSymbols = ['K1', 'O1', 'P1', 'Q1', 'J1', 'M1', 'OO1', 'S1', 'RHO1', '2Q1'];
 
+  const kernelFor = (symbols?: string[]) =>
+    compilePredictionKernel(station, startDate, endDate, symbols ? { constituents: symbols } : {});
+
+  const total = kernelFor();
+  const semidiurnal = kernelFor(semidiurnalSymbols);
+  const diurnal = kernelFor(diurnalSymbols);
+
+  // Individual major constituents, only where the station has them
+  const majors = (['M2', 'S2', 'K1', 'O1'] as const)
+    .filter((symbol) => station.constituents.some((c) => c.symbol === symbol))
+    .map((symbol) => ({ symbol, kernel: kernelFor([symbol]) }));
+
   for (let t = startDate.getTime(); t <= endDate.getTime(); t += intervalMs) {
     const date = new Date(t);
 
     const dataPoint: ConstituentSeriesData = {
       time: t,
-      label: `${date.getUTCHours().toString().padStart(2, '0')}:${date.getUTCMinutes().toString().padStart(2, '0')}`,
-      total: predictTide(station, date),
+      label: zone.format(date, 'HH:mm'),
+      total: total.heightAt(t),
     };
 
-    // Individual major constituents
-    const hasM2 = station.constituents.some(c => c.symbol === 'M2');
-    const hasS2 = station.constituents.some(c => c.symbol === 'S2');
-    const hasK1 = station.constituents.some(c => c.symbol === 'K1');
-    const hasO1 = station.constituents.some(c => c.symbol === 'O1');
-
-    if (hasM2) dataPoint.M2 = predictTideFromConstituents(station, date, ['M2']);
-    if (hasS2) dataPoint.S2 = predictTideFromConstituents(station, date, ['S2']);
-    if (hasK1) dataPoint.K1 = predictTideFromConstituents(station, date, ['K1']);
-    if (hasO1) dataPoint.O1 = predictTideFromConstituents(station, date, ['O1']);
+    for (const { symbol, kernel } of majors) {
+      dataPoint[symbol] = kernel.heightAt(t);
+    }
 
     // Groups
-    dataPoint.semidiurnal = predictTideFromConstituents(station, date, semidiurnalSymbols);
-    dataPoint.diurnal = predictTideFromConstituents(station, date, diurnalSymbols);
+    dataPoint.semidiurnal = semidiurnal.heightAt(t);
+    dataPoint.diurnal = diurnal.heightAt(t);
 
     series.push(dataPoint);
   }
@@ -0,0 +1,184 @@
+// Dynamic under-keel clearance
+// A ship under way sits deeper than its static draft: it squats with speed
+// in shallow water, its bilge digs in when it heels in a turn, and it heaves
+// and pitches in a swell. Each is worked out as an allowance in meters so a
+// clearance can be shown, and justified, term by term.
+
+const G = 9.81;
+const KNOTS_TO_MS = 0.514444;
+const DEG = Math.PI / 180;
+
+// Average of the highest tenth of waves, as a multiple of the significant height
+const H_ONE_TENTH = 1.27;
+
+export type SquatFormula = 'barrass' | 'icorels';
+
+export interface ShipParticulars {
+  draft: number; // m
+  beam: number; // m
+  length: number; // between perpendiculars, m
+  blockCoefficient: number; // Cb, 0.5 (fine) to 0.85 (full)
+}
+
+export interface SwellConditions {
+  significantHeight: number; // Hs, m
+  period: number; // seconds
+}
+
+export interface TransitConditions {
+  speed: number; // knots through the water
+  squatFormula: SquatFormula;
+  channelWidth: number; // m at the bottom; 0 in open water
+  turnRadius: number; // m; 0 on a straight course
+  metacentricHeight: number; // GM, m
+  centreOfGravity: number; // KG above the keel, m
+  staticHeel: number; // degrees of list or wind heel
+  swell: SwellConditions;
+}
+
+export interface ClearanceAllowances {
+  waterDepth: number; // charted depth plus tide
+  squat: number;
+  heel: number;
+  wave: number;
+  ukc: number; // water depth less draft and every allowance
+  heelAngle: number; // degrees
+  depthFroude: number; // speed over √(g·depth); squat formulas fail towards 1
+}
+
+export const SQUAT_FORMULA_LABELS: Record<SquatFormula, string> = {
+  barrass: 'Barrass (blockage)',
+  icorels: 'ICORELS (open water)',
+};
+
+/**
+ * Width of water the ship's flow pattern reaches in open water (Barrass)
+ */
+export function influenceWidth(ship: ShipParticulars): number {
+  return (7.7 + 20 * (1 - ship.blockCoefficient) ** 2) * ship.beam;
+}
+
+/**
+ * Blockage factor: the ship's midship section over the channel's
+ * The channel is the given width, or the ship's width of influence if
+ * that is narrower or the water is open.
+ */
+export function blockageFactor(ship: ShipParticulars, waterDepth: number, channelWidth: number): number {
+  const width = channelWidth > 0 ? Math.min(channelWidth, influenceWidth(ship)) : influenceWidth(ship);
+  if (width <= 0 || waterDepth <= 0) return 1;
+  return Math.min(1, (ship.beam * ship.draft) / (width * waterDepth));
+}
+
+/**
+ * Maximum squat (m) by Barrass: Cb × S^0.81 × V^2.08 / 20, V in knots
+ */
+export function barrassSquat(ship: ShipParticulars, speed: number, waterDepth: number, channelWidth: number): number {
+  const s = blockageFactor(ship, waterDepth, channelWidth);
+  return (ship.blockCoefficient * s ** 0.81 * Math.max(0, speed) ** 2.08) / 20;
+}
+
+/**
+ * Bow squat (m) by ICORELS: 2.4 × ∇/L² × Fnh² / √(1 − Fnh²)
+ * Infinite once the depth Froude number reaches 1.
+ */
+export function icorelsSquat(ship: ShipParticulars, speed: number, waterDepth: number): number {
+  const fnh = depthFroudeNumber(speed, waterDepth);
+  if (fnh >= 1) return Infinity;
+  const volume = ship.blockCoefficient * ship.length * ship.beam * ship.draft;
+  return ((2.4 * volume) / ship.length ** 2) * (fnh ** 2 / Math.sqrt(1 - fnh ** 2));
+}
+
+export function depthFroudeNumber(speed: number, waterDepth: number): number {
+  if (waterDepth <= 0) return Infinity;
+  return (Math.max(0, speed) * KNOTS_TO_MS) / Math.sqrt(G * waterDepth);
+}
+
+/**
+ * Heel in a steady turn (degrees): tan θ = V² (KG − T/2) / (g R GM)
+ */
+export function turningHeel(speed: number, turnRadius: number, gm: number, kg: number, draft: number): number {
+  if (turnRadius <= 0 || gm <= 0) return 0;
+  const v = Math.max(0, speed) * KNOTS_TO_MS;
+  return Math.atan((v * v * Math.max(0, kg - draft / 2)) / (G * turnRadius * gm)) / DEG;
+}
+
+/**
+ * Extra draft at the bilge of a box-shaped hull heeled by an angle (m)
+ */
+export function heelSinkage(beam: number, draft: number, degrees: number): number {
+  const theta = Math.abs(degrees) * DEG;
+  return Math.max(0, (beam / 2) * Math.sin(theta) + draft * Math.cos(theta) - draft);
+}
+
+/**
+ * Wave orbital motion remaining at a depth below the surface (m)
+ * Deep-water wavelength; the motion decays exponentially with depth.
+ */
+export function orbitalAmplitude(waveHeight: number, period: number, depth: number): number {
+  const wavelength = (G * period * period) / (2 * Math.PI);
+  const k = (2 * Math.PI) / wavelength;
+  return (waveHeight / 2) * Math.exp(-k * depth);
+}
+
+/**
+ * Allowance for wave-induced motion (m): half the H1/10 wave, plus the
+ * orbital motion still felt at the keel
+ */
+export function waveAllowance(swell: SwellConditions, draft: number): number {
+  if (swell.significantHeight <= 0) return 0;
+  return (swell.significantHeight * H_ONE_TENTH) / 2 + orbitalAmplitude(swell.significantHeight, swell.period, draft);
+}
+
+/**
+ * Under-keel clearance with every allowance, at one water depth
+ */
+export function dynamicClearance(
+  ship: ShipParticulars,
+  conditions: TransitConditions,
+  waterDepth: number
+): ClearanceAllowances {
+  const squat =
+    conditions.squatFormula === 'icorels'
+      ? icorelsSquat(ship, conditions.speed, waterDepth)
+      : barrassSquat(ship, conditions.speed, waterDepth, conditions.channelWidth);
+  const heelAngle =
+    conditions.staticHeel +
+    turningHeel(
+      conditions.speed,
+      conditions.turnRadius,
+      conditions.metacentricHeight,
+      conditions.centreOfGravity,
+      ship.draft
+    );
+  const heel = heelSinkage(ship.beam, ship.draft, heelAngle);
+  const wave = waveAllowance(conditions.swell, ship.draft);
+
+  return {
+    waterDepth,
+    squat,
+    heel,
+    wave,
+    ukc: waterDepth - ship.draft - squat - heel - wave,
+    heelAngle,
+    depthFroude: depthFroudeNumber(conditions.speed, waterDepth),
+  };
+}
+
+/**
+ * The least water depth giving a required clearance with every allowance
+ * Squat eases as the water deepens, so clearance rises with depth and the
+ * depth is found by bisection, to the millimeter.
+ */
+export function minimumWaterDepth(ship: ShipParticulars, conditions: TransitConditions, requiredUkc: number): number {
+  const clears = (depth: number) => dynamicClearance(ship, conditions, depth).ukc >= requiredUkc;
+  let lo = ship.draft;
+  let hi = ship.draft + requiredUkc + 10;
+  // Widen until the upper bound clears; squat alone can't need kilometers of water
+  while (!clears(hi) && hi < ship.draft + 1000) hi *= 2;
+  while (hi - lo > 0.001) {
+    const mid = (lo + hi) / 2;
+    if (clears(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
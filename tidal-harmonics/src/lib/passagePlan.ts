@@ -0,0 +1,175 @@
+// Passage planning
+// Legs between lat/lon waypoints sailed as rhumb lines, with the tidal
+// stream on each leg taken from the nearest current station at the time the
+// boat is expected to be there. The vector triangle gives the course to steer
+// that holds the track, and the speed over ground that times the leg; since
+// the stream depends on when the leg is sailed, each leg is re-timed until
+// its duration settles.
+
+import type { CurrentStation } from '@/types/harmonics';
+import { compileCurrentKernel, nearestCurrentStation } from './currents';
+import type { CurrentKernel } from './currents';
+
+const DEG = Math.PI / 180;
+const EARTH_RADIUS_NM = 3440.065;
+const MS_PER_MINUTE = 60000;
+
+// Re-timing stops once a leg's duration moves by less than this
+const RETIME_TOLERANCE_MINUTES = 0.5;
+const MAX_RETIME_ITERATIONS = 8;
+
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+}
+
+export interface StreamVector {
+  set: number; // degrees true the stream flows toward
+  drift: number; // knots
+}
+
+// The stream along a stretch of water, from its current station if it has one
+export interface StreamSource {
+  station: CurrentStation | null;
+  streamAt: (time: number) => StreamVector;
+}
+
+export type StreamModel = (position: RoutePoint) => StreamSource;
+
+export interface VectorTriangle {
+  heading: number; // course to steer, degrees true
+  speedOverGround: number; // knots along the track
+}
+
+export interface LegPlan {
+  course: number; // track over the ground, degrees true
+  distance: number; // nm
+  departure: Date;
+  arrival: Date;
+  minutes: number;
+  stream: StreamVector; // at the middle of the leg, halfway through it
+  streamStation: CurrentStation | null;
+  heading: number;
+  speedOverGround: number;
+}
+
+const NO_STREAM: StreamVector = { set: 0, drift: 0 };
+
+function normalizeBearing(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Rhumb-line course (degrees true) and distance (nm) between two points
+ */
+export function rhumbLine(from: RoutePoint, to: RoutePoint): { course: number; distance: number } {
+  const phi1 = from.lat * DEG;
+  const phi2 = to.lat * DEG;
+  const dPhi = phi2 - phi1;
+  let dLambda = (to.lon - from.lon) * DEG;
+  // Take the short way round across the antimeridian
+  if (Math.abs(dLambda) > Math.PI) dLambda -= Math.sign(dLambda) * 2 * Math.PI;
+
+  // Stretched latitude difference on the Mercator projection
+  const dPsi = Math.log(Math.tan(Math.PI / 4 + phi2 / 2) / Math.tan(Math.PI / 4 + phi1 / 2));
+  const q = Math.abs(dPsi) > 1e-12 ? dPhi / dPsi : Math.cos(phi1);
+
+  return {
+    course: normalizeBearing(Math.atan2(dLambda, dPsi) / DEG),
+    distance: Math.hypot(dPhi, q * dLambda) * EARTH_RADIUS_NM,
+  };
+}
+
+/**
+ * Solve the vector triangle for a track through a stream
+ *
+ * Steers up-stream of the track just enough to cancel the cross-track set,
+ * so the boat stays on the line. Returns null when the stream is too strong
+ * to hold the track, or carries the boat backwards along it.
+ */
+export function solveVectorTriangle(track: number, boatSpeed: number, stream: StreamVector): VectorTriangle | null {
+  const relative = (stream.set - track) * DEG;
+  const crossTrack = stream.drift * Math.sin(relative);
+  if (boatSpeed <= 0 || Math.abs(crossTrack) > boatSpeed) return null;
+
+  const correction = Math.asin(-crossTrack / boatSpeed);
+  const speedOverGround = boatSpeed * Math.cos(correction) + stream.drift * Math.cos(relative);
+  if (speedOverGround <= 0) return null;
+
+  return { heading: normalizeBearing(track + correction / DEG), speedOverGround };
+}
+
+/**
+ * Streams from the current stations near a route, compiled over a span
+ * Positions with no current station within reach see slack water.
+ */
+export function createStreamModel(startDate: Date, endDate: Date): StreamModel {
+  const kernels = new Map<string, CurrentKernel>();
+
+  return (position) => {
+    const station = nearestCurrentStation(position.lat, position.lon);
+    if (!station) return { station: null, streamAt: () => NO_STREAM };
+
+    let kernel = kernels.get(station.id);
+    if (!kernel) {
+      kernel = compileCurrentKernel(station, startDate, endDate);
+      kernels.set(station.id, kernel);
+    }
+    const compiled = kernel;
+    return {
+      station,
+      streamAt: (time) => {
+        const v = compiled.velocityAt(time);
+        return { set: v.direction, drift: v.speed };
+      },
+    };
+  };
+}
+
+/**
+ * Plan one leg departing at a time
+ *
+ * The stream is read at the leg's midpoint halfway through the leg, which
+ * depends on the leg's duration; starting from the still-water time, the
+ * leg is re-timed with each new speed over ground until it settles. Returns
+ * null if the stream stops the boat holding the track.
+ */
+export function planLeg(
+  from: RoutePoint,
+  to: RoutePoint,
+  departure: Date,
+  boatSpeed: number,
+  streams: StreamModel
+): LegPlan | null {
+  const { course, distance } = rhumbLine(from, to);
+  const source = streams({ lat: (from.lat + to.lat) / 2, lon: (from.lon + to.lon) / 2 });
+  const start = departure.getTime();
+
+  let minutes = boatSpeed > 0 ? (distance / boatSpeed) * 60 : Infinity;
+  let stream = NO_STREAM;
+  let triangle: VectorTriangle | null = null;
+
+  for (let i = 0; i < MAX_RETIME_ITERATIONS && Number.isFinite(minutes); i++) {
+    stream = source.streamAt(start + (minutes / 2) * MS_PER_MINUTE);
+    triangle = solveVectorTriangle(course, boatSpeed, stream);
+    if (!triangle) return null;
+
+    const retimed = (distance / triangle.speedOverGround) * 60;
+    const settled = Math.abs(retimed - minutes) < RETIME_TOLERANCE_MINUTES;
+    minutes = retimed;
+    if (settled) break;
+  }
+  if (!triangle) return null;
+
+  return {
+    course,
+    distance,
+    departure,
+    arrival: new Date(start + minutes * MS_PER_MINUTE),
+    minutes,
+    stream,
+    streamStation: source.station,
+    heading: triangle.heading,
+    speedOverGround: triangle.speedOverGround,
+  };
+}
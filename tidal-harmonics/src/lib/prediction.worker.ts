@@ -0,0 +1,35 @@
+// Prediction worker
+// Runs prediction jobs off the main thread so long spans don't stall the scene
+
+import { runPredictionJob, PredictionCancelledError } from './predictionJobs';
+import type { PredictionWorkerRequest, PredictionWorkerResponse } from './predictionJobs';
+
+const cancelled = new Set<number>();
+
+function post(message: PredictionWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<PredictionWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  const { id, job } = request;
+  runPredictionJob(job, {
+    onProgress: (progress) => post({ type: 'progress', id, progress }),
+    isCancelled: () => cancelled.has(id),
+  })
+    .then((result) => {
+      const transfer = result.kind === 'series' ? [result.times.buffer, result.heights.buffer] : [];
+      post({ type: 'result', id, result }, transfer);
+    })
+    .catch((error: unknown) => {
+      if (error instanceof PredictionCancelledError) return;
+      post({ type: 'error', id, message: error instanceof Error ? error.message : 'Prediction failed' });
+    })
+    .finally(() => cancelled.delete(id));
+});
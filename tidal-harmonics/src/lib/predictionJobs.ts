@@ -0,0 +1,252 @@
+// Chunked prediction jobs
+// Shared by the prediction worker and its main-thread fallback. Long spans
+// are split into chunks so progress can be reported and a cancelled job
+// stops within one chunk.
+
+import type { TideStation, TidalDatums } from '@/types/harmonics';
+import { compilePredictionKernel, locateExtremes } from './predictionKernel';
+import type { PredictionKernelOptions } from './predictionKernel';
+import { classifyExtremes } from './harmonics';
+import type { TideExtreme, TideExtremeClass } from './harmonics';
+import { deriveTidalDatums } from './datums';
+import type { EphemerisMode } from './astronomical';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+const CHUNK_MS = 30 * 86400000;
+
+// Jobs carry their ephemeris mode, since a worker doesn't share the main
+// thread's default
+export type PredictionJob = (
+  | { kind: 'series'; station: TideStation; start: number; end: number; intervalMinutes: number }
+  | { kind: 'extremes'; station: TideStation; start: number; end: number }
+  | { kind: 'range'; station: TideStation; start: number; end: number; intervalMinutes: number }
+  | { kind: 'datums'; station: TideStation; startYear: number; endYear: number }
+) & { ephemeris?: EphemerisMode };
+
+export interface SeriesJobResult {
+  kind: 'series';
+  times: Float64Array;
+  heights: Float64Array;
+}
+
+export interface ExtremesJobResult {
+  kind: 'extremes';
+  extremes: { time: number; height: number; type: 'high' | 'low'; classification?: TideExtremeClass }[];
+}
+
+export interface RangeJobResult {
+  kind: 'range';
+  highest: { time: number; height: number };
+  lowest: { time: number; height: number };
+  mean: number;
+  samples: number;
+}
+
+export interface DatumsJobResult {
+  kind: 'datums';
+  datums: TidalDatums;
+}
+
+export interface PredictionJobResults {
+  series: SeriesJobResult;
+  extremes: ExtremesJobResult;
+  range: RangeJobResult;
+  datums: DatumsJobResult;
+}
+
+export type PredictionJobResult = PredictionJobResults[PredictionJob['kind']];
+
+// Messages exchanged with the prediction worker
+export type PredictionWorkerRequest =
+  | { type: 'run'; id: number; job: PredictionJob }
+  | { type: 'cancel'; id: number };
+
+export type PredictionWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; result: PredictionJobResult }
+  | { type: 'error'; id: number; message: string };
+
+export interface PredictionJobControl {
+  onProgress?: (progress: number) => void;
+  isCancelled?: () => boolean;
+}
+
+export class PredictionCancelledError extends Error {
+  constructor() {
+    super('Prediction cancelled');
+    this.name = 'PredictionCancelledError';
+  }
+}
+
+// Let queued messages (cancel requests, other jobs) run between chunks
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Split [start, end] into chunks whose boundaries stay on the sampling grid
+ */
+function chunkSpans(start: number, end: number, intervalMs: number): [number, number][] {
+  const stepsPerChunk = Math.max(1, Math.floor(CHUNK_MS / intervalMs));
+  const spans: [number, number][] = [];
+  for (let t = start; t <= end; t += stepsPerChunk * intervalMs) {
+    spans.push([t, Math.min(end, t + (stepsPerChunk - 1) * intervalMs)]);
+  }
+  return spans;
+}
+
+function kernelOptions(job: PredictionJob): PredictionKernelOptions {
+  return job.ephemeris ? { ephemeris: job.ephemeris } : {};
+}
+
+async function forEachChunk(
+  spans: [number, number][],
+  control: PredictionJobControl,
+  visit: (chunkStart: number, chunkEnd: number) => void
+): Promise<void> {
+  for (let i = 0; i < spans.length; i++) {
+    if (control.isCancelled?.()) throw new PredictionCancelledError();
+    const [chunkStart, chunkEnd] = spans[i]!;
+    visit(chunkStart, chunkEnd);
+    control.onProgress?.((i + 1) / spans.length);
+    if (i < spans.length - 1) await yieldToEventLoop();
+  }
+}
+
+async function runSeries(
+  job: Extract<PredictionJob, { kind: 'series' }>,
+  control: PredictionJobControl
+): Promise<SeriesJobResult> {
+  const intervalMs = job.intervalMinutes * MS_PER_MINUTE;
+  if (!(intervalMs > 0) || job.end < job.start) {
+    return { kind: 'series', times: new Float64Array(0), heights: new Float64Array(0) };
+  }
+
+  const count = Math.floor((job.end - job.start) / intervalMs) + 1;
+  const times = new Float64Array(count);
+  const heights = new Float64Array(count);
+  let offset = 0;
+
+  await forEachChunk(chunkSpans(job.start, job.end, intervalMs), control, (chunkStart, chunkEnd) => {
+    const kernel = compilePredictionKernel(job.station, new Date(chunkStart), new Date(chunkEnd), kernelOptions(job));
+    for (const p of kernel.series(job.intervalMinutes)) {
+      times[offset] = p.time.getTime();
+      heights[offset] = p.height;
+      offset++;
+    }
+  });
+
+  return { kind: 'series', times, heights };
+}
+
+async function runExtremes(
+  job: Extract<PredictionJob, { kind: 'extremes' }>,
+  control: PredictionJobControl
+): Promise<ExtremesJobResult> {
+  const found: TideExtreme[] = [];
+
+  // Chunks share their boundaries; locateExtremes covers (start, end]
+  const spans: [number, number][] = [];
+  for (let t = job.start; t < job.end; t += CHUNK_MS) {
+    spans.push([t, Math.min(job.end, t + CHUNK_MS)]);
+  }
+
+  await forEachChunk(spans, control, (chunkStart, chunkEnd) => {
+    const kernel = compilePredictionKernel(job.station, new Date(chunkStart), new Date(chunkEnd), kernelOptions(job));
+    found.push(...locateExtremes(kernel, chunkStart, chunkEnd));
+  });
+
+  // Labels depend on neighbouring extremes, so classify the whole span at once
+  const extremes = classifyExtremes(job.station, found).map((e) => ({
+    time: e.time.getTime(),
+    height: e.height,
+    type: e.type,
+    ...(e.classification && { classification: e.classification }),
+  }));
+
+  return { kind: 'extremes', extremes };
+}
+
+async function runRange(
+  job: Extract<PredictionJob, { kind: 'range' }>,
+  control: PredictionJobControl
+): Promise<RangeJobResult> {
+  const intervalMs = job.intervalMinutes * MS_PER_MINUTE;
+  const highest = { time: job.start, height: -Infinity };
+  const lowest = { time: job.start, height: Infinity };
+  let sum = 0;
+  let samples = 0;
+
+  if (intervalMs > 0 && job.end >= job.start) {
+    await forEachChunk(chunkSpans(job.start, job.end, intervalMs), control, (chunkStart, chunkEnd) => {
+      const kernel = compilePredictionKernel(job.station, new Date(chunkStart), new Date(chunkEnd), kernelOptions(job));
+      for (const p of kernel.series(job.intervalMinutes)) {
+        if (p.height > highest.height) {
+          highest.time = p.time.getTime();
+          highest.height = p.height;
+        }
+        if (p.height < lowest.height) {
+          lowest.time = p.time.getTime();
+          lowest.height = p.height;
+        }
+        sum += p.height;
+        samples++;
+      }
+    });
+  }
+
+  return { kind: 'range', highest, lowest, mean: samples > 0 ? sum / samples : 0, samples };
+}
+
+/**
+ * Derive tidal datums from a prediction over whole years (UTC)
+ * MSL is the mean of hourly heights; the other levels come from the
+ * refined high and low waters of the same span.
+ */
+async function runDatums(
+  job: Extract<PredictionJob, { kind: 'datums' }>,
+  control: PredictionJobControl
+): Promise<DatumsJobResult> {
+  const start = Date.UTC(job.startYear, 0, 1);
+  const end = Date.UTC(job.endYear + 1, 0, 1);
+  const extremes: TideExtreme[] = [];
+  let sum = 0;
+  let hours = 0;
+
+  // Chunks are whole multiples of an hour, so the hourly grid carries across
+  const spans: [number, number][] = [];
+  for (let t = start; t < end; t += CHUNK_MS) {
+    spans.push([t, Math.min(end, t + CHUNK_MS)]);
+  }
+
+  await forEachChunk(spans, control, (chunkStart, chunkEnd) => {
+    const kernel = compilePredictionKernel(job.station, new Date(chunkStart), new Date(chunkEnd), kernelOptions(job));
+    extremes.push(...locateExtremes(kernel, chunkStart, chunkEnd));
+    for (let t = chunkStart; t < chunkEnd; t += MS_PER_HOUR) {
+      sum += kernel.heightAt(t);
+      hours++;
+    }
+  });
+
+  const epoch = job.startYear === job.endYear ? `${job.startYear}` : `${job.startYear}-${job.endYear}`;
+  return { kind: 'datums', datums: deriveTidalDatums(extremes, hours > 0 ? sum / hours : 0, start, epoch) };
+}
+
+/**
+ * Run a prediction job to completion
+ * Rejects with PredictionCancelledError once control.isCancelled() turns true.
+ */
+export function runPredictionJob(
+  job: PredictionJob,
+  control: PredictionJobControl = {}
+): Promise<PredictionJobResult> {
+  switch (job.kind) {
+    case 'series':
+      return runSeries(job, control);
+    case 'extremes':
+      return runExtremes(job, control);
+    case 'range':
+      return runRange(job, control);
+    case 'datums':
+      return runDatums(job, control);
+  }
+}
@@ -0,0 +1,357 @@
+// Compiled tide prediction kernel
+// Fixes nodal factors and astronomical arguments once per span (or per day)
+// so that long series are evaluated by rotating constituent phasors instead
+// of recomputing the astronomy for every constituent at every sample.
+
+import type { TideStation, TidePrediction, SubordinateOffsets, SubordinateReference } from '@/types/harmonics';
+import type { TideExtreme } from './harmonics';
+import { CONSTITUENTS } from '@/data/constituents';
+import {
+  getAstronomicalParameters,
+  getEphemerisMode,
+  calculateV0,
+  getNodalFactors,
+} from './astronomical';
+import type { EphemerisMode } from './astronomical';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+const DEG = Math.PI / 180;
+
+// Rotated phasors are re-seeded with exact cos/sin this often to bound drift
+const RESEED_STEPS = 1440;
+
+// Reference extremes are found this far beyond a subordinate station's span
+// (plus its largest time difference), so the span is bracketed by extremes
+const SUBORDINATE_MARGIN_MS = 30 * MS_PER_HOUR;
+
+/**
+ * How often f, u and V0 are re-evaluated
+ * - midpoint: once, at the middle of the span (fastest; fine for spans of weeks)
+ * - daily: at noon UTC of every day in the span (matches predictTide to < 1 mm)
+ */
+export type NodalUpdate = 'midpoint' | 'daily';
+
+export interface PredictionKernelOptions {
+  nodalUpdate?: NodalUpdate;
+  // Restrict the kernel to a subset of the station's constituents, about the same mean level
+  constituents?: readonly string[];
+  // Defaults to the mode set with setEphemerisMode
+  ephemeris?: EphemerisMode;
+}
+
+export interface PredictionKernel {
+  readonly start: number;
+  readonly end: number;
+  // Tide height (m) at a time
+  heightAt: (time: Date | number) => number;
+  // Rate of change of height (m/hour) from the analytic derivative
+  rateAt: (time: Date | number) => number;
+  // Evenly spaced series from start to end inclusive
+  series: (intervalMinutes: number) => TidePrediction[];
+}
+
+interface KernelSegment {
+  refTime: number;
+  amplitude: Float64Array; // f × A (m)
+  phase: Float64Array; // V0 + u - G at refTime (radians)
+}
+
+/**
+ * Compile a harmonic kernel over a time span
+ *
+ * Within each segment the harmonic sum is
+ * h(t) = Σ fᵢAᵢ × cos(φᵢ + ωᵢ(t - t_ref))
+ * with φᵢ = V₀ᵢ + uᵢ - Gᵢ evaluated once at t_ref. Only the constituents
+ * and mean level are read, so any harmonic series can be compiled (e.g. one
+ * axis of a tidal current, in knots).
+ */
+function compileHarmonicKernel(
+  station: Pick<TideStation, 'constituents' | 'meanLevel'>,
+  startDate: Date,
+  endDate: Date,
+  options: PredictionKernelOptions = {}
+): PredictionKernel {
+  const { nodalUpdate = 'daily', constituents, ephemeris = getEphemerisMode() } = options;
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+
+  const terms = station.constituents.filter(
+    (c) => CONSTITUENTS[c.symbol] && (!constituents || constituents.includes(c.symbol))
+  );
+  const speed = Float64Array.from(terms, (c) => CONSTITUENTS[c.symbol]!.speed * DEG); // rad/hour
+  // Partial sums carry Z0 too, as predictTideFromConstituents does, so they share the full tide's baseline
+  const meanLevel = station.meanLevel ?? 0;
+
+  const buildSegment = (refTime: number): KernelSegment => {
+    const astro = getAstronomicalParameters(new Date(refTime), ephemeris);
+    const amplitude = new Float64Array(terms.length);
+    const phase = new Float64Array(terms.length);
+
+    terms.forEach((c, i) => {
+      const { f, u } = getNodalFactors(c.symbol, astro);
+      const V0 = calculateV0(CONSTITUENTS[c.symbol]!, astro);
+      amplitude[i] = f * c.amplitude;
+      phase[i] = (V0 + u - c.phase) * DEG;
+    });
+
+    return { refTime, amplitude, phase };
+  };
+
+  // Segments cover whole UTC days (daily) or the whole span (midpoint)
+  const firstDay = Math.floor(start / MS_PER_DAY);
+  const segments: KernelSegment[] =
+    nodalUpdate === 'midpoint'
+      ? [buildSegment((start + end) / 2)]
+      : Array.from(
+          { length: Math.max(1, Math.floor(end / MS_PER_DAY) - firstDay + 1) },
+          (_, d) => buildSegment((firstDay + d) * MS_PER_DAY + MS_PER_DAY / 2)
+        );
+
+  const segmentIndex = (t: number): number => {
+    if (segments.length === 1) return 0;
+    const d = Math.floor(t / MS_PER_DAY) - firstDay;
+    return Math.min(segments.length - 1, Math.max(0, d));
+  };
+
+  const heightAt = (time: Date | number): number => {
+    const t = typeof time === 'number' ? time : time.getTime();
+    const seg = segments[segmentIndex(t)]!;
+    const dt = (t - seg.refTime) / MS_PER_HOUR;
+    let height = meanLevel;
+    for (let i = 0; i < speed.length; i++) {
+      height += seg.amplitude[i]! * Math.cos(seg.phase[i]! + speed[i]! * dt);
+    }
+    return height;
+  };
+
+  const rateAt = (time: Date | number): number => {
+    const t = typeof time === 'number' ? time : time.getTime();
+    const seg = segments[segmentIndex(t)]!;
+    const dt = (t - seg.refTime) / MS_PER_HOUR;
+    let rate = 0;
+    for (let i = 0; i < speed.length; i++) {
+      rate -= seg.amplitude[i]! * speed[i]! * Math.sin(seg.phase[i]! + speed[i]! * dt);
+    }
+    return rate;
+  };
+
+  const series = (intervalMinutes: number): TidePrediction[] => {
+    const result: TidePrediction[] = [];
+    const intervalMs = intervalMinutes * 60 * 1000;
+    if (!(intervalMs > 0)) return result;
+
+    const n = speed.length;
+    // Current phasor (re, im) and per-step rotation for each constituent
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    const stepCos = Float64Array.from(speed, (w) => Math.cos((w * intervalMs) / MS_PER_HOUR));
+    const stepSin = Float64Array.from(speed, (w) => Math.sin((w * intervalMs) / MS_PER_HOUR));
+
+    let currentSegment = -1;
+    let stepsSinceSeed = 0;
+
+    for (let t = start; t <= end; t += intervalMs) {
+      const s = segmentIndex(t);
+
+      if (s !== currentSegment || stepsSinceSeed >= RESEED_STEPS) {
+        const seg = segments[s]!;
+        const dt = (t - seg.refTime) / MS_PER_HOUR;
+        for (let i = 0; i < n; i++) {
+          const angle = seg.phase[i]! + speed[i]! * dt;
+          re[i] = seg.amplitude[i]! * Math.cos(angle);
+          im[i] = seg.amplitude[i]! * Math.sin(angle);
+        }
+        currentSegment = s;
+        stepsSinceSeed = 0;
+      }
+
+      let height = meanLevel;
+      for (let i = 0; i < n; i++) {
+        const r = re[i]!;
+        const m = im[i]!;
+        height += r;
+        re[i] = r * stepCos[i]! - m * stepSin[i]!;
+        im[i] = r * stepSin[i]! + m * stepCos[i]!;
+      }
+      stepsSinceSeed++;
+
+      result.push({ time: new Date(t), height });
+    }
+
+    return result;
+  };
+
+  return { start, end, heightAt, rateAt, series };
+}
+
+/**
+ * Compile a prediction kernel for a station over a time span
+ * Subordinate stations are predicted from their reference's corrected
+ * extremes; a subset of constituents is always a harmonic partial sum.
+ */
+export function compilePredictionKernel(
+  station: Pick<TideStation, 'constituents' | 'meanLevel' | 'subordinate'>,
+  startDate: Date,
+  endDate: Date,
+  options: PredictionKernelOptions = {}
+): PredictionKernel {
+  if (station.subordinate && !options.constituents) {
+    return compileSubordinateKernel(station, station.subordinate, startDate, endDate, options);
+  }
+  return compileHarmonicKernel(station, startDate, endDate, options);
+}
+
+// Spacing of the derivative scan; shorter than half the period of any
+// constituent in the catalog (M8 ≈ 3.1 h), so no turning point is skipped
+const EXTREME_SCAN_MS = 10 * 60000;
+const EXTREME_TOLERANCE_MS = 1000;
+
+/**
+ * Locate high and low waters in (start, end] from a compiled kernel
+ *
+ * Turning points are where dh/dt changes sign. The derivative is scanned
+ * at a coarse step and each sign change is bisected to within a second,
+ * so times are exact to the minute regardless of any output interval.
+ */
+export function locateExtremes(kernel: PredictionKernel, start: number, end: number): TideExtreme[] {
+  const extremes: TideExtreme[] = [];
+  let t0 = start;
+  let rate0 = kernel.rateAt(t0);
+
+  while (t0 < end) {
+    const t1 = Math.min(end, t0 + EXTREME_SCAN_MS);
+    const rate1 = kernel.rateAt(t1);
+
+    if ((rate0 > 0 && rate1 <= 0) || (rate0 < 0 && rate1 >= 0)) {
+      const rising = rate0 > 0;
+      let lo = t0;
+      let hi = t1;
+      while (hi - lo > EXTREME_TOLERANCE_MS) {
+        const mid = (lo + hi) / 2;
+        if (kernel.rateAt(mid) > 0 === rising) lo = mid;
+        else hi = mid;
+      }
+      const t = (lo + hi) / 2;
+      extremes.push({
+        time: new Date(Math.round(t / 60000) * 60000),
+        height: kernel.heightAt(t),
+        type: rising ? 'high' : 'low',
+      });
+    }
+
+    t0 = t1;
+    rate0 = rate1;
+  }
+
+  return extremes;
+}
+
+/**
+ * Apply a subordinate station's time and height corrections to reference extremes
+ *
+ * Reference heights are about its mean level. Ratios scale them above the
+ * reference's MLLW (offsets.referenceLowWater), as NOAA's do, so the
+ * corrected heights are above the subordinate station's MLLW; differences
+ * are added about mean level, as Admiralty differences are restated here.
+ * The subordinate station's own mean level is added afterwards.
+ */
+export function correctExtremes(
+  extremes: TideExtreme[],
+  offsets: SubordinateOffsets,
+  meanLevel = 0
+): TideExtreme[] {
+  const lowWater = offsets.referenceLowWater ?? 0;
+  return extremes
+    .map((e): TideExtreme => {
+      const high = e.type === 'high';
+      const height = high ? offsets.highHeight : offsets.lowHeight;
+      return {
+        time: new Date(e.time.getTime() + (high ? offsets.highTime : offsets.lowTime) * MS_PER_MINUTE),
+        height: (offsets.heightType === 'ratio' ? (e.height - lowWater) * height : e.height + height) + meanLevel,
+        type: e.type,
+      };
+    })
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Kernel for a subordinate station
+ *
+ * Between consecutive corrected extremes (t₀, h₀) and (t₁, h₁) the height
+ * follows the half-cosine used for tide-table interpolation
+ * h(t) = h₀ + (h₁ - h₀) × (1 - cos(πx)) / 2, x = (t - t₀) / (t₁ - t₀)
+ * so the curve turns exactly at the corrected high and low waters.
+ */
+function compileSubordinateKernel(
+  station: Pick<TideStation, 'constituents' | 'meanLevel'>,
+  subordinate: SubordinateReference,
+  startDate: Date,
+  endDate: Date,
+  options: PredictionKernelOptions
+): PredictionKernel {
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+  const { offsets } = subordinate;
+  const margin =
+    SUBORDINATE_MARGIN_MS + Math.max(Math.abs(offsets.highTime), Math.abs(offsets.lowTime)) * MS_PER_MINUTE;
+
+  // The reference tide about its mean level
+  const reference = compileHarmonicKernel(
+    { constituents: station.constituents },
+    new Date(start - margin),
+    new Date(end + margin),
+    options
+  );
+  const nodes = correctExtremes(
+    locateExtremes(reference, start - margin, end + margin),
+    offsets,
+    station.meanLevel ?? 0
+  );
+  const times = Float64Array.from(nodes, (n) => n.time.getTime());
+  const heights = Float64Array.from(nodes, (n) => n.height);
+  const meanLevel = station.meanLevel ?? 0;
+
+  // Index of the node at or before t, kept within the interpolable range
+  const nodeIndex = (t: number): number => {
+    let lo = 0;
+    let hi = times.length - 2;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (times[mid]! <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const heightAt = (time: Date | number): number => {
+    if (times.length < 2) return meanLevel;
+    const t = typeof time === 'number' ? time : time.getTime();
+    const i = nodeIndex(t);
+    const x = Math.min(1, Math.max(0, (t - times[i]!) / (times[i + 1]! - times[i]!)));
+    return heights[i]! + ((heights[i + 1]! - heights[i]!) * (1 - Math.cos(Math.PI * x))) / 2;
+  };
+
+  const rateAt = (time: Date | number): number => {
+    if (times.length < 2) return 0;
+    const t = typeof time === 'number' ? time : time.getTime();
+    const i = nodeIndex(t);
+    const span = times[i + 1]! - times[i]!;
+    const x = (t - times[i]!) / span;
+    if (x < 0 || x > 1) return 0;
+    return ((heights[i + 1]! - heights[i]!) * Math.PI * Math.sin(Math.PI * x)) / 2 / (span / MS_PER_HOUR);
+  };
+
+  const series = (intervalMinutes: number): TidePrediction[] => {
+    const result: TidePrediction[] = [];
+    const intervalMs = intervalMinutes * MS_PER_MINUTE;
+    if (!(intervalMs > 0)) return result;
+    for (let t = start; t <= end; t += intervalMs) {
+      result.push({ time: new Date(t), height: heightAt(t) });
+    }
+    return result;
+  };
+
+  return { start, end, heightAt, rateAt, series };
+}
@@ -0,0 +1,269 @@
+// Prediction service
+// Promise API over the prediction worker, with a small result cache.
+// Falls back to running jobs on the main thread where workers are unavailable.
+
+import type { TideStation, TidePrediction, TidalDatums } from '@/types/harmonics';
+import type { TideExtreme } from './harmonics';
+import { runPredictionJob, PredictionCancelledError } from './predictionJobs';
+import { NTDE_START_YEAR, NTDE_END_YEAR } from './datums';
+import { getEphemerisMode } from './astronomical';
+import type {
+  PredictionJob,
+  PredictionJobResult,
+  PredictionJobResults,
+  SeriesJobResult,
+  ExtremesJobResult,
+  RangeJobResult,
+  PredictionWorkerRequest,
+  PredictionWorkerResponse,
+} from './predictionJobs';
+
+export { PredictionCancelledError };
+
+export interface PredictionRequestOptions {
+  signal?: AbortSignal;
+  // Fraction of the job completed, 0-1
+  onProgress?: (progress: number) => void;
+}
+
+export interface TideRangeSummary {
+  highest: TidePrediction;
+  lowest: TidePrediction;
+  mean: number;
+  samples: number;
+}
+
+const CACHE_SIZE = 24;
+
+interface PendingJob {
+  resolve: (result: PredictionJobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  job: PredictionJob;
+}
+
+const cache = new Map<string, PredictionJobResult>();
+const pending = new Map<number, PendingJob>();
+let nextId = 1;
+let worker: Worker | null = null;
+let workerFailed = false;
+
+/**
+ * Cache key for a job
+ * Includes the harmonic constants and any subordinate corrections so an
+ * edited custom station with the same id is not served stale results.
+ */
+function jobKey(job: PredictionJob): string {
+  const constants = job.station.constituents.map((c) => `${c.symbol}:${c.amplitude}:${c.phase}`).join(',');
+  const offsets = job.station.subordinate ? JSON.stringify(job.station.subordinate.offsets) : '';
+  const station = `${job.station.id}|${job.station.meanLevel ?? 0}|${constants}|${offsets}|${job.ephemeris}`;
+  if (job.kind === 'datums') return `datums|${station}|${job.startYear}|${job.endYear}`;
+  const interval = job.kind === 'extremes' ? '' : job.intervalMinutes;
+  return `${job.kind}|${station}|${job.start}|${job.end}|${interval}`;
+}
+
+function remember(key: string, result: PredictionJobResult) {
+  cache.delete(key);
+  cache.set(key, result);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+function runOnMainThread(job: PredictionJob, entry: PendingJob, isCancelled: () => boolean) {
+  runPredictionJob(job, { ...(entry.onProgress && { onProgress: entry.onProgress }), isCancelled })
+    .then(entry.resolve)
+    .catch((error: unknown) => entry.reject(error instanceof Error ? error : new Error('Prediction failed')));
+}
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+
+  try {
+    worker = new Worker(new URL('./prediction.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<PredictionWorkerResponse>) => {
+    const message = event.data;
+    const entry = pending.get(message.id);
+    if (!entry) return;
+
+    switch (message.type) {
+      case 'progress':
+        entry.onProgress?.(message.progress);
+        break;
+      case 'result':
+        pending.delete(message.id);
+        entry.resolve(message.result);
+        break;
+      case 'error':
+        pending.delete(message.id);
+        entry.reject(new Error(message.message));
+        break;
+    }
+  });
+
+  // A worker that fails to load hands its queue over to the main thread
+  worker.addEventListener('error', () => {
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    for (const [id, entry] of pending) {
+      runOnMainThread(entry.job, entry, () => !pending.has(id));
+    }
+  });
+
+  return worker;
+}
+
+/**
+ * Run a prediction job, off the main thread where possible
+ * Results are cached by station constants, span and ephemeris mode;
+ * aborting the signal rejects with PredictionCancelledError and stops the
+ * worker's job.
+ */
+export function requestPrediction<J extends PredictionJob>(
+  request: J,
+  options: PredictionRequestOptions = {}
+): Promise<PredictionJobResults[J['kind']]> {
+  const { signal, onProgress } = options;
+  const job: PredictionJob = { ...request, ephemeris: request.ephemeris ?? getEphemerisMode() };
+  const key = jobKey(job);
+
+  return new Promise<PredictionJobResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PredictionCancelledError());
+      return;
+    }
+
+    const cached = cache.get(key);
+    if (cached) {
+      remember(key, cached);
+      onProgress?.(1);
+      resolve(cached);
+      return;
+    }
+
+    const id = nextId++;
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      const message: PredictionWorkerRequest = { type: 'cancel', id };
+      worker?.postMessage(message);
+      reject(new PredictionCancelledError());
+    };
+
+    const entry: PendingJob = {
+      job,
+      ...(onProgress && { onProgress }),
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        remember(key, result);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+    pending.set(id, entry);
+    signal?.addEventListener('abort', onAbort);
+
+    const target = getWorker();
+    if (target) {
+      const message: PredictionWorkerRequest = { type: 'run', id, job };
+      target.postMessage(message);
+    } else {
+      runOnMainThread(job, entry, () => !pending.has(id));
+    }
+  }) as Promise<PredictionJobResults[J['kind']]>;
+}
+
+export function clearPredictionCache() {
+  cache.clear();
+}
+
+export function toTidePredictions(result: SeriesJobResult): TidePrediction[] {
+  return Array.from(result.times, (time, i) => ({ time: new Date(time), height: result.heights[i]! }));
+}
+
+export function toTideExtremes(result: ExtremesJobResult): TideExtreme[] {
+  return result.extremes.map((e) => ({ ...e, time: new Date(e.time) }));
+}
+
+export function toTideRangeSummary(result: RangeJobResult): TideRangeSummary {
+  return {
+    highest: { time: new Date(result.highest.time), height: result.highest.height },
+    lowest: { time: new Date(result.lowest.time), height: result.lowest.height },
+    mean: result.mean,
+    samples: result.samples,
+  };
+}
+
+/**
+ * Evenly spaced tide heights, as predictTideSeries
+ */
+export async function requestTideSeries(
+  station: TideStation,
+  start: Date,
+  end: Date,
+  intervalMinutes: number,
+  options?: PredictionRequestOptions
+): Promise<TidePrediction[]> {
+  const result = await requestPrediction(
+    { kind: 'series', station, start: start.getTime(), end: end.getTime(), intervalMinutes },
+    options
+  );
+  return toTidePredictions(result);
+}
+
+/**
+ * High and low waters between two times
+ */
+export async function requestTideExtremes(
+  station: TideStation,
+  start: Date,
+  end: Date,
+  options?: PredictionRequestOptions
+): Promise<TideExtreme[]> {
+  const result = await requestPrediction(
+    { kind: 'extremes', station, start: start.getTime(), end: end.getTime() },
+    options
+  );
+  return toTideExtremes(result);
+}
+
+/**
+ * Highest and lowest predicted heights and the mean over a span
+ * Streams through the span without keeping the series, so multi-year
+ * searches (e.g. the 18.6-year nodal cycle for HAT/LAT) stay cheap on memory.
+ */
+export async function requestTideRange(
+  station: TideStation,
+  start: Date,
+  end: Date,
+  intervalMinutes: number,
+  options?: PredictionRequestOptions
+): Promise<TideRangeSummary> {
+  const result = await requestPrediction(
+    { kind: 'range', station, start: start.getTime(), end: end.getTime(), intervalMinutes },
+    options
+  );
+  return toTideRangeSummary(result);
+}
+
+/**
+ * Tidal datums from a synthetic prediction over the datum epoch
+ * Covers 19 years (the NTDE by default), which spans the 18.6-year nodal
+ * cycle needed for HAT and LAT.
+ */
+export async function requestTidalDatums(
+  station: TideStation,
+  options?: PredictionRequestOptions & { startYear?: number; endYear?: number }
+): Promise<TidalDatums> {
+  const { startYear = NTDE_START_YEAR, endYear = NTDE_END_YEAR, ...requestOptions } = options ?? {};
+  const result = await requestPrediction({ kind: 'datums', station, startYear, endYear }, requestOptions);
+  return result.datums;
+}
@@ -0,0 +1,288 @@
+// Admiralty secondary ports
+// The Admiralty Tide Tables give most ports as differences on a standard
+// port: HW and LW time differences at two standard-port times of day, and
+// height differences at MHWS, MHWN, MLWN and MLWS. Following NP 159, the
+// time differences are interpolated by the time of the standard port's HW or
+// LW, the height differences by its range between neaps and springs, and
+// heights between HW and LW are read off the standard port's spring and neap
+// curves, interpolated by the day's range.
+
+import type { TideStation } from '@/types/harmonics';
+import type { TideExtreme } from './harmonics';
+import { compilePredictionKernel, locateExtremes } from './predictionKernel';
+import type { PredictionKernel } from './predictionKernel';
+import { zonedTime } from './timeZones';
+
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+
+// Time differences repeat every twelve hours: 0000 and 1200 share a column
+const CYCLE_HOURS = 12;
+
+// The curve diagram spans six hours either side of HW
+export const CURVE_HOURS = 6;
+const CURVE_STEP_HOURS = 0.25;
+
+// Springs and neaps are picked from the HWs this many days either side of the date
+const CURVE_SEARCH_DAYS = 15;
+
+// A standard-port time of day (hours, 0–12) and the difference there (minutes)
+export interface TimeDifference {
+  at: number;
+  minutes: number;
+}
+
+export interface SecondaryPortDifferences {
+  highWater: [TimeDifference, TimeDifference];
+  lowWater: [TimeDifference, TimeDifference];
+  // Height differences (m) at the standard port's levels
+  mhws: number;
+  mhwn: number;
+  mlwn: number;
+  mlws: number;
+}
+
+export interface PortLevels {
+  mhws: number;
+  mhwn: number;
+  mlwn: number;
+  mlws: number;
+}
+
+// The standard port's rise from LW as a fraction of its range, by hours from HW
+export interface CurveDiagram {
+  hours: number[];
+  spring: number[];
+  neap: number[];
+  springHighWater: Date;
+  neapHighWater: Date;
+}
+
+export interface SecondaryExtreme {
+  type: 'high' | 'low';
+  standardTime: Date;
+  standardHeight: number;
+  range: number; // the standard port's range for this tide
+  springFactor: number; // 0 at neaps, 1 at springs; may run past either
+  timeDifference: number; // minutes
+  heightDifference: number; // m
+  time: Date;
+  height: number;
+}
+
+// Above this form number the daily inequality is too large for the method
+export const SEMIDIURNAL_FORM_LIMIT = 0.25;
+
+function amplitudeOf(station: TideStation, symbol: string): number {
+  return station.constituents.find((c) => c.symbol === symbol)?.amplitude ?? 0;
+}
+
+/**
+ * The form number (K1 + O1) / (M2 + S2): below 0.25 the tide is semidiurnal,
+ * which is what the Admiralty method assumes
+ */
+export function formNumber(station: TideStation): number {
+  const semidiurnal = amplitudeOf(station, 'M2') + amplitudeOf(station, 'S2');
+  return semidiurnal > 0 ? (amplitudeOf(station, 'K1') + amplitudeOf(station, 'O1')) / semidiurnal : Infinity;
+}
+
+/**
+ * Mean spring and neap levels from a standard port's M2 and S2
+ * MHWS = Z0 + (M2 + S2), MHWN = Z0 + (M2 - S2), and the lows mirror them.
+ */
+export function standardPortLevels(station: TideStation): PortLevels {
+  const z0 = station.meanLevel ?? 0;
+  const m2 = amplitudeOf(station, 'M2');
+  const s2 = amplitudeOf(station, 'S2');
+  return { mhws: z0 + m2 + s2, mhwn: z0 + m2 - s2, mlwn: z0 - m2 + s2, mlws: z0 - m2 - s2 };
+}
+
+/**
+ * The secondary port's mean levels: the standard port's plus the differences
+ */
+export function secondaryPortLevels(standard: PortLevels, differences: SecondaryPortDifferences): PortLevels {
+  return {
+    mhws: standard.mhws + differences.mhws,
+    mhwn: standard.mhwn + differences.mhwn,
+    mlwn: standard.mlwn + differences.mlwn,
+    mlws: standard.mlws + differences.mlws,
+  };
+}
+
+/**
+ * A time difference at a standard-port time of day (hours)
+ * Linear between the two tabulated times, and back again across the other
+ * half of the twelve-hour cycle.
+ */
+export function interpolateTimeDifference(differences: [TimeDifference, TimeDifference], hourOfDay: number): number {
+  const [a, b] = differences;
+  const wrap = (hours: number) => ((hours % CYCLE_HOURS) + CYCLE_HOURS) % CYCLE_HOURS;
+  const span = wrap(b.at - a.at);
+  if (span === 0) return a.minutes;
+
+  const x = wrap(hourOfDay - a.at);
+  if (x <= span) return a.minutes + ((b.minutes - a.minutes) * x) / span;
+  return b.minutes + ((a.minutes - b.minutes) * (x - span)) / (CYCLE_HOURS - span);
+}
+
+/**
+ * Where a range sits between the mean neap (0) and spring (1) ranges
+ * Not clamped: height differences extrapolate beyond springs and neaps.
+ */
+export function springFactor(range: number, levels: PortLevels): number {
+  const springRange = levels.mhws - levels.mlws;
+  const neapRange = levels.mhwn - levels.mlwn;
+  if (springRange === neapRange) return 1;
+  return (range - neapRange) / (springRange - neapRange);
+}
+
+// The range of each tide: the mean of its rise and fall where it has both
+function tideRanges(extremes: TideExtreme[]): number[] {
+  return extremes.map((e, i) => {
+    const neighbours = [extremes[i - 1], extremes[i + 1]].filter((n): n is TideExtreme => n !== undefined);
+    if (neighbours.length === 0) return 0;
+    return neighbours.reduce((sum, n) => sum + Math.abs(e.height - n.height), 0) / neighbours.length;
+  });
+}
+
+// The standard port's curve around one HW, between the LWs either side
+function curveAround(kernel: PredictionKernel, extremes: TideExtreme[], index: number, hours: number[]): number[] {
+  const hw = extremes[index]!;
+  const before = extremes[index - 1];
+  const after = extremes[index + 1];
+  const t = hw.time.getTime();
+  return hours.map((h) => {
+    const low = (h < 0 ? before : after) ?? before ?? after;
+    if (!low || hw.height === low.height) return 1;
+    return (kernel.heightAt(t + h * MS_PER_HOUR) - low.height) / (hw.height - low.height);
+  });
+}
+
+/**
+ * The standard port's curve diagram for the fortnight around a date
+ * Its spring curve is the tide whose range comes closest to the mean spring
+ * range, its neap curve the closest to the mean neap range.
+ */
+export function buildCurveDiagram(station: TideStation, date: Date): CurveDiagram {
+  const start = date.getTime() - CURVE_SEARCH_DAYS * MS_PER_DAY;
+  const end = date.getTime() + CURVE_SEARCH_DAYS * MS_PER_DAY;
+  const kernel = compilePredictionKernel(station, new Date(start), new Date(end));
+  const extremes = locateExtremes(kernel, start, end);
+  const ranges = tideRanges(extremes);
+  const levels = standardPortLevels(station);
+
+  const hours: number[] = [];
+  for (let h = -CURVE_HOURS; h <= CURVE_HOURS + 1e-9; h += CURVE_STEP_HOURS) hours.push(h);
+
+  const closest = (target: number) => {
+    let best = -1;
+    for (let i = 1; i < extremes.length - 1; i++) {
+      if (extremes[i]!.type !== 'high') continue;
+      if (best < 0 || Math.abs(ranges[i]! - target) < Math.abs(ranges[best]! - target)) best = i;
+    }
+    return best;
+  };
+  const spring = closest(levels.mhws - levels.mlws);
+  const neap = closest(levels.mhwn - levels.mlwn);
+  if (spring < 0 || neap < 0) {
+    // Too few tides to draw from: fall back to a cosine rise and fall
+    const cosine = hours.map((h) => (1 + Math.cos((Math.PI * h) / CURVE_HOURS)) / 2);
+    return { hours, spring: cosine, neap: cosine, springHighWater: date, neapHighWater: date };
+  }
+
+  return {
+    hours,
+    spring: curveAround(kernel, extremes, spring, hours),
+    neap: curveAround(kernel, extremes, neap, hours),
+    springHighWater: extremes[spring]!.time,
+    neapHighWater: extremes[neap]!.time,
+  };
+}
+
+/**
+ * The curve factor (rise from LW as a fraction of range) at hours from HW
+ * Interpolated between the neap and spring curves by the day's range,
+ * clamped to them: NP 159 does not extrapolate the curves.
+ */
+export function curveFactor(diagram: CurveDiagram, hoursFromHighWater: number, factor: number): number {
+  const f = Math.min(1, Math.max(0, factor));
+  const h = Math.min(CURVE_HOURS, Math.max(-CURVE_HOURS, hoursFromHighWater));
+  const position = (h + CURVE_HOURS) / CURVE_STEP_HOURS;
+  const i = Math.min(diagram.hours.length - 2, Math.floor(position));
+  const frac = position - i;
+  const at = (curve: number[]) => curve[i]! + (curve[i + 1]! - curve[i]!) * frac;
+  return at(diagram.neap) + (at(diagram.spring) - at(diagram.neap)) * f;
+}
+
+/**
+ * The secondary port's HWs and LWs between two dates
+ *
+ * Each standard-port HW or LW takes the time difference for its time of day
+ * in the given zone (the zone the differences are tabulated in) and the
+ * height difference for its range.
+ */
+export function secondaryPortExtremes(
+  station: TideStation,
+  differences: SecondaryPortDifferences,
+  startDate: Date,
+  endDate: Date,
+  timeZone: string
+): SecondaryExtreme[] {
+  const tz = zonedTime(timeZone);
+  const levels = standardPortLevels(station);
+  // Reach a tide beyond each end, so every tide in the range has its full range
+  const start = startDate.getTime() - 14 * MS_PER_HOUR;
+  const end = endDate.getTime() + 14 * MS_PER_HOUR;
+  const kernel = compilePredictionKernel(station, new Date(start), new Date(end));
+  const extremes = locateExtremes(kernel, start, end);
+  const ranges = tideRanges(extremes);
+
+  return extremes
+    .map((e, i): SecondaryExtreme => {
+      const range = ranges[i]!;
+      const factor = springFactor(range, levels);
+      const high = e.type === 'high';
+      const timeDifference = interpolateTimeDifference(
+        high ? differences.highWater : differences.lowWater,
+        tz.hoursSinceMidnight(e.time)
+      );
+      const neapDifference = high ? differences.mhwn : differences.mlwn;
+      const springDifference = high ? differences.mhws : differences.mlws;
+      const heightDifference = neapDifference + (springDifference - neapDifference) * factor;
+      return {
+        type: e.type,
+        standardTime: e.time,
+        standardHeight: e.height,
+        range,
+        springFactor: factor,
+        timeDifference,
+        heightDifference,
+        time: new Date(e.time.getTime() + timeDifference * 60000),
+        height: e.height + heightDifference,
+      };
+    })
+    .filter((e) => e.time >= startDate && e.time <= endDate);
+}
+
+/**
+ * The secondary port's height at a time by the Admiralty curve method
+ *
+ * Reads the curve factor at the time's hours from the nearer secondary HW
+ * and applies it to the range between that HW and the LW on the same side.
+ * Null outside the extremes given.
+ */
+export function secondaryHeightAt(extremes: SecondaryExtreme[], diagram: CurveDiagram, time: Date): number | null {
+  const t = time.getTime();
+  const next = extremes.findIndex((e) => e.time.getTime() >= t);
+  if (next < 0) return null;
+  if (next === 0) return extremes[0]!.time.getTime() === t ? extremes[0]!.height : null;
+
+  const a = extremes[next - 1]!;
+  const b = extremes[next]!;
+  const [hw, lw] = a.type === 'high' ? [a, b] : [b, a];
+  if (hw.type !== 'high' || lw.type !== 'low') return null;
+
+  const hours = (t - hw.time.getTime()) / MS_PER_HOUR;
+  const factor = curveFactor(diagram, hours, hw.springFactor);
+  return lw.height + factor * (hw.height - lw.height);
+}
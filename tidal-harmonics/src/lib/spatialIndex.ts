@@ -0,0 +1,133 @@
+// Spatial index
+// Points bucketed on a latitude/longitude grid, so radius and bounding-box
+// queries over thousands of stations only visit the cells they overlap.
+
+const DEG = Math.PI / 180;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = EARTH_RADIUS_KM * DEG;
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// A latitude/longitude box; west > east for a box crossing the antimeridian
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface SpatialMatch<T> {
+  item: T;
+  distanceKm: number;
+}
+
+export interface SpatialIndex<T extends GeoPoint> {
+  size: number;
+  // Items within radiusKm, nearest first
+  withinRadius: (lat: number, lon: number, radiusKm: number) => SpatialMatch<T>[];
+  // Items inside the box, in index order
+  inBounds: (bounds: GeoBounds) => T[];
+  // The count nearest items, nearest first
+  nearest: (lat: number, lon: number, count: number) => SpatialMatch<T>[];
+}
+
+/**
+ * Great-circle distance in km
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function boundsContain(bounds: GeoBounds, lat: number, lon: number): boolean {
+  if (lat < bounds.south || lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? lon >= bounds.west && lon <= bounds.east
+    : lon >= bounds.west || lon <= bounds.east;
+}
+
+/**
+ * Index points on a grid of cellDegrees squares
+ */
+export function createSpatialIndex<T extends GeoPoint>(items: readonly T[], cellDegrees = 2): SpatialIndex<T> {
+  const rows = Math.ceil(180 / cellDegrees);
+  const cols = Math.ceil(360 / cellDegrees);
+  const row = (lat: number) => Math.min(rows - 1, Math.max(0, Math.floor((lat + 90) / cellDegrees)));
+  const col = (lon: number) => {
+    const wrapped = ((((lon + 180) % 360) + 360) % 360);
+    return Math.min(cols - 1, Math.floor(wrapped / cellDegrees));
+  };
+
+  // Cell contents as positions in items, so results can keep index order
+  const cells = new Map<number, number[]>();
+  items.forEach((item, i) => {
+    const key = row(item.lat) * cols + col(item.lon);
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+
+  // Positions of items in the cells covering a box
+  const candidates = (south: number, north: number, west: number, east: number): number[] => {
+    const found: number[] = [];
+    const colRange: number[] = [];
+    if (east - west >= 360 - cellDegrees) {
+      for (let c = 0; c < cols; c++) colRange.push(c);
+    } else {
+      const first = col(west);
+      const last = col(east);
+      for (let c = first; ; c = (c + 1) % cols) {
+        colRange.push(c);
+        if (c === last || colRange.length >= cols) break;
+      }
+    }
+    for (let r = row(south); r <= row(north); r++) {
+      for (const c of colRange) {
+        const cell = cells.get(r * cols + c);
+        if (cell) found.push(...cell);
+      }
+    }
+    return found;
+  };
+
+  const withinRadius = (lat: number, lon: number, radiusKm: number): SpatialMatch<T>[] => {
+    const dLat = radiusKm / KM_PER_DEGREE;
+    const south = Math.max(-90, lat - dLat);
+    const north = Math.min(90, lat + dLat);
+    // Near the poles (or for huge radii) every longitude is in reach
+    const cosLat = Math.min(Math.cos(south * DEG), Math.cos(north * DEG));
+    const dLon = cosLat > 1e-6 ? radiusKm / (KM_PER_DEGREE * cosLat) : 360;
+    const span = dLon >= 180 || north >= 90 || south <= -90 ? 360 : 2 * dLon;
+
+    return candidates(south, north, lon - span / 2, lon + span / 2)
+      .map((i) => ({ item: items[i]!, distanceKm: haversineDistance(lat, lon, items[i]!.lat, items[i]!.lon) }))
+      .filter((m) => m.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  };
+
+  const inBounds = (bounds: GeoBounds): T[] => {
+    const east = bounds.west <= bounds.east ? bounds.east : bounds.east + 360;
+    return candidates(bounds.south, bounds.north, bounds.west, east)
+      .sort((a, b) => a - b)
+      .map((i) => items[i]!)
+      .filter((item) => boundsContain(bounds, item.lat, item.lon));
+  };
+
+  const nearest = (lat: number, lon: number, count: number): SpatialMatch<T>[] => {
+    if (count <= 0 || items.length === 0) return [];
+    // Widen the search until enough items turn up; half the circumference reaches everything
+    for (let radiusKm = 50; ; radiusKm *= 2) {
+      const matches = withinRadius(lat, lon, radiusKm);
+      if (matches.length >= count || radiusKm >= Math.PI * EARTH_RADIUS_KM) return matches.slice(0, count);
+    }
+  };
+
+  return { size: items.length, withinRadius, inBounds, nearest };
+}
@@ -0,0 +1,86 @@
+// Station catalog
+// Region modules are dynamic imports, so each builds to its own chunk and is
+// fetched the first time one of its stations is needed. The PWA precaches
+// every chunk, so regions load offline too once the app has been installed.
+
+import type { TideStation } from '@/types/harmonics';
+import { STATION_INDEX } from '@/data/stationIndex';
+import type { StationRegion, StationSummary } from '@/data/stationIndex';
+import { getTidalType } from '@/data/stations';
+import { createSpatialIndex } from './spatialIndex';
+import type { GeoBounds } from './spatialIndex';
+
+const REGION_LOADERS: Record<StationRegion, () => Promise<{ STATIONS: TideStation[] }>> = {
+  'north-america': () => import('@/data/regions/northAmerica'),
+  'south-america': () => import('@/data/regions/southAmerica'),
+  europe: () => import('@/data/regions/europe'),
+  africa: () => import('@/data/regions/africa'),
+  asia: () => import('@/data/regions/asia'),
+  oceania: () => import('@/data/regions/oceania'),
+};
+
+const regionLoads = new Map<StationRegion, Promise<TideStation[]>>();
+
+const summaries = new Map(STATION_INDEX.map((summary, i) => [summary.id, { summary, order: i }]));
+
+// Every catalog station by position, loaded or not
+export const catalogIndex = createSpatialIndex(STATION_INDEX);
+
+/**
+ * The harmonic stations of a region, fetched once
+ */
+export function loadRegionStations(region: StationRegion): Promise<TideStation[]> {
+  let load = regionLoads.get(region);
+  if (!load) {
+    load = REGION_LOADERS[region]().then((module) => module.STATIONS);
+    regionLoads.set(region, load);
+    // Let a later call retry, e.g. when a fetch failed offline before the precache filled
+    load.catch(() => regionLoads.delete(region));
+  }
+  return load;
+}
+
+export function isCatalogStation(id: string): boolean {
+  return summaries.has(id);
+}
+
+export function catalogRegionOf(id: string): StationRegion | undefined {
+  return summaries.get(id)?.summary.region ?? undefined;
+}
+
+// Position in the index, so loaded stations list in catalog order
+export function catalogOrder(id: string): number {
+  return summaries.get(id)?.order ?? Infinity;
+}
+
+/**
+ * Regions with a catalog station within radiusKm of a point
+ */
+export function regionsNear(lat: number, lon: number, radiusKm: number): StationRegion[] {
+  const regions = catalogIndex.withinRadius(lat, lon, radiusKm).flatMap(({ item }) => (item.region ? [item.region] : []));
+  return [...new Set(regions)];
+}
+
+/**
+ * Regions with a catalog station inside a box
+ */
+export function regionsInBounds(bounds: GeoBounds): StationRegion[] {
+  return [...new Set(catalogIndex.inBounds(bounds).flatMap((item) => (item.region ? [item.region] : [])))];
+}
+
+/**
+ * A catalog entry for a station of the user's (imported, edited or analysed)
+ */
+export function summarizeStation(station: TideStation): StationSummary {
+  return {
+    id: station.id,
+    name: station.name,
+    ...(station.state !== undefined && { state: station.state }),
+    country: station.country,
+    lat: station.lat,
+    lon: station.lon,
+    region: null,
+    tidalType: getTidalType(station),
+    ...(station.subordinate && { subordinate: true }),
+  };
+}
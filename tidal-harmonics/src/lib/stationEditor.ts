@@ -0,0 +1,178 @@
+// Station editing
+// The editor works on a draft that keeps numbers as typed, so a half-entered
+// value ("-12.") doesn't jump around; drafts are validated field by field
+// and converted back to a TideStation only when they pass.
+
+import type { TideStation } from '@/types/harmonics';
+import type { UnitSystem } from '@/stores/harmonicsStore';
+import { CONSTITUENTS } from '@/data/constituents';
+import { convertHeight, toMeters } from './units';
+import { isValidTimeZone } from './timeZones';
+
+export interface ConstituentDraft {
+  key: number; // stable row key while symbols are edited
+  symbol: string;
+  amplitude: string; // in the display unit
+  phase: string; // degrees
+}
+
+export interface StationDraft {
+  id: string;
+  name: string;
+  state: string;
+  country: string;
+  lat: string;
+  lon: string;
+  timezone: string;
+  datum: string;
+  harmonicEpoch: string;
+  meanLevel: string; // in the display unit
+  constituents: ConstituentDraft[];
+}
+
+export type StationDraftField = Exclude<keyof StationDraft, 'constituents'>;
+
+export interface StationDraftIssues {
+  fields: Partial<Record<StationDraftField, string>>;
+  // By row key
+  constituents: Record<number, string>;
+  // Problems with the table as a whole
+  table: string | null;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+let nextRowKey = 1;
+
+export function newConstituentRow(symbol = '', amplitude = '', phase = ''): ConstituentDraft {
+  return { key: nextRowKey++, symbol, amplitude, phase };
+}
+
+function trimNumber(value: number, digits: number): string {
+  return String(Math.round(value * 10 ** digits) / 10 ** digits);
+}
+
+export function emptyStationDraft(): StationDraft {
+  return {
+    id: '',
+    name: '',
+    state: '',
+    country: '',
+    lat: '',
+    lon: '',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    datum: 'MSL',
+    harmonicEpoch: '',
+    meanLevel: '0',
+    constituents: ['M2', 'S2', 'K1', 'O1'].map((symbol) => newConstituentRow(symbol)),
+  };
+}
+
+export function draftFromStation(station: TideStation, unitSystem: UnitSystem): StationDraft {
+  return {
+    id: station.id,
+    name: station.name,
+    state: station.state ?? '',
+    country: station.country,
+    lat: String(station.lat),
+    lon: String(station.lon),
+    timezone: station.timezone,
+    datum: station.datum,
+    harmonicEpoch: station.harmonicEpoch,
+    meanLevel: trimNumber(convertHeight(station.meanLevel ?? 0, unitSystem), 6),
+    constituents: station.constituents.map((c) =>
+      newConstituentRow(c.symbol, trimNumber(convertHeight(c.amplitude, unitSystem), 6), trimNumber(c.phase, 2))
+    ),
+  };
+}
+
+const parseNumber = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+/**
+ * Check a draft
+ * Ids must be unique among existingIds, except for originalId (the station
+ * being edited keeps its own id).
+ */
+export function validateStationDraft(
+  draft: StationDraft,
+  existingIds: readonly string[],
+  originalId: string | null
+): StationDraftIssues {
+  const fields: StationDraftIssues['fields'] = {};
+  const constituents: StationDraftIssues['constituents'] = {};
+
+  const id = draft.id.trim();
+  if (!id) fields.id = 'Required';
+  else if (!ID_PATTERN.test(id)) fields.id = 'Letters, digits, ".", "_" and "-" only';
+  else if (id !== originalId && existingIds.includes(id)) fields.id = 'Another station already uses this id';
+
+  if (!draft.name.trim()) fields.name = 'Required';
+  if (!draft.country.trim()) fields.country = 'Required';
+
+  const lat = parseNumber(draft.lat);
+  if (!(Math.abs(lat) <= 90)) fields.lat = 'Between -90 and 90';
+  const lon = parseNumber(draft.lon);
+  if (!(Math.abs(lon) <= 180)) fields.lon = 'Between -180 and 180';
+
+  if (!isValidTimeZone(draft.timezone.trim())) fields.timezone = 'Not an IANA time zone, e.g. America/New_York';
+  if (!draft.datum.trim()) fields.datum = 'Required';
+  if (!isFinite(parseNumber(draft.meanLevel))) fields.meanLevel = 'Must be a number';
+
+  const seen = new Set<string>();
+  for (const row of draft.constituents) {
+    const symbol = row.symbol.trim();
+    const amplitude = parseNumber(row.amplitude);
+    const phase = parseNumber(row.phase);
+    if (!CONSTITUENTS[symbol]) constituents[row.key] = `Unknown constituent "${symbol}"`;
+    else if (seen.has(symbol)) constituents[row.key] = `${symbol} is listed twice`;
+    else if (!(amplitude >= 0)) constituents[row.key] = 'Amplitude must be zero or more';
+    else if (!(phase >= 0 && phase < 360)) constituents[row.key] = 'Phase must be from 0 up to 360°';
+    seen.add(symbol);
+  }
+
+  return {
+    fields,
+    constituents,
+    table: draft.constituents.length === 0 ? 'Add at least one constituent' : null,
+  };
+}
+
+export function hasIssues(issues: StationDraftIssues): boolean {
+  return Object.keys(issues.fields).length > 0 || Object.keys(issues.constituents).length > 0 || issues.table !== null;
+}
+
+/**
+ * The station a draft describes
+ * Rows with problems are left out, so a preview can be drawn while the
+ * table is still being edited; save only drafts without issues.
+ */
+export function stationFromDraft(
+  draft: StationDraft,
+  unitSystem: UnitSystem,
+  issues: StationDraftIssues
+): TideStation {
+  const lat = parseNumber(draft.lat);
+  const lon = parseNumber(draft.lon);
+  const meanLevel = parseNumber(draft.meanLevel);
+  const timezone = draft.timezone.trim();
+
+  return {
+    id: draft.id.trim(),
+    name: draft.name.trim(),
+    ...(draft.state.trim() && { state: draft.state.trim() }),
+    country: draft.country.trim(),
+    lat: isFinite(lat) ? lat : 0,
+    lon: isFinite(lon) ? lon : 0,
+    timezone: issues.fields.timezone ? 'UTC' : timezone,
+    datum: draft.datum.trim(),
+    harmonicEpoch: draft.harmonicEpoch.trim(),
+    constituents: draft.constituents
+      .filter((row) => !issues.constituents[row.key])
+      .map((row) => ({
+        symbol: row.symbol.trim(),
+        amplitude: toMeters(Number(row.amplitude), unitSystem),
+        phase: Number(row.phase),
+      })),
+    ...(isFinite(meanLevel) && meanLevel !== 0 && { meanLevel: toMeters(meanLevel, unitSystem) }),
+  };
+}
@@ -0,0 +1,511 @@
+// Harmonic constant importers
+// Reads station constants published by NOAA CO-OPS (harcon JSON or the
+// website's CSV table), XTide's text harmonics files and TICON-style
+// tables. Constituent names are mapped onto the catalog; anything the
+// engine can't predict is reported rather than silently dropped.
+
+import type { ConstituentValue, TideStation } from '@/types/harmonics';
+import { CONSTITUENTS } from '@/data/constituents';
+
+export type StationImportFormat = 'noaa-json' | 'noaa-csv' | 'xtide' | 'ticon';
+
+export const STATION_IMPORT_FORMATS: { format: StationImportFormat; label: string }[] = [
+  { format: 'noaa-json', label: 'NOAA CO-OPS harcon (JSON)' },
+  { format: 'noaa-csv', label: 'NOAA CO-OPS table (CSV)' },
+  { format: 'xtide', label: 'XTide harmonics file' },
+  { format: 'ticon', label: 'TICON table' },
+];
+
+const FEET_TO_METERS = 0.3048;
+
+// A station as read from a file; location and zone may have to be filled in
+export interface ImportedStation {
+  sourceId: string | null;
+  name: string;
+  state?: string;
+  country: string;
+  lat: number | null;
+  lon: number | null;
+  timezone: string | null;
+  datum: string;
+  harmonicEpoch: string;
+  meanLevel: number; // m above the datum
+  constituents: ConstituentValue[];
+  warnings: string[];
+}
+
+export interface StationImportResult {
+  format: StationImportFormat;
+  stations: ImportedStation[];
+  warnings: string[];
+}
+
+export class StationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StationImportError';
+  }
+}
+
+// Names other sources use for catalog constituents; everything else is
+// matched case-insensitively against the catalog keys
+const CONSTITUENT_ALIASES: Record<string, string> = {
+  LDA2: 'LAM2',
+  LAMBDA2: 'LAM2',
+  RHO: 'RHO1',
+};
+
+const CATALOG_BY_NAME = new Map(Object.keys(CONSTITUENTS).map((symbol) => [symbol.toUpperCase(), symbol]));
+
+/**
+ * The catalog symbol for a constituent name, or null if it isn't predicted
+ */
+export function mapConstituentName(name: string): string | null {
+  const key = name.trim().toUpperCase();
+  return CATALOG_BY_NAME.get(key) ?? CONSTITUENT_ALIASES[key] ?? null;
+}
+
+/**
+ * A fixed-offset zone for a longitude, for sources that don't give one
+ * IANA's Etc zones have inverted signs: Etc/GMT+8 is UTC-8.
+ */
+export function timeZoneForLongitude(lon: number): string {
+  const hours = Math.round(lon / 15);
+  if (hours === 0) return 'UTC';
+  return `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
+
+/**
+ * Collect rows of name/amplitude/phase into catalog constituents
+ * Amplitudes are converted to meters; zero-amplitude rows (XTide lists
+ * every constituent for every station) are dropped without comment.
+ */
+function collectConstituents(
+  rows: { name: string; amplitude: number; phase: number }[],
+  toMeters: number,
+  warnings: string[]
+): ConstituentValue[] {
+  const constituents: ConstituentValue[] = [];
+  const unknown: string[] = [];
+
+  for (const row of rows) {
+    if (!isFinite(row.amplitude) || !isFinite(row.phase) || row.amplitude === 0) continue;
+    const symbol = mapConstituentName(row.name);
+    if (!symbol) {
+      unknown.push(row.name);
+      continue;
+    }
+    if (constituents.some((c) => c.symbol === symbol)) {
+      warnings.push(`${row.name} appears more than once; the first value was kept`);
+      continue;
+    }
+    constituents.push({
+      symbol,
+      amplitude: row.amplitude * toMeters,
+      phase: ((row.phase % 360) + 360) % 360,
+    });
+  }
+
+  if (unknown.length > 0) {
+    warnings.push(`Skipped constituents not in the catalog: ${unknown.join(', ')}`);
+  }
+  return constituents;
+}
+
+function unitFactor(units: string | undefined): number {
+  return units && /^(ft|feet|foot)$/i.test(units.trim()) ? FEET_TO_METERS : 1;
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || 'Imported station';
+}
+
+/**
+ * NOAA CO-OPS metadata API harcon.json, either bare or inside a
+ * stations.json response expanded with harcon
+ */
+function parseNoaaJson(text: string, fileName: string): StationImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new StationImportError('The file is not valid JSON');
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const asNumber = (value: unknown) => (typeof value === 'number' && isFinite(value) ? value : undefined);
+
+  if (!isObject(data)) throw new StationImportError('Expected a NOAA harmonic constants object');
+  const root = data;
+  if (root.stations !== undefined && !Array.isArray(root.stations)) {
+    throw new StationImportError('The stations entry is not a list');
+  }
+  const entries: { meta: Record<string, unknown>; harcon: Record<string, unknown> }[] = Array.isArray(root.stations)
+    ? root.stations.flatMap((s) =>
+        isObject(s) && isObject(s.harmonicConstituents) ? [{ meta: s, harcon: s.harmonicConstituents }] : []
+      )
+    : [{ meta: {}, harcon: root }];
+
+  const stations = entries.map(({ meta, harcon }): ImportedStation => {
+    if (!Array.isArray(harcon.HarmonicConstituents)) {
+      throw new StationImportError('No HarmonicConstituents list was found');
+    }
+    const warnings: string[] = [
+      'NOAA constants are about mean sea level, so heights are referenced to MSL',
+    ];
+    const rows = harcon.HarmonicConstituents.flatMap((c: unknown) => {
+      if (!isObject(c)) return [];
+      const name = asString(c.name);
+      const amplitude = asNumber(c.amplitude);
+      const phase = asNumber(c.phase_GMT);
+      return name !== undefined && amplitude !== undefined && phase !== undefined ? [{ name, amplitude, phase }] : [];
+    });
+    const malformed = harcon.HarmonicConstituents.length - rows.length;
+    if (malformed > 0) {
+      warnings.push(`Skipped ${malformed} constituent row(s) without a name, amplitude and GMT phase`);
+    }
+    const sourceId = asString(meta.id) ?? asString(harcon.self)?.match(/stations\/([^/]+)\//)?.[1] ?? null;
+    const constituents = collectConstituents(rows, unitFactor(asString(harcon.units)), warnings);
+    const name = asString(meta.name);
+    const state = asString(meta.state);
+
+    return {
+      sourceId,
+      name: name ?? (sourceId ? `NOAA ${sourceId}` : baseName(fileName)),
+      ...(state && { state }),
+      country: 'US',
+      lat: asNumber(meta.lat) ?? null,
+      lon: asNumber(meta.lng) ?? null,
+      timezone: null,
+      datum: 'MSL',
+      harmonicEpoch: '1983-2001',
+      meanLevel: 0,
+      constituents,
+      warnings,
+    };
+  });
+
+  return { format: 'noaa-json', stations, warnings: [] };
+}
+
+function splitRow(line: string): string[] {
+  return line.split(line.includes('\t') ? '\t' : ',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * The harmonic constituents table from a NOAA station page, saved as CSV
+ * Columns are found by header: Name, Amplitude and Phase (GMT in preference
+ * to local).
+ */
+function parseNoaaCsv(text: string, fileName: string, units: string | undefined): StationImportResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'));
+  const header = splitRow(lines[0] ?? '').map((cell) => cell.toLowerCase());
+  const nameCol = header.findIndex((h) => h === 'name' || (h.startsWith('constituent') && !h.includes('#')));
+  const ampCol = header.findIndex((h) => h.startsWith('amplitude'));
+  const phaseCols = header.flatMap((h, i) => (h.startsWith('phase') ? [i] : []));
+  const phaseCol =
+    phaseCols.find((i) => /gmt|greenwich|utc/.test(header[i]!)) ??
+    phaseCols.find((i) => !header[i]!.includes('local')) ??
+    phaseCols[0] ??
+    -1;
+
+  if (nameCol < 0 || ampCol < 0 || phaseCol < 0) {
+    throw new StationImportError('Expected Name, Amplitude and Phase columns');
+  }
+
+  const warnings: string[] = [];
+  const headerUnits = /\((ft|feet)\)/.test(header[ampCol]!) ? 'feet' : /\((m|meters)\)/.test(header[ampCol]!) ? 'meters' : units;
+  const constituents = collectConstituents(
+    lines.slice(1).map((line) => {
+      const cells = splitRow(line);
+      return { name: cells[nameCol] ?? '', amplitude: parseFloat(cells[ampCol] ?? ''), phase: parseFloat(cells[phaseCol] ?? '') };
+    }),
+    unitFactor(headerUnits),
+    warnings
+  );
+  if (phaseCols.length > 0 && header[phaseCol]!.includes('local')) {
+    warnings.push('Only local-time phases were found; they were read as Greenwich phases');
+  }
+  warnings.push('NOAA constants are about mean sea level, so heights are referenced to MSL');
+
+  const sourceId = fileName.match(/\d{7}/)?.[0] ?? null;
+  return {
+    format: 'noaa-csv',
+    stations: [
+      {
+        sourceId,
+        name: sourceId ? `NOAA ${sourceId}` : baseName(fileName),
+        country: 'US',
+        lat: null,
+        lon: null,
+        timezone: null,
+        datum: 'MSL',
+        harmonicEpoch: '1983-2001',
+        meanLevel: 0,
+        constituents,
+        warnings,
+      },
+    ],
+    warnings: [],
+  };
+}
+
+/**
+ * XTide's text harmonics file (the pre-TCD "harmonics" format)
+ *
+ * Header: the constituent count, one "name speed" line per constituent, then
+ * the equilibrium argument and node factor tables, each ending in *END*.
+ * Each station follows as its name, the meridian its phases refer to
+ * (e.g. "-08:00 :America/Los_Angeles"), "datum units", and one
+ * "name amplitude phase" line per constituent. "# !latitude:" style
+ * comments before a station carry its location.
+ */
+function parseXTide(text: string, units: string | undefined): StationImportResult {
+  const warnings: string[] = [];
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+  let comments: Record<string, string> = {};
+
+  // Next content line, collecting "# !key: value" comments on the way
+  const next = (): string | null => {
+    while (i < lines.length) {
+      const line = lines[i++]!.trim();
+      if (!line) continue;
+      if (line.startsWith('#')) {
+        const match = line.match(/^#\s*!\s*(\w+)\s*:\s*(.+)$/);
+        if (match) comments[match[1]!.toLowerCase()] = match[2]!.trim();
+        continue;
+      }
+      return line;
+    }
+    return null;
+  };
+
+  const count = parseInt(next() ?? '', 10);
+  if (!(count > 0)) throw new StationImportError('Expected the constituent count on the first line');
+  const speeds = new Map<string, number>();
+  for (let c = 0; c < count; c++) {
+    const [name, speed] = (next() ?? '').split(/\s+/);
+    if (name) speeds.set(name, parseFloat(speed ?? ''));
+  }
+
+  let ends = 0;
+  while (ends < 2) {
+    const line = next();
+    if (line === null) throw new StationImportError('The equilibrium argument and node factor tables are incomplete');
+    if (line === '*END*') ends++;
+  }
+  comments = {};
+
+  const stations: ImportedStation[] = [];
+  for (let name = next(); name !== null; name = next()) {
+    const stationComments = comments;
+    comments = {};
+    const meridian = (next() ?? '').match(/^(-?)(\d{1,2}):(\d{2})(?:\s+:(\S+))?/);
+    const datumLine = (next() ?? '').split(/\s+/);
+    if (!meridian) throw new StationImportError(`Expected a meridian such as "-08:00" after "${name}"`);
+
+    const offsetHours = (meridian[1] ? -1 : 1) * (parseInt(meridian[2]!, 10) + parseInt(meridian[3]!, 10) / 60);
+    const stationUnits = datumLine[1] ?? stationComments['units'] ?? units;
+    const rows: { name: string; amplitude: number; phase: number }[] = [];
+    for (let c = 0; c < count; c++) {
+      const [symbol = '', amplitude = '', phase = ''] = (next() ?? '').split(/\s+/);
+      // Phases refer to the meridian's clock; at ω°/hour, g = κ′ − ω × offset
+      const speed = speeds.get(symbol) ?? 0;
+      rows.push({ name: symbol, amplitude: parseFloat(amplitude), phase: parseFloat(phase) - speed * offsetHours });
+    }
+
+    const stationWarnings: string[] = [];
+    const lat = parseFloat(stationComments['latitude'] ?? '');
+    const lon = parseFloat(stationComments['longitude'] ?? '');
+    stations.push({
+      sourceId: null,
+      name: name.split(',')[0]!.trim(),
+      ...(name.includes(',') && { state: name.slice(name.indexOf(',') + 1).trim() }),
+      country: stationComments['country'] ?? 'Unknown',
+      lat: isFinite(lat) ? lat : null,
+      lon: isFinite(lon) ? lon : null,
+      timezone: meridian[4] ?? null,
+      datum: stationComments['datum'] ?? 'Chart datum',
+      harmonicEpoch: 'unknown',
+      meanLevel: parseFloat(datumLine[0] ?? '0') * unitFactor(stationUnits),
+      constituents: collectConstituents(rows, unitFactor(stationUnits), stationWarnings),
+      warnings: stationWarnings,
+    });
+  }
+
+  if (stations.length === 0) warnings.push('The file has no station records');
+  return { format: 'xtide', stations, warnings };
+}
+
+/**
+ * TICON-style tables: one constituent per row, grouped into stations
+ *
+ * Without a header the TICON-3 column order is assumed: latitude,
+ * longitude, constituent, amplitude (cm), phase (degrees, Greenwich), with
+ * the station id in column 13 and the country in column 14. With a header,
+ * columns are found by name and amplitudes are in cm unless the header says
+ * otherwise.
+ */
+function parseTicon(text: string): StationImportResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'));
+  const split = (line: string) => (line.includes(',') ? splitRow(line) : line.trim().split(/\s+/));
+
+  const first = split(lines[0] ?? '').map((cell) => cell.toLowerCase());
+  const hasHeader = first.some((cell) => cell.startsWith('lat'));
+  const col = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? first.findIndex((cell) => pattern.test(cell)) : -1;
+    return index >= 0 ? index : hasHeader ? -1 : fallback;
+  };
+  const latCol = col(/^lat/, 0);
+  const lonCol = col(/^lon/, 1);
+  const conCol = col(/^(con|constituent|name)/, 2);
+  const ampCol = col(/^amp/, 3);
+  const phaseCol = col(/^(pha|phase|g$)/, 4);
+  const idCol = col(/^(station|site|id|gauge|tide_gauge)/, 12);
+  const countryCol = col(/^country/, 13);
+  const ampHeader = hasHeader ? first[ampCol] ?? '' : '';
+  const toMeters = /\(m\)|_m$|meters/.test(ampHeader) ? 1 : /ft|feet/.test(ampHeader) ? FEET_TO_METERS : 0.01;
+
+  if (latCol < 0 || lonCol < 0 || conCol < 0 || ampCol < 0 || phaseCol < 0) {
+    throw new StationImportError('Expected latitude, longitude, constituent, amplitude and phase columns');
+  }
+
+  const groups = new Map<string, { lat: number; lon: number; country: string; rows: { name: string; amplitude: number; phase: number }[] }>();
+  let skipped = 0;
+  for (const line of lines.slice(hasHeader ? 1 : 0)) {
+    const cells = split(line);
+    const lat = parseFloat(cells[latCol] ?? '');
+    const lon = parseFloat(cells[lonCol] ?? '');
+    if (!isFinite(lat) || !isFinite(lon)) {
+      skipped++;
+      continue;
+    }
+    const key = cells[idCol] || `${lat.toFixed(4)},${lon.toFixed(4)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { lat, lon, country: cells[countryCol] || 'Unknown', rows: [] };
+      groups.set(key, group);
+    }
+    group.rows.push({
+      name: cells[conCol] ?? '',
+      amplitude: parseFloat(cells[ampCol] ?? ''),
+      phase: parseFloat(cells[phaseCol] ?? ''),
+    });
+  }
+
+  const stations = Array.from(groups, ([key, group]): ImportedStation => {
+    const warnings: string[] = [];
+    return {
+      sourceId: key,
+      name: key,
+      country: group.country,
+      lat: group.lat,
+      lon: group.lon,
+      timezone: null,
+      datum: 'MSL',
+      harmonicEpoch: 'unknown',
+      meanLevel: 0,
+      constituents: collectConstituents(group.rows, toMeters, warnings),
+      warnings,
+    };
+  });
+
+  return {
+    format: 'ticon',
+    stations,
+    warnings: skipped > 0 ? [`${skipped} rows without a position were skipped`] : [],
+  };
+}
+
+/**
+ * Guess the format of a file from its content
+ */
+export function detectStationFormat(text: string): StationImportFormat | null {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return 'noaa-json';
+  if (/^\*END\*\s*$/m.test(text)) return 'xtide';
+
+  const first = text.split(/\r?\n/).find((line) => line.trim() && !line.startsWith('#'))?.toLowerCase() ?? '';
+  if (/\blat/.test(first) && /\blon/.test(first)) return 'ticon';
+  if (/\bname\b|constituent/.test(first) && /amplitude/.test(first)) return 'noaa-csv';
+  if (/^\s*-?\d+(\.\d+)?\s+-?\d+(\.\d+)?\s+[a-z0-9]+\s+-?\d/.test(first)) return 'ticon';
+  return null;
+}
+
+/**
+ * Read stations from a harmonic constants file
+ * Units are only needed where the file doesn't state them (NOAA CSV and
+ * XTide default to meters).
+ */
+export function parseStationFile(
+  text: string,
+  fileName: string,
+  options: { format?: StationImportFormat; units?: 'meters' | 'feet' } = {}
+): StationImportResult {
+  const format = options.format ?? detectStationFormat(text);
+  switch (format) {
+    case 'noaa-json':
+      return parseNoaaJson(text, fileName);
+    case 'noaa-csv':
+      return parseNoaaCsv(text, fileName, options.units);
+    case 'xtide':
+      return parseXTide(text, options.units);
+    case 'ticon':
+      return parseTicon(text);
+    case null:
+      throw new StationImportError('Unrecognised file format; choose one from the list');
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Id an imported station is saved under
+ * Stable across re-imports of the same source, so updated constants
+ * replace the old ones.
+ */
+export function libraryStationId(station: Pick<ImportedStation, 'sourceId' | 'name'>): string {
+  return `lib-${slugify(station.sourceId ?? station.name)}`;
+}
+
+/**
+ * Whether an imported station has everything a TideStation needs
+ */
+export function isImportComplete(station: ImportedStation): boolean {
+  return (
+    station.name.trim() !== '' &&
+    station.lat !== null && Math.abs(station.lat) <= 90 &&
+    station.lon !== null && Math.abs(station.lon) <= 180 &&
+    station.constituents.length > 0
+  );
+}
+
+export function toTideStation(station: ImportedStation): TideStation {
+  if (!isImportComplete(station)) {
+    throw new StationImportError(`${station.name || 'A station'} needs a name, a position and constituents`);
+  }
+  const lat = station.lat!;
+  const lon = station.lon!;
+  return {
+    id: libraryStationId(station),
+    name: station.name.trim(),
+    ...(station.state && { state: station.state }),
+    country: station.country,
+    lat,
+    lon,
+    timezone: station.timezone ?? timeZoneForLongitude(lon),
+    datum: station.datum,
+    harmonicEpoch: station.harmonicEpoch,
+    constituents: station.constituents.map((c) => ({
+      symbol: c.symbol,
+      amplitude: Math.round(c.amplitude * 10000) / 10000,
+      phase: Math.round(c.phase * 10) / 10,
+    })),
+    ...(station.meanLevel !== 0 && { meanLevel: station.meanLevel }),
+  };
+}
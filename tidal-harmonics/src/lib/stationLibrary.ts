@@ -0,0 +1,75 @@
+// Station library
+// Imported stations are kept in IndexedDB rather than localStorage: a few
+// hundred ports of harmonic constants outgrow localStorage's quota.
+
+import type { TideStation } from '@/types/harmonics';
+
+const DB_NAME = 'tidal-harmonics';
+const DB_VERSION = 1;
+const STORE = 'stations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the station library'));
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function transact(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('Station library transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Station library transaction aborted'));
+  });
+}
+
+/**
+ * All stations in the library, by name
+ */
+export async function loadLibraryStations(): Promise<TideStation[]> {
+  let stations: TideStation[] = [];
+  await transact('readonly', (store) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      stations = request.result as TideStation[];
+    };
+  });
+  return stations.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add or replace stations, in one transaction
+ */
+export function putLibraryStations(stations: TideStation[]): Promise<void> {
+  return transact('readwrite', (store) => {
+    for (const station of stations) store.put(station);
+  });
+}
+
+export function deleteLibraryStation(id: string): Promise<void> {
+  return transact('readwrite', (store) => {
+    store.delete(id);
+  });
+}
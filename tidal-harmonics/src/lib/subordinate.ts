@@ -0,0 +1,53 @@
+// Subordinate (secondary) stations
+// Tide tables publish most ports as corrections to a nearby reference
+// station's high and low waters rather than as harmonic constants.
+
+import type {
+  TideStation,
+  SubordinateStation,
+  SubordinateStationDefinition,
+} from '@/types/harmonics';
+
+export function isSubordinateStation(station: TideStation): station is SubordinateStation {
+  return station.subordinate !== undefined;
+}
+
+/**
+ * Attach a subordinate station to its reference
+ * The reference must be a harmonic station; corrections don't chain.
+ * Height ratios need the reference's MLLW to scale heights above.
+ */
+export function createSubordinateStation(
+  definition: SubordinateStationDefinition,
+  reference: TideStation
+): SubordinateStation {
+  if (reference.subordinate) {
+    throw new Error(`Reference station "${reference.name}" is itself a subordinate station`);
+  }
+  if (definition.offsets.heightType === 'ratio' && definition.offsets.referenceLowWater === undefined) {
+    throw new Error(`Subordinate station "${definition.name}" gives height ratios without its reference's MLLW`);
+  }
+  const { referenceId, offsets, ...station } = definition;
+  return {
+    ...station,
+    harmonicEpoch: reference.harmonicEpoch,
+    constituents: reference.constituents,
+    subordinate: { referenceId, referenceName: reference.name, offsets },
+  };
+}
+
+/**
+ * Describe a station's corrections the way tide tables print them
+ * e.g. "HW +0h 26m, LW +0h 40m, ×1.10/×1.05 on San Francisco"
+ */
+export function describeSubordinateOffsets(station: SubordinateStation): string {
+  const { offsets, referenceName } = station.subordinate;
+  const time = (minutes: number) => {
+    const sign = minutes < 0 ? '-' : '+';
+    const abs = Math.abs(minutes);
+    return `${sign}${Math.floor(abs / 60)}h ${String(abs % 60).padStart(2, '0')}m`;
+  };
+  const height = (value: number) =>
+    offsets.heightType === 'ratio' ? `×${value.toFixed(2)}` : `${value >= 0 ? '+' : ''}${value.toFixed(2)} m`;
+  return `HW ${time(offsets.highTime)}, LW ${time(offsets.lowTime)}, ${height(offsets.highHeight)}/${height(offsets.lowHeight)} on ${referenceName}`;
+}
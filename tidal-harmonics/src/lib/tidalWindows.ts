@@ -0,0 +1,255 @@
+// Tidal windows
+// One engine for "when can I go?" questions: the stretches of time where the
+// tide's height, rate and stage meet a set of bounds, optionally limited to
+// daylight or to hours of the day at the station. Boundaries are found by
+// root-finding on a compiled kernel rather than read off a sampled series,
+// so planners asking the same question get the same answer to the second.
+
+import type { TideStation } from '@/types/harmonics';
+import { compilePredictionKernel, locateExtremes } from './predictionKernel';
+import type { PredictionKernel } from './predictionKernel';
+import { findDaylightIntervals } from './daylight';
+import { resolveTimeZone, zonedTime } from './timeZones';
+
+export type TideStage = 'rising' | 'falling' | 'slack';
+
+export interface TidalWindowConstraints {
+  minHeight?: number; // m about the station's datum
+  maxHeight?: number;
+  minRate?: number; // m/hour, positive while rising
+  maxRate?: number;
+  stage?: TideStage;
+  slackRate?: number; // m/hour; the tide is slack while |rate| is below this
+  minDurationMinutes?: number; // shorter windows are dropped
+  daylight?: boolean; // true for sunrise to sunset, false for night only
+  // Station-local hours (0–24, fractions allowed); wraps past midnight when from > to
+  timeOfDay?: { from: number; to: number };
+}
+
+export interface TidalWindowRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TidalWindow {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  startsBefore: boolean; // already open at the start of the range
+  endsAfter: boolean; // still open at the end of the range
+  minHeight: number;
+  minHeightTime: Date;
+  maxHeight: number;
+  maxHeightTime: Date;
+}
+
+export const DEFAULT_SLACK_RATE = 0.1;
+
+// Scan step for sign changes; bounds crossed and re-crossed within one
+// step (a threshold grazing a high or low water) are too brief to matter
+const SCAN_MS = 5 * 60000;
+const TOLERANCE_MS = 1000;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * The stage of the tide for a rate of change (m/hour)
+ */
+export function stageOfRate(rate: number, slackRate: number = DEFAULT_SLACK_RATE): TideStage {
+  if (Math.abs(rate) < slackRate) return 'slack';
+  return rate > 0 ? 'rising' : 'falling';
+}
+
+// How far inside every tide bound the kernel is at a time; positive inside
+function tideMargin(constraints: TidalWindowConstraints): ((kernel: PredictionKernel, t: number) => number) | null {
+  const { minHeight, maxHeight, minRate, maxRate, stage } = constraints;
+  const slackRate = constraints.slackRate ?? DEFAULT_SLACK_RATE;
+  const needsHeight = minHeight !== undefined || maxHeight !== undefined;
+  const needsRate = minRate !== undefined || maxRate !== undefined || stage !== undefined;
+  if (!needsHeight && !needsRate) return null;
+
+  return (kernel, t) => {
+    let margin = Infinity;
+    if (needsHeight) {
+      const h = kernel.heightAt(t);
+      if (minHeight !== undefined) margin = Math.min(margin, h - minHeight);
+      if (maxHeight !== undefined) margin = Math.min(margin, maxHeight - h);
+    }
+    if (needsRate) {
+      const r = kernel.rateAt(t);
+      if (minRate !== undefined) margin = Math.min(margin, r - minRate);
+      if (maxRate !== undefined) margin = Math.min(margin, maxRate - r);
+      if (stage === 'rising') margin = Math.min(margin, r - slackRate);
+      if (stage === 'falling') margin = Math.min(margin, -r - slackRate);
+      if (stage === 'slack') margin = Math.min(margin, slackRate - Math.abs(r));
+    }
+    return margin;
+  };
+}
+
+// Spans where the margin is non-negative, each boundary bisected to within a second
+function tideSpans(
+  kernel: PredictionKernel,
+  margin: (kernel: PredictionKernel, t: number) => number,
+  start: number,
+  end: number
+): Span[] {
+  const spans: Span[] = [];
+  let t0 = start;
+  let inside = margin(kernel, t0) >= 0;
+  let open = inside ? start : null;
+
+  while (t0 < end) {
+    const t1 = Math.min(end, t0 + SCAN_MS);
+    const inside1 = margin(kernel, t1) >= 0;
+    if (inside1 !== inside) {
+      let lo = t0;
+      let hi = t1;
+      while (hi - lo > TOLERANCE_MS) {
+        const mid = (lo + hi) / 2;
+        if (margin(kernel, mid) >= 0 === inside) lo = mid;
+        else hi = mid;
+      }
+      const crossing = Math.round((lo + hi) / 2);
+      if (inside && open !== null) spans.push({ start: open, end: crossing });
+      open = inside ? null : crossing;
+      inside = inside1;
+    }
+    t0 = t1;
+  }
+  if (open !== null && open < end) spans.push({ start: open, end });
+  return spans;
+}
+
+// Daily spans between two station-local hours
+function timeOfDaySpans(station: TideStation, from: number, to: number, start: number, end: number): Span[] {
+  const tz = zonedTime(resolveTimeZone('station', station.timezone));
+  const at = (day: Date, hours: number) => {
+    const whole = Math.floor(hours);
+    const date = tz.addDays(day, Math.floor(whole / 24));
+    return tz.atTime(date, whole % 24, Math.round((hours - whole) * 60)).getTime();
+  };
+  const spans: Span[] = [];
+  // Start a day early for a span wrapping past midnight into the range
+  for (let day = tz.addDays(tz.startOfDay(new Date(start)), -1); day.getTime() < end; day = tz.addDays(day, 1)) {
+    const spanStart = at(day, from);
+    const spanEnd = at(day, from < to ? to : to + 24);
+    if (spanEnd > start && spanStart < end) {
+      spans.push({ start: Math.max(spanStart, start), end: Math.min(spanEnd, end) });
+    }
+  }
+  return spans;
+}
+
+function daylightSpans(station: TideStation, daylight: boolean, start: number, end: number): Span[] {
+  const days = findDaylightIntervals(station.lat, station.lon, new Date(start), new Date(end)).map((d) => ({
+    start: d.start.getTime(),
+    end: d.end.getTime(),
+  }));
+  if (daylight) return days;
+  // Night is what daylight leaves
+  const nights: Span[] = [];
+  let t = start;
+  for (const day of days) {
+    if (day.start > t) nights.push({ start: t, end: day.start });
+    t = day.end;
+  }
+  if (t < end) nights.push({ start: t, end });
+  return nights;
+}
+
+// Overlaps of two sets of spans, both in time order
+function intersect(a: Span[], b: Span[]): Span[] {
+  const result: Span[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i]!.start, b[j]!.start);
+    const end = Math.min(a[i]!.end, b[j]!.end);
+    if (end > start) result.push({ start, end });
+    if (a[i]!.end < b[j]!.end) i++;
+    else j++;
+  }
+  return result;
+}
+
+/**
+ * Windows in a range where the tide meets a set of constraints, soonest first
+ *
+ * Heights are about whatever datum the station is referenced to. With no
+ * constraints at all the whole range is one window. Windows open at either
+ * end of the range are clipped to it and flagged, and count only their
+ * clipped length towards a minimum duration.
+ */
+export function findTidalWindows(
+  station: TideStation,
+  constraints: TidalWindowConstraints,
+  range: TidalWindowRange
+): TidalWindow[] {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  if (!(end > start)) return [];
+
+  const kernel = compilePredictionKernel(station, range.start, range.end);
+  const margin = tideMargin(constraints);
+  let spans = margin ? tideSpans(kernel, margin, start, end) : [{ start, end }];
+
+  if (constraints.daylight !== undefined && spans.length > 0) {
+    spans = intersect(spans, daylightSpans(station, constraints.daylight, start, end));
+  }
+  if (constraints.timeOfDay && spans.length > 0) {
+    const { from, to } = constraints.timeOfDay;
+    spans = intersect(spans, timeOfDaySpans(station, from, to, start, end));
+  }
+
+  const minMs = (constraints.minDurationMinutes ?? 0) * 60000;
+  spans = spans.filter((s) => s.end - s.start >= minMs && s.end > s.start);
+  if (spans.length === 0) return [];
+
+  // Heights peak at a window's ends or at a high or low water inside it
+  const extremes = locateExtremes(kernel, start, end);
+  return spans.map((span): TidalWindow => {
+    const candidates = [span.start, span.end];
+    for (const e of extremes) {
+      const t = e.time.getTime();
+      if (t > span.start && t < span.end) candidates.push(t);
+    }
+    let minTime = span.start;
+    let maxTime = span.start;
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
+    for (const t of candidates) {
+      const h = kernel.heightAt(t);
+      if (h < minHeight) {
+        minHeight = h;
+        minTime = t;
+      }
+      if (h > maxHeight) {
+        maxHeight = h;
+        maxTime = t;
+      }
+    }
+    return {
+      start: new Date(span.start),
+      end: new Date(span.end),
+      durationMinutes: (span.end - span.start) / 60000,
+      startsBefore: span.start === start,
+      endsAfter: span.end === end,
+      minHeight,
+      minHeightTime: new Date(minTime),
+      maxHeight,
+      maxHeightTime: new Date(maxTime),
+    };
+  });
+}
+
+/**
+ * Whether a time falls inside one of a list of windows
+ */
+export function inTidalWindow(windows: TidalWindow[], time: Date | number): boolean {
+  const t = typeof time === 'number' ? time : time.getTime();
+  return windows.some((w) => w.start.getTime() <= t && t <= w.end.getTime());
+}
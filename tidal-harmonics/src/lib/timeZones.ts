@@ -0,0 +1,86 @@
+// Time zone handling
+// Tide times are shown in the station's own zone by default, so a tide
+// planned from another zone reads as it will on the dock. Day-based tables
+// use the zone's own midnights, so days are 23 or 25 hours long across
+// daylight saving transitions.
+
+import { DateTime } from 'luxon';
+
+export type TimeZoneMode = 'station' | 'browser' | 'utc';
+
+export const TIME_ZONE_MODES: { mode: TimeZoneMode; label: string }[] = [
+  { mode: 'station', label: 'Station time' },
+  { mode: 'browser', label: 'My time' },
+  { mode: 'utc', label: 'UTC' },
+];
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  return DateTime.now().setZone(zone).isValid;
+}
+
+/**
+ * The IANA zone times are shown in
+ * Falls back to the browser's zone when a station's zone isn't recognised.
+ */
+export function resolveTimeZone(mode: TimeZoneMode, stationZone: string | null): string {
+  if (mode === 'utc') return 'UTC';
+  if (mode === 'station' && stationZone && isValidTimeZone(stationZone)) return stationZone;
+  return browserTimeZone();
+}
+
+export interface ZonedTime {
+  zone: string;
+  // Short zone name at a time, e.g. "PST" or "PDT"; "UTC+1" where there isn't one
+  abbreviation: (date?: Date) => string;
+  // Format with luxon tokens, e.g. "yyyy-MM-dd HH:mm"
+  format: (date: Date, pattern: string) => string;
+  time: (date: Date) => string; // "3:42 PM"
+  date: (date: Date) => string; // "Mon, Oct 19"
+  dateTime: (date: Date) => string; // "Mon, Oct 19, 3:42 PM"
+  iso: (date: Date) => string; // ISO 8601 with the zone's offset
+  startOfDay: (date: Date) => Date;
+  addDays: (date: Date, days: number) => Date; // same wall-clock time, days later
+  dayKey: (date: Date) => string; // "2026-10-19", for grouping by local day
+  hoursSinceMidnight: (date: Date) => number;
+  // The given wall-clock time on the date's local day
+  atTime: (date: Date, hour: number, minute?: number) => Date;
+  // A date or datetime-local input value ("2026-10-19T15:42") read in the zone
+  parse: (value: string) => Date;
+}
+
+export function zonedTime(zone: string): ZonedTime {
+  const inZone = (date: Date) => DateTime.fromJSDate(date, { zone });
+  const format = (date: Date, pattern: string) => inZone(date).toFormat(pattern, { locale: 'en-US' });
+
+  return {
+    zone,
+    abbreviation: (date = new Date()) => {
+      const dt = inZone(date);
+      const name = dt.setLocale('en-US').offsetNameShort ?? '';
+      // Zones without a common abbreviation come back as "GMT+1"
+      return name.startsWith('GMT') && name !== 'GMT' ? `UTC${name.slice(3)}` : name || 'UTC';
+    },
+    format,
+    time: (date) => format(date, 'h:mm a'),
+    date: (date) => format(date, 'EEE, MMM d'),
+    dateTime: (date) => format(date, 'EEE, MMM d, h:mm a'),
+    iso: (date) => inZone(date).toISO({ suppressMilliseconds: true }) ?? date.toISOString(),
+    startOfDay: (date) => inZone(date).startOf('day').toJSDate(),
+    addDays: (date, days) => inZone(date).plus({ days }).toJSDate(),
+    dayKey: (date) => format(date, 'yyyy-MM-dd'),
+    hoursSinceMidnight: (date) => {
+      const dt = inZone(date);
+      return dt.diff(dt.startOf('day'), 'hours').hours;
+    },
+    atTime: (date, hour, minute = 0) =>
+      inZone(date).set({ hour, minute, second: 0, millisecond: 0 }).toJSDate(),
+    parse: (value) => {
+      const dt = DateTime.fromISO(value, { zone });
+      return dt.isValid ? dt.toJSDate() : new Date(NaN);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// Vessel profiles
+// The numbers the navigation tools need about a boat, kept once per boat.
+// Lengths are meters and speeds knots whatever the display units; fuel
+// burn is liters per hour at a speed through the water.
+
+export type RodeType = 'chain' | 'mixed' | 'rope';
+
+export interface FuelBurnPoint {
+  speed: number; // knots through the water
+  litersPerHour: number;
+}
+
+export interface VesselProfile {
+  id: string;
+  name: string;
+  draft: number; // keel below the waterline
+  airDraft: number; // waterline to the highest point
+  loa: number; // length overall
+  beam: number;
+  freeboard: number; // bow above the waterline
+  displacement: number; // tonnes
+  cruiseSpeed: number; // knots
+  fuelBurn: FuelBurnPoint[]; // in order of speed
+  rodeType: RodeType;
+}
+
+export type VesselProfileInput = Omit<VesselProfile, 'id'>;
+
+export const RODE_TYPES: { type: RodeType; label: string }[] = [
+  { type: 'chain', label: 'All chain' },
+  { type: 'mixed', label: 'Chain + rope' },
+  { type: 'rope', label: 'Mostly rope' },
+];
+
+export const LITERS_PER_US_GALLON = 3.785;
+
+// Burn outside the curve follows the propeller law from its nearest end
+const PROPELLER_LAW_EXPONENT = 2.5;
+
+export const DEFAULT_VESSEL: VesselProfileInput = {
+  name: 'My boat',
+  draft: 1.8,
+  airDraft: 15,
+  loa: 12,
+  beam: 4,
+  freeboard: 1.5,
+  displacement: 10,
+  cruiseSpeed: 7,
+  fuelBurn: [
+    { speed: 5, litersPerHour: 6 },
+    { speed: 7, litersPerHour: 15 },
+    { speed: 8, litersPerHour: 24 },
+  ],
+  rodeType: 'chain',
+};
+
+/**
+ * Fuel burn (liters per hour) at a speed through the water
+ * Linear between the points of the curve; a one-point curve scales by the
+ * propeller law alone. No curve burns nothing.
+ */
+export function fuelBurnAt(curve: FuelBurnPoint[], speed: number): number {
+  const points = curve.filter((p) => p.speed > 0).sort((a, b) => a.speed - b.speed);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return 0;
+  if (speed <= 0) return 0;
+
+  if (speed <= first.speed) return first.litersPerHour * Math.pow(speed / first.speed, PROPELLER_LAW_EXPONENT);
+  if (speed >= last.speed) return last.litersPerHour * Math.pow(speed / last.speed, PROPELLER_LAW_EXPONENT);
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    if (speed <= b.speed) {
+      return a.litersPerHour + ((b.litersPerHour - a.litersPerHour) * (speed - a.speed)) / (b.speed - a.speed);
+    }
+  }
+  return last.litersPerHour;
+}
+
+/**
+ * The curve with its burn at one speed set, adding a point there if there isn't one
+ */
+export function withFuelBurnAt(curve: FuelBurnPoint[], speed: number, litersPerHour: number): FuelBurnPoint[] {
+  return [...curve.filter((p) => p.speed !== speed), { speed, litersPerHour }].sort((a, b) => a.speed - b.speed);
+}
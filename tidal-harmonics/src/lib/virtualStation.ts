@@ -0,0 +1,116 @@
+// Virtual stations
+// Harmonic constants at an arbitrary point, interpolated from the stations
+// around it. Each constituent is treated as a complex amplitude A·e^(ig) and
+// the complex values are inverse-distance weighted: averaging raw phases
+// breaks at the 360°/0° wrap, and near an amphidrome the complex average
+// shrinks the amplitude the way the real tide does.
+
+import type { TideStation, VirtualStationContributor } from '@/types/harmonics';
+import { haversineDistance } from './spatialIndex';
+
+const DEG = Math.PI / 180;
+
+export interface VirtualStationOptions {
+  maxStations?: number; // contributors at most (default 4)
+  maxDistanceKm?: number; // stations further away are ignored (default 250)
+  power?: number; // inverse-distance exponent (default 2)
+}
+
+// Weighted distance at which confidence from distance falls to 1/e
+const CONFIDENCE_SCALE_KM = 75;
+
+// Closer than this a station is taken as the point itself
+const COINCIDENT_KM = 0.05;
+
+export function virtualStationId(lat: number, lon: number): string {
+  return `virtual-${lat.toFixed(4)}_${lon.toFixed(4)}`;
+}
+
+export function confidenceLabel(confidence: number): 'high' | 'moderate' | 'low' {
+  if (confidence >= 0.7) return 'high';
+  if (confidence >= 0.4) return 'moderate';
+  return 'low';
+}
+
+function formatPosition(lat: number, lon: number): string {
+  return `${Math.abs(lat).toFixed(3)}°${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lon).toFixed(3)}°${lon >= 0 ? 'E' : 'W'}`;
+}
+
+/**
+ * Interpolate a station at a point from its nearest harmonic stations
+ *
+ * Subordinate and virtual stations are skipped: their constants aren't
+ * their own. A constituent missing at some contributors is weighted over
+ * the stations that list it. Heights are about mean sea level, since the
+ * contributors' chart datums don't line up. Returns null when no station
+ * lies within maxDistanceKm.
+ */
+export function createVirtualStation(
+  lat: number,
+  lon: number,
+  stations: readonly TideStation[],
+  options: VirtualStationOptions = {}
+): TideStation | null {
+  const { maxStations = 4, maxDistanceKm = 250, power = 2 } = options;
+
+  const nearby = stations
+    .filter((s) => !s.subordinate && !s.virtual && s.constituents.length > 0)
+    .map((station) => ({ station, distanceKm: haversineDistance(lat, lon, station.lat, station.lon) }))
+    .filter((c) => c.distanceKm <= maxDistanceKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, maxStations);
+
+  const nearest = nearby[0];
+  if (!nearest) return null;
+
+  // A station at the point itself takes all the weight
+  const used = nearest.distanceKm < COINCIDENT_KM ? [nearest] : nearby;
+  const raw = used.map((c) => (c.distanceKm < COINCIDENT_KM ? 1 : 1 / c.distanceKm ** power));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const contributors: VirtualStationContributor[] = used.map((c, i) => ({
+    id: c.station.id,
+    name: c.station.name,
+    distanceKm: c.distanceKm,
+    weight: raw[i]! / total,
+  }));
+
+  // Complex sums per constituent, in the nearest station's order
+  const sums = new Map<string, { re: number; im: number; weight: number; magnitude: number }>();
+  used.forEach((c, i) => {
+    const w = contributors[i]!.weight;
+    for (const { symbol, amplitude, phase } of c.station.constituents) {
+      const sum = sums.get(symbol) ?? { re: 0, im: 0, weight: 0, magnitude: 0 };
+      sum.re += w * amplitude * Math.cos(phase * DEG);
+      sum.im += w * amplitude * Math.sin(phase * DEG);
+      sum.weight += w;
+      sum.magnitude += w * amplitude;
+      sums.set(symbol, sum);
+    }
+  });
+
+  const constituents = Array.from(sums, ([symbol, sum]) => ({
+    symbol,
+    amplitude: Math.hypot(sum.re, sum.im) / sum.weight,
+    phase: ((Math.atan2(sum.im, sum.re) / DEG) % 360 + 360) % 360,
+    coherence: sum.magnitude > 0 ? Math.hypot(sum.re, sum.im) / sum.magnitude : 1,
+  }));
+
+  // Judge agreement on the constituent that dominates the curve
+  const dominant = constituents.reduce((best, c) => (c.amplitude > best.amplitude ? c : best), constituents[0]!);
+  const coherence = dominant.coherence;
+  const weightedDistance = contributors.reduce((sum, c) => sum + c.weight * c.distanceKm, 0);
+  const confidence = coherence * Math.exp(-weightedDistance / CONFIDENCE_SCALE_KM);
+
+  return {
+    id: virtualStationId(lat, lon),
+    name: `Virtual point ${formatPosition(lat, lon)}`,
+    country: nearest.station.country,
+    lat,
+    lon,
+    timezone: nearest.station.timezone,
+    datum: 'MSL',
+    harmonicEpoch: 'Interpolated',
+    constituents: constituents.map(({ symbol, amplitude, phase }) => ({ symbol, amplitude, phase })),
+    virtual: { contributors, coherence, confidence },
+  };
+}
@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import { mergeDelivered } from '@/lib/alertSchedule';
+import type { ScheduledAlert } from '@/lib/alertSchedule';
+import type { AlertCondition, AlertRule } from '@/lib/alertRules';
+import type { AlertDeliveryMode } from '@/lib/alertDelivery';
+import {
+  loadAlertRules,
+  putAlertRules,
+  deleteAlertRule,
+  loadAlertSchedule,
+  replaceAlertSchedule,
+} from '@/lib/alertStorage';
+import { useHarmonicsStore } from './harmonicsStore';
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt'>;
+
+// Settings of the old notification bell, before alert rules moved to IndexedDB
+const LEGACY_NOTIFICATIONS_KEY = 'tide-notifications';
+
+interface LegacyNotificationSettings {
+  enabled?: boolean;
+  highTide?: boolean;
+  lowTide?: boolean;
+  minutesBefore?: number;
+  stationId?: string | null;
+}
+
+// Rules saved before conditions could be combined had one kind and threshold
+type StoredAlertRule = AlertRule & { kind?: 'high' | 'low' | 'below' | 'above'; threshold?: number };
+
+function upgradeRule(stored: StoredAlertRule): AlertRule {
+  if (!stored.kind) return stored;
+  const { kind, threshold, ...rest } = stored;
+  const condition: AlertCondition = kind === 'below' || kind === 'above' ? { type: kind, value: threshold ?? 0 } : { type: kind };
+  return { ...rest, match: 'all', conditions: [condition] };
+}
+
+function newRuleId(): string {
+  return `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function createRule(input: AlertRuleInput): AlertRule {
+  return { ...input, id: newRuleId(), createdAt: Date.now() };
+}
+
+// Rules for the old bell's settings, if it was switched on; the key is removed either way
+function takeLegacyRules(): AlertRule[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_NOTIFICATIONS_KEY);
+    if (!stored) return [];
+    localStorage.removeItem(LEGACY_NOTIFICATIONS_KEY);
+    const legacy = JSON.parse(stored) as LegacyNotificationSettings;
+    if (!legacy.enabled || !legacy.stationId) return [];
+    const stationId = legacy.stationId;
+    const common = {
+      stationId,
+      stationName: useHarmonicsStore.getState().catalog.find((s) => s.id === stationId)?.name ?? stationId,
+      leadMinutes: legacy.minutesBefore ?? 30,
+      enabled: true,
+    };
+    return [
+      ...(legacy.highTide !== false ? [createRule({ ...common, match: 'all', conditions: [{ type: 'high' }] })] : []),
+      ...(legacy.lowTide !== false ? [createRule({ ...common, match: 'all', conditions: [{ type: 'low' }] })] : []),
+    ];
+  } catch {
+    // Ignore localStorage errors
+    return [];
+  }
+}
+
+// The service worker marks alerts it shows in IndexedDB, so keep its flags when writing the schedule back
+async function withStoredDelivery(schedule: ScheduledAlert[]): Promise<ScheduledAlert[]> {
+  try {
+    return mergeDelivered(schedule, await loadAlertSchedule());
+  } catch {
+    return schedule;
+  }
+}
+
+interface AlertState {
+  rules: AlertRule[];
+  schedule: ScheduledAlert[]; // upcoming alerts of the enabled rules, soonest first
+  loaded: boolean; // rules and schedule have been read from IndexedDB
+  deliveryMode: AlertDeliveryMode | null; // how alerts reach the user, once synced
+
+  addRules: (rules: AlertRuleInput[]) => Promise<void>;
+  updateRule: (id: string, updates: Partial<AlertRuleInput>) => Promise<void>;
+  replaceRule: (id: string, rule: AlertRuleInput) => Promise<void>;
+  removeRule: (id: string) => Promise<void>;
+  setSchedule: (schedule: ScheduledAlert[], deliveryMode: AlertDeliveryMode) => Promise<void>;
+  markDelivered: (ids: string[]) => Promise<void>;
+}
+
+export const useAlertStore = create<AlertState>((set, get) => ({
+  rules: [],
+  schedule: [],
+  loaded: false,
+  deliveryMode: null,
+
+  addRules: async (inputs) => {
+    const added = inputs.map(createRule);
+    // Active for this session even if saving fails; the caller reports that
+    set({ rules: [...get().rules, ...added] });
+    await putAlertRules(added);
+  },
+
+  updateRule: async (id, updates) => {
+    const rule = get().rules.find((r) => r.id === id);
+    if (!rule) return;
+    const updated = { ...rule, ...updates };
+    set({ rules: get().rules.map((r) => (r.id === id ? updated : r)) });
+    await putAlertRules([updated]);
+  },
+
+  replaceRule: async (id, input) => {
+    const rule = get().rules.find((r) => r.id === id);
+    if (!rule) return;
+    const replaced = { ...input, id, createdAt: rule.createdAt };
+    set({ rules: get().rules.map((r) => (r.id === id ? replaced : r)) });
+    await putAlertRules([replaced]);
+  },
+
+  removeRule: async (id) => {
+    set({
+      rules: get().rules.filter((r) => r.id !== id),
+      schedule: get().schedule.filter((a) => a.ruleId !== id),
+    });
+    await deleteAlertRule(id);
+  },
+
+  setSchedule: async (rebuilt, deliveryMode) => {
+    const schedule = await withStoredDelivery(rebuilt);
+    set({ schedule, deliveryMode });
+    await replaceAlertSchedule(schedule);
+  },
+
+  markDelivered: async (ids) => {
+    const delivered = new Set(ids);
+    const marked = get().schedule.map((a) => (delivered.has(a.id) ? { ...a, delivered: true } : a));
+    const schedule = await withStoredDelivery(marked);
+    set({ schedule });
+    await replaceAlertSchedule(schedule);
+  },
+}));
+
+// Rules and the last schedule load from IndexedDB after startup
+Promise.all([loadAlertRules(), loadAlertSchedule()])
+  .then(async ([stored, schedule]) => {
+    const rules = stored.map(upgradeRule);
+    const upgraded = rules.filter((rule, i) => rule !== stored[i]);
+    const legacy = takeLegacyRules();
+    useAlertStore.setState({ rules: [...rules, ...legacy], schedule, loaded: true });
+    if (upgraded.length + legacy.length > 0) await putAlertRules([...upgraded, ...legacy]);
+  })
+  .catch(() => {
+    // Without IndexedDB, rules still work for this session
+    useAlertStore.setState({ loaded: true });
+  });
@@ -1,7 +1,22 @@
 import { create } from 'zustand';
-import type { TideStation } from '@/types/harmonics';
-import { STATIONS } from '@/data/stations';
+import type { TideStation, TidalDatumCode, TidalDatums } from '@/types/harmonics';
+import { STATION_INDEX } from '@/data/stationIndex';
+import type { StationRegion, StationSummary } from '@/data/stationIndex';
+import { subordinateStationsFor } from '@/data/subordinateStations';
 import { MAJOR_CONSTITUENTS } from '@/data/constituents';
+import { datumSignature, defaultDatumFor, referenceStation } from '@/lib/datums';
+import type { TimeZoneMode } from '@/lib/timeZones';
+import { setEphemerisMode } from '@/lib/astronomical';
+import type { EphemerisMode } from '@/lib/astronomical';
+import { loadLibraryStations, putLibraryStations, deleteLibraryStation } from '@/lib/stationLibrary';
+import {
+  loadRegionStations,
+  isCatalogStation,
+  catalogRegionOf,
+  catalogOrder,
+  regionsNear,
+  summarizeStation,
+} from '@/lib/stationCatalog';
 
 export type UnitSystem = 'metric' | 'imperial';
 
@@ -27,18 +42,177 @@ function saveFavorites(favorites: string[]) {
   }
 }
 
+// Load the time zone preference from localStorage
+function loadTimeZoneMode(): TimeZoneMode {
+  try {
+    const stored = localStorage.getItem('tidal-harmonics-time-zone');
+    if (stored === 'station' || stored === 'browser' || stored === 'utc') {
+      return stored;
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return 'station';
+}
+
+// Save the time zone preference to localStorage
+function saveTimeZoneMode(mode: TimeZoneMode) {
+  try {
+    localStorage.setItem('tidal-harmonics-time-zone', mode);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// Load the ephemeris mode from localStorage
+function loadEphemerisMode(): EphemerisMode {
+  try {
+    const stored = localStorage.getItem('tidal-harmonics-ephemeris');
+    if (stored === 'polynomial' || stored === 'precise') {
+      return stored;
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return 'polynomial';
+}
+
+// Save the ephemeris mode to localStorage
+function saveEphemerisMode(mode: EphemerisMode) {
+  try {
+    localStorage.setItem('tidal-harmonics-ephemeris', mode);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// Load user-created stations (e.g. from harmonic analysis) from localStorage
+function loadCustomStations(): TideStation[] {
+  try {
+    const stored = localStorage.getItem('tidal-harmonics-custom-stations');
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return [];
+}
+
+// Save user-created stations to localStorage
+function saveCustomStations(stations: TideStation[]) {
+  try {
+    localStorage.setItem('tidal-harmonics-custom-stations', JSON.stringify(stations));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+interface CachedDatums {
+  signature: string;
+  datums: TidalDatums;
+}
+
+// Load computed tidal datums from localStorage (they take a second or two per station)
+function loadDatumCache(): Record<string, CachedDatums> {
+  try {
+    const stored = localStorage.getItem('tidal-harmonics-datums');
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return {};
+}
+
+// Save computed tidal datums to localStorage
+function saveDatumCache(cache: Record<string, CachedDatums>) {
+  try {
+    localStorage.setItem('tidal-harmonics-datums', JSON.stringify(cache));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// Attach cached datums, unless the station's constants changed since they were computed
+function withDatums(station: TideStation, cache: Record<string, CachedDatums>): TideStation {
+  const cached = cache[station.id];
+  return cached && cached.signature === datumSignature(station) ? { ...station, datums: cached.datums } : station;
+}
+
+// The stations loaded so far: catalog regions fetched on demand, plus the user's own
+function buildStations(
+  builtinStations: TideStation[],
+  customStations: TideStation[],
+  libraryStations: TideStation[],
+  cache: Record<string, CachedDatums>
+): TideStation[] {
+  return [...builtinStations, ...subordinateStationsFor(builtinStations), ...libraryStations, ...customStations].map(
+    (s) => withDatums(s, cache)
+  );
+}
+
+// Every station that can be selected, loaded or not
+function buildCatalog(customStations: TideStation[], libraryStations: TideStation[]): StationSummary[] {
+  return [...STATION_INDEX, ...libraryStations.map(summarizeStation), ...customStations.map(summarizeStation)];
+}
+
+// The selected station with its heights referenced to the chosen datum
+function resolveSelection(station: TideStation | undefined, heightDatum: TidalDatumCode | null): TideStation | null {
+  if (!station) return null;
+  return referenceStation(station, heightDatum ?? defaultDatumFor(station));
+}
+
+// Look up a station by id, including the virtual station, which isn't listed
+export function findStation(
+  state: Pick<HarmonicsState, 'stations' | 'virtualStation'>,
+  id: string | undefined
+): TideStation | undefined {
+  const station = state.stations.find((s) => s.id === id);
+  if (station) return station;
+  return state.virtualStation && state.virtualStation.id === id ? state.virtualStation : undefined;
+}
+
+const initialEphemerisMode = loadEphemerisMode();
+setEphemerisMode(initialEphemerisMode);
+
+const initialCustomStations = loadCustomStations();
+const initialDatumCache = loadDatumCache();
+const initialStations = buildStations([], initialCustomStations, [], initialDatumCache);
+
 interface HarmonicsState {
-  stations: TideStation[];
+  stations: TideStation[]; // loaded stations; see catalog for the rest
+  catalog: StationSummary[];
+  builtinStations: TideStation[]; // from the catalog regions loaded so far
+  loadedRegions: StationRegion[];
+  pendingStationId: string | null; // selected while its region loads
+  customStations: TideStation[];
+  libraryStations: TideStation[]; // imported from harmonic constant files, kept in IndexedDB
   selectedStation: TideStation | null;
+  virtualStation: TideStation | null; // interpolated at a chosen point; not in stations
+  datumCache: Record<string, CachedDatums>;
+  heightDatum: TidalDatumCode | null; // null: the station's own chart datum
   visibleConstituents: string[];
   emphasizedConstituent: string | null; // Visually emphasize this constituent in phasor diagram
   chartHoursRange: number;
   showPhasorDiagram: boolean;
   showTideCurve: boolean;
   unitSystem: UnitSystem;
+  timeZoneMode: TimeZoneMode; // zone tide times are shown in
+  ephemerisMode: EphemerisMode; // how astronomical arguments are evaluated
   favoriteStations: string[];
 
   selectStation: (id: string) => void;
+  selectVirtualStation: (station: TideStation) => void;
+  loadStationRegion: (region: StationRegion) => Promise<void>;
+  loadStationsNear: (lat: number, lon: number, radiusKm: number) => Promise<void>;
+  saveCustomStation: (station: TideStation) => void;
+  removeCustomStation: (id: string) => void;
+  importLibraryStations: (stations: TideStation[]) => Promise<void>;
+  removeLibraryStation: (id: string) => Promise<void>;
+  setStationDatums: (id: string, datums: TidalDatums) => void;
+  setHeightDatum: (datum: TidalDatumCode | null) => void;
   toggleConstituent: (symbol: string) => void;
   setAllConstituentsVisible: (symbols: string[]) => void;
   setEmphasizedConstituent: (symbol: string | null) => void;
@@ -46,25 +220,186 @@ interface HarmonicsState {
   togglePhasorDiagram: () => void;
   toggleTideCurve: () => void;
   setUnitSystem: (system: UnitSystem) => void;
+  setTimeZoneMode: (mode: TimeZoneMode) => void;
+  setEphemerisMode: (mode: EphemerisMode) => void;
   toggleUnitSystem: () => void;
   toggleFavorite: (id: string) => void;
   isFavorite: (id: string) => boolean;
 }
 
 export const useHarmonicsStore = create<HarmonicsState>((set, get) => ({
-  stations: STATIONS,
-  selectedStation: STATIONS[0] || null,
+  stations: initialStations,
+  catalog: buildCatalog(initialCustomStations, []),
+  builtinStations: [],
+  loadedRegions: [],
+  pendingStationId: null,
+  customStations: initialCustomStations,
+  libraryStations: [],
+  selectedStation: null, // the first catalog station is selected once its region loads
+  virtualStation: null,
+  datumCache: initialDatumCache,
+  heightDatum: null,
   visibleConstituents: [...MAJOR_CONSTITUENTS].slice(0, 6), // Default visible
   emphasizedConstituent: null,
   chartHoursRange: 24,
   showPhasorDiagram: true,
   showTideCurve: true,
   unitSystem: 'metric',
+  timeZoneMode: loadTimeZoneMode(),
+  ephemerisMode: initialEphemerisMode,
   favoriteStations: loadFavorites(),
 
   selectStation: (id) => {
+    const station = findStation(get(), id);
+    if (station) {
+      set({ selectedStation: resolveSelection(station, get().heightDatum), pendingStationId: null });
+      return;
+    }
+    const region = catalogRegionOf(id);
+    if (!region) return;
+    set({ pendingStationId: id });
+    get()
+      .loadStationRegion(region)
+      .then(() => {
+        // Unless another station was picked in the meantime
+        if (get().pendingStationId === id) get().selectStation(id);
+      })
+      .catch(() => {
+        // Keep the current selection; choosing the station again retries the load
+        if (get().pendingStationId === id) set({ pendingStationId: null });
+      });
+  },
+
+  selectVirtualStation: (station) => {
+    set({
+      virtualStation: station,
+      selectedStation: resolveSelection(station, get().heightDatum),
+      pendingStationId: null,
+    });
+  },
+
+  loadStationRegion: async (region) => {
+    if (get().loadedRegions.includes(region)) return;
+    const loaded = await loadRegionStations(region);
+    // Another caller may have finished loading it while this one waited
+    if (get().loadedRegions.includes(region)) return;
+    const builtinStations = [...get().builtinStations, ...loaded].sort((a, b) => catalogOrder(a.id) - catalogOrder(b.id));
+    set({
+      builtinStations,
+      loadedRegions: [...get().loadedRegions, region],
+      stations: buildStations(builtinStations, get().customStations, get().libraryStations, get().datumCache),
+    });
+  },
+
+  loadStationsNear: async (lat, lon, radiusKm) => {
+    await Promise.all(regionsNear(lat, lon, radiusKm).map((region) => get().loadStationRegion(region)));
+  },
+
+  saveCustomStation: (station) => {
+    if (isCatalogStation(station.id)) {
+      throw new Error(`Station id "${station.id}" is reserved by a built-in station`);
+    }
+    const customStations = [
+      ...get().customStations.filter((s) => s.id !== station.id),
+      station,
+    ];
+    saveCustomStations(customStations);
+    const stations = buildStations(get().builtinStations, customStations, get().libraryStations, get().datumCache);
+    const selected = get().selectedStation;
+    set({
+      customStations,
+      stations,
+      catalog: buildCatalog(customStations, get().libraryStations),
+      // Keep the selection pointing at the latest version of an edited station
+      selectedStation:
+        selected?.id === station.id
+          ? resolveSelection(stations.find((s) => s.id === station.id), get().heightDatum)
+          : selected,
+    });
+  },
+
+  removeCustomStation: (id) => {
+    const customStations = get().customStations.filter((s) => s.id !== id);
+    saveCustomStations(customStations);
+    const stations = buildStations(get().builtinStations, customStations, get().libraryStations, get().datumCache);
+    const selected = get().selectedStation;
+    set({
+      customStations,
+      stations,
+      catalog: buildCatalog(customStations, get().libraryStations),
+      selectedStation: selected?.id === id ? resolveSelection(stations[0], get().heightDatum) : selected,
+    });
+  },
+
+  importLibraryStations: async (imported) => {
+    const reserved = imported.find((station) => isCatalogStation(station.id));
+    if (reserved) {
+      throw new Error(`Station id "${reserved.id}" is reserved by a built-in station`);
+    }
+    const ids = new Set(imported.map((s) => s.id));
+    const libraryStations = [...get().libraryStations.filter((s) => !ids.has(s.id)), ...imported].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    const stations = buildStations(get().builtinStations, get().customStations, libraryStations, get().datumCache);
+    const selected = get().selectedStation;
+    // Available for this session even if saving fails; the caller reports that
+    set({
+      libraryStations,
+      stations,
+      catalog: buildCatalog(get().customStations, libraryStations),
+      selectedStation:
+        selected && ids.has(selected.id)
+          ? resolveSelection(stations.find((s) => s.id === selected.id), get().heightDatum)
+          : selected,
+    });
+    await putLibraryStations(imported);
+  },
+
+  removeLibraryStation: async (id) => {
+    const libraryStations = get().libraryStations.filter((s) => s.id !== id);
+    const stations = buildStations(get().builtinStations, get().customStations, libraryStations, get().datumCache);
+    const selected = get().selectedStation;
+    set({
+      libraryStations,
+      stations,
+      catalog: buildCatalog(get().customStations, libraryStations),
+      selectedStation: selected?.id === id ? resolveSelection(stations[0], get().heightDatum) : selected,
+    });
+    await deleteLibraryStation(id);
+  },
+
+  setStationDatums: (id, datums) => {
+    const virtual = get().virtualStation;
+    if (virtual?.id === id) {
+      // Not cached: virtual stations come and go with the chosen point
+      const withLevels = { ...virtual, datums };
+      set({
+        virtualStation: withLevels,
+        selectedStation:
+          get().selectedStation?.id === id ? resolveSelection(withLevels, get().heightDatum) : get().selectedStation,
+      });
+      return;
+    }
     const station = get().stations.find((s) => s.id === id);
-    if (station) set({ selectedStation: station });
+    if (!station) return;
+    const datumCache = { ...get().datumCache, [id]: { signature: datumSignature(station), datums } };
+    saveDatumCache(datumCache);
+    const stations = buildStations(get().builtinStations, get().customStations, get().libraryStations, datumCache);
+    const selected = get().selectedStation;
+    set({
+      datumCache,
+      stations,
+      selectedStation:
+        selected?.id === id ? resolveSelection(stations.find((s) => s.id === id), get().heightDatum) : selected,
+    });
+  },
+
+  setHeightDatum: (datum) => {
+    const selected = get().selectedStation;
+    set({
+      heightDatum: datum,
+      selectedStation: resolveSelection(findStation(get(), selected?.id), datum),
+    });
   },
 
   toggleConstituent: (symbol) => {
@@ -100,6 +435,28 @@ export const useHarmonicsStore = create<HarmonicsState>((set, get) => ({
     set({ unitSystem: system });
   },
 
+  setTimeZoneMode: (mode) => {
+    saveTimeZoneMode(mode);
+    set({ timeZoneMode: mode });
+  },
+
+  setEphemerisMode: (mode) => {
+    setEphemerisMode(mode);
+    saveEphemerisMode(mode);
+    // Datums cached under the other mode no longer match, so they're derived again
+    const { builtinStations, customStations, libraryStations, datumCache } = get();
+    const stations = buildStations(builtinStations, customStations, libraryStations, datumCache);
+    // The virtual station's datums aren't cached, so they're dropped outright
+    const virtual = get().virtualStation;
+    const virtualStation = virtual && { ...virtual };
+    if (virtualStation) delete virtualStation.datums;
+    const selected = get().selectedStation;
+    const resolved =
+      selected && resolveSelection(findStation({ stations, virtualStation }, selected.id), get().heightDatum);
+    // A fresh selection object makes predictions memoized on the station rerun
+    set({ ephemerisMode: mode, stations, virtualStation, selectedStation: resolved && { ...resolved } });
+  },
+
   toggleUnitSystem: () => {
     set((state) => ({
       unitSystem: state.unitSystem === 'metric' ? 'imperial' : 'metric',
@@ -119,3 +476,21 @@ export const useHarmonicsStore = create<HarmonicsState>((set, get) => ({
     return get().favoriteStations.includes(id);
   },
 }));
+
+// The station library loads from IndexedDB after startup
+loadLibraryStations()
+  .then((libraryStations) => {
+    if (libraryStations.length === 0) return;
+    const { builtinStations, customStations, datumCache } = useHarmonicsStore.getState();
+    useHarmonicsStore.setState({
+      libraryStations,
+      stations: buildStations(builtinStations, customStations, libraryStations, datumCache),
+      catalog: buildCatalog(customStations, libraryStations),
+    });
+  })
+  .catch(() => {
+    // Ignore IndexedDB errors; built-in and custom stations still work
+  });
+
+// Start on the first catalog station; its region is fetched right away
+useHarmonicsStore.getState().selectStation(STATION_INDEX[0]!.id);
@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { DEFAULT_VESSEL } from '@/lib/vessel';
+import type { VesselProfile, VesselProfileInput } from '@/lib/vessel';
+
+const PROFILES_KEY = 'tidal-harmonics-vessels';
+const ACTIVE_KEY = 'tidal-harmonics-active-vessel';
+
+function newProfileId(): string {
+  return `vessel-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Load vessel profiles from localStorage; there is always at least one
+function loadProfiles(): VesselProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (stored) {
+      const profiles = JSON.parse(stored) as Partial<VesselProfile>[];
+      // Fill fields added since a profile was saved
+      if (profiles.length > 0) return profiles.map((p) => ({ ...DEFAULT_VESSEL, id: newProfileId(), ...p }));
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return [{ ...DEFAULT_VESSEL, id: newProfileId() }];
+}
+
+// Save vessel profiles to localStorage
+function saveProfiles(profiles: VesselProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+function loadActiveId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    // Ignore localStorage errors
+    return null;
+  }
+}
+
+function saveActiveId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+interface VesselState {
+  profiles: VesselProfile[];
+  activeId: string; // the boat every navigation tool works with
+
+  addProfile: (input: VesselProfileInput) => string;
+  updateProfile: (id: string, updates: Partial<VesselProfileInput>) => void;
+  removeProfile: (id: string) => void;
+  setActive: (id: string) => void;
+}
+
+const initialProfiles = loadProfiles();
+const storedActiveId = loadActiveId();
+
+export const useVesselStore = create<VesselState>((set, get) => ({
+  profiles: initialProfiles,
+  activeId: initialProfiles.some((p) => p.id === storedActiveId) ? storedActiveId! : initialProfiles[0]!.id,
+
+  addProfile: (input) => {
+    const profile = { ...input, id: newProfileId() };
+    const profiles = [...get().profiles, profile];
+    set({ profiles, activeId: profile.id });
+    saveProfiles(profiles);
+    saveActiveId(profile.id);
+    return profile.id;
+  },
+
+  updateProfile: (id, updates) => {
+    const profiles = get().profiles.map((p) => (p.id === id ? { ...p, ...updates } : p));
+    set({ profiles });
+    saveProfiles(profiles);
+  },
+
+  removeProfile: (id) => {
+    // Keep the last profile; the tools always need a boat
+    if (get().profiles.length <= 1) return;
+    const profiles = get().profiles.filter((p) => p.id !== id);
+    const activeId = get().activeId === id ? profiles[0]!.id : get().activeId;
+    set({ profiles, activeId });
+    saveProfiles(profiles);
+    saveActiveId(activeId);
+  },
+
+  setActive: (id) => {
+    if (!get().profiles.some((p) => p.id === id)) return;
+    set({ activeId: id });
+    saveActiveId(id);
+  },
+}));
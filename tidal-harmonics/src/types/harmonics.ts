@@ -4,6 +4,7 @@ export interface Constituent {
   symbol: string;
   name: string;
   doodson: [number, number, number, number, number, number];
+  doodsonPhase: number; // phase constant in quarter cycles (×90°)
   speed: number; // degrees per hour
   period: number; // hours
   family: ConstituentFamily;
@@ -35,6 +36,13 @@ export interface ConstituentValue {
   phase: number; // degrees (Greenwich phase lag)
 }
 
+export type TidalDatumCode = 'HAT' | 'MHHW' | 'MHW' | 'DTL' | 'MTL' | 'MSL' | 'MLW' | 'MLLW' | 'LAT';
+
+export interface TidalDatums {
+  epoch: string; // "1983-2001"
+  levels: Record<TidalDatumCode, number>; // meters, in the station's height frame
+}
+
 export interface TideStation {
   id: string;
   name: string;
@@ -46,6 +54,87 @@ export interface TideStation {
   datum: string; // "MLLW", "MSL", etc.
   harmonicEpoch: string; // "1983-2001"
   constituents: ConstituentValue[];
+  meanLevel?: number; // Z0: mean sea level above the station datum (meters, default 0)
+  datums?: TidalDatums;
+  subordinate?: SubordinateReference;
+  virtual?: VirtualStationSource;
+}
+
+// Corrections from a reference station's high and low waters to a
+// subordinate (secondary) station's, as published in tide tables
+export interface SubordinateOffsets {
+  highTime: number; // minutes added to reference high water times
+  lowTime: number; // minutes added to reference low water times
+  // 'ratio': reference heights above its MLLW are multiplied (NOAA)
+  // 'offset': meters are added to reference heights about mean level (Admiralty)
+  heightType: 'ratio' | 'offset';
+  highHeight: number;
+  lowHeight: number;
+  // 'ratio': the reference's MLLW below its mean level (m), as published
+  // with its datums; ratios scale heights above it
+  referenceLowWater?: number;
+}
+
+export interface SubordinateReference {
+  referenceId: string;
+  referenceName: string;
+  offsets: SubordinateOffsets;
+}
+
+// A station contributing to a virtual station, with its share of the weights
+export interface VirtualStationContributor {
+  id: string;
+  name: string;
+  distanceKm: number;
+  weight: number; // 0-1, summing to 1 over the contributors
+}
+
+// How a virtual station's constants were interpolated from nearby stations
+export interface VirtualStationSource {
+  contributors: VirtualStationContributor[];
+  // 0-1: agreement of the contributors' dominant constituent, 1 when in phase
+  coherence: number;
+  // 0-1: coherence discounted by the weighted distance to the contributors
+  confidence: number;
+}
+
+// A station predicted from a reference station's extremes
+// Its constituents are the reference station's, for views that read the
+// harmonic constants directly; heights and times come from the corrected
+// extremes with the curve interpolated between them.
+export type SubordinateStation = TideStation & { subordinate: SubordinateReference };
+
+// A subordinate station as published, before its reference is looked up
+export type SubordinateStationDefinition = Omit<TideStation, 'constituents' | 'harmonicEpoch' | 'subordinate'> & {
+  referenceId: string;
+  offsets: SubordinateOffsets;
+};
+
+// Tidal current ellipse constants for one constituent
+// The velocity is resolved along the flood direction (major axis) and
+// 90° clockwise of it (minor axis), each predicted like a tide height.
+export interface CurrentConstituent {
+  symbol: string;
+  majorAmplitude: number; // knots
+  majorPhase: number; // degrees (Greenwich phase lag)
+  minorAmplitude: number; // knots
+  minorPhase: number; // degrees (Greenwich phase lag)
+}
+
+export interface CurrentStation {
+  id: string;
+  name: string;
+  state?: string;
+  country: string;
+  lat: number;
+  lon: number;
+  timezone: string;
+  depth?: number; // meters below the surface
+  floodDirection: number; // degrees true
+  meanCurrent: { major: number; minor: number }; // knots, residual flow such as river outflow
+  referenceStationId?: string; // tide station in the same waterway
+  harmonicEpoch: string;
+  constituents: CurrentConstituent[];
 }
 
 export interface TidePrediction {
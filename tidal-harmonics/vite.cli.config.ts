@@ -0,0 +1,29 @@
+import { defineConfig } from 'vite'
+import { fileURLToPath } from 'url'
+
+// The command-line predictor (cli/tides.ts) and the local CO-OPS API server
+// (server/main.ts), bundled for Node with the app's lib and data modules;
+// catalog regions stay separate chunks
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  // The app's static assets aren't needed
+  publicDir: false,
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        tides: 'cli/tides.ts',
+        'tides-server': 'server/main.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.isEntry ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+})
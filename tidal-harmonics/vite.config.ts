@@ -37,6 +37,8 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2}'],
+        // Tide alert notifications (public/alert-sw.js)
+        importScripts: ['alert-sw.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
@@ -56,6 +58,11 @@ export default defineConfig({
       }
     })
   ],
+  worker: {
+    // Workers are bundled separately and need the @/ alias too
+    format: 'es',
+    plugins: () => [tsconfigPaths()],
+  },
   server: {
     port: 5173,
     host: true,